@@ -9,8 +9,14 @@ import queryRoute, {
 } from './routes/query';
 import chatRoute, {
   setDatabase as setChatDatabase,
+  setGazetteer as setChatGazetteer,
   setLayerRegistry as setChatLayerRegistry,
 } from './routes/chat';
+import conversationsRoute, {
+  setDatabase as setConversationsDatabase,
+  setLayerRegistry as setConversationsLayerRegistry,
+} from './routes/conversations';
+import shareRoute, { setLayerRegistry as setShareLayerRegistry } from './routes/share';
 import templatesRoute, {
   setAvailableLayers as setTemplateAvailableLayers,
 } from './routes/templates';
@@ -19,6 +25,7 @@ import { createServer as createNetServer } from 'node:net';
 import { randomUUID } from 'node:crypto';
 import { join } from 'path';
 import { buildLayerRegistry } from './lib/layers/registry';
+import { buildGazetteer } from './lib/geocoding/loader';
 import {
   RateLimiter,
   createRateLimitMiddleware,
@@ -27,7 +34,11 @@ import {
 import { log } from './lib/logger';
 import { createLLMClient } from './lib/llm';
 import { getRequestId, setRequestId } from './lib/request-id';
-import { stopConversationPruneInterval } from './lib/conversation/store';
+import {
+  getConversationStore,
+  stopConversationPruneInterval,
+} from './lib/conversation/store';
+import { getShareStore } from './lib/share/store';
 import type { Database } from 'duckdb';
 
 const app = new Hono();
@@ -121,13 +132,15 @@ app.use('*', async (c, next) => {
 });
 
 // ── Rate limiting ──────────────────────────────────────────────────────────────
-// 10 req/min on /api/chat (LLM-backed), 30 req/min on /api/query (direct SQL).
-// /api/layers, /api/health, /api/templates are unrestricted.
+// 10 req/min on /api/chat (LLM-backed), 30 req/min on /api/query and
+// /api/conversations (direct SQL, replay) and /api/share. /api/layers, /api/health, /api/templates are unrestricted.
 const chatLimiter = new RateLimiter(10, 60_000);
 const queryLimiter = new RateLimiter(30, 60_000);
 
 app.use('/api/chat/*', createRateLimitMiddleware(chatLimiter));
 app.use('/api/query/*', createRateLimitMiddleware(queryLimiter));
+app.use('/api/conversations/*', createRateLimitMiddleware(queryLimiter));
+app.use('/api/share/*', createRateLimitMiddleware(queryLimiter));
 
 // Prune expired rate-limit entries every 5 minutes (keeps memory bounded).
 setInterval(() => {
@@ -143,6 +156,8 @@ app.get('/api/health', (c) => {
 app.route('/api/layers', layers);
 app.route('/api/query', queryRoute);
 app.route('/api/chat', chatRoute);
+app.route('/api/conversations', conversationsRoute);
+app.route('/api/share', shareRoute);
 app.route('/api/templates', templatesRoute);
 
 // ── Graceful shutdown ─────────────────────────────────────────────────────────
@@ -236,6 +251,7 @@ async function startServer() {
     const db = await initDatabase(':memory:', dataDir);
     setQueryDatabase(db);
     setChatDatabase(db);
+    setConversationsDatabase(db);
     dbForShutdown = db;
     console.log('✓ DuckDB initialized with spatial extension');
 
@@ -244,11 +260,19 @@ async function startServer() {
     setLayersRegistry(layerRegistry);
     setQueryLayerRegistry(layerRegistry);
     setChatLayerRegistry(layerRegistry);
+    setConversationsLayerRegistry(layerRegistry);
+    setShareLayerRegistry(layerRegistry);
     setTemplateAvailableLayers(layerRegistry.loadedLayerNames);
     console.log(
       `✓ Layer registry initialized (${layerRegistry.loadedLayerNames.length} loaded layers)`
     );
 
+    const gazetteer = await buildGazetteer(db, layerRegistry);
+    setChatGazetteer(gazetteer);
+    console.log(`✓ Gazetteer initialized (${gazetteer.size} addresses and places)`);
+    console.log(`✓ Conversation store: ${getConversationStore().backend}`);
+    console.log(`✓ Share store: ${getShareStore().backend}`);
+
     const port = await resolveListenPort();
     const portEnvUnset = process.env.PORT === undefined || process.env.PORT === '';
     if (portEnvUnset && port !== 3000) {
@@ -280,6 +304,8 @@ async function startServer() {
           level: 'info',
           event: 'llm.warmup',
           status: 'ok',
+          llmProvider: llm.providerName ?? 'unknown',
+          llmModel: llm.modelName ?? 'unknown',
           durationMs: Math.round(performance.now() - warmupStart),
         });
       } catch (err) {
@@ -0,0 +1,244 @@
+/**
+ * File-backed conversation store
+ *
+ * One JSON file per session in a directory, so sessions and their full
+ * turn history survive restarts and deploys when the directory is on a
+ * persistent volume. An in-memory index of last-access times (rebuilt from
+ * the files at startup) drives LRU eviction and pruning without reading
+ * every file. Sessions are not dropped for being idle: only eviction when
+ * the store is full removes them, plus pruning after an optional retention
+ * period. Writes to one session run one at a time, so concurrent turns
+ * on a conversation never overwrite each other.
+ *
+ * Configure with CONVERSATION_STORE=file, CONVERSATION_STORE_DIR and
+ * CONVERSATION_RETENTION_DAYS.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { log } from '../logger';
+import {
+  MAX_SESSIONS,
+  applyTurn,
+  createEmptySession,
+} from './session';
+import type {
+  ConversationSession,
+  ConversationStore,
+  ConversationTurnInput,
+  PendingClarification,
+} from './types';
+
+const SESSION_FILE_RE = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.json$/;
+
+type StoredSession = Omit<ConversationSession, 'createdAt' | 'lastAccessedAt' | 'turns' | 'pendingClarification'> & {
+  pendingClarification?: PendingClarification | null; // Missing in sessions saved before clarifications
+  createdAt: string;
+  lastAccessedAt: string;
+  turns: (Omit<ConversationSession['turns'][number], 'createdAt'> & { createdAt: string })[];
+};
+
+function reviveSession(stored: StoredSession): ConversationSession {
+  return {
+    ...stored,
+    pendingClarification: stored.pendingClarification ?? null,
+    createdAt: new Date(stored.createdAt),
+    lastAccessedAt: new Date(stored.lastAccessedAt),
+    turns: stored.turns.map((turn) => ({ ...turn, createdAt: new Date(turn.createdAt) })),
+  };
+}
+
+export class FileConversationStore implements ConversationStore {
+  readonly backend = 'file';
+  // Last access time per session id, in least-recently-used order
+  private index = new Map<string, number>();
+  // Tail of the pending writes per session id
+  private writes = new Map<string, Promise<unknown>>();
+  private ready: Promise<void>;
+
+  /**
+   * @param retentionMs - Idle time after which prune() deletes a session;
+   *   without it sessions are only evicted when the store is full
+   */
+  constructor(
+    private dir: string,
+    private maxSessions: number = MAX_SESSIONS,
+    private retentionMs?: number
+  ) {
+    this.ready = this.loadIndex();
+    // Report a directory that can't be created or listed once here; every
+    // operation then rejects with the same error
+    this.ready.catch((error: unknown) => {
+      log({
+        level: 'error',
+        event: 'conversation.store_unavailable',
+        backend: this.backend,
+        dir: this.dir,
+        error: error instanceof Error ? error.message : 'unknown',
+      });
+    });
+  }
+
+  async get(id: string): Promise<ConversationSession | null> {
+    await this.ready;
+    // Only ids in the index reach the filesystem, so ids never build paths
+    if (!this.index.has(id)) {
+      return null;
+    }
+    const session = await this.read(id);
+    if (!session) {
+      this.index.delete(id);
+      return null;
+    }
+    // Reads only refresh the index; the file keeps the last write's time
+    session.lastAccessedAt = new Date();
+    if (this.index.delete(id)) {
+      this.index.set(id, session.lastAccessedAt.getTime());
+    }
+    return session;
+  }
+
+  async create(): Promise<string> {
+    await this.ready;
+    while (this.index.size >= this.maxSessions) {
+      const oldest = this.index.keys().next().value as string;
+      await this.remove(oldest);
+      log({
+        level: 'warn',
+        event: 'conversation.session_evicted',
+        backend: this.backend,
+        maxSessions: this.maxSessions,
+      });
+    }
+
+    const id = randomUUID();
+    await this.save(createEmptySession(id));
+    return id;
+  }
+
+  async recordTurn(
+    id: string,
+    turn: ConversationTurnInput
+  ): Promise<ConversationSession | null> {
+    await this.ready;
+    return this.update(id, (session) => {
+      applyTurn(session, turn);
+    });
+  }
+
+  async setPendingClarification(
+    id: string,
+    pending: PendingClarification | null
+  ): Promise<ConversationSession | null> {
+    await this.ready;
+    return this.update(id, (session) => {
+      session.pendingClarification = pending;
+      session.lastAccessedAt = new Date();
+    });
+  }
+
+  async prune(now: Date = new Date()): Promise<number> {
+    await this.ready;
+    const { retentionMs } = this;
+    if (retentionMs === undefined) {
+      return 0;
+    }
+    const expired = Array.from(this.index.entries())
+      .filter(([, lastAccessedAt]) => now.getTime() - lastAccessedAt > retentionMs)
+      .map(([id]) => id);
+    for (const id of expired) {
+      await this.remove(id);
+    }
+    return expired.length;
+  }
+
+  private async loadIndex(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const entries: [string, number][] = [];
+    for (const file of await readdir(this.dir)) {
+      const id = SESSION_FILE_RE.exec(file)?.[1];
+      if (!id) continue;
+      const session = await this.read(id);
+      if (session) {
+        entries.push([id, session.lastAccessedAt.getTime()]);
+      }
+    }
+    entries.sort((a, b) => a[1] - b[1]);
+    for (const [id, lastAccessedAt] of entries) {
+      this.index.set(id, lastAccessedAt);
+    }
+  }
+
+  /**
+   * Read, change and write back one session, after any write to the same
+   * session that is still in flight
+   */
+  private update(
+    id: string,
+    change: (session: ConversationSession) => void
+  ): Promise<ConversationSession | null> {
+    return this.serialize(id, async () => {
+      if (!this.index.has(id)) {
+        return null;
+      }
+      const session = await this.read(id);
+      if (!session) {
+        this.index.delete(id);
+        return null;
+      }
+      change(session);
+      await this.save(session);
+      return session;
+    });
+  }
+
+  private serialize<T>(id: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.writes.get(id) ?? Promise.resolve();
+    const next = previous.then(operation);
+    const tail = next.catch(() => undefined);
+    this.writes.set(id, tail);
+    void tail.then(() => {
+      if (this.writes.get(id) === tail) {
+        this.writes.delete(id);
+      }
+    });
+    return next;
+  }
+
+  private sessionPath(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+
+  private async read(id: string): Promise<ConversationSession | null> {
+    try {
+      const raw = await readFile(this.sessionPath(id), 'utf8');
+      return reviveSession(JSON.parse(raw) as StoredSession);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log({
+          level: 'warn',
+          event: 'conversation.session_unreadable',
+          backend: this.backend,
+          error: error instanceof Error ? error.message : 'unknown',
+        });
+      }
+      return null;
+    }
+  }
+
+  /** Write via a temp file and rename so a crash never leaves half a session */
+  private async save(session: ConversationSession): Promise<void> {
+    const target = this.sessionPath(session.id);
+    const temp = `${target}.${randomUUID()}.tmp`;
+    await writeFile(temp, JSON.stringify(session), 'utf8');
+    await rename(temp, target);
+    this.index.delete(session.id);
+    this.index.set(session.id, session.lastAccessedAt.getTime());
+  }
+
+  private async remove(id: string): Promise<void> {
+    this.index.delete(id);
+    await this.serialize(id, () => rm(this.sessionPath(id), { force: true }));
+  }
+}
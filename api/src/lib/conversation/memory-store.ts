@@ -0,0 +1,99 @@
+/**
+ * In-memory conversation store
+ *
+ * Sessions live in a Map kept in least-recently-used order, so eviction
+ * drops the first entry. Nothing survives a restart; use
+ * FileConversationStore when sessions must outlive the process.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { log } from '../logger';
+import {
+  MAX_SESSIONS,
+  applyTurn,
+  createEmptySession,
+  isSessionExpired,
+} from './session';
+import type {
+  ConversationSession,
+  ConversationStore,
+  ConversationTurnInput,
+  PendingClarification,
+} from './types';
+
+export class MemoryConversationStore implements ConversationStore {
+  readonly backend = 'memory';
+  private sessions = new Map<string, ConversationSession>();
+
+  constructor(private maxSessions: number = MAX_SESSIONS) {}
+
+  async get(id: string): Promise<ConversationSession | null> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return null;
+    }
+    this.touch(id, session);
+    return session;
+  }
+
+  async create(): Promise<string> {
+    while (this.sessions.size >= this.maxSessions) {
+      const oldest = this.sessions.keys().next().value as string;
+      this.sessions.delete(oldest);
+      log({
+        level: 'warn',
+        event: 'conversation.session_evicted',
+        backend: this.backend,
+        maxSessions: this.maxSessions,
+      });
+    }
+
+    const id = randomUUID();
+    this.sessions.set(id, createEmptySession(id));
+    return id;
+  }
+
+  async recordTurn(
+    id: string,
+    turn: ConversationTurnInput
+  ): Promise<ConversationSession | null> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return null;
+    }
+    applyTurn(session, turn);
+    this.touch(id, session);
+    return session;
+  }
+
+  async setPendingClarification(
+    id: string,
+    pending: PendingClarification | null
+  ): Promise<ConversationSession | null> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return null;
+    }
+    session.pendingClarification = pending;
+    this.touch(id, session);
+    return session;
+  }
+
+  async prune(now: Date = new Date()): Promise<number> {
+    let pruned = 0;
+    for (const [id, session] of this.sessions.entries()) {
+      if (isSessionExpired(session, now)) {
+        this.sessions.delete(id);
+        pruned += 1;
+      }
+    }
+    return pruned;
+  }
+
+  /** Move the session to the most recently used end */
+  private touch(id: string, session: ConversationSession): void {
+    session.lastAccessedAt = new Date();
+    this.sessions.delete(id);
+    this.sessions.set(id, session);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Conversation replay
+ *
+ * Re-executes every recorded turn of a session against the data loaded
+ * now, so a saved conversation can be restored after the underlying
+ * layers have been refreshed. Turns replay in order on a scratch session,
+ * which lets `$previous` and `$turn<N>` targets resolve exactly as they
+ * did when the conversation happened. The stored session is not modified.
+ */
+
+import type { Database } from 'duckdb';
+import type { LayerRegistry } from '../layers/registry';
+import type {
+  ConversationReplay,
+  QueryResult,
+  ReplayedTurn,
+} from '../../../../shared/types/api';
+import { executeQuery, prepareQuery } from '../utils/query-executor';
+import { log } from '../logger';
+import { applyTurn, createEmptySession, getSessionResultSets } from './session';
+import type { ConversationSession } from './types';
+
+export async function replayConversation(
+  session: ConversationSession,
+  registry: LayerRegistry,
+  db: Database
+): Promise<ConversationReplay> {
+  const scratch = createEmptySession(session.id);
+  const turns: ReplayedTurn[] = [];
+  let result: QueryResult | null = null;
+
+  for (const recorded of session.turns) {
+    const replayed: ReplayedTurn = {
+      turn: recorded.turn,
+      message: recorded.message,
+      query: recorded.query,
+      featureCount: 0,
+      previousFeatureCount: recorded.featureCount,
+    };
+    result = null;
+
+    try {
+      const prepared = prepareQuery(recorded.query, registry, getSessionResultSets(scratch));
+      const execution = await executeQuery(prepared, db, { skipCache: true });
+      const executionTimeMs = Math.round(execution.executionTimeMs * 100) / 100;
+      replayed.query = prepared.executableQuery;
+      replayed.queryHash = prepared.queryHash;
+      replayed.featureCount = execution.result.features.length;
+      replayed.executionTimeMs = executionTimeMs;
+      result = {
+        type: 'FeatureCollection',
+        features: execution.result.features as QueryResult['features'],
+        metadata: {
+          count: execution.result.features.length,
+          executionTimeMs,
+          queryHash: prepared.queryHash,
+          truncated: execution.result.features.length >= prepared.maxFeaturesApplied,
+          maxFeaturesApplied: prepared.maxFeaturesApplied,
+        },
+      };
+    } catch (error) {
+      const prepErr = error as Error & { validationIssues?: string[] };
+      replayed.error = prepErr.validationIssues?.join('; ')
+        ?? (error instanceof Error ? error.message : 'unknown');
+      log({
+        level: 'warn',
+        event: 'conversation.replay_turn_failed',
+        turn: recorded.turn,
+        error: replayed.error,
+      });
+    }
+
+    // Keep the turn's result set even when it failed so later turn numbers
+    // and `$previous` still line up with the original conversation
+    applyTurn(scratch, {
+      message: recorded.message,
+      query: recorded.query,
+      queryHash: replayed.queryHash ?? recorded.queryHash,
+      explanation: recorded.explanation,
+      featureCount: replayed.featureCount,
+    });
+    turns.push(replayed);
+  }
+
+  return { conversationId: session.id, turns, result };
+}
@@ -0,0 +1,129 @@
+/**
+ * Session state shared by every conversation store backend: new sessions,
+ * recording turns and the result sets later turns can target.
+ */
+
+import {
+  PREVIOUS_RESULT_SET,
+  getResultSetTarget,
+  isResultSetTarget,
+  type StructuredQuery,
+} from '../../../../shared/types/query';
+import { getReferencedResultSets, getSpatialFilters } from '../orchestrator/query-grounding';
+import type { ConversationSession, ConversationTurnInput, SavedResultSet } from './types';
+
+// Idle time after which the in-memory store drops a session; the file
+// store keeps sessions until CONVERSATION_RETENTION_DAYS, if set
+export const SESSION_TTL_MS = 2 * 60 * 60 * 1000;
+export const MAX_SESSIONS = 1000;
+// Result sets later turns can target; the turn history itself is kept whole
+const MAX_RESULT_SETS = 10;
+
+export function createEmptySession(id: string, now: Date = new Date()): ConversationSession {
+  return {
+    id,
+    previousQuery: null,
+    previousExplanation: null,
+    turnCount: 0,
+    turns: [],
+    resultSets: [],
+    pendingClarification: null,
+    createdAt: now,
+    lastAccessedAt: now,
+  };
+}
+
+export function isSessionExpired(session: ConversationSession, now: Date): boolean {
+  return now.getTime() - session.lastAccessedAt.getTime() > SESSION_TTL_MS;
+}
+
+/**
+ * Result set targets available to the next turn: `$previous`, every
+ * `$turn<N>` and `$<name>`, plus the sets those depend on
+ */
+export function getSessionResultSets(
+  session: ConversationSession
+): Record<string, StructuredQuery> {
+  const resultSets: Record<string, StructuredQuery> = {};
+  for (const saved of session.resultSets) {
+    Object.assign(resultSets, saved.dependencies);
+  }
+  for (const saved of session.resultSets) {
+    resultSets[getResultSetTarget(`turn${saved.turn}`)] = saved.query;
+    if (saved.name) {
+      resultSets[getResultSetTarget(saved.name)] = saved.query;
+    }
+  }
+  const latest = session.resultSets[session.resultSets.length - 1];
+  if (latest) {
+    resultSets[PREVIOUS_RESULT_SET] = latest.query;
+  }
+  return resultSets;
+}
+
+/**
+ * Copy of the query with `$previous` and named targets rewritten to the
+ * `$turn<N>` alias they refer to right now
+ */
+function pinResultSetTargets(
+  query: StructuredQuery,
+  session: ConversationSession
+): StructuredQuery {
+  const aliases = new Map<string, string>();
+  for (const saved of session.resultSets) {
+    const alias = getResultSetTarget(`turn${saved.turn}`);
+    if (saved.name) {
+      aliases.set(getResultSetTarget(saved.name), alias);
+    }
+    aliases.set(PREVIOUS_RESULT_SET, alias);
+  }
+
+  const pinned = structuredClone(query);
+  for (const filter of getSpatialFilters(pinned)) {
+    if (isResultSetTarget(filter.targetLayer)) {
+      filter.targetLayer = aliases.get(filter.targetLayer) ?? filter.targetLayer;
+    }
+  }
+  return pinned;
+}
+
+/**
+ * Append a completed turn to the session in place: turn history, the
+ * previous-query context and the turn's result set
+ */
+export function applyTurn(
+  session: ConversationSession,
+  input: ConversationTurnInput,
+  now: Date = new Date()
+): ConversationSession {
+  const turn = session.turnCount + 1;
+  const pinned = pinResultSetTargets(input.query, session);
+  const saved: SavedResultSet = {
+    turn,
+    query: pinned,
+    layer: input.query.selectLayer,
+    featureCount: input.featureCount,
+    dependencies: getReferencedResultSets(pinned, getSessionResultSets(session)),
+  };
+  if (input.query.saveAs) {
+    saved.name = input.query.saveAs;
+    // A reused name moves to the newest result
+    for (const existing of session.resultSets) {
+      if (existing.name === input.query.saveAs) {
+        delete existing.name;
+      }
+    }
+  }
+  session.resultSets.push(saved);
+  if (session.resultSets.length > MAX_RESULT_SETS) {
+    session.resultSets.shift();
+  }
+
+  session.turns.push({ ...input, turn, createdAt: now });
+  session.previousQuery = input.query;
+  session.previousExplanation = input.explanation;
+  session.turnCount = turn;
+  session.pendingClarification = null;
+  session.lastAccessedAt = now;
+  return session;
+}
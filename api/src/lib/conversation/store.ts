@@ -1,82 +1,81 @@
-import { randomUUID } from 'node:crypto';
-import type { StructuredQuery } from '../../../../shared/types/query';
-import { log } from '../logger';
+/**
+ * Conversation Store Module
+ *
+ * Holds the active ConversationStore used by the chat route and prunes
+ * expired sessions on an interval.
+ */
 
-const SESSION_TTL_MS = 2 * 60 * 60 * 1000;
-const PRUNE_INTERVAL_MS = 15 * 60 * 1000;
-const MAX_SESSIONS = 1000;
+import { join } from 'node:path';
+import { log } from '../logger';
+import { FileConversationStore } from './file-store';
+import { MemoryConversationStore } from './memory-store';
+import { MAX_SESSIONS } from './session';
+import type { ConversationStore } from './types';
 
-export interface ConversationSession {
-  previousQuery: StructuredQuery | null;
-  previousExplanation: string | null;
-  turnCount: number;
-  lastAccessedAt: Date;
-}
+export type {
+  ConversationSession,
+  ConversationStore,
+  ConversationTurn,
+  ConversationTurnInput,
+  PendingClarification,
+  SavedResultSet,
+} from './types';
+export { MemoryConversationStore } from './memory-store';
+export { FileConversationStore } from './file-store';
+export { getSessionResultSets } from './session';
 
-// This is an in-memory store. It does not survive restarts. A future implementation should use Redis or a persistent store.
-const sessions = new Map<string, ConversationSession>();
+const PRUNE_INTERVAL_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-export function getSession(id: string): ConversationSession | null {
-  const session = sessions.get(id);
-  if (!session) {
-    return null;
+/**
+ * Create the conversation store configured by environment.
+ *
+ * - CONVERSATION_STORE=file → FileConversationStore in CONVERSATION_STORE_DIR
+ *   (default: data/conversations), keeping sessions until evicted or, when
+ *   CONVERSATION_RETENTION_DAYS is set, idle for that many days
+ * - CONVERSATION_STORE=memory → MemoryConversationStore
+ * - Unset → file in production, memory otherwise
+ */
+export function createConversationStore(): ConversationStore {
+  const configured = process.env.CONVERSATION_STORE
+    ?? (process.env.NODE_ENV === 'production' ? 'file' : 'memory');
+  if (configured === 'file') {
+    const dir = process.env.CONVERSATION_STORE_DIR
+      ?? join(process.cwd(), 'data', 'conversations');
+    const retentionDays = Number(process.env.CONVERSATION_RETENTION_DAYS) || 0;
+    return new FileConversationStore(
+      dir,
+      MAX_SESSIONS,
+      retentionDays > 0 ? retentionDays * DAY_MS : undefined
+    );
   }
-  session.lastAccessedAt = new Date();
-  return session;
-}
-
-export function createSession(): string | null {
-  if (sessions.size >= MAX_SESSIONS) {
-    log({
-      level: 'warn',
-      event: 'conversation.store_full',
-      conversationStoreFull: true,
-      maxSessions: MAX_SESSIONS,
-      sessionCount: sessions.size,
-    });
-    return null;
+  if (configured !== 'memory') {
+    throw new Error(`Unknown CONVERSATION_STORE "${configured}" (expected "memory" or "file")`);
   }
-
-  const id = randomUUID();
-  sessions.set(id, {
-    previousQuery: null,
-    previousExplanation: null,
-    turnCount: 0,
-    lastAccessedAt: new Date(),
-  });
-  return id;
+  return new MemoryConversationStore();
 }
 
-export function updateSession(
-  id: string,
-  query: StructuredQuery,
-  explanation: string
-): ConversationSession | null {
-  const session = sessions.get(id);
-  if (!session) {
-    return null;
-  }
+let activeStore: ConversationStore | null = null;
 
-  session.previousQuery = query;
-  session.previousExplanation = explanation;
-  session.turnCount += 1;
-  session.lastAccessedAt = new Date();
-  return session;
+export function getConversationStore(): ConversationStore {
+  activeStore ??= createConversationStore();
+  return activeStore;
 }
 
-export function pruneOldSessions(now: Date = new Date()): number {
-  let pruned = 0;
-  for (const [id, session] of sessions.entries()) {
-    if (now.getTime() - session.lastAccessedAt.getTime() > SESSION_TTL_MS) {
-      sessions.delete(id);
-      pruned += 1;
-    }
-  }
-  return pruned;
+export function setConversationStore(store: ConversationStore): void {
+  activeStore = store;
 }
 
 const pruneInterval = setInterval(() => {
-  pruneOldSessions();
+  getConversationStore()
+    .prune()
+    .catch((error: unknown) => {
+      log({
+        level: 'warn',
+        event: 'conversation.prune_failed',
+        error: error instanceof Error ? error.message : 'unknown',
+      });
+    });
 }, PRUNE_INTERVAL_MS);
 pruneInterval.unref();
 
@@ -85,5 +84,5 @@ export function stopConversationPruneInterval(): void {
 }
 
 export function __clearConversationSessionsForTests(): void {
-  sessions.clear();
+  activeStore = new MemoryConversationStore();
 }
@@ -0,0 +1,103 @@
+/**
+ * Conversation Store Interface
+ *
+ * Chat sessions behind a swappable backend (in-memory, file-backed) so
+ * conversations can outlive a process when the deployment needs it.
+ */
+
+import type { StructuredQuery } from '../../../../shared/types/query';
+import type { Clarification, ClarificationChoice } from '../../../../shared/types/api';
+
+/**
+ * One completed chat turn, kept in full for history and replay
+ */
+export interface ConversationTurn {
+  turn: number;
+  message: string;
+  query: StructuredQuery;
+  queryHash: string;
+  explanation: string;
+  featureCount: number;
+  createdAt: Date;
+}
+
+export type ConversationTurnInput = Omit<ConversationTurn, 'turn' | 'createdAt'>;
+
+/**
+ * A turn's result kept as a spatial target for later turns. References to
+ * other sets are pinned to their `$turn<N>` alias, and the sets they need
+ * are copied into dependencies so eviction never breaks a saved query.
+ */
+export interface SavedResultSet {
+  turn: number;
+  name?: string;
+  query: StructuredQuery;
+  layer: string;
+  featureCount: number;
+  dependencies: Record<string, StructuredQuery>;
+}
+
+/**
+ * A clarification question waiting for the user's reply. Each choice
+ * carries the original request rewritten with it, which runs when the
+ * reply picks that choice.
+ */
+export interface PendingClarification {
+  message: string;
+  reason: Clarification['reason'];
+  choices: (ClarificationChoice & { message: string })[];
+}
+
+export interface ConversationSession {
+  id: string;
+  previousQuery: StructuredQuery | null;
+  previousExplanation: string | null;
+  turnCount: number;
+  turns: ConversationTurn[];
+  resultSets: SavedResultSet[];
+  pendingClarification: PendingClarification | null;
+  createdAt: Date;
+  lastAccessedAt: Date;
+}
+
+/**
+ * Conversation store interface
+ *
+ * Implementations: MemoryConversationStore, FileConversationStore
+ */
+export interface ConversationStore {
+  readonly backend: string;
+
+  /**
+   * Session by id, marking it as recently used; null when unknown
+   */
+  get(id: string): Promise<ConversationSession | null>;
+
+  /**
+   * Start an empty session. When the store is full the least recently
+   * used session is evicted to make room.
+   */
+  create(): Promise<string>;
+
+  /**
+   * Append a completed turn; null when the session no longer exists
+   */
+  recordTurn(id: string, turn: ConversationTurnInput): Promise<ConversationSession | null>;
+
+  /**
+   * Set or clear the question awaiting a reply; null when the session no
+   * longer exists. Recording a turn also clears it.
+   */
+  setPendingClarification(
+    id: string,
+    pending: PendingClarification | null
+  ): Promise<ConversationSession | null>;
+
+  /**
+   * Delete sessions idle for longer than the backend keeps them: the
+   * session TTL in memory, the optional retention period on file
+   *
+   * @returns Number of sessions removed
+   */
+  prune(now?: Date): Promise<number>;
+}
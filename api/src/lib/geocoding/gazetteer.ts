@@ -0,0 +1,285 @@
+/**
+ * Offline gazetteer
+ *
+ * Resolves addresses and place names mentioned in chat messages to
+ * features of loaded layers, so spatial filters can target "123 Canyon Rd"
+ * or "the Railyard" instead of a whole layer. Built once at startup from
+ * the layer tables (see loader.ts); no external geocoding service is called.
+ */
+
+import type { AttributeFilter } from '../../../../shared/types/query';
+
+export type PlaceKind = 'address' | 'place';
+
+/**
+ * Layer field whose values become gazetteer names
+ */
+export interface GazetteerSource {
+  layer: string;
+  field: string;
+  kind: PlaceKind;
+}
+
+/**
+ * Sources in priority order: when two entries share a name, the earlier
+ * source wins (parcel addresses before building addresses, and so on).
+ */
+export const GAZETTEER_SOURCES: GazetteerSource[] = [
+  { layer: 'parcels', field: 'address', kind: 'address' },
+  { layer: 'building_footprints', field: 'address', kind: 'address' },
+  { layer: 'neighborhoods', field: 'name', kind: 'place' },
+  { layer: 'historic_districts', field: 'district_name', kind: 'place' },
+  { layer: 'parks', field: 'name', kind: 'place' },
+];
+
+export interface GazetteerEntry {
+  name: string; // Stored value, used verbatim in the target filter
+  layer: string;
+  field: string;
+  kind: PlaceKind;
+}
+
+export interface PlaceMatch {
+  text: string; // Normalized words of the message that matched
+  entry: GazetteerEntry;
+}
+
+export interface PlaceLookup {
+  matches: PlaceMatch[];
+  unresolvedAddresses: string[]; // Address-like mentions with no entry
+}
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  rd: 'road',
+  st: 'street',
+  ave: 'avenue',
+  av: 'avenue',
+  dr: 'drive',
+  ln: 'lane',
+  blvd: 'boulevard',
+  ct: 'court',
+  pl: 'place',
+  cir: 'circle',
+  trl: 'trail',
+  hwy: 'highway',
+  pkwy: 'parkway',
+  n: 'north',
+  s: 'south',
+  e: 'east',
+  w: 'west',
+};
+
+const STREET_TYPES = new Set([
+  'road', 'street', 'avenue', 'drive', 'lane', 'boulevard', 'court', 'place',
+  'circle', 'trail', 'highway', 'parkway', 'way',
+]);
+
+// "Railyard Park" is also found as "the Railyard"
+const PLACE_ALIAS_SUFFIXES = ['historic district', 'district', 'neighborhood', 'park'];
+
+// Longest name, in words, tried when scanning a message
+const MAX_NAME_WORDS = 8;
+
+const ADDRESS_MENTION_PATTERN =
+  /\b\d{1,6}\s+(?:[a-z][\w.'-]*\s+){1,4}?(?:road|rd|street|st|avenue|ave|drive|dr|lane|ln|boulevard|blvd|court|ct|place|pl|way|trail|trl|circle|cir|highway|hwy|parkway|pkwy)\b\.?/gi;
+
+// "500 meters of Canyon Rd" is a distance, not an address
+const DISTANCE_UNITS = new Set([
+  'm', 'meter', 'meters', 'metre', 'metres', 'km', 'ft', 'feet', 'foot',
+  'mi', 'mile', 'miles', 'yd', 'yards', 'acres', 'metros', 'pies', 'millas',
+]);
+
+/**
+ * Lowercase, strip accents and punctuation, and expand street
+ * abbreviations so "123 Canyon Rd." and "123 CANYON ROAD" compare equal.
+ */
+export function normalizePlaceName(text: string): string {
+  const words = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter((word) => word.length > 0)
+    .map((word) => STREET_ABBREVIATIONS[word] ?? word);
+  if (words[0] === 'the') {
+    words.shift();
+  }
+  return words.join(' ');
+}
+
+export class Gazetteer {
+  private index = new Map<string, GazetteerEntry[]>();
+  private aliasIndex = new Map<string, GazetteerEntry[]>();
+  private streetIndex = new Map<string, { number: number; entry: GazetteerEntry }[]>();
+  private places: { key: string; entry: GazetteerEntry }[] = [];
+
+  constructor(entries: GazetteerEntry[] = []) {
+    for (const entry of entries) {
+      const key = normalizePlaceName(entry.name);
+      if (!key) continue;
+      if (!this.index.has(key)) {
+        const address = entry.kind === 'address' ? splitAddress(key) : null;
+        if (address) {
+          const onStreet = this.streetIndex.get(address.street) ?? [];
+          onStreet.push({ number: address.number, entry });
+          this.streetIndex.set(address.street, onStreet);
+        } else if (entry.kind === 'place') {
+          this.places.push({ key, entry });
+        }
+      }
+      addToIndex(this.index, key, entry);
+
+      const alias = entry.kind === 'place' ? getPlaceAlias(key) : getAddressAlias(key);
+      if (alias) {
+        addToIndex(this.aliasIndex, alias, entry);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * Best entry for a name: exact names before aliases, then source priority
+   */
+  lookup(text: string): GazetteerEntry | null {
+    const key = normalizePlaceName(text);
+    return this.index.get(key)?.[0] ?? this.aliasIndex.get(key)?.[0] ?? null;
+  }
+
+  /**
+   * Places on the given layers whose names contain every word of a term,
+   * e.g. "downtown" → "Downtown and Eastside Historic District"
+   */
+  findPlacesContaining(term: string, layers: string[], limit: number): GazetteerEntry[] {
+    const termWords = normalizePlaceName(term).split(' ').filter((word) => word.length > 0);
+    if (termWords.length === 0) {
+      return [];
+    }
+    return this.places
+      .filter(({ key, entry }) => {
+        const words = key.split(' ');
+        return layers.includes(entry.layer) && termWords.every((word) => words.includes(word));
+      })
+      .map(({ entry }) => entry)
+      .slice(0, limit);
+  }
+
+  /**
+   * Known addresses on the street of an address mention, closest house
+   * number first ("999 Nowhere Rd" → "1001 NOWHERE RD", ...)
+   */
+  findAddressesOnStreet(mention: string, limit: number): GazetteerEntry[] {
+    const address = splitAddress(normalizePlaceName(mention));
+    if (!address) {
+      return [];
+    }
+    return [...(this.streetIndex.get(address.street) ?? [])]
+      .sort((a, b) => Math.abs(a.number - address.number) - Math.abs(b.number - address.number))
+      .map(({ entry }) => entry)
+      .slice(0, limit);
+  }
+
+  /**
+   * Find known addresses and places in a message, longest match first and
+   * without overlaps, plus address-like mentions that matched nothing.
+   */
+  findInText(message: string): PlaceLookup {
+    const words = normalizePlaceName(message).split(' ');
+    const matches: PlaceMatch[] = [];
+
+    for (let i = 0; i < words.length; ) {
+      let matched = false;
+      for (let length = Math.min(MAX_NAME_WORDS, words.length - i); length > 0; length--) {
+        const text = words.slice(i, i + length).join(' ');
+        const entry = this.index.get(text)?.[0] ?? this.aliasIndex.get(text)?.[0];
+        if (entry && !matches.some((match) => match.entry === entry)) {
+          matches.push({ text, entry });
+          i += length;
+          matched = true;
+          break;
+        }
+      }
+      if (!matched) i++;
+    }
+
+    const unresolvedAddresses: string[] = [];
+    for (const mention of message.match(ADDRESS_MENTION_PATTERN) ?? []) {
+      const unit = mention.trim().split(/\s+/)[1]?.toLowerCase() ?? '';
+      if (DISTANCE_UNITS.has(unit)) continue;
+      const key = normalizePlaceName(mention);
+      if (!matches.some((match) => match.text === key || match.text.startsWith(`${key} `))) {
+        unresolvedAddresses.push(mention.trim());
+      }
+    }
+
+    return { matches, unresolvedAddresses };
+  }
+}
+
+/**
+ * Target for a spatial filter on a resolved place: the source layer,
+ * narrowed to features with the stored name
+ */
+export function getPlaceTarget(entry: GazetteerEntry): {
+  targetLayer: string;
+  targetFilter: AttributeFilter[];
+} {
+  return {
+    targetLayer: entry.layer,
+    targetFilter: [{ field: entry.field, op: 'eq', value: entry.name }],
+  };
+}
+
+function addToIndex(
+  index: Map<string, GazetteerEntry[]>,
+  key: string,
+  entry: GazetteerEntry
+): void {
+  const existing = index.get(key);
+  if (!existing) {
+    index.set(key, [entry]);
+  } else if (!existing.some((e) => e.layer === entry.layer && e.name === entry.name)) {
+    existing.push(entry);
+  }
+}
+
+/**
+ * "123 canyon road unit 4" is also found as "123 canyon road"
+ */
+function getAddressAlias(key: string): string | null {
+  const words = key.split(' ');
+  const streetTypeIndex = words.findIndex((word, i) => i > 1 && STREET_TYPES.has(word));
+  if (streetTypeIndex === -1 || streetTypeIndex === words.length - 1) {
+    return null;
+  }
+  return words.slice(0, streetTypeIndex + 1).join(' ');
+}
+
+/**
+ * House number and street of a normalized address: "123 canyon road unit 4"
+ * → 123, "canyon road"
+ */
+function splitAddress(key: string): { number: number; street: string } | null {
+  const words = key.split(' ');
+  const number = Number(words[0]);
+  if (words.length < 2 || !/^\d+$/.test(words[0] ?? '')) {
+    return null;
+  }
+  const streetTypeIndex = words.findIndex((word, i) => i > 1 && STREET_TYPES.has(word));
+  const street = words.slice(1, streetTypeIndex === -1 ? undefined : streetTypeIndex + 1).join(' ');
+  return { number, street };
+}
+
+function getPlaceAlias(key: string): string | null {
+  for (const suffix of PLACE_ALIAS_SUFFIXES) {
+    if (key.endsWith(` ${suffix}`)) {
+      const alias = key.slice(0, -suffix.length - 1);
+      return alias.length >= 4 ? alias : null;
+    }
+  }
+  return null;
+}
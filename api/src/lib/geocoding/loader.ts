@@ -0,0 +1,52 @@
+/**
+ * Gazetteer loader
+ *
+ * Reads gazetteer names from the DuckDB layer tables at startup.
+ */
+
+import type { Database } from 'duckdb';
+import { getConnection, query } from '../db/init';
+import type { LayerRegistry } from '../layers/registry';
+import { log } from '../logger';
+import { GAZETTEER_SOURCES, Gazetteer, type GazetteerEntry } from './gazetteer';
+
+/**
+ * Build the gazetteer from every loaded source layer. A source that fails
+ * to load is skipped so geocoding degrades instead of blocking startup.
+ */
+export async function buildGazetteer(
+  db: Database,
+  registry: LayerRegistry
+): Promise<Gazetteer> {
+  const entries: GazetteerEntry[] = [];
+
+  for (const source of GAZETTEER_SOURCES) {
+    const layer = registry.layers[source.layer];
+    if (!layer?.isLoaded || !layer.loadedFields.includes(source.field)) {
+      continue;
+    }
+
+    const conn = getConnection(db);
+    try {
+      const rows = await query<{ name: string }>(
+        conn,
+        `SELECT DISTINCT CAST("${source.field}" AS VARCHAR) AS name FROM "${source.layer}" WHERE "${source.field}" IS NOT NULL`
+      );
+      for (const row of rows) {
+        entries.push({ name: row.name, layer: source.layer, field: source.field, kind: source.kind });
+      }
+    } catch (error) {
+      log({
+        level: 'warn',
+        event: 'gazetteer.source_failed',
+        layer: source.layer,
+        error: error instanceof Error ? error.message : 'unknown',
+      });
+    } finally {
+      const closable = conn as unknown as { close?: () => void };
+      closable.close?.();
+    }
+  }
+
+  return new Gazetteer(entries);
+}
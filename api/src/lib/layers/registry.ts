@@ -1,7 +1,7 @@
 import { existsSync, readFileSync } from 'fs';
 import type { Database } from 'duckdb';
 import type { FieldType } from '../../../../shared/types/geo';
-import { LAYER_SCHEMAS } from '../../../../shared/types/geo';
+import { LAYER_SCHEMAS, getMeasureFields } from '../../../../shared/types/geo';
 import { getConnection, query } from '../db/init';
 import { log } from '../logger';
 
@@ -186,7 +186,8 @@ export async function buildLayerRegistry(
       (name) => !INTERNAL_FIELDS.has(name)
     );
     const loadedFields = unique([...manifestFields, ...describedFields]);
-    const virtualFields = VIRTUAL_FIELDS[layerName] ?? [];
+    const measureFields = getMeasureFields(layerName);
+    const virtualFields = [...(VIRTUAL_FIELDS[layerName] ?? []), ...measureFields];
     const queryableFields = getQueryableFields(
       schema.fields,
       loadedFields,
@@ -197,7 +198,10 @@ export async function buildLayerRegistry(
       name: layerName,
       geometryType: schema.geometryType,
       description: schema.description,
-      schemaFields: schema.fields,
+      schemaFields: {
+        ...schema.fields,
+        ...Object.fromEntries(measureFields.map((field) => [field, 'number' as const])),
+      },
       loadedFields,
       queryableFields,
       featureCount:
@@ -0,0 +1,195 @@
+/**
+ * Anthropic LLM Client
+ *
+ * Implementation of LLMClient for the Anthropic Messages API, and for
+ * gateways that expose the same `/messages` endpoint.
+ *
+ * Requires ANTHROPIC_API_KEY env var.
+ * Optional: ANTHROPIC_MODEL (default: claude-3-5-haiku-latest)
+ * Optional: ANTHROPIC_BASE_URL (default: https://api.anthropic.com/v1)
+ * Optional: ANTHROPIC_TIMEOUT_MS (default: 30000)
+ */
+
+import {
+  LLMProviderError,
+  type LLMClient,
+  type CompletionOptions,
+  type ProviderIdentity,
+} from './types';
+import { createRequestController, readServerSentData } from './stream';
+import { errorFromStatus, toProviderError } from './errors';
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MODEL = 'claude-3-5-haiku-latest';
+const API_VERSION = '2023-06-01';
+
+interface MessagesContentBlock {
+  type: string;
+  text?: string;
+}
+
+interface MessagesResponse {
+  content: MessagesContentBlock[];
+  stop_reason: string | null;
+}
+
+/** One `data:` payload of a streaming response; `type` names the event */
+interface MessagesStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { type: string; message: string };
+}
+
+interface MessagesErrorBody {
+  error?: { type: string; message: string };
+}
+
+export class AnthropicClient implements LLMClient {
+  readonly providerName = 'anthropic';
+  readonly modelName: string;
+  private apiKey: string;
+  private timeoutMs: number;
+  private baseUrl: string;
+
+  constructor(options?: {
+    apiKey?: string;
+    model?: string;
+    timeoutMs?: number;
+    baseUrl?: string;
+  }) {
+    this.apiKey = options?.apiKey ?? process.env.ANTHROPIC_API_KEY ?? '';
+    this.modelName = options?.model ?? process.env.ANTHROPIC_MODEL ?? DEFAULT_MODEL;
+    this.timeoutMs = options?.timeoutMs ?? (Number(process.env.ANTHROPIC_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS);
+    this.baseUrl = (options?.baseUrl ?? process.env.ANTHROPIC_BASE_URL ?? 'https://api.anthropic.com/v1')
+      .replace(/\/+$/, '');
+
+    if (!this.apiKey) {
+      throw new Error(
+        'Anthropic API key is required. Set ANTHROPIC_API_KEY env var or pass apiKey option.'
+      );
+    }
+  }
+
+  async complete(prompt: string, options?: CompletionOptions): Promise<string> {
+    const { controller, release } = createRequestController(this.timeoutMs, options?.signal);
+
+    try {
+      const response = await this.createMessage(prompt, options, false, controller.signal);
+      const data = (await response.json()) as MessagesResponse;
+      const content = data.content
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text ?? '')
+        .join('');
+
+      if (!content) {
+        throw new Error('Anthropic returned empty response');
+      }
+
+      return content;
+    } catch (error) {
+      throw this.toProviderError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Stream a completion from the Messages API's Server-Sent Events
+   */
+  async *stream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+    const { controller, release } = createRequestController(this.timeoutMs, options?.signal);
+
+    try {
+      const response = await this.createMessage(prompt, options, true, controller.signal);
+      if (!response.body) {
+        throw this.providerError('Anthropic returned an empty stream');
+      }
+
+      for await (const data of readServerSentData(response.body)) {
+        let event: MessagesStreamEvent;
+        try {
+          event = JSON.parse(data) as MessagesStreamEvent;
+        } catch (error) {
+          throw this.providerError('Anthropic sent a malformed stream event', error);
+        }
+
+        if (event.type === 'error') {
+          throw this.providerError(`Anthropic stream error: ${event.error?.message ?? 'unknown'}`);
+        }
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+          yield event.delta.text;
+        }
+        if (event.type === 'message_stop') {
+          return;
+        }
+      }
+
+      throw this.providerError('Anthropic stream ended before the response was complete');
+    } catch (error) {
+      throw this.toProviderError(error);
+    } finally {
+      // Also reached when the consumer stops reading early
+      controller.abort();
+      release();
+    }
+  }
+
+  private async createMessage(
+    prompt: string,
+    options: CompletionOptions | undefined,
+    stream: boolean,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': API_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.modelName,
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        temperature: options?.temperature ?? 0.1,
+        max_tokens: options?.maxTokens ?? 2000,
+        stream,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      let errorDetail = `${response.status} ${response.statusText}`;
+      try {
+        const body = (await response.json()) as MessagesErrorBody;
+        if (body.error?.message) {
+          errorDetail = body.error.message;
+        }
+      } catch {
+        // Ignore parse failures on error bodies
+      }
+      throw errorFromStatus(this.identity(), response, `Anthropic API error: ${errorDetail}`);
+    }
+    return response;
+  }
+
+  private providerError(message: string, cause?: unknown): LLMProviderError {
+    return new LLMProviderError(message, { ...this.identity(), kind: 'provider', cause });
+  }
+
+  private toProviderError(error: unknown): Error {
+    return toProviderError(this.identity(), error, {
+      timeout: `Anthropic request timed out after ${this.timeoutMs}ms`,
+      network: `Cannot connect to Anthropic at ${this.baseUrl}. Check network connectivity.`,
+      unknown: 'Unknown error calling Anthropic',
+    });
+  }
+
+  private identity(): ProviderIdentity {
+    return { provider: this.providerName, model: this.modelName };
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Failure classification shared by the LLM clients, so every provider
+ * reports the same LLMProviderError kinds for the same conditions
+ */
+
+import { LLMProviderError, type ProviderIdentity } from './types';
+
+/**
+ * Error for a non-2xx HTTP response: 401/403 → auth, 429 → rate_limit
+ * (with Retry-After), anything else → provider
+ */
+export function errorFromStatus(
+  identity: ProviderIdentity,
+  response: Response,
+  message: string
+): LLMProviderError {
+  if (response.status === 401 || response.status === 403) {
+    return new LLMProviderError('LLM authentication failure', {
+      ...identity,
+      kind: 'auth',
+      statusCode: response.status,
+    });
+  }
+  if (response.status === 429) {
+    return new LLMProviderError('LLM provider rate limit exceeded', {
+      ...identity,
+      kind: 'rate_limit',
+      statusCode: response.status,
+      retryAfter: response.headers.get('retry-after') ?? undefined,
+    });
+  }
+  return new LLMProviderError(message, {
+    ...identity,
+    kind: 'provider',
+    statusCode: response.status,
+  });
+}
+
+/**
+ * Classify a thrown request error: aborts → timeout, refused or failed
+ * connections → network. LLMProviderErrors and other errors pass through.
+ */
+export function toProviderError(
+  identity: ProviderIdentity,
+  error: unknown,
+  messages: { timeout: string; network: string; unknown: string }
+): Error {
+  if (error instanceof Error) {
+    if (error instanceof LLMProviderError) {
+      return error;
+    }
+    if (error.name === 'AbortError') {
+      return new LLMProviderError(messages.timeout, { ...identity, kind: 'timeout', cause: error });
+    }
+    if (error.message.includes('fetch failed') || error.message.includes('ECONNREFUSED')) {
+      return new LLMProviderError(messages.network, { ...identity, kind: 'network', cause: error });
+    }
+    return error;
+  }
+  return new LLMProviderError(messages.unknown, { ...identity, kind: 'provider' });
+}
+
+// What providers say when they refuse a response schema: OpenAI-compatible
+// servers name response_format / json_schema, Ollama its format field
+const SCHEMA_REJECTION_PATTERN = /response_format|json_schema|json schema|structured output|\bschema\b|\.format\b/i;
+
+/**
+ * A bad-request answer (400/422) whose message is about the response
+ * schema, which providers send when the model or server has no structured
+ * output support. Other bad requests are left to fail.
+ */
+export function isSchemaRejection(error: unknown): error is LLMProviderError {
+  return error instanceof LLMProviderError
+    && (error.statusCode === 400 || error.statusCode === 422)
+    && SCHEMA_REJECTION_PATTERN.test(error.message);
+}
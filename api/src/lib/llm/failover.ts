@@ -0,0 +1,315 @@
+/**
+ * LLM Failover Chain
+ *
+ * A composite LLMClient that tries an ordered list of providers (e.g.
+ * Together.ai, then local Ollama) and answers with the first that succeeds.
+ * Each provider sits behind a circuit breaker: repeated rate limits,
+ * server errors, network failures or timeouts open it, and the provider is skipped until
+ * a cooldown has passed. After the cooldown a single trial call decides
+ * whether the breaker closes again or stays open for another cooldown.
+ * A provider that rejects the response schema is asked again without it,
+ * and not sent the schema again.
+ */
+
+import {
+  LLMProviderError,
+  type CompletionOptions,
+  type LLMClient,
+  type LLMFailureKind,
+  type ProviderIdentity,
+} from './types';
+import { isSchemaRejection } from './errors';
+import { streamCompletion } from './stream';
+import { log } from '../logger';
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 30_000;
+
+/** Failures that say the provider is unhealthy rather than misconfigured */
+const BREAKER_KINDS: ReadonlySet<LLMFailureKind> = new Set(['rate_limit', 'network', 'timeout']);
+
+function countsTowardBreaker(error: unknown): boolean {
+  if (!(error instanceof LLMProviderError)) {
+    return false;
+  }
+  // 5xx (including 529 overloaded) arrive as 'provider' with their status
+  return BREAKER_KINDS.has(error.kind)
+    || (error.kind === 'provider' && (error.statusCode ?? 0) >= 500);
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures that open the breaker
+  cooldownMs?: number; // How long an open breaker skips the provider
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// ── Circuit breaker ────────────────────────────────────────────────────────────
+
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(options?: CircuitBreakerOptions) {
+    this.failureThreshold = options?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = options?.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half_open' : 'open';
+  }
+
+  /**
+   * Whether a call may go to the provider now. A half-open breaker lets
+   * one trial call through at a time.
+   */
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * End a call that says nothing about the provider's health, such as one
+   * the caller aborted, freeing the half-open trial slot
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a failed call. Only rate limits, server errors, network
+   * failures and timeouts count toward opening the breaker.
+   *
+   * @returns true when this failure opened the breaker
+   */
+  recordFailure(error: unknown): boolean {
+    const wasTrial = this.trialInFlight;
+    this.trialInFlight = false;
+    if (!countsTowardBreaker(error)) {
+      return false;
+    }
+
+    this.consecutiveFailures++;
+    if (wasTrial || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      return true;
+    }
+    return false;
+  }
+}
+
+// ── Failover client ────────────────────────────────────────────────────────────
+
+interface FailoverMember {
+  client: LLMClient;
+  identity: ProviderIdentity;
+  breaker: CircuitBreaker;
+  schemaRejected: boolean; // Refused CompletionOptions.responseSchema once
+}
+
+export class FailoverClient implements LLMClient {
+  readonly providerName = 'failover';
+  readonly modelName: string;
+  readonly supportsResponseSchema: boolean; // Members without support ignore the schema
+  private readonly members: FailoverMember[];
+
+  constructor(clients: LLMClient[], options?: CircuitBreakerOptions) {
+    if (clients.length === 0) {
+      throw new Error('FailoverClient needs at least one provider');
+    }
+    this.members = clients.map((client) => ({
+      client,
+      identity: {
+        provider: client.providerName ?? 'unknown',
+        model: client.modelName ?? 'unknown',
+      },
+      breaker: new CircuitBreaker(options),
+      schemaRejected: false,
+    }));
+    this.modelName = this.members
+      .map(({ identity }) => `${identity.provider}/${identity.model}`)
+      .join(',');
+    this.supportsResponseSchema = clients.some((client) => client.supportsResponseSchema);
+  }
+
+  /**
+   * Breaker state per provider, in chain order
+   */
+  getCircuitStates(): Array<ProviderIdentity & { state: CircuitState }> {
+    return this.members.map(({ identity, breaker }) => ({ ...identity, state: breaker.state }));
+  }
+
+  async complete(prompt: string, options?: CompletionOptions): Promise<string> {
+    let lastError: unknown = null;
+
+    for (const member of this.members) {
+      if (!member.breaker.tryAcquire()) continue;
+
+      let servedBy = member.identity;
+      try {
+        const response = await this.completeMember(member, prompt, {
+          ...options,
+          onServedBy: (inner) => { servedBy = inner; },
+        });
+        member.breaker.recordSuccess();
+        options?.onServedBy?.(servedBy);
+        return response;
+      } catch (error) {
+        // The caller's own abort surfaces as a timeout; it isn't the provider's
+        if (options?.signal?.aborted) {
+          member.breaker.release();
+          throw error;
+        }
+        this.recordFailure(member, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError ?? this.allOpenError();
+  }
+
+  /**
+   * Stream from the first provider that starts answering. A provider that
+   * fails before its first chunk hands over to the next one; once text has
+   * been yielded a failure is thrown, since the output can't be spliced.
+   */
+  async *stream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+    let lastError: unknown = null;
+
+    for (const member of this.members) {
+      if (!member.breaker.tryAcquire()) continue;
+
+      let servedBy = member.identity;
+      let started = false;
+      let settled = false;
+      try {
+        for await (const chunk of this.streamMember(member, prompt, {
+          ...options,
+          onServedBy: (inner) => { servedBy = inner; },
+        })) {
+          if (!started) {
+            started = true;
+            options?.onServedBy?.(servedBy);
+          }
+          yield chunk;
+        }
+        settled = true;
+        member.breaker.recordSuccess();
+        if (!started) {
+          options?.onServedBy?.(servedBy);
+        }
+        return;
+      } catch (error) {
+        settled = true;
+        if (options?.signal?.aborted) {
+          member.breaker.release();
+          throw error;
+        }
+        this.recordFailure(member, error);
+        if (started) throw error;
+        lastError = error;
+      } finally {
+        // The consumer stopped reading after text arrived, so the provider worked
+        if (!settled) {
+          member.breaker.recordSuccess();
+        }
+      }
+    }
+
+    throw lastError ?? this.allOpenError();
+  }
+
+  private async completeMember(
+    member: FailoverMember,
+    prompt: string,
+    options: CompletionOptions
+  ): Promise<string> {
+    try {
+      return await member.client.complete(prompt, this.memberOptions(member, options));
+    } catch (error) {
+      if (!this.rejectedSchema(member, options, error)) throw error;
+      return member.client.complete(prompt, this.memberOptions(member, options));
+    }
+  }
+
+  private async *streamMember(
+    member: FailoverMember,
+    prompt: string,
+    options: CompletionOptions
+  ): AsyncGenerator<string> {
+    let started = false;
+    try {
+      for await (const chunk of streamCompletion(member.client, prompt, this.memberOptions(member, options))) {
+        started = true;
+        yield chunk;
+      }
+    } catch (error) {
+      if (started || !this.rejectedSchema(member, options, error)) throw error;
+      yield* streamCompletion(member.client, prompt, this.memberOptions(member, options));
+    }
+  }
+
+  private memberOptions(member: FailoverMember, options: CompletionOptions): CompletionOptions {
+    return member.schemaRejected ? { ...options, responseSchema: undefined } : options;
+  }
+
+  /**
+   * Whether the member just refused the response schema, remembering it
+   * so later calls leave the schema out
+   */
+  private rejectedSchema(member: FailoverMember, options: CompletionOptions, error: unknown): boolean {
+    if (member.schemaRejected || !options.responseSchema || !isSchemaRejection(error)) {
+      return false;
+    }
+    member.schemaRejected = true;
+    log({
+      level: 'warn',
+      event: 'llm.response_schema_rejected',
+      llmProvider: member.identity.provider,
+      llmModel: member.identity.model,
+      error: error.message,
+    });
+    return true;
+  }
+
+  private recordFailure(member: FailoverMember, error: unknown): void {
+    const opened = member.breaker.recordFailure(error);
+    log({
+      level: 'warn',
+      event: 'llm.failover',
+      llmProvider: member.identity.provider,
+      llmModel: member.identity.model,
+      kind: error instanceof LLMProviderError ? error.kind : 'unknown',
+      error: error instanceof Error ? error.message : 'unknown',
+    });
+    if (opened) {
+      log({
+        level: 'warn',
+        event: 'llm.circuit_open',
+        llmProvider: member.identity.provider,
+        llmModel: member.identity.model,
+      });
+    }
+  }
+
+  private allOpenError(): LLMProviderError {
+    return new LLMProviderError('All LLM providers are unavailable (circuit open)', {
+      provider: this.providerName,
+      model: this.modelName,
+      kind: 'network',
+    });
+  }
+}
@@ -3,22 +3,65 @@
  */
 
 import type { LLMClient } from './types';
+import { AnthropicClient } from './anthropic';
+import { FailoverClient } from './failover';
 import { OllamaClient } from './ollama';
+import { OpenAICompatibleClient } from './openai-compatible';
 import { TogetherClient } from './together';
 
 export type { LLMClient, CompletionOptions } from './types';
+export { AnthropicClient } from './anthropic';
+export { CircuitBreaker, FailoverClient } from './failover';
 export { OllamaClient } from './ollama';
+export { OpenAICompatibleClient } from './openai-compatible';
 export { TogetherClient } from './together';
+export { streamCompletion } from './stream';
+
+const LLM_PROVIDERS = ['ollama', 'together', 'openai', 'anthropic'];
 
 /**
- * Create the appropriate LLM client based on environment.
+ * Create the LLM client configured by environment.
  *
- * - If TOGETHER_API_KEY is set → TogetherClient (production)
- * - Otherwise → OllamaClient (local development)
+ * - LLM_PROVIDER=ollama → OllamaClient (OLLAMA_BASE_URL, OLLAMA_MODEL)
+ * - LLM_PROVIDER=together → TogetherClient (TOGETHER_API_KEY required)
+ * - LLM_PROVIDER=openai → OpenAICompatibleClient for vLLM, llama.cpp
+ *   server, LM Studio, etc. (OPENAI_BASE_URL required)
+ * - LLM_PROVIDER=anthropic → AnthropicClient (ANTHROPIC_API_KEY required)
+ * - LLM_PROVIDER=together,ollama → FailoverClient trying the providers in
+ *   order, with circuit breakers tuned by LLM_BREAKER_FAILURES and
+ *   LLM_BREAKER_COOLDOWN_MS
+ * - Unset → TogetherClient if TOGETHER_API_KEY is set, otherwise OllamaClient
  */
 export function createLLMClient(): LLMClient {
-  if (process.env.TOGETHER_API_KEY) {
-    return new TogetherClient();
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase()
+    || (process.env.TOGETHER_API_KEY ? 'together' : 'ollama');
+  const providers = configured
+    .split(',')
+    .map((provider) => provider.trim())
+    .filter((provider) => provider !== '');
+
+  if (providers.length <= 1) {
+    return createProviderClient(providers[0] ?? configured);
+  }
+  return new FailoverClient(providers.map(createProviderClient), {
+    failureThreshold: Number(process.env.LLM_BREAKER_FAILURES) || undefined,
+    cooldownMs: Number(process.env.LLM_BREAKER_COOLDOWN_MS) || undefined,
+  });
+}
+
+function createProviderClient(provider: string): LLMClient {
+  switch (provider) {
+    case 'ollama':
+      return new OllamaClient();
+    case 'together':
+      return new TogetherClient();
+    case 'openai':
+      return new OpenAICompatibleClient();
+    case 'anthropic':
+      return new AnthropicClient();
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${provider}" (expected one of: ${LLM_PROVIDERS.join(', ')})`
+      );
   }
-  return new OllamaClient();
 }
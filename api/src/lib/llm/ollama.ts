@@ -5,11 +5,25 @@
  * Default: http://localhost:11434 with llama3.2:3b model
  */
 
-import { LLMProviderError, type LLMClient, type CompletionOptions } from './types';
+import {
+  LLMProviderError,
+  type LLMClient,
+  type CompletionOptions,
+  type ProviderIdentity,
+} from './types';
+import { createRequestController, readLines } from './stream';
+import { errorFromStatus, toProviderError } from './errors';
 
 /** Default request timeout in milliseconds (60 seconds — first query loads the model into memory) */
 const DEFAULT_TIMEOUT_MS = 60_000;
 
+/** One /api/generate body, or one line of it when streaming */
+interface OllamaGenerateChunk {
+  response?: string;
+  done?: boolean;
+  error?: string;
+}
+
 /**
  * Ollama API client
  *
@@ -19,6 +33,7 @@ const DEFAULT_TIMEOUT_MS = 60_000;
 export class OllamaClient implements LLMClient {
   readonly providerName = 'ollama';
   readonly modelName: string;
+  readonly supportsResponseSchema = true;
   private timeoutMs: number;
 
   constructor(
@@ -33,87 +48,116 @@ export class OllamaClient implements LLMClient {
    * Complete a prompt using Ollama
    */
   async complete(prompt: string, options?: CompletionOptions): Promise<string> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
-    const abortFromCaller = () => controller.abort();
-    if (options?.signal?.aborted) {
-      controller.abort();
-    } else {
-      options?.signal?.addEventListener('abort', abortFromCaller, { once: true });
-    }
+    const { controller, release } = createRequestController(this.timeoutMs, options?.signal);
 
     try {
-      const response = await fetch(`${this.baseUrl}/api/generate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: this.modelName,
-          prompt,
-          stream: false,
-          options: {
-            temperature: options?.temperature ?? 0.1, // Low temperature for structured output
-            num_predict: options?.maxTokens ?? 2000, // Enough for JSON responses
-          },
-        }),
-        signal: controller.signal,
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `Ollama API error (${response.status}): ${errorText}`
-        );
-      }
-
-      const data = (await response.json()) as { response: string; done: boolean };
+      const response = await this.generate(prompt, options, false, controller.signal);
+      const data = (await response.json()) as OllamaGenerateChunk;
 
       if (!data.done) {
         throw new Error('Ollama response incomplete');
       }
 
-      return data.response;
+      return data.response ?? '';
     } catch (error) {
-      if (error instanceof Error) {
-        if (error instanceof LLMProviderError) {
-          throw error;
+      throw this.toProviderError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Stream a completion from Ollama's newline-delimited JSON response
+   */
+  async *stream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+    const { controller, release } = createRequestController(this.timeoutMs, options?.signal);
+
+    try {
+      const response = await this.generate(prompt, options, true, controller.signal);
+      if (!response.body) {
+        throw this.providerError('Ollama returned an empty stream');
+      }
+
+      for await (const line of readLines(response.body)) {
+        if (line.trim() === '') continue;
+
+        let chunk: OllamaGenerateChunk;
+        try {
+          chunk = JSON.parse(line) as OllamaGenerateChunk;
+        } catch (error) {
+          throw this.providerError('Ollama sent a malformed stream chunk', error);
+        }
+        if (chunk.error) {
+          throw this.providerError(`Ollama stream error: ${chunk.error}`);
         }
-        // Check for timeout (AbortError)
-        if (error.name === 'AbortError') {
-          throw new LLMProviderError(
-            `Ollama request timed out after ${this.timeoutMs}ms. The model may be loading or the query is too complex.`,
-            {
-              provider: this.providerName,
-              model: this.modelName,
-              kind: 'timeout',
-              cause: error,
-            }
-          );
+        if (chunk.response) {
+          yield chunk.response;
         }
-        // Check if it's a connection error
-        if (error.message.includes('fetch failed') || error.message.includes('ECONNREFUSED')) {
-          throw new LLMProviderError(
-            `Cannot connect to Ollama at ${this.baseUrl}. Is Ollama running?`,
-            {
-              provider: this.providerName,
-              model: this.modelName,
-              kind: 'network',
-              cause: error,
-            }
-          );
+        if (chunk.done) {
+          return;
         }
-        throw error;
       }
-      throw new LLMProviderError('Unknown error calling Ollama', {
-        provider: this.providerName,
-        model: this.modelName,
-        kind: 'provider',
-      });
+
+      throw this.providerError('Ollama stream ended before the response was complete');
+    } catch (error) {
+      throw this.toProviderError(error);
     } finally {
-      clearTimeout(timeoutId);
-      options?.signal?.removeEventListener('abort', abortFromCaller);
+      // Also reached when the consumer stops reading early
+      controller.abort();
+      release();
     }
   }
 
+  private async generate(
+    prompt: string,
+    options: CompletionOptions | undefined,
+    stream: boolean,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.modelName,
+        prompt,
+        stream,
+        // Structured outputs: a JSON Schema constrains decoding
+        ...(options?.responseSchema ? { format: options.responseSchema.schema } : {}),
+        options: {
+          temperature: options?.temperature ?? 0.1, // Low temperature for structured output
+          num_predict: options?.maxTokens ?? 2000, // Enough for JSON responses
+        },
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw errorFromStatus(
+        this.identity(),
+        response,
+        `Ollama API error (${response.status}): ${errorText}`
+      );
+    }
+    return response;
+  }
+
+  private providerError(message: string, cause?: unknown): LLMProviderError {
+    return new LLMProviderError(message, { ...this.identity(), kind: 'provider', cause });
+  }
+
+  private toProviderError(error: unknown): Error {
+    return toProviderError(this.identity(), error, {
+      timeout: `Ollama request timed out after ${this.timeoutMs}ms. The model may be loading or the query is too complex.`,
+      network: `Cannot connect to Ollama at ${this.baseUrl}. Is Ollama running?`,
+      unknown: 'Unknown error calling Ollama',
+    });
+  }
+
+  private identity(): ProviderIdentity {
+    return { provider: this.providerName, model: this.modelName };
+  }
+
   /**
    * Check if Ollama is available
    */
@@ -0,0 +1,227 @@
+/**
+ * OpenAI-compatible LLM Client
+ *
+ * Implementation of LLMClient for any server exposing the OpenAI
+ * `/chat/completions` API: vLLM, llama.cpp server, LM Studio and hosted
+ * providers such as Together.ai.
+ *
+ * Requires OPENAI_BASE_URL (e.g. http://localhost:8080/v1).
+ * Optional: OPENAI_API_KEY (sent as a bearer token when set)
+ * Optional: OPENAI_MODEL (default: "default"; vLLM needs the served model name)
+ * Optional: OPENAI_TIMEOUT_MS (default: 30000)
+ * Optional: OPENAI_RESPONSE_SCHEMA=false for servers without
+ *   `response_format: {type: "json_schema"}` support
+ */
+
+import {
+  LLMProviderError,
+  type LLMClient,
+  type CompletionOptions,
+  type ProviderIdentity,
+  type ResponseSchema,
+} from './types';
+import { createRequestController, readServerSentData } from './stream';
+import { errorFromStatus, toProviderError } from './errors';
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MODEL = 'default';
+
+interface ChatCompletionChoice {
+  message: { role: string; content: string | null };
+  finish_reason: string;
+}
+
+interface ChatCompletionResponse {
+  choices: ChatCompletionChoice[];
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+}
+
+/** One `data:` payload of a streaming response */
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>;
+  error?: { message: string };
+}
+
+interface ChatCompletionErrorBody {
+  error?: { message: string; type?: string };
+}
+
+export interface OpenAICompatibleOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  timeoutMs?: number;
+  /** Reported as providerName in logs and errors */
+  providerName?: string;
+  /** Provider name used in error messages */
+  label?: string;
+  /** Send response schemas as `response_format` (default: true) */
+  responseSchema?: boolean;
+}
+
+export class OpenAICompatibleClient implements LLMClient {
+  readonly providerName: string;
+  readonly modelName: string;
+  readonly supportsResponseSchema: boolean;
+  private readonly label: string;
+  private apiKey: string;
+  private timeoutMs: number;
+  private baseUrl: string;
+
+  constructor(options?: OpenAICompatibleOptions) {
+    this.providerName = options?.providerName ?? 'openai';
+    this.label = options?.label ?? 'OpenAI-compatible server';
+    this.baseUrl = (options?.baseUrl ?? process.env.OPENAI_BASE_URL ?? '').replace(/\/+$/, '');
+    this.apiKey = options?.apiKey ?? process.env.OPENAI_API_KEY ?? '';
+    this.modelName = options?.model ?? process.env.OPENAI_MODEL ?? DEFAULT_MODEL;
+    this.timeoutMs = options?.timeoutMs ?? (Number(process.env.OPENAI_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS);
+    this.supportsResponseSchema = options?.responseSchema ?? process.env.OPENAI_RESPONSE_SCHEMA !== 'false';
+
+    if (!this.baseUrl) {
+      throw new Error(
+        'OpenAI-compatible base URL is required. Set OPENAI_BASE_URL env var or pass baseUrl option.'
+      );
+    }
+  }
+
+  async complete(prompt: string, options?: CompletionOptions): Promise<string> {
+    const { controller, release } = createRequestController(this.timeoutMs, options?.signal);
+
+    try {
+      const response = await this.chatCompletion(prompt, options, false, controller.signal);
+      const data = (await response.json()) as ChatCompletionResponse;
+      const content = data.choices[0]?.message?.content;
+
+      if (!content) {
+        throw new Error(`${this.label} returned empty response`);
+      }
+
+      return content;
+    } catch (error) {
+      throw this.toProviderError(error);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Stream a completion from the Server-Sent Events response
+   */
+  async *stream(prompt: string, options?: CompletionOptions): AsyncGenerator<string> {
+    const { controller, release } = createRequestController(this.timeoutMs, options?.signal);
+
+    try {
+      const response = await this.chatCompletion(prompt, options, true, controller.signal);
+      if (!response.body) {
+        throw this.providerError(`${this.label} returned an empty stream`);
+      }
+
+      let finished = false;
+      for await (const data of readServerSentData(response.body)) {
+        if (data === '[DONE]') {
+          return;
+        }
+
+        let chunk: ChatCompletionChunk;
+        try {
+          chunk = JSON.parse(data) as ChatCompletionChunk;
+        } catch (error) {
+          throw this.providerError(`${this.label} sent a malformed stream chunk`, error);
+        }
+        if (chunk.error) {
+          throw this.providerError(`${this.label} stream error: ${chunk.error.message}`);
+        }
+        const choice = chunk.choices?.[0];
+        if (choice?.delta?.content) {
+          yield choice.delta.content;
+        }
+        if (choice?.finish_reason) {
+          finished = true;
+        }
+      }
+
+      if (!finished) {
+        throw this.providerError(`${this.label} stream ended before the response was complete`);
+      }
+    } catch (error) {
+      throw this.toProviderError(error);
+    } finally {
+      // Also reached when the consumer stops reading early
+      controller.abort();
+      release();
+    }
+  }
+
+  private async chatCompletion(
+    prompt: string,
+    options: CompletionOptions | undefined,
+    stream: boolean,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.modelName,
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        temperature: options?.temperature ?? 0.1,
+        max_tokens: options?.maxTokens ?? 2000,
+        stream,
+        ...(options?.responseSchema && this.supportsResponseSchema
+          ? { response_format: this.responseFormat(options.responseSchema) }
+          : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      let errorDetail = `${response.status} ${response.statusText}`;
+      try {
+        const body = (await response.json()) as ChatCompletionErrorBody;
+        if (body.error?.message) {
+          errorDetail = body.error.message;
+        }
+      } catch {
+        // Ignore parse failures on error bodies
+      }
+      throw errorFromStatus(this.identity(), response, `${this.label} API error: ${errorDetail}`);
+    }
+    return response;
+  }
+
+  /**
+   * `response_format` for a schema, in OpenAI's structured outputs shape
+   */
+  protected responseFormat(responseSchema: ResponseSchema): Record<string, unknown> {
+    return {
+      type: 'json_schema',
+      json_schema: { name: responseSchema.name, schema: responseSchema.schema },
+    };
+  }
+
+  private providerError(message: string, cause?: unknown): LLMProviderError {
+    return new LLMProviderError(message, { ...this.identity(), kind: 'provider', cause });
+  }
+
+  private toProviderError(error: unknown): Error {
+    return toProviderError(this.identity(), error, {
+      timeout: `${this.label} request timed out after ${this.timeoutMs}ms`,
+      network: `Cannot connect to ${this.label} at ${this.baseUrl}. Check network connectivity.`,
+      unknown: `Unknown error calling ${this.label}`,
+    });
+  }
+
+  private identity(): ProviderIdentity {
+    return { provider: this.providerName, model: this.modelName };
+  }
+}
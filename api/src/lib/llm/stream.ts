@@ -0,0 +1,104 @@
+/**
+ * Request and streaming helpers shared by the LLM clients
+ */
+
+import type { CompletionOptions, LLMClient } from './types';
+
+/**
+ * Abort controller that fires on the request timeout or the caller's
+ * signal. Call release() once the request settles.
+ */
+export function createRequestController(
+  timeoutMs: number,
+  signal?: AbortSignal
+): { controller: AbortController; release: () => void } {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const abortFromCaller = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+  }
+  return {
+    controller,
+    release: () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortFromCaller);
+    },
+  };
+}
+
+/**
+ * Stream a completion, falling back to a single chunk from complete() for
+ * clients that cannot stream
+ */
+export async function* streamCompletion(
+  llm: LLMClient,
+  prompt: string,
+  options?: CompletionOptions
+): AsyncGenerator<string> {
+  if (llm.stream) {
+    yield* llm.stream(prompt, options);
+    return;
+  }
+  yield await llm.complete(prompt, options);
+}
+
+/**
+ * Split a response body into lines as they arrive. A trailing line without
+ * a newline is yielded when the body ends.
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer !== '') {
+      yield buffer.replace(/\r$/, '');
+    }
+  } finally {
+    // Stops the download when the consumer leaves early
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Data payloads of a Server-Sent Events body, one per event. Multi-line
+ * data is joined with newlines; comments and other fields are skipped.
+ */
+export async function* readServerSentData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  let data: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (data.length > 0) {
+        yield data.join('\n');
+        data = [];
+      }
+      continue;
+    }
+    if (line.startsWith('data:')) {
+      data.push(line.slice('data:'.length).replace(/^ /, ''));
+    }
+  }
+
+  if (data.length > 0) {
+    yield data.join('\n');
+  }
+}
@@ -1,10 +1,27 @@
 /**
  * LLM Client Interface
  * 
- * Abstraction for LLM providers (Ollama, Together.ai, etc.)
+ * Abstraction for LLM providers (Ollama, Together.ai, OpenAI-compatible
+ * servers, Anthropic)
  * Allows swapping providers without changing parser code.
  */
 
+/**
+ * Provider and model behind a client, or behind one completion
+ */
+export interface ProviderIdentity {
+  provider: string;
+  model: string;
+}
+
+/**
+ * JSON Schema a response must match, named for providers that require it
+ */
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
 /**
  * Options for LLM completion requests
  */
@@ -12,6 +29,13 @@ export interface CompletionOptions {
   temperature?: number; // 0.0-1.0, lower = more deterministic
   maxTokens?: number; // Maximum tokens to generate
   signal?: AbortSignal;
+  /**
+   * Constrain the response to JSON matching this schema. Clients without
+   * supportsResponseSchema ignore it, so callers still validate the text.
+   */
+  responseSchema?: ResponseSchema;
+  /** Called by clients that delegate (FailoverClient) with the provider that answered */
+  onServedBy?: (servedBy: ProviderIdentity) => void;
 }
 
 export type LLMFailureKind = 'auth' | 'rate_limit' | 'network' | 'timeout' | 'model' | 'provider';
@@ -50,11 +74,14 @@ export class LLMProviderError extends Error {
 /**
  * LLM client interface
  * 
- * Implementations: OllamaClient, TogetherClient, etc.
+ * Implementations: OllamaClient, TogetherClient, OpenAICompatibleClient,
+ * AnthropicClient
  */
 export interface LLMClient {
   readonly providerName?: string;
   readonly modelName?: string;
+  /** Whether CompletionOptions.responseSchema constrains the output */
+  readonly supportsResponseSchema?: boolean;
 
   /**
    * Complete a prompt and return the response
@@ -65,4 +92,13 @@ export interface LLMClient {
    * @throws Error if the LLM request fails
    */
   complete(prompt: string, options?: CompletionOptions): Promise<string>;
+
+  /**
+   * Stream the response as text chunks in the order the model produces them
+   *
+   * Leaving the loop early (or aborting `options.signal`) cancels the
+   * request. Failures are thrown as LLMProviderError, mid-stream included.
+   * Use streamCompletion() to fall back to complete() for clients without it.
+   */
+  stream?(prompt: string, options?: CompletionOptions): AsyncIterable<string>;
 }
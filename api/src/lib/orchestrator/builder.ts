@@ -9,19 +9,60 @@ import type {
   StructuredQuery,
   AttributeFilter,
   SpatialFilter,
+  SpatialEnrichment,
+  SpatialOp,
+  OverlapSpec,
+  FilterExpression,
+  AggregateSpec,
+  AggregateMetric,
+  GeometryOperation,
+  DensitySpec,
+  TemporalPeriod,
+  TemporalQuery,
 } from '../../../../shared/types/query';
-import { LAYER_SCHEMAS } from '../../../../shared/types/geo';
+import {
+  DENSITY_DEFAULT_CELL_SIZE,
+  DENSITY_DEFAULT_ZONE_LAYER,
+  HOTSPOT_Z_THRESHOLDS,
+  INLINE_GEOMETRY_TARGET,
+  OVERLAP_OUTPUT_COLUMNS,
+  getEnrichmentColumn,
+  getNearestTargetColumn,
+  isResultSetTarget,
+} from '../../../../shared/types/query';
+import { LAYER_SCHEMAS, getMeasureFields } from '../../../../shared/types/geo';
 import { log } from '../logger';
 
 
 interface QueryBuilderOptions {
   simplifyToleranceDeg?: number;
+  resultSets?: Record<string, StructuredQuery>; // Saved queries by target, e.g. "$turn2"
 }
 
 const VIRTUAL_FIELDS: Record<string, string[]> = {
   zoning_districts: ['allows_residential', 'allows_commercial'],
 };
 
+/**
+ * SQL for virtual measure fields, computed on projected geometry (meters)
+ */
+const MEASURE_FIELD_SQL: Record<string, (geom: string) => string> = {
+  area_m2: (geom) => `ST_Area(${geom})`,
+  area_acres: (geom) => `(ST_Area(${geom}) / 4046.8564224)`,
+  perimeter_m: (geom) => `ST_Perimeter(${geom})`,
+  length_m: (geom) => `ST_Length(${geom})`,
+};
+
+/**
+ * Negated spatial ops and the positive op they wrap in NOT EXISTS
+ */
+const NEGATED_SPATIAL_OPS: Partial<Record<SpatialOp, SpatialOp>> = {
+  not_intersects: 'intersects',
+  not_contains: 'contains',
+  not_within: 'within',
+  beyond_distance: 'within_distance',
+};
+
 const DEFAULT_MAX_TARGET_FEATURES = 5000;
 
 function getMaxTargetFeatures(): number {
@@ -36,8 +77,7 @@ function getMaxTargetFeatures(): number {
 export class QueryBuilder {
   private query: StructuredQuery;
   private options: QueryBuilderOptions;
-  private params: unknown[] = [];
-  private paramIndex = 1; // DuckDB uses $1, $2, etc.
+  private params: unknown[] = []; // DuckDB uses $1, $2, etc.
 
   constructor(query: StructuredQuery, options: QueryBuilderOptions = {}) {
     this.query = query;
@@ -56,13 +96,31 @@ export class QueryBuilder {
       return this.buildNearestNeighborQuery();
     }
 
+    if (this.query.geometryOperation) {
+      return this.buildGeometryOperationQuery(this.query.geometryOperation);
+    }
+
+    if (this.query.density) {
+      return this.buildDensityQuery(this.query.density);
+    }
+
+    if (this.query.temporal) {
+      return this.buildTemporalQuery(this.query.temporal);
+    }
+
+    if (this.query.aggregate?.spatialGroupBy) {
+      return this.buildSpatialAggregateQuery(this.query.aggregate);
+    }
+
     const parts: string[] = [];
+    const joined = this.buildJoinedColumns();
 
     // SELECT clause
-    parts.push(this.buildSelect());
+    parts.push(this.buildSelect(joined.fields));
 
     // FROM clause
     parts.push(`FROM ${this.escapeIdentifier(this.query.selectLayer)} source`);
+    parts.push(...joined.joins);
 
     // WHERE clause
     const whereClause = this.buildWhere();
@@ -80,9 +138,10 @@ export class QueryBuilder {
 
     // ORDER BY
     if (this.query.orderBy) {
-      parts.push(
-        `ORDER BY ${this.escapeIdentifier(this.query.orderBy.field)} ${this.query.orderBy.direction.toUpperCase()}`
-      );
+      const orderField = this.query.aggregate
+        ? this.escapeIdentifier(this.query.orderBy.field)
+        : this.fieldExpression(this.query.orderBy.field);
+      parts.push(`ORDER BY ${orderField} ${this.query.orderBy.direction.toUpperCase()}`);
     }
 
     // LIMIT - only apply if explicitly set (spatial queries often want all features)
@@ -96,7 +155,7 @@ export class QueryBuilder {
   /**
    * Build SELECT clause
    */
-  private buildSelect(): string {
+  private buildSelect(joinedFields: string[] = []): string {
     const fields: string[] = [];
 
     if (this.query.aggregate) {
@@ -107,28 +166,18 @@ export class QueryBuilder {
       fields.push(...groupByFields);
 
       // Add aggregate metrics
-      for (const metric of this.query.aggregate.metrics) {
-        const field = metric.field === '*' ? '1' : this.escapeIdentifier(metric.field);
-        const op = metric.op.toUpperCase();
-        const alias = metric.alias ?? `${metric.op}_${metric.field}`;
-        
-        // Handle special case for count(*)
-        if (metric.op === 'count' && metric.field === '*') {
-          fields.push(`COUNT(*) AS ${this.escapeIdentifier(alias)}`);
-        } else {
-          fields.push(`${op}(${field}) AS ${this.escapeIdentifier(alias)}`);
-        }
-      }
+      fields.push(...this.buildAggregateMetricFields(this.query.aggregate.metrics));
     } else {
       // Regular query: select specified fields or the audited schema fields
       if (this.query.selectFields && this.query.selectFields.length > 0) {
         const selectFields = this.query.selectFields.map((f) =>
-          this.escapeIdentifier(f)
+          this.selectFieldExpression(f)
         );
         fields.push(...selectFields);
       } else {
         fields.push(...this.getDefaultSelectFields(this.query.selectLayer));
       }
+      fields.push(...joinedFields);
     }
 
     // Always include geometry (use WGS84 for GeoJSON output)
@@ -145,6 +194,23 @@ export class QueryBuilder {
     return `SELECT ${fields.join(', ')}`;
   }
 
+  /**
+   * Build aggregate metric select expressions
+   */
+  private buildAggregateMetricFields(metrics: AggregateMetric[]): string[] {
+    return metrics.map((metric) => {
+      const field = metric.field === '*' ? '1' : this.fieldExpression(metric.field);
+      const op = metric.op.toUpperCase();
+      const alias = this.getMetricAlias(metric);
+
+      // Handle special case for count(*)
+      if (metric.op === 'count' && metric.field === '*') {
+        return `COUNT(*) AS ${this.escapeIdentifier(alias)}`;
+      }
+      return `${op}(${field}) AS ${this.escapeIdentifier(alias)}`;
+    });
+  }
+
   /**
    * Build WHERE clause
    */
@@ -177,14 +243,53 @@ export class QueryBuilder {
       }
     }
 
+    // Nested filter tree
+    if (this.query.where) {
+      conditions.push(this.buildFilterExpression(this.query.where));
+    }
+
+    if (this.query.bbox) {
+      conditions.push(this.buildBboxCondition(this.query.bbox));
+    }
+
     return conditions.length > 0 ? conditions.join(' AND ') : null;
   }
 
   /**
-   * Build attribute filter condition.
+   * Keep source features that intersect a WGS84 bounding box
    */
-  private buildAttributeCondition(filter: AttributeFilter): string {
-    const field = this.escapeIdentifier(filter.field);
+  private buildBboxCondition(bbox: [number, number, number, number]): string {
+    const corners = bbox.map((value) => this.addParam(value));
+    return `ST_Intersects(source.geom_4326, ST_MakeEnvelope(${corners.join(', ')}))`;
+  }
+
+  /**
+   * Build SQL for a nested and/or/not filter tree
+   */
+  private buildFilterExpression(expression: FilterExpression): string {
+    if ('and' in expression) {
+      return `(${expression.and.map((child) => this.buildFilterExpression(child)).join(' AND ')})`;
+    }
+    if ('or' in expression) {
+      return `(${expression.or.map((child) => this.buildFilterExpression(child)).join(' OR ')})`;
+    }
+    if ('not' in expression) {
+      return `NOT (${this.buildFilterExpression(expression.not)})`;
+    }
+    if ('attribute' in expression) {
+      return this.buildAttributeCondition(expression.attribute);
+    }
+    return this.buildSpatialCondition(expression.spatial);
+  }
+
+  /**
+   * Build attribute filter condition against a field of the given layer.
+   */
+  private buildAttributeCondition(
+    filter: AttributeFilter,
+    layerName: string = this.query.selectLayer
+  ): string {
+    const field = this.fieldExpression(filter.field, layerName);
 
     // For 'in' with array values, add individual params instead of the array
     if (filter.op === 'in' && Array.isArray(filter.value)) {
@@ -221,14 +326,25 @@ export class QueryBuilder {
    * Build spatial filter condition
    * CRS-aware: uses geom_utm13 for metric ops, geom_4326 for topological ops
    */
-  private buildSpatialCondition(filter: SpatialFilter): string {
+  private buildSpatialCondition(filter: SpatialFilter, capTarget = true): string {
     // Validate target layer
-    this.validateLayer(filter.targetLayer);
+    this.validateTarget(filter);
+
+    // Negated ops: NOT EXISTS over the positive predicate, against the whole
+    // target. A capped target would drop rows and turn near features into
+    // false "beyond" matches.
+    const positiveOp = NEGATED_SPATIAL_OPS[filter.op];
+    if (positiveOp) {
+      if (filter.op === 'beyond_distance' && !filter.distance) {
+        throw new Error('beyond_distance requires distance parameter');
+      }
+      return `NOT ${this.buildSpatialCondition({ ...filter, op: positiveOp }, false)}`;
+    }
 
     // Choose geometry based on operation type
     const useProjected = this.requiresProjectedGeometry(filter.op);
     const sourceGeom = useProjected ? 'source.geom_utm13' : 'source.geom_4326';
-    const targetRows = this.buildTargetRowsSubquery(filter);
+    const targetRows = this.buildTargetRowsSubquery(filter, [], capTarget);
     const targetGeom = useProjected ? 'target.geom_utm13' : 'target.geom_4326';
 
     switch (filter.op) {
@@ -277,21 +393,38 @@ export class QueryBuilder {
   }
 
   /**
-   * Build capped target-row subquery for spatial joins.
+   * Build target-row subquery for spatial joins, capped at
+   * MAX_TARGET_FEATURES unless capTarget is false.
    */
-  private buildTargetRowsSubquery(filter: SpatialFilter): string {
+  private buildTargetRowsSubquery(
+    filter: SpatialFilter,
+    extraFields: string[] = [],
+    capTarget = true
+  ): string {
+    if (filter.targetLayer === INLINE_GEOMETRY_TARGET) {
+      return this.buildInlineTargetRows(filter);
+    }
+    if (isResultSetTarget(filter.targetLayer)) {
+      return this.buildResultSetRows(filter.targetLayer);
+    }
+
     const targetLayer = this.escapeIdentifier(filter.targetLayer);
     const maxTargetFeatures = getMaxTargetFeatures();
+    const columns = ['geom_4326', 'geom_utm13', ...extraFields.map((f) => this.escapeIdentifier(f))];
 
-    let innerQuery = `SELECT geom_4326, geom_utm13 FROM ${targetLayer}`;
+    let innerQuery = `SELECT ${columns.join(', ')} FROM ${targetLayer}`;
 
     if (filter.targetFilter && filter.targetFilter.length > 0) {
       const conditions = filter.targetFilter.map((f) =>
-        this.buildAttributeCondition(f)
+        this.buildAttributeCondition(f, filter.targetLayer)
       );
       innerQuery += ` WHERE ${conditions.join(' AND ')}`;
     }
 
+    if (!capTarget) {
+      return `(${innerQuery})`;
+    }
+
     log({
       level: 'warn',
       event: 'query.target_feature_cap',
@@ -302,6 +435,177 @@ export class QueryBuilder {
     return `(${innerQuery} LIMIT ${maxTargetFeatures})`;
   }
 
+  /**
+   * Single-row target built from an inline GeoJSON geometry (WGS84),
+   * projected to UTM 13N the same way layer tables are at load time.
+   */
+  private buildInlineTargetRows(filter: SpatialFilter): string {
+    if (!filter.targetGeometry) {
+      throw new Error(`${INLINE_GEOMETRY_TARGET} spatial filters require targetGeometry`);
+    }
+    const geometryParam = this.addParam(JSON.stringify(filter.targetGeometry));
+    return `(
+      SELECT geom AS geom_4326,
+        ST_Transform(geom, 'EPSG:4326', 'EPSG:32613', true) AS geom_utm13
+      FROM (SELECT ST_GeomFromGeoJSON(${geometryParam}) AS geom)
+    )`;
+  }
+
+  /**
+   * Target rows from a saved result set: the saved query is rebuilt as a
+   * subquery (sharing this builder's parameters) and its GeoJSON output
+   * read back, so any result with geometry can be targeted — selections,
+   * buffers, density cells or aggregate polygons.
+   */
+  private buildResultSetRows(target: string): string {
+    const saved = this.options.resultSets?.[target];
+    if (!saved) {
+      throw new Error(`Unknown result set: ${target}`);
+    }
+    const child = new QueryBuilder(saved, { resultSets: this.options.resultSets });
+    child.params = this.params;
+    const { sql } = child.build();
+    return `(
+      SELECT geom AS geom_4326,
+        ST_Transform(geom, 'EPSG:4326', 'EPSG:32613', true) AS geom_utm13
+      FROM (SELECT ST_GeomFromGeoJSON(result_set.geometry) AS geom FROM (${sql}) result_set)
+    )`;
+  }
+
+  /**
+   * Columns and LATERAL joins projected from other layers onto each
+   * source feature: closest-target columns, then enrichment fields.
+   */
+  private buildJoinedColumns(): { fields: string[]; joins: string[] } {
+    const nearestTargets = this.buildNearestTargetJoins();
+    const enrichments = (this.query.enrich ?? []).map((enrichment, index) =>
+      this.buildEnrichmentJoin(enrichment, index)
+    );
+    const joined = [
+      ...enrichments,
+      ...(this.query.overlap ? [this.buildOverlapJoin(this.query.overlap)] : []),
+    ];
+    return {
+      fields: [...nearestTargets.fields, ...joined.flatMap((j) => j.fields)],
+      joins: [...nearestTargets.joins, ...joined.map((j) => j.join)],
+    };
+  }
+
+  /**
+   * Build a LATERAL join measuring how much of each source polygon the
+   * target layer covers. Targets are unioned before intersecting so
+   * overlapping target polygons are not double counted.
+   */
+  private buildOverlapJoin(overlap: OverlapSpec): { fields: string[]; join: string } {
+    this.validateLayer(overlap.targetLayer);
+    // Uncapped: a truncated target would understate the covered area
+    const targetRows = this.buildTargetRowsSubquery(
+      {
+        op: 'intersects',
+        targetLayer: overlap.targetLayer,
+        targetFilter: overlap.targetFilter,
+      },
+      [],
+      false
+    );
+
+    return {
+      fields: OVERLAP_OUTPUT_COLUMNS.map(
+        (column) => `${this.fieldExpression(column)} AS ${this.escapeIdentifier(column)}`
+      ),
+      join: `LEFT JOIN LATERAL (
+        SELECT ST_Area(ST_Intersection(source.geom_utm13, ST_Union_Agg(target.geom_utm13))) AS overlap_area_m2
+        FROM ${targetRows} target
+        WHERE ST_Intersects(source.geom_utm13, target.geom_utm13)
+      ) overlap ON TRUE`,
+    };
+  }
+
+  /**
+   * Build a LATERAL join attaching the fields of the polygon that contains
+   * the source feature's point-on-surface (the same assignment rule as
+   * spatialGroupBy). Features outside every polygon keep null values.
+   */
+  private buildEnrichmentJoin(
+    enrichment: SpatialEnrichment,
+    index: number
+  ): { fields: string[]; join: string } {
+    this.validateLayer(enrichment.layer);
+    const alias = `enrich_${index}`;
+    // Uncapped: polygons past the cap would leave their features unenriched
+    const targetRows = this.buildTargetRowsSubquery(
+      { op: 'intersects', targetLayer: enrichment.layer, targetFilter: enrichment.targetFilter },
+      enrichment.fields,
+      false
+    );
+    const columns = enrichment.fields.map((field) =>
+      this.escapeIdentifier(getEnrichmentColumn(enrichment.layer, field))
+    );
+    const innerFields = enrichment.fields.map(
+      (field, i) => `target.${this.escapeIdentifier(field)} AS ${columns[i]}`
+    );
+
+    return {
+      fields: columns.map((column) => `${alias}.${column}`),
+      join: `LEFT JOIN LATERAL (
+        SELECT ${innerFields.join(', ')}
+        FROM ${targetRows} target
+        WHERE ST_Intersects(target.geom_4326, ST_PointOnSurface(source.geom_4326))
+        LIMIT 1
+      ) ${alias} ON TRUE`,
+    };
+  }
+
+  /**
+   * Build LATERAL joins that attach, per source feature, the distance to the
+   * closest target and that target's requested fields. within_distance only
+   * considers targets inside the distance, so rows matched through OR logic
+   * can carry nulls.
+   */
+  private buildNearestTargetJoins(): { fields: string[]; joins: string[] } {
+    const fields: string[] = [];
+    const joins: string[] = [];
+
+    const filters = (this.query.spatialFilters ?? []).filter(
+      (f) =>
+        (f.op === 'within_distance' || f.op === 'nearest') &&
+        (f.includeNearestTarget || (f.targetFields?.length ?? 0) > 0)
+    );
+
+    filters.forEach((filter, index) => {
+      this.validateLayer(filter.targetLayer);
+      const alias = `nearest_target_${index}`;
+      const targetFields = filter.targetFields ?? [];
+      const targetRows = this.buildTargetRowsSubquery(filter, targetFields);
+      const distanceColumn = this.escapeIdentifier(getNearestTargetColumn(filter.targetLayer));
+      const fieldColumns = targetFields.map((field) =>
+        this.escapeIdentifier(getNearestTargetColumn(filter.targetLayer, field))
+      );
+
+      const innerFields = [
+        `ST_Distance(source.geom_utm13, target.geom_utm13) AS ${distanceColumn}`,
+        ...targetFields.map((field, i) => `target.${this.escapeIdentifier(field)} AS ${fieldColumns[i]}`),
+      ];
+      const distanceCondition =
+        filter.op === 'within_distance' && filter.distance
+          ? `WHERE ST_DWithin(source.geom_utm13, target.geom_utm13, ${this.addParam(filter.distance)})`
+          : '';
+
+      joins.push(`LEFT JOIN LATERAL (
+        SELECT ${innerFields.join(', ')}
+        FROM ${targetRows} target
+        ${distanceCondition}
+        ORDER BY ${distanceColumn}
+        LIMIT 1
+      ) ${alias} ON TRUE`);
+
+      fields.push(`ROUND(${alias}.${distanceColumn}, 1) AS ${distanceColumn}`);
+      fields.push(...fieldColumns.map((column) => `${alias}.${column}`));
+    });
+
+    return { fields, joins };
+  }
+
   /**
    * Determine if operation requires projected geometry (UTM 13N)
    * Metric operations (distance, buffer, nearest) need projected CRS
@@ -310,11 +614,15 @@ export class QueryBuilder {
   private requiresProjectedGeometry(op: SpatialFilter['op']): boolean {
     switch (op) {
       case 'within_distance':
+      case 'beyond_distance':
       case 'nearest':
         return true; // Metric operations need projected CRS
       case 'intersects':
       case 'contains':
       case 'within':
+      case 'not_intersects':
+      case 'not_contains':
+      case 'not_within':
         return false; // Topological operations can use geographic CRS
       default:
         return false;
@@ -326,9 +634,7 @@ export class QueryBuilder {
    */
   private addParam(value: unknown): string {
     this.params.push(value);
-    const placeholder = `$${this.paramIndex}`;
-    this.paramIndex++;
-    return placeholder;
+    return `$${this.params.length}`;
   }
 
   /**
@@ -340,6 +646,39 @@ export class QueryBuilder {
     return `"${identifier.replace(/"/g, '""')}"`;
   }
 
+  /**
+   * SQL for a field reference: the quoted column, the overlap join output,
+   * or the geom_utm13 expression for a measure field the layer does not store
+   */
+  private fieldExpression(
+    field: string,
+    layerName: string = this.query.selectLayer,
+    qualifier = ''
+  ): string {
+    if (this.query.overlap && layerName === this.query.selectLayer) {
+      if (field === 'overlap_area_m2') {
+        return 'ROUND(COALESCE(overlap.overlap_area_m2, 0), 1)';
+      }
+      if (field === 'overlap_pct') {
+        return 'ROUND(COALESCE(overlap.overlap_area_m2, 0) * 100.0 / NULLIF(ST_Area(source.geom_utm13), 0), 1)';
+      }
+    }
+    const measure = MEASURE_FIELD_SQL[field];
+    if (measure && getMeasureFields(layerName).includes(field)) {
+      return measure(`${qualifier}geom_utm13`);
+    }
+    return `${qualifier}${this.escapeIdentifier(field)}`;
+  }
+
+  /**
+   * SELECT item for a field, aliasing measure expressions to the field name
+   */
+  private selectFieldExpression(field: string): string {
+    const expression = this.fieldExpression(field);
+    const column = this.escapeIdentifier(field);
+    return expression === column ? column : `${expression} AS ${column}`;
+  }
+
   private getDefaultSelectFields(layerName: string): string[] {
     const schema = LAYER_SCHEMAS[layerName];
     if (!schema) {
@@ -365,7 +704,7 @@ export class QueryBuilder {
 
     // Validate layers
     this.validateLayer(this.query.selectLayer);
-    this.validateLayer(nearestFilter.targetLayer);
+    this.validateTarget(nearestFilter);
 
     const sourceGeom = 'source.geom_utm13';
     const targetRows = this.buildTargetRowsSubquery(nearestFilter);
@@ -374,7 +713,7 @@ export class QueryBuilder {
     const fields: string[] = [];
     if (this.query.selectFields && this.query.selectFields.length > 0) {
       const selectFields = this.query.selectFields.map((f) =>
-        this.escapeIdentifier(f)
+        this.selectFieldExpression(f)
       );
       fields.push(...selectFields);
     } else {
@@ -385,6 +724,8 @@ export class QueryBuilder {
       SELECT MIN(ST_Distance(${sourceGeom}, target.geom_utm13))
       FROM ${targetRows} target
     ) AS distance`);
+    const joined = this.buildJoinedColumns();
+    fields.push(...joined.fields);
     fields.push('ST_AsGeoJSON(geom_4326) AS geometry');
 
     // Build WHERE clause for other filters (excluding nearest)
@@ -417,10 +758,20 @@ export class QueryBuilder {
       }
     }
 
+    // Nested filter tree
+    if (this.query.where) {
+      whereConditions.push(this.buildFilterExpression(this.query.where));
+    }
+
+    if (this.query.bbox) {
+      whereConditions.push(this.buildBboxCondition(this.query.bbox));
+    }
+
     // Build the query
     const parts: string[] = [];
     parts.push(`SELECT ${fields.join(', ')}`);
     parts.push(`FROM ${this.escapeIdentifier(this.query.selectLayer)} source`);
+    parts.push(...joined.joins);
     
     if (whereConditions.length > 0) {
       parts.push(`WHERE ${whereConditions.join(' AND ')}`);
@@ -442,6 +793,439 @@ export class QueryBuilder {
     return { sql: parts.join('\n'), params: this.params };
   }
 
+  /**
+   * Build aggregate query grouped by the polygons of another layer.
+   * Source features are assigned by point-on-surface so each is counted
+   * in at most one group; a point on a shared boundary goes to the group
+   * with the lowest row id. Empty groups are kept (LEFT JOIN) with zero
+   * counts and sums.
+   */
+  private buildSpatialAggregateQuery(
+    aggregate: AggregateSpec
+  ): { sql: string; params: unknown[] } {
+    const parts = this.buildSpatialAggregateParts(aggregate);
+
+    if (this.query.orderBy) {
+      parts.push(
+        `ORDER BY ${this.escapeIdentifier(this.query.orderBy.field)} ${this.query.orderBy.direction.toUpperCase()}`
+      );
+    }
+    if (this.query.limit !== undefined) {
+      parts.push(`LIMIT ${this.query.limit}`);
+    }
+
+    return { sql: parts.join('\n'), params: this.params };
+  }
+
+  /**
+   * SELECT ... GROUP BY parts of a spatial aggregate, without ORDER BY/LIMIT.
+   * Extra fields are appended after the metrics (they must qualify source
+   * columns with `source.`).
+   */
+  private buildSpatialAggregateParts(
+    aggregate: AggregateSpec,
+    extraFields: string[] = []
+  ): string[] {
+    const spatialGroupBy = aggregate.spatialGroupBy;
+    if (!spatialGroupBy) {
+      throw new Error('spatial aggregate requires spatialGroupBy');
+    }
+    this.validateLayer(spatialGroupBy.layer);
+
+    const groupFields = spatialGroupBy.fields && spatialGroupBy.fields.length > 0
+      ? spatialGroupBy.fields.map((f) => this.escapeIdentifier(f))
+      : this.getDefaultSelectFields(spatialGroupBy.layer);
+
+    let groupRows = `SELECT rowid AS __group_id, ${groupFields.join(', ')}, geom_4326 FROM ${this.escapeIdentifier(spatialGroupBy.layer)}`;
+    if (spatialGroupBy.targetFilter && spatialGroupBy.targetFilter.length > 0) {
+      const conditions = spatialGroupBy.targetFilter.map((f) =>
+        this.buildAttributeCondition(f, spatialGroupBy.layer)
+      );
+      groupRows += ` WHERE ${conditions.join(' AND ')}`;
+    }
+
+    let sourceRows = `SELECT *, rowid AS __source_id FROM ${this.escapeIdentifier(this.query.selectLayer)} source`;
+    const whereClause = this.buildWhere();
+    if (whereClause) {
+      sourceRows += ` WHERE ${whereClause}`;
+    }
+    const assignedRows = [
+      `SELECT source.*, grp.__group_id AS __assigned_group_id FROM (${sourceRows}) source`,
+      `JOIN (${groupRows}) grp ON ST_Intersects(grp.geom_4326, ST_PointOnSurface(source.geom_4326))`,
+      'QUALIFY ROW_NUMBER() OVER (PARTITION BY source.__source_id ORDER BY grp.__group_id) = 1',
+    ].join(' ');
+
+    const fields: string[] = groupFields.map(
+      (field) => `ANY_VALUE(grp.${field}) AS ${field}`
+    );
+    for (const metric of aggregate.metrics) {
+      const alias = this.escapeIdentifier(this.getMetricAlias(metric));
+      const column = metric.field === '*'
+        ? 'source.geom_4326'
+        : this.fieldExpression(metric.field, this.query.selectLayer, 'source.');
+      const expr = `${metric.op.toUpperCase()}(${column})`;
+      fields.push(
+        metric.op === 'count' || metric.op === 'sum'
+          ? `COALESCE(${expr}, 0) AS ${alias}`
+          : `${expr} AS ${alias}`
+      );
+    }
+
+    fields.push(...extraFields);
+
+    const groupGeom = this.options.simplifyToleranceDeg && this.options.simplifyToleranceDeg > 0
+      ? `ST_SimplifyPreserveTopology(ANY_VALUE(grp.geom_4326), ${this.options.simplifyToleranceDeg})`
+      : 'ANY_VALUE(grp.geom_4326)';
+    fields.push(`ST_AsGeoJSON(${groupGeom}) AS geometry`);
+
+    return [
+      `SELECT ${fields.join(', ')}`,
+      `FROM (${groupRows}) grp`,
+      `LEFT JOIN (${assignedRows}) source`,
+      '  ON source.__assigned_group_id = grp.__group_id',
+      'GROUP BY grp.__group_id',
+    ];
+  }
+
+  /**
+   * Build baseline-vs-comparison query. The inner query computes one
+   * FILTERed metric per period (per group when aggregating); the outer
+   * query derives the changes so results can be ordered by them.
+   */
+  private buildTemporalQuery(temporal: TemporalQuery): { sql: string; params: unknown[] } {
+    const aggregate = this.query.aggregate;
+    const isSpatial = Boolean(aggregate?.spatialGroupBy);
+    const temporalFields = this.buildTemporalMetricFields(temporal, isSpatial);
+
+    let inner: string[];
+    if (aggregate?.spatialGroupBy) {
+      inner = this.buildSpatialAggregateParts(aggregate, temporalFields);
+    } else {
+      const fields: string[] = [];
+      if (aggregate) {
+        fields.push(...aggregate.groupBy.map((f) => this.escapeIdentifier(f)));
+        fields.push(...this.buildAggregateMetricFields(aggregate.metrics));
+      }
+      fields.push(...temporalFields);
+
+      inner = [
+        `SELECT ${fields.join(', ')}`,
+        `FROM ${this.escapeIdentifier(this.query.selectLayer)} source`,
+      ];
+      const whereClause = this.buildWhere();
+      if (whereClause) {
+        inner.push(`WHERE ${whereClause}`);
+      }
+      if (aggregate && aggregate.groupBy.length > 0) {
+        inner.push(`GROUP BY ${aggregate.groupBy.map((f) => this.escapeIdentifier(f)).join(', ')}`);
+      }
+    }
+
+    const parts: string[] = [
+      'SELECT temporal.*,',
+      '  comparison_value - baseline_value AS absolute_change,',
+      '  CASE WHEN baseline_value = 0 THEN NULL',
+      '    ELSE ROUND((comparison_value - baseline_value) * 100.0 / baseline_value, 1) END AS percent_change',
+      `FROM (\n${inner.join('\n')}\n) temporal`,
+    ];
+
+    if (this.query.orderBy) {
+      parts.push(
+        `ORDER BY ${this.escapeIdentifier(this.query.orderBy.field)} ${this.query.orderBy.direction.toUpperCase()}`
+      );
+    }
+    if (this.query.limit !== undefined) {
+      parts.push(`LIMIT ${this.query.limit}`);
+    }
+
+    return { sql: parts.join('\n'), params: this.params };
+  }
+
+  /**
+   * baseline_value / comparison_value select expressions.
+   * '*' counts records; any other metric is summed.
+   */
+  private buildTemporalMetricFields(temporal: TemporalQuery, isSpatial: boolean): string[] {
+    if (!temporal.dateField) {
+      throw new Error('temporal queries require dateField');
+    }
+    const qualifier = isSpatial ? 'source.' : '';
+    const dateExpr = `TRY_CAST(${qualifier}${this.escapeIdentifier(temporal.dateField)} AS DATE)`;
+    let value: string;
+    if (temporal.metric === '*') {
+      value = isSpatial ? 'COUNT(source.geom_4326)' : 'COUNT(*)';
+    } else {
+      value = `SUM(${this.fieldExpression(temporal.metric, this.query.selectLayer, qualifier)})`;
+    }
+
+    const baseline = this.buildTemporalPeriodCondition(dateExpr, temporal.baseline);
+    const comparison = this.buildTemporalPeriodCondition(dateExpr, temporal.comparison);
+    return [
+      `COALESCE(${value} FILTER (WHERE ${baseline}), 0) AS baseline_value`,
+      `COALESCE(${value} FILTER (WHERE ${comparison}), 0) AS comparison_value`,
+    ];
+  }
+
+  /**
+   * A year matches that calendar year; a date matches everything on or before it.
+   */
+  private buildTemporalPeriodCondition(dateExpr: string, period: TemporalPeriod): string {
+    if ('year' in period) {
+      return `YEAR(${dateExpr}) = ${this.addParam(period.year)}`;
+    }
+    return `${dateExpr} <= CAST(${this.addParam(period.date)} AS DATE)`;
+  }
+
+  /**
+   * Output column name for an aggregate metric
+   */
+  private getMetricAlias(metric: AggregateMetric): string {
+    return metric.alias ?? `${metric.op}_${metric.field}`;
+  }
+
+  /**
+   * Build query for buffer / dissolve / clip operations.
+   * Geometry is computed on geom_utm13 (meters) and transformed back to
+   * WGS84 for GeoJSON output.
+   */
+  private buildGeometryOperationQuery(
+    operation: GeometryOperation
+  ): { sql: string; params: unknown[] } {
+    const layer = this.escapeIdentifier(this.query.selectLayer);
+    const isDissolve =
+      operation.op === 'dissolve' || (operation.op === 'buffer' && operation.dissolve === true);
+
+    // Selected source rows (attributes + projected geometry)
+    const selectedFields: string[] = [];
+    if (operation.op === 'dissolve') {
+      if (operation.groupBy) {
+        selectedFields.push(this.escapeIdentifier(operation.groupBy));
+      }
+    } else if (!isDissolve) {
+      if (this.query.selectFields && this.query.selectFields.length > 0) {
+        selectedFields.push(...this.query.selectFields.map((f) => this.selectFieldExpression(f)));
+      } else {
+        selectedFields.push(...this.getDefaultSelectFields(this.query.selectLayer));
+      }
+    }
+    selectedFields.push('geom_utm13');
+
+    const selectedParts: string[] = [`SELECT ${selectedFields.join(', ')}`, `FROM ${layer} source`];
+    const whereClause = this.buildWhere();
+    if (whereClause) {
+      selectedParts.push(`WHERE ${whereClause}`);
+    }
+    // Dissolve unions every matching feature; the limit applies to output rows
+    if (!isDissolve) {
+      if (this.query.orderBy) {
+        selectedParts.push(
+          `ORDER BY ${this.fieldExpression(this.query.orderBy.field)} ${this.query.orderBy.direction.toUpperCase()}`
+        );
+      }
+      if (this.query.limit !== undefined) {
+        selectedParts.push(`LIMIT ${this.query.limit}`);
+      }
+    }
+
+    // Result rows with a projected result_geom column
+    let resultQuery: string;
+    switch (operation.op) {
+      case 'buffer': {
+        if (!operation.distance) {
+          throw new Error('buffer requires distance parameter');
+        }
+        const distanceParam = this.addParam(operation.distance);
+        resultQuery = operation.dissolve
+          ? `SELECT COUNT(*) AS feature_count, ST_Union_Agg(ST_Buffer(geom_utm13, ${distanceParam})) AS result_geom FROM selected`
+          : `SELECT * EXCLUDE (geom_utm13), ST_Buffer(geom_utm13, ${distanceParam}) AS result_geom FROM selected`;
+        break;
+      }
+
+      case 'dissolve': {
+        const groupField = operation.groupBy ? this.escapeIdentifier(operation.groupBy) : null;
+        resultQuery = groupField
+          ? `SELECT ${groupField}, COUNT(*) AS feature_count, ST_Union_Agg(geom_utm13) AS result_geom FROM selected GROUP BY ${groupField}`
+          : 'SELECT COUNT(*) AS feature_count, ST_Union_Agg(geom_utm13) AS result_geom FROM selected';
+        break;
+      }
+
+      case 'clip': {
+        if (!operation.clipLayer) {
+          throw new Error('clip requires clipLayer parameter');
+        }
+        this.validateLayer(operation.clipLayer);
+        // Uncapped: a truncated mask would clip away covered parts
+        const clipRows = this.buildTargetRowsSubquery(
+          {
+            op: 'intersects',
+            targetLayer: operation.clipLayer,
+            targetFilter: operation.clipFilter,
+          },
+          [],
+          false
+        );
+        resultQuery = `SELECT selected.* EXCLUDE (geom_utm13), ST_Intersection(selected.geom_utm13, clip.geom) AS result_geom
+          FROM selected, (SELECT ST_Union_Agg(geom_utm13) AS geom FROM ${clipRows} clip_rows) clip
+          WHERE ST_Intersects(selected.geom_utm13, clip.geom)`;
+        break;
+      }
+
+      default:
+        throw new Error(`Unsupported geometry operation: ${operation.op}`);
+    }
+
+    const fields = ['result.* EXCLUDE (result_geom)'];
+    const measure = this.getResultMeasure(operation);
+    if (measure) {
+      fields.push(measure);
+    }
+    fields.push(`ST_AsGeoJSON(${this.projectedToOutputGeometry('result_geom')}) AS geometry`);
+
+    const parts: string[] = [
+      `WITH selected AS (\n${selectedParts.join('\n')}\n)`,
+      `SELECT ${fields.join(', ')}`,
+      `FROM (${resultQuery}) result`,
+      'WHERE NOT ST_IsEmpty(result_geom)',
+    ];
+    if (isDissolve) {
+      if (this.query.orderBy) {
+        parts.push(
+          `ORDER BY ${this.escapeIdentifier(this.query.orderBy.field)} ${this.query.orderBy.direction.toUpperCase()}`
+        );
+      }
+      if (this.query.limit !== undefined) {
+        parts.push(`LIMIT ${this.query.limit}`);
+      }
+    }
+
+    return { sql: parts.join('\n'), params: this.params };
+  }
+
+  /**
+   * Build grid-count or hot-spot query over the selected features.
+   * Each feature is reduced to its point-on-surface, so it lands in
+   * exactly one cell or zone. Without an explicit orderBy the densest
+   * cells / hottest zones come first, so limits drop the sparse tail.
+   */
+  private buildDensityQuery(density: DensitySpec): { sql: string; params: unknown[] } {
+    let sourceRows = `SELECT * FROM ${this.escapeIdentifier(this.query.selectLayer)} source`;
+    const whereClause = this.buildWhere();
+    if (whereClause) {
+      sourceRows += ` WHERE ${whereClause}`;
+    }
+
+    const parts = density.method === 'grid'
+      ? this.buildGridDensityParts(sourceRows, density.cellSize ?? DENSITY_DEFAULT_CELL_SIZE)
+      : this.buildHotspotParts(sourceRows, density);
+
+    const orderBy = this.query.orderBy ?? {
+      field: density.method === 'grid' ? 'point_count' : 'gi_zscore',
+      direction: 'desc' as const,
+    };
+    parts.push(
+      `ORDER BY ${this.escapeIdentifier(orderBy.field)} ${orderBy.direction.toUpperCase()}`
+    );
+    if (this.query.limit !== undefined) {
+      parts.push(`LIMIT ${this.query.limit}`);
+    }
+
+    return { sql: parts.join('\n'), params: this.params };
+  }
+
+  /**
+   * Square cells of cellSize meters on the UTM 13N grid; only cells that
+   * contain at least one feature are returned.
+   */
+  private buildGridDensityParts(sourceRows: string, cellSize: number): string[] {
+    const size = this.addParam(cellSize);
+    const cellGeom = `ST_MakeEnvelope(cell_x * ${size}, cell_y * ${size}, (cell_x + 1) * ${size}, (cell_y + 1) * ${size})`;
+
+    return [
+      `WITH points AS (SELECT ST_PointOnSurface(source.geom_utm13) AS pt FROM (${sourceRows}) source),`,
+      `cells AS (SELECT CAST(FLOOR(ST_X(pt) / ${size}) AS BIGINT) AS cell_x, CAST(FLOOR(ST_Y(pt) / ${size}) AS BIGINT) AS cell_y, COUNT(*) AS point_count FROM points GROUP BY cell_x, cell_y)`,
+      `SELECT CONCAT(cell_x, '_', cell_y) AS cell_id, point_count, ST_AsGeoJSON(${this.projectedToOutputGeometry(cellGeom)}) AS geometry`,
+      'FROM cells',
+    ];
+  }
+
+  /**
+   * Getis-Ord Gi* over zone polygons with binary queen-contiguity weights
+   * (zones sharing any boundary point are neighbors, each zone is its own
+   * neighbor). With binary weights Σw = Σw² = k, so
+   * z = (Σ_neighbors x - mean·k) / (sd · √((n·k - k²) / (n - 1))).
+   */
+  private buildHotspotParts(sourceRows: string, density: DensitySpec): string[] {
+    const zoneLayer = density.zoneLayer ?? DENSITY_DEFAULT_ZONE_LAYER;
+    this.validateLayer(zoneLayer);
+
+    const zoneFields = density.zoneFields && density.zoneFields.length > 0
+      ? density.zoneFields.map((f) => {
+          const expression = this.fieldExpression(f, zoneLayer);
+          const column = this.escapeIdentifier(f);
+          return expression === column ? column : `${expression} AS ${column}`;
+        })
+      : this.getDefaultSelectFields(zoneLayer);
+
+    const zoneGeom = this.options.simplifyToleranceDeg && this.options.simplifyToleranceDeg > 0
+      ? `ST_SimplifyPreserveTopology(zones.geom_4326, ${this.options.simplifyToleranceDeg})`
+      : 'zones.geom_4326';
+    const giZ = `(nb.local_sum - stats.mean * nb.neighbors) / NULLIF(stats.sd * SQRT((stats.n * nb.neighbors - nb.neighbors * nb.neighbors) / NULLIF(stats.n - 1.0, 0)), 0)`;
+    const { p95, p90 } = HOTSPOT_Z_THRESHOLDS;
+
+    return [
+      `WITH zones AS (SELECT rowid AS __zone_id, ${zoneFields.join(', ')}, geom_4326 FROM ${this.escapeIdentifier(zoneLayer)}),`,
+      `counts AS (SELECT zones.__zone_id, COUNT(source.geom_4326) AS point_count FROM zones LEFT JOIN (${sourceRows}) source ON ST_Intersects(zones.geom_4326, ST_PointOnSurface(source.geom_4326)) GROUP BY zones.__zone_id),`,
+      'stats AS (SELECT COUNT(*) AS n, AVG(point_count) AS mean, STDDEV_POP(point_count) AS sd FROM counts),',
+      'nb AS (SELECT a.__zone_id, SUM(c.point_count) AS local_sum, COUNT(*) AS neighbors FROM zones a JOIN zones b ON ST_Intersects(a.geom_4326, b.geom_4326) JOIN counts c ON c.__zone_id = b.__zone_id GROUP BY a.__zone_id),',
+      `scored AS (SELECT zones.* EXCLUDE (__zone_id, geom_4326), counts.point_count, ${giZ} AS gi, ST_AsGeoJSON(${zoneGeom}) AS geometry FROM zones JOIN counts ON counts.__zone_id = zones.__zone_id JOIN nb ON nb.__zone_id = zones.__zone_id CROSS JOIN stats)`,
+      `SELECT scored.* EXCLUDE (gi, geometry), ROUND(gi, 2) AS gi_zscore,`,
+      `  CASE WHEN gi >= ${p95} THEN 'hot_95' WHEN gi >= ${p90} THEN 'hot_90' WHEN gi <= -${p95} THEN 'cold_95' WHEN gi <= -${p90} THEN 'cold_90' ELSE 'not_significant' END AS hotspot_class,`,
+      '  geometry',
+      'FROM scored',
+    ];
+  }
+
+  /**
+   * Measure column for geometry operation output, in meters.
+   * Buffers are always polygons; dissolve/clip keep the source geometry type.
+   */
+  private getResultMeasure(operation: GeometryOperation): string | null {
+    const geometryType =
+      operation.op === 'buffer'
+        ? 'Polygon'
+        : LAYER_SCHEMAS[this.query.selectLayer]?.geometryType ?? 'Polygon';
+
+    if (geometryType.includes('Polygon')) {
+      return 'ST_Area(result_geom) AS area_m2';
+    }
+    if (geometryType.includes('LineString')) {
+      return 'ST_Length(result_geom) AS length_m';
+    }
+    return null;
+  }
+
+  /**
+   * Transform a UTM 13N geometry expression back to WGS84 (lon/lat order),
+   * simplifying when a tolerance is configured.
+   */
+  private projectedToOutputGeometry(expr: string): string {
+    const transformed = `ST_Transform(${expr}, 'EPSG:32613', 'EPSG:4326', true)`;
+    if (this.options.simplifyToleranceDeg && this.options.simplifyToleranceDeg > 0) {
+      return `ST_SimplifyPreserveTopology(${transformed}, ${this.options.simplifyToleranceDeg})`;
+    }
+    return transformed;
+  }
+
+  /**
+   * Validate a spatial filter target: a known layer, an inline geometry,
+   * or a result set (checked when its rows are built)
+   */
+  private validateTarget(filter: SpatialFilter): void {
+    if (filter.targetLayer !== INLINE_GEOMETRY_TARGET && !isResultSetTarget(filter.targetLayer)) {
+      this.validateLayer(filter.targetLayer);
+    }
+  }
+
   /**
    * Validate layer name exists in schema
    */
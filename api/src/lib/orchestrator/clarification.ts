@@ -0,0 +1,242 @@
+/**
+ * Clarifying questions
+ *
+ * Turns an ambiguous request into a question with concrete choices: the
+ * places an area term like "downtown" could mean, loaded addresses on the
+ * street of one that isn't loaded, the layers or fields a message the
+ * parser couldn't read (or matched to data that isn't loaded) might be
+ * about, or a distance the model left out. The session keeps the question,
+ * and a reply that picks a choice runs the original request rewritten with
+ * it.
+ */
+
+import type { Clarification, ClarificationChoice } from '../../../../shared/types/api';
+import { LAYER_SCHEMAS } from '../../../../shared/types/geo';
+import type { PendingClarification } from '../conversation/store';
+import type { LayerRegistry } from '../layers/registry';
+import { type Gazetteer, type GazetteerEntry, type PlaceLookup, normalizePlaceName } from '../geocoding/gazetteer';
+import { layerName } from '../utils/explanation';
+import { type GroundingAssessment, findAmbiguousAreaTerm } from './intent-router';
+import { findMentionedLayers } from './rule-parser';
+
+const MAX_CHOICES = 6;
+
+// Layers whose features can stand in for an area term
+const AREA_LAYERS = ['neighborhoods', 'historic_districts'];
+
+// Distances offered when the model left one out (meters)
+const DISTANCE_CHOICES = [100, 250, 500, 1000];
+
+// Parse issue for a missing or out-of-range distance, e.g.
+// "spatialFilters.0.distance: within_distance spatial filters require distance"
+const DISTANCE_ISSUE = /(^|\.)distance:/;
+
+/**
+ * Question for the response and the state kept until the user replies
+ */
+export interface ClarificationRequest {
+  clarification: Clarification;
+  pending: PendingClarification;
+}
+
+type Choice = ClarificationChoice & { message: string };
+
+/**
+ * Ask about an address that isn't loaded or an area term no place name
+ * explains. Area terms are only asked about when loaded neighborhoods or
+ * districts match them, or when grounding already found the term
+ * ambiguous; otherwise the parser is left to read them.
+ */
+export function clarifyPlace(
+  message: string,
+  places: PlaceLookup,
+  grounding: GroundingAssessment,
+  options: { availableLayers: string[]; gazetteer: Gazetteer; lang: 'en' | 'es' }
+): ClarificationRequest | null {
+  const { availableLayers, gazetteer, lang } = options;
+  const isLoaded = (entry: GazetteerEntry) => availableLayers.includes(entry.layer);
+
+  const address = places.unresolvedAddresses[0];
+  if (address) {
+    const choices = gazetteer
+      .findAddressesOnStreet(address, MAX_CHOICES)
+      .filter(isLoaded)
+      .map((entry) => placeChoice(message, address, entry, 'address'));
+    const question = choices.length > 0
+      ? (lang === 'es'
+        ? `No encontré "${address}" entre las direcciones cargadas. ¿Se refiere a alguna de estas?`
+        : `I couldn't find "${address}" among the loaded addresses. Did you mean one of these?`)
+      : (lang === 'es'
+        ? `No encontré "${address}" entre las direcciones de parcelas o edificios cargadas. Revise el número y el nombre de la calle.`
+        : `I couldn't find "${address}" among the loaded parcel or building addresses. Please check the street number and name.`);
+    return buildRequest(message, 'unknown_address', question, choices);
+  }
+
+  const term = findAmbiguousAreaTerm(message, places);
+  if (!term) {
+    return null;
+  }
+  const layers = AREA_LAYERS.filter((layer) => availableLayers.includes(layer));
+  const choices = gazetteer
+    .findPlacesContaining(term, layers, MAX_CHOICES)
+    .map((entry) => placeChoice(message, term, entry, 'place'));
+  if (choices.length === 0 && !grounding.disambiguationPrompt) {
+    return null;
+  }
+  const question = choices.length > 0
+    ? (lang === 'es' ? `¿Qué zona quiere decir con "${term}"?` : `Which area do you mean by "${term}"?`)
+    : (lang === 'es'
+      ? `"${term}" es ambiguo con los datos cargados. Indique un barrio, distrito o dirección.`
+      : `"${term}" is ambiguous in the loaded data. Please name a neighborhood, district or address.`);
+  return buildRequest(message, 'ambiguous_place', question, choices);
+}
+
+/**
+ * Ask which layer a message the parser couldn't read is about: the loaded
+ * layers it names, or else every loaded layer (up to six)
+ */
+export function clarifyUnparsedQuery(
+  message: string,
+  availableLayers: string[],
+  lang: 'en' | 'es'
+): ClarificationRequest | null {
+  return clarifyLayer(message, availableLayers, 'unparsed_query', lang);
+}
+
+/**
+ * Follow-up question for a query that failed to parse or to match the
+ * loaded data: a distance when the parse issues say one is missing, else
+ * the fields of the query's layer, else the loaded layers. A reply that
+ * already picked a field or a distance gets no further question, so a
+ * request can't loop through the same choices.
+ */
+export function clarifyFailedQuery(
+  message: string,
+  options: {
+    reason: 'unparsed_query' | 'unmatched_query';
+    layer?: string; // Layer the query is about, when known
+    picked: ClarificationChoice | null; // Choice the message came from, if any
+    issues: string[]; // Issues of the last parse attempt
+    registry: LayerRegistry;
+    lang: 'en' | 'es';
+  }
+): ClarificationRequest | null {
+  const { reason, layer, picked, issues, registry, lang } = options;
+  if (picked?.kind === 'field' || picked?.kind === 'distance') {
+    return null;
+  }
+  if (issues.some((issue) => DISTANCE_ISSUE.test(issue))) {
+    return clarifyDistance(message, lang);
+  }
+
+  const fields = layer && registry.loadedLayerNames.includes(layer)
+    ? registry.layers[layer]?.queryableFields ?? []
+    : [];
+  const choices = fields
+    .filter((field) => !/(^|_)id$/.test(field))
+    .slice(0, MAX_CHOICES)
+    .map((field): Choice => ({
+      label: field.replace(/_/g, ' '),
+      kind: 'field',
+      layer,
+      message: `${message} (${field})`,
+    }));
+  if (!layer || choices.length === 0) {
+    return clarifyLayer(message, registry.loadedLayerNames, reason, lang);
+  }
+  const label = layerName(layer, lang);
+  const question = reason === 'unmatched_query'
+    ? (lang === 'es'
+      ? `Esa consulta usa datos que no están cargados. ¿Qué campo de ${label} debo usar?`
+      : `That query uses data that isn't loaded. Which ${label} field should I use?`)
+    : (lang === 'es'
+      ? `No pude convertir eso en una consulta. ¿Qué campo de ${label} debo usar?`
+      : `I couldn't turn that into a query. Which ${label} field should I use?`);
+  return buildRequest(message, reason, question, choices);
+}
+
+function clarifyDistance(message: string, lang: 'en' | 'es'): ClarificationRequest {
+  const choices = DISTANCE_CHOICES.map((meters): Choice => {
+    const label = meters >= 1000 ? `${meters / 1000} km` : `${meters} m`;
+    return {
+      label,
+      kind: 'distance',
+      message: `${message} (${lang === 'es' ? 'distancia' : 'distance'}: ${label})`,
+    };
+  });
+  const question = lang === 'es' ? '¿Qué distancia debo usar?' : 'What distance should I use?';
+  return buildRequest(message, 'missing_distance', question, choices);
+}
+
+function clarifyLayer(
+  message: string,
+  availableLayers: string[],
+  reason: 'unparsed_query' | 'unmatched_query',
+  lang: 'en' | 'es'
+): ClarificationRequest | null {
+  const mentioned = findMentionedLayers(message).filter((layer) => availableLayers.includes(layer));
+  const layers = mentioned.length > 0
+    ? mentioned
+    : Object.keys(LAYER_SCHEMAS).filter((layer) => availableLayers.includes(layer));
+  if (layers.length === 0) {
+    return null;
+  }
+
+  const choices = layers.slice(0, MAX_CHOICES).map((layer): Choice => {
+    const label = layerName(layer, lang);
+    return { label, kind: 'layer', layer, message: `${message} (${label})` };
+  });
+  const question = reason === 'unmatched_query'
+    ? (lang === 'es'
+      ? 'Esa consulta usa datos que no están cargados. ¿Qué datos debo buscar?'
+      : "That query uses data that isn't loaded. Which data should I search?")
+    : (lang === 'es'
+      ? 'No pude convertir eso en una consulta. ¿Qué datos debo buscar?'
+      : "I couldn't turn that into a query. Which data should I search?");
+  return buildRequest(message, reason, question, choices);
+}
+
+/**
+ * Choice a reply picks: its label (compared like place names) or its
+ * number. Null for any other reply, which is a new request.
+ */
+export function resolveClarification(
+  pending: PendingClarification,
+  reply: string
+): PendingClarification['choices'][number] | null {
+  const key = normalizePlaceName(reply);
+  const byNumber = /^\d+$/.test(key) ? pending.choices[Number(key) - 1] : undefined;
+  const choice = byNumber
+    ?? pending.choices.find((candidate) => normalizePlaceName(candidate.label) === key);
+  return choice ?? null;
+}
+
+function placeChoice(
+  message: string,
+  mention: string,
+  entry: GazetteerEntry,
+  kind: 'place' | 'address'
+): Choice {
+  return {
+    label: entry.name,
+    kind,
+    layer: entry.layer,
+    message: message.replace(mention, entry.name),
+  };
+}
+
+function buildRequest(
+  message: string,
+  reason: Clarification['reason'],
+  question: string,
+  choices: Choice[]
+): ClarificationRequest {
+  return {
+    clarification: {
+      reason,
+      question,
+      choices: choices.map(({ label, kind, layer }) => ({ label, kind, ...(layer ? { layer } : {}) })),
+    },
+    pending: { message, reason, choices },
+  };
+}
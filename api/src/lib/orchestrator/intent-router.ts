@@ -1,3 +1,5 @@
+import type { PlaceLookup } from '../geocoding/gazetteer';
+
 export type GroundingStatus = 'exact_match' | 'partial_match' | 'unsupported';
 
 export interface GroundingAssessment {
@@ -8,6 +10,15 @@ export interface GroundingAssessment {
   missingLayers: string[];
   disambiguationPrompt?: string;
   suggestions: string[];
+  resolvedPlaces: ResolvedPlace[];
+}
+
+/**
+ * Gazetteer entry a place mention resolved to
+ */
+export interface ResolvedPlace {
+  name: string;
+  layer: string;
 }
 
 interface ConceptRule {
@@ -62,9 +73,29 @@ const CONCEPT_RULES: ConceptRule[] = [
 
 const AMBIGUOUS_AREA_PATTERNS = [/\bdowntown\b/i, /\brailyard\b/i, /\bmidtown\b/i];
 
+const NO_PLACES: PlaceLookup = { matches: [], unresolvedAddresses: [] };
+
+/**
+ * Area term ("downtown", "midtown") in the message that no resolved place
+ * accounts for, e.g. "the Railyard" is explained by Railyard Park
+ */
+export function findAmbiguousAreaTerm(
+  userMessage: string,
+  places: PlaceLookup = NO_PLACES
+): string | null {
+  for (const pattern of AMBIGUOUS_AREA_PATTERNS) {
+    const match = pattern.exec(userMessage);
+    if (match && !places.matches.some((place) => pattern.test(place.entry.name))) {
+      return match[0];
+    }
+  }
+  return null;
+}
+
 export function assessGroundingRequest(
   userMessage: string,
-  availableLayers: string[]
+  availableLayers: string[],
+  places: PlaceLookup = NO_PLACES
 ): GroundingAssessment {
   const requestedConcepts: string[] = [];
   const matchedLayers = new Set<string>();
@@ -96,16 +127,21 @@ export function assessGroundingRequest(
     }
   }
 
-  const areaTermDetected = AMBIGUOUS_AREA_PATTERNS.some((pattern) =>
-    pattern.test(userMessage)
-  );
+  const areaTermDetected = findAmbiguousAreaTerm(userMessage, places) !== null;
   const hasBoundaryLayer =
     availableLayers.includes('neighborhoods') ||
     availableLayers.includes('city_limits') ||
     availableLayers.includes('historic_districts');
 
   let disambiguationPrompt: string | undefined;
-  if (areaTermDetected && !hasBoundaryLayer) {
+  const unresolvedAddress = places.unresolvedAddresses[0];
+  if (unresolvedAddress) {
+    disambiguationPrompt =
+      `Could not find "${unresolvedAddress}" among loaded parcel or building addresses. Please check the street number and name.`;
+    suggestions.push(
+      'Try a nearby landmark, park, or neighborhood name instead of the address.'
+    );
+  } else if (areaTermDetected && !hasBoundaryLayer) {
     disambiguationPrompt =
       'That place name is ambiguous in the current data. Please specify a concrete boundary layer or address.';
     suggestions.push(
@@ -128,5 +164,9 @@ export function assessGroundingRequest(
     missingLayers: Array.from(missingLayers).sort(),
     disambiguationPrompt,
     suggestions: Array.from(new Set(suggestions)).slice(0, 4),
+    resolvedPlaces: places.matches.map((match) => ({
+      name: match.entry.name,
+      layer: match.entry.layer,
+    })),
   };
 }
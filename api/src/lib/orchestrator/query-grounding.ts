@@ -1,10 +1,26 @@
 import type {
   AttributeFilter,
+  DensitySpec,
+  FilterExpression,
+  OverlapSpec,
+  SpatialEnrichment,
   SpatialFilter,
+  SpatialGroupBy,
   StructuredQuery,
 } from '../../../../shared/types/query';
+import {
+  DENSITY_DEFAULT_ZONE_LAYER,
+  DENSITY_OUTPUT_COLUMNS,
+  INLINE_GEOMETRY_TARGET,
+  OVERLAP_OUTPUT_COLUMNS,
+  getEnrichmentColumn,
+  getNearestTargetColumn,
+  isResultSetTarget,
+} from '../../../../shared/types/query';
+import type { DrawnShape } from '../../../../shared/types/api';
 import type { FieldType } from '../../../../shared/types/geo';
-import { structuredQueryKey } from '../cache';
+import { getMeasureFields } from '../../../../shared/types/geo';
+import { stableJsonKey, structuredQueryKey } from '../cache';
 import type { LayerRegistry } from '../layers/registry';
 
 export interface QueryValidationIssue {
@@ -35,6 +51,25 @@ const HARD_CAP_BY_GEOMETRY: Record<string, number> = {
   'Polygon | Point': 5000,
 };
 
+// Context layers beyond this many are left off the chat response
+const MAX_CONTEXT_LAYERS = 3;
+
+/**
+ * Primary date field per layer, used when a temporal query omits dateField.
+ */
+const DEFAULT_TEMPORAL_DATE_FIELDS: Record<string, string> = {
+  short_term_rentals: 'permit_issued_date',
+  eviction_filings: 'filing_date',
+  vacancy_status: 'vacant_since',
+};
+
+const TEMPORAL_OUTPUT_COLUMNS = [
+  'baseline_value',
+  'comparison_value',
+  'absolute_change',
+  'percent_change',
+];
+
 function cloneQuery(query: StructuredQuery): StructuredQuery {
   return JSON.parse(JSON.stringify(query)) as StructuredQuery;
 }
@@ -143,6 +178,90 @@ function normalizeAttributeFilters(
   return { filters: rewritten, notes };
 }
 
+function normalizeFilterExpression(
+  expression: FilterExpression,
+  layerName: string,
+  notes: string[]
+): FilterExpression {
+  if ('and' in expression) {
+    return { and: expression.and.map((child) => normalizeFilterExpression(child, layerName, notes)) };
+  }
+  if ('or' in expression) {
+    return { or: expression.or.map((child) => normalizeFilterExpression(child, layerName, notes)) };
+  }
+  if ('not' in expression) {
+    return { not: normalizeFilterExpression(expression.not, layerName, notes) };
+  }
+  if ('attribute' in expression) {
+    const normalized = normalizeFilter(expression.attribute, layerName);
+    if (normalized.note) {
+      notes.push(normalized.note);
+    }
+    return { attribute: normalized.rewritten };
+  }
+  const normalizedSpatial = normalizeSpatialFilter(expression.spatial);
+  notes.push(...normalizedSpatial.notes);
+  return { spatial: normalizedSpatial.rewritten };
+}
+
+/**
+ * Visit every attribute/spatial predicate in a filter tree with its path
+ */
+function forEachFilterPredicate(
+  expression: FilterExpression,
+  path: string,
+  visit: (predicate: { attribute: AttributeFilter } | { spatial: SpatialFilter }, path: string) => void
+): void {
+  if ('and' in expression) {
+    expression.and.forEach((child, i) => forEachFilterPredicate(child, `${path}.and.${i}`, visit));
+  } else if ('or' in expression) {
+    expression.or.forEach((child, i) => forEachFilterPredicate(child, `${path}.or.${i}`, visit));
+  } else if ('not' in expression) {
+    forEachFilterPredicate(expression.not, `${path}.not`, visit);
+  } else {
+    visit(expression, path);
+  }
+}
+
+/**
+ * Flat spatial filters and spatial predicates of the where tree, by
+ * reference (mutating them changes the query)
+ */
+export function getSpatialFilters(query: StructuredQuery): SpatialFilter[] {
+  const filters = [...(query.spatialFilters ?? [])];
+  if (query.where) {
+    forEachFilterPredicate(query.where, 'where', (predicate) => {
+      if ('spatial' in predicate) {
+        filters.push(predicate.spatial);
+      }
+    });
+  }
+  return filters;
+}
+
+/**
+ * Saved result sets a query targets, including the sets those saved
+ * queries target in turn
+ */
+export function getReferencedResultSets(
+  query: StructuredQuery,
+  resultSets: Record<string, StructuredQuery>
+): Record<string, StructuredQuery> {
+  const referenced: Record<string, StructuredQuery> = {};
+  const pending = [query];
+  while (pending.length > 0) {
+    const next = pending.pop()!;
+    for (const filter of getSpatialFilters(next)) {
+      const target = filter.targetLayer;
+      const saved = resultSets[target];
+      if (!isResultSetTarget(target) || !saved || target in referenced) continue;
+      referenced[target] = saved;
+      pending.push(saved);
+    }
+  }
+  return referenced;
+}
+
 export function normalizeStructuredQuery(
   query: StructuredQuery
 ): { query: StructuredQuery; notes: string[] } {
@@ -165,9 +284,91 @@ export function normalizeStructuredQuery(
     normalized.spatialFilters = rewrittenSpatial;
   }
 
+  if (normalized.where) {
+    normalized.where = normalizeFilterExpression(
+      normalized.where,
+      normalized.selectLayer,
+      notes
+    );
+  }
+
+  const temporal = normalized.temporal;
+  if (temporal && !temporal.dateField) {
+    const defaultDateField = DEFAULT_TEMPORAL_DATE_FIELDS[normalized.selectLayer];
+    if (defaultDateField) {
+      temporal.dateField = defaultDateField;
+      notes.push(`Using ${defaultDateField} as the temporal date field`);
+    }
+  }
+
+  const spatialGroupBy = normalized.aggregate?.spatialGroupBy;
+  if (spatialGroupBy?.targetFilter) {
+    const normalizedGroup = normalizeAttributeFilters(
+      spatialGroupBy.targetFilter,
+      spatialGroupBy.layer
+    );
+    spatialGroupBy.targetFilter = normalizedGroup.filters;
+    notes.push(...normalizedGroup.notes);
+  }
+
+  const overlap = normalized.overlap;
+  if (overlap?.targetFilter) {
+    const normalizedOverlap = normalizeAttributeFilters(overlap.targetFilter, overlap.targetLayer);
+    overlap.targetFilter = normalizedOverlap.filters;
+    notes.push(...normalizedOverlap.notes);
+  }
+
+  for (const enrichment of normalized.enrich ?? []) {
+    if (!enrichment.targetFilter) continue;
+    const normalizedEnrichment = normalizeAttributeFilters(
+      enrichment.targetFilter,
+      enrichment.layer
+    );
+    enrichment.targetFilter = normalizedEnrichment.filters;
+    notes.push(...normalizedEnrichment.notes);
+  }
+
+  const geometryOperation = normalized.geometryOperation;
+  if (geometryOperation?.clipLayer && geometryOperation.clipFilter) {
+    const normalizedClip = normalizeAttributeFilters(
+      geometryOperation.clipFilter,
+      geometryOperation.clipLayer
+    );
+    geometryOperation.clipFilter = normalizedClip.filters;
+    notes.push(...normalizedClip.notes);
+  }
+
   return { query: normalized, notes };
 }
 
+/**
+ * Limit a parsed query to a shape drawn on the map. Polygons and points
+ * become inline-geometry predicates ANDed through `where`, so they hold
+ * regardless of spatialLogic; rectangles become the query bbox.
+ */
+export function applyDrawnShape(query: StructuredQuery, shape: DrawnShape): StructuredQuery {
+  const limited = cloneQuery(query);
+
+  if (shape.type === 'rectangle') {
+    limited.bbox = shape.bbox;
+    return limited;
+  }
+
+  const spatial: SpatialFilter =
+    shape.type === 'polygon'
+      ? { op: 'intersects', targetLayer: INLINE_GEOMETRY_TARGET, targetGeometry: shape.geometry }
+      : {
+          op: 'within_distance',
+          targetLayer: INLINE_GEOMETRY_TARGET,
+          targetGeometry: shape.geometry,
+          distance: shape.radiusMeters,
+        };
+  limited.where = limited.where
+    ? { and: [limited.where, { spatial }] }
+    : { spatial };
+  return limited;
+}
+
 function isNumericField(fieldType: FieldType | undefined): boolean {
   return typeof fieldType === 'string' && fieldType.includes('number');
 }
@@ -244,7 +445,8 @@ function validateAggregateMetricType(
 
 export function validateQueryAgainstRegistry(
   query: StructuredQuery,
-  registry: LayerRegistry
+  registry: LayerRegistry,
+  resultSets: Record<string, StructuredQuery> = {}
 ): QueryValidationIssue[] {
   const issues: QueryValidationIssue[] = [];
   const primaryLayer = registry.layers[query.selectLayer];
@@ -258,10 +460,7 @@ export function validateQueryAgainstRegistry(
   }
 
   if (query.temporal) {
-    issues.push({
-      path: 'temporal',
-      message: 'Temporal queries are not supported yet',
-    });
+    validateTemporalQuery(query, registry, issues);
   }
 
   if (query.selectFields) {
@@ -276,17 +475,30 @@ export function validateQueryAgainstRegistry(
     }
   }
 
+  // Overlap output columns filter like numeric fields of the select layer
+  const overlapColumns: string[] = query.overlap ? [...OVERLAP_OUTPUT_COLUMNS] : [];
+  const sourceFieldTypes: Record<string, FieldType> = {
+    ...primaryLayer.schemaFields,
+    ...Object.fromEntries(overlapColumns.map((column) => [column, 'number' as const])),
+  };
+
   if (query.attributeFilters) {
     for (let i = 0; i < query.attributeFilters.length; i++) {
       const filter = query.attributeFilters[i];
       if (!filter) continue;
       const path = `attributeFilters.${i}.${filter.field}`;
-      ensureFieldExists(registry, query.selectLayer, filter.field, path, issues);
-      validateAttributeFilterTypes(primaryLayer.schemaFields, filter, path, issues);
+      if (!overlapColumns.includes(filter.field)) {
+        ensureFieldExists(registry, query.selectLayer, filter.field, path, issues);
+      }
+      validateAttributeFilterTypes(sourceFieldTypes, filter, path, issues);
     }
   }
 
-  if (query.orderBy) {
+  if (query.orderBy && (query.aggregate || query.temporal)) {
+    validateSummaryOrderBy(query, registry, issues);
+  } else if (query.density) {
+    // Density output columns are checked in validateDensity
+  } else if (query.orderBy && !getJoinedColumns(query).includes(query.orderBy.field)) {
     ensureFieldExists(
       registry,
       query.selectLayer,
@@ -324,47 +536,566 @@ export function validateQueryAgainstRegistry(
         issues
       );
     }
+    if (query.aggregate.spatialGroupBy) {
+      validateSpatialGroupBy(query.aggregate.spatialGroupBy, registry, issues);
+    }
   }
 
   if (query.spatialFilters) {
     for (let i = 0; i < query.spatialFilters.length; i++) {
       const filter = query.spatialFilters[i];
       if (!filter) continue;
-      const targetLayer = registry.layers[filter.targetLayer];
-      if (!targetLayer || !targetLayer.isLoaded) {
-        issues.push({
-          path: `spatialFilters.${i}.targetLayer`,
-          message: `Target layer "${filter.targetLayer}" is not loaded`,
-        });
-        continue;
+      validateSpatialFilter(filter, `spatialFilters.${i}`, registry, resultSets, issues);
+    }
+    validateNearestTargets(query, registry, issues);
+  }
+
+  if (query.where) {
+    forEachFilterPredicate(query.where, 'where', (predicate, path) => {
+      if ('attribute' in predicate) {
+        const filter = predicate.attribute;
+        const attributePath = `${path}.attribute.${filter.field}`;
+        if (!overlapColumns.includes(filter.field)) {
+          ensureFieldExists(registry, query.selectLayer, filter.field, attributePath, issues);
+        }
+        validateAttributeFilterTypes(sourceFieldTypes, filter, attributePath, issues);
+      } else {
+        validateSpatialFilter(predicate.spatial, `${path}.spatial`, registry, resultSets, issues);
+        if (wantsNearestTarget(predicate.spatial)) {
+          issues.push({
+            path: `${path}.spatial.includeNearestTarget`,
+            message: 'Nearest-target columns are only available on spatialFilters, not inside where',
+          });
+        }
       }
+    });
+  }
 
-      if (filter.targetFilter) {
-        for (let j = 0; j < filter.targetFilter.length; j++) {
-          const targetFilter = filter.targetFilter[j];
-          if (!targetFilter) continue;
-          const path = `spatialFilters.${i}.targetFilter.${j}.${targetFilter.field}`;
-          ensureFieldExists(
-            registry,
-            filter.targetLayer,
-            targetFilter.field,
-            path,
-            issues
-          );
-          validateAttributeFilterTypes(
-            targetLayer.schemaFields,
-            targetFilter,
-            path,
-            issues
-          );
+  if (query.enrich) {
+    const seenColumns = new Set(getNearestTargetColumns(query));
+    for (let i = 0; i < query.enrich.length; i++) {
+      const enrichment = query.enrich[i];
+      if (!enrichment) continue;
+      validateEnrichment(enrichment, `enrich.${i}`, registry, issues);
+      for (const field of enrichment.fields) {
+        const column = getEnrichmentColumn(enrichment.layer, field);
+        if (seenColumns.has(column)) {
+          issues.push({
+            path: `enrich.${i}.fields.${field}`,
+            message: `Result column "${column}" is already requested`,
+          });
         }
+        seenColumns.add(column);
       }
     }
   }
 
+  if (query.overlap) {
+    validateOverlap(query.overlap, primaryLayer.geometryType, registry, issues);
+  }
+
+  if (query.geometryOperation) {
+    validateGeometryOperation(query, registry, issues);
+  }
+
+  if (query.density) {
+    validateDensity(query, query.density, primaryLayer.geometryType, registry, issues);
+  }
+
   return issues;
 }
 
+function validateSpatialFilter(
+  filter: SpatialFilter,
+  path: string,
+  registry: LayerRegistry,
+  resultSets: Record<string, StructuredQuery>,
+  issues: QueryValidationIssue[]
+): void {
+  if (filter.targetLayer === INLINE_GEOMETRY_TARGET) {
+    validateInlineTarget(filter, path, issues);
+    return;
+  }
+  if (isResultSetTarget(filter.targetLayer)) {
+    validateResultSetTarget(filter, path, resultSets, issues);
+    return;
+  }
+
+  const targetLayer = registry.layers[filter.targetLayer];
+  if (!targetLayer || !targetLayer.isLoaded) {
+    issues.push({
+      path: `${path}.targetLayer`,
+      message: `Target layer "${filter.targetLayer}" is not loaded`,
+    });
+    return;
+  }
+
+  if (filter.targetFilter) {
+    for (let j = 0; j < filter.targetFilter.length; j++) {
+      const targetFilter = filter.targetFilter[j];
+      if (!targetFilter) continue;
+      const targetPath = `${path}.targetFilter.${j}.${targetFilter.field}`;
+      ensureFieldExists(
+        registry,
+        filter.targetLayer,
+        targetFilter.field,
+        targetPath,
+        issues
+      );
+      validateAttributeFilterTypes(
+        targetLayer.schemaFields,
+        targetFilter,
+        targetPath,
+        issues
+      );
+    }
+  }
+}
+
+/**
+ * An inline geometry target is a single shape with no attributes, so
+ * target filters and closest-target columns do not apply
+ */
+function validateInlineTarget(
+  filter: SpatialFilter,
+  path: string,
+  issues: QueryValidationIssue[]
+): void {
+  if (!filter.targetGeometry) {
+    issues.push({
+      path: `${path}.targetGeometry`,
+      message: `Target "${INLINE_GEOMETRY_TARGET}" requires targetGeometry`,
+    });
+  }
+  if (filter.targetFilter && filter.targetFilter.length > 0) {
+    issues.push({
+      path: `${path}.targetFilter`,
+      message: 'targetFilter is not available for inline geometry targets',
+    });
+  }
+  if (wantsNearestTarget(filter)) {
+    issues.push({
+      path: `${path}.includeNearestTarget`,
+      message: 'Nearest-target columns are not available for inline geometry targets',
+    });
+  }
+}
+
+/**
+ * A result set target must exist in the conversation and have geometry;
+ * like inline geometry it takes no target filter or closest-target columns
+ */
+function validateResultSetTarget(
+  filter: SpatialFilter,
+  path: string,
+  resultSets: Record<string, StructuredQuery>,
+  issues: QueryValidationIssue[]
+): void {
+  const saved = resultSets[filter.targetLayer];
+  if (!saved) {
+    issues.push({
+      path: `${path}.targetLayer`,
+      message: `Result set "${filter.targetLayer}" is not available in this conversation`,
+    });
+  } else if ((saved.aggregate || saved.temporal) && !saved.aggregate?.spatialGroupBy) {
+    issues.push({
+      path: `${path}.targetLayer`,
+      message: `Result set "${filter.targetLayer}" is a summary without geometry and cannot be a spatial target`,
+    });
+  }
+  if (filter.targetFilter && filter.targetFilter.length > 0) {
+    issues.push({
+      path: `${path}.targetFilter`,
+      message: 'targetFilter is not available for result set targets',
+    });
+  }
+  if (wantsNearestTarget(filter)) {
+    issues.push({
+      path: `${path}.includeNearestTarget`,
+      message: 'Nearest-target columns are not available for result set targets',
+    });
+  }
+}
+
+function wantsNearestTarget(filter: SpatialFilter): boolean {
+  return Boolean(filter.includeNearestTarget) || (filter.targetFields?.length ?? 0) > 0;
+}
+
+/**
+ * Result columns added by flat proximity filters that request the
+ * closest target (distance plus target fields).
+ */
+function getNearestTargetColumns(query: StructuredQuery): string[] {
+  const columns: string[] = [];
+  for (const filter of query.spatialFilters ?? []) {
+    if (!wantsNearestTarget(filter)) continue;
+    columns.push(getNearestTargetColumn(filter.targetLayer));
+    for (const field of filter.targetFields ?? []) {
+      columns.push(getNearestTargetColumn(filter.targetLayer, field));
+    }
+  }
+  return columns;
+}
+
+/**
+ * Nearest-target, enrichment and overlap columns joined onto the source
+ * features
+ */
+function getJoinedColumns(query: StructuredQuery): string[] {
+  const columns = getNearestTargetColumns(query);
+  for (const enrichment of query.enrich ?? []) {
+    for (const field of enrichment.fields) {
+      columns.push(getEnrichmentColumn(enrichment.layer, field));
+    }
+  }
+  if (query.overlap) {
+    columns.push(...OVERLAP_OUTPUT_COLUMNS);
+  }
+  return columns;
+}
+
+function validateOverlap(
+  overlap: OverlapSpec,
+  sourceGeometryType: string,
+  registry: LayerRegistry,
+  issues: QueryValidationIssue[]
+): void {
+  if (sourceGeometryType !== 'Polygon') {
+    issues.push({
+      path: 'overlap',
+      message: 'Overlap share requires a polygon select layer',
+    });
+  }
+
+  const targetLayer = registry.layers[overlap.targetLayer];
+  if (!targetLayer || !targetLayer.isLoaded) {
+    issues.push({
+      path: 'overlap.targetLayer',
+      message: `Overlap layer "${overlap.targetLayer}" is not loaded`,
+    });
+    return;
+  }
+
+  if (!targetLayer.geometryType.includes('Polygon')) {
+    issues.push({
+      path: 'overlap.targetLayer',
+      message: `Overlap layer "${overlap.targetLayer}" must be a polygon layer`,
+    });
+  }
+
+  for (let i = 0; i < (overlap.targetFilter ?? []).length; i++) {
+    const targetFilter = overlap.targetFilter?.[i];
+    if (!targetFilter) continue;
+    const path = `overlap.targetFilter.${i}.${targetFilter.field}`;
+    ensureFieldExists(registry, overlap.targetLayer, targetFilter.field, path, issues);
+    validateAttributeFilterTypes(targetLayer.schemaFields, targetFilter, path, issues);
+  }
+}
+
+function validateDensity(
+  query: StructuredQuery,
+  density: DensitySpec,
+  sourceGeometryType: string,
+  registry: LayerRegistry,
+  issues: QueryValidationIssue[]
+): void {
+  if (!sourceGeometryType.includes('Point')) {
+    issues.push({
+      path: 'density',
+      message: 'Density analysis requires a point select layer',
+    });
+  }
+
+  // Density returns cells or zones, not the selected features
+  if (query.selectFields && query.selectFields.length > 0) {
+    issues.push({
+      path: 'selectFields',
+      message: 'selectFields cannot be combined with density; results are cells or zones',
+    });
+  }
+  for (let i = 0; i < (query.spatialFilters ?? []).length; i++) {
+    const filter = query.spatialFilters?.[i];
+    if (filter && wantsNearestTarget(filter)) {
+      issues.push({
+        path: `spatialFilters.${i}.includeNearestTarget`,
+        message: 'Nearest-target columns cannot be combined with density',
+      });
+    }
+  }
+
+  const outputColumns: string[] = [...DENSITY_OUTPUT_COLUMNS[density.method]];
+
+  if (density.method === 'hotspot') {
+    const zoneLayerName = density.zoneLayer ?? DENSITY_DEFAULT_ZONE_LAYER;
+    const zoneLayer = registry.layers[zoneLayerName];
+    if (!zoneLayer || !zoneLayer.isLoaded) {
+      issues.push({
+        path: 'density.zoneLayer',
+        message: `Zone layer "${zoneLayerName}" is not loaded`,
+      });
+      return;
+    }
+    if (!zoneLayer.geometryType.includes('Polygon')) {
+      issues.push({
+        path: 'density.zoneLayer',
+        message: `Zone layer "${zoneLayerName}" must be a polygon layer`,
+      });
+    }
+    for (const field of density.zoneFields ?? []) {
+      ensureFieldExists(registry, zoneLayerName, field, `density.zoneFields.${field}`, issues);
+    }
+    outputColumns.push(
+      ...(density.zoneFields && density.zoneFields.length > 0
+        ? density.zoneFields
+        : Object.keys(zoneLayer.schemaFields).filter(
+            (field) => !getMeasureFields(zoneLayerName).includes(field)
+          ))
+    );
+  }
+
+  if (query.orderBy && !outputColumns.includes(query.orderBy.field)) {
+    issues.push({
+      path: `orderBy.${query.orderBy.field}`,
+      message: `Density results can only be ordered by ${outputColumns.join(', ')}`,
+    });
+  }
+}
+
+function validateEnrichment(
+  enrichment: SpatialEnrichment,
+  path: string,
+  registry: LayerRegistry,
+  issues: QueryValidationIssue[]
+): void {
+  const layer = registry.layers[enrichment.layer];
+  if (!layer || !layer.isLoaded) {
+    issues.push({
+      path: `${path}.layer`,
+      message: `Enrichment layer "${enrichment.layer}" is not loaded`,
+    });
+    return;
+  }
+
+  if (!layer.geometryType.includes('Polygon')) {
+    issues.push({
+      path: `${path}.layer`,
+      message: `Enrichment layer "${enrichment.layer}" must be a polygon layer`,
+    });
+  }
+
+  for (const field of enrichment.fields) {
+    ensureFieldExists(registry, enrichment.layer, field, `${path}.fields.${field}`, issues);
+  }
+
+  for (let i = 0; i < (enrichment.targetFilter ?? []).length; i++) {
+    const targetFilter = enrichment.targetFilter?.[i];
+    if (!targetFilter) continue;
+    const filterPath = `${path}.targetFilter.${i}.${targetFilter.field}`;
+    ensureFieldExists(registry, enrichment.layer, targetFilter.field, filterPath, issues);
+    validateAttributeFilterTypes(layer.schemaFields, targetFilter, filterPath, issues);
+  }
+}
+
+function validateNearestTargets(
+  query: StructuredQuery,
+  registry: LayerRegistry,
+  issues: QueryValidationIssue[]
+): void {
+  const seenLayers = new Set<string>();
+  const filters = query.spatialFilters ?? [];
+
+  for (let i = 0; i < filters.length; i++) {
+    const filter = filters[i];
+    if (!filter || !wantsNearestTarget(filter)) continue;
+    const path = `spatialFilters.${i}`;
+
+    if (query.aggregate || query.temporal || query.geometryOperation) {
+      issues.push({
+        path: `${path}.includeNearestTarget`,
+        message: 'Nearest-target columns cannot be combined with aggregate, temporal, or geometryOperation',
+      });
+    }
+    if (seenLayers.has(filter.targetLayer)) {
+      issues.push({
+        path: `${path}.includeNearestTarget`,
+        message: `Nearest-target columns for "${filter.targetLayer}" are already requested by another filter`,
+      });
+    }
+    seenLayers.add(filter.targetLayer);
+
+    if (!registry.layers[filter.targetLayer]?.isLoaded) continue;
+    for (const field of filter.targetFields ?? []) {
+      ensureFieldExists(registry, filter.targetLayer, field, `${path}.targetFields.${field}`, issues);
+    }
+  }
+}
+
+function validateSpatialGroupBy(
+  spatialGroupBy: SpatialGroupBy,
+  registry: LayerRegistry,
+  issues: QueryValidationIssue[]
+): void {
+  const groupLayer = registry.layers[spatialGroupBy.layer];
+  if (!groupLayer || !groupLayer.isLoaded) {
+    issues.push({
+      path: 'aggregate.spatialGroupBy.layer',
+      message: `Group layer "${spatialGroupBy.layer}" is not loaded`,
+    });
+    return;
+  }
+
+  if (!groupLayer.geometryType.includes('Polygon')) {
+    issues.push({
+      path: 'aggregate.spatialGroupBy.layer',
+      message: `Group layer "${spatialGroupBy.layer}" must be a polygon layer`,
+    });
+  }
+
+  for (const field of spatialGroupBy.fields ?? []) {
+    ensureFieldExists(
+      registry,
+      spatialGroupBy.layer,
+      field,
+      `aggregate.spatialGroupBy.fields.${field}`,
+      issues
+    );
+  }
+
+  for (let i = 0; i < (spatialGroupBy.targetFilter ?? []).length; i++) {
+    const targetFilter = spatialGroupBy.targetFilter?.[i];
+    if (!targetFilter) continue;
+    const path = `aggregate.spatialGroupBy.targetFilter.${i}.${targetFilter.field}`;
+    ensureFieldExists(registry, spatialGroupBy.layer, targetFilter.field, path, issues);
+    validateAttributeFilterTypes(groupLayer.schemaFields, targetFilter, path, issues);
+  }
+}
+
+function validateTemporalQuery(
+  query: StructuredQuery,
+  registry: LayerRegistry,
+  issues: QueryValidationIssue[]
+): void {
+  const temporal = query.temporal;
+  const layer = registry.layers[query.selectLayer];
+  if (!temporal || !layer) return;
+
+  if (!temporal.dateField) {
+    issues.push({
+      path: 'temporal',
+      message: `Layer "${query.selectLayer}" has no date field for temporal comparison`,
+    });
+  } else {
+    ensureFieldExists(
+      registry,
+      query.selectLayer,
+      temporal.dateField,
+      `temporal.dateField.${temporal.dateField}`,
+      issues
+    );
+  }
+
+  if (temporal.metric !== '*') {
+    const path = `temporal.metric.${temporal.metric}`;
+    ensureFieldExists(registry, query.selectLayer, temporal.metric, path, issues);
+    if (!isNumericField(layer.schemaFields[temporal.metric])) {
+      issues.push({
+        path,
+        message: 'Temporal metric must be "*" (count) or a numeric field',
+      });
+    }
+  }
+}
+
+/**
+ * Aggregate and temporal results can only be ordered by their output
+ * columns: group fields, metric aliases, or temporal change columns.
+ */
+function validateSummaryOrderBy(
+  query: StructuredQuery,
+  registry: LayerRegistry,
+  issues: QueryValidationIssue[]
+): void {
+  const aggregate = query.aggregate;
+  if (!query.orderBy) return;
+
+  const outputColumns = new Set<string>(aggregate?.groupBy ?? []);
+  for (const metric of aggregate?.metrics ?? []) {
+    outputColumns.add(metric.alias ?? `${metric.op}_${metric.field}`);
+  }
+  if (query.temporal) {
+    for (const column of TEMPORAL_OUTPUT_COLUMNS) {
+      outputColumns.add(column);
+    }
+  }
+  const spatialGroupBy = aggregate?.spatialGroupBy;
+  if (spatialGroupBy) {
+    const groupFields = spatialGroupBy.fields && spatialGroupBy.fields.length > 0
+      ? spatialGroupBy.fields
+      : Object.keys(registry.layers[spatialGroupBy.layer]?.schemaFields ?? {}).filter(
+          (field) => !getMeasureFields(spatialGroupBy.layer).includes(field)
+        );
+    for (const field of groupFields) {
+      outputColumns.add(field);
+    }
+  }
+
+  if (!outputColumns.has(query.orderBy.field)) {
+    issues.push({
+      path: `orderBy.${query.orderBy.field}`,
+      message: 'Summary results can only be ordered by group fields, metric aliases, or temporal change columns',
+    });
+  }
+}
+
+function validateGeometryOperation(
+  query: StructuredQuery,
+  registry: LayerRegistry,
+  issues: QueryValidationIssue[]
+): void {
+  const operation = query.geometryOperation;
+  if (!operation) return;
+
+  if (operation.op === 'dissolve' && operation.groupBy) {
+    ensureFieldExists(
+      registry,
+      query.selectLayer,
+      operation.groupBy,
+      `geometryOperation.groupBy.${operation.groupBy}`,
+      issues
+    );
+  }
+
+  const isDissolve =
+    operation.op === 'dissolve' || (operation.op === 'buffer' && operation.dissolve === true);
+  if (isDissolve && query.orderBy && query.orderBy.field !== operation.groupBy) {
+    issues.push({
+      path: `orderBy.${query.orderBy.field}`,
+      message: 'Dissolved results can only be ordered by the dissolve groupBy field',
+    });
+  }
+
+  if (operation.op !== 'clip' || !operation.clipLayer) {
+    return;
+  }
+
+  const clipLayer = registry.layers[operation.clipLayer];
+  if (!clipLayer || !clipLayer.isLoaded) {
+    issues.push({
+      path: 'geometryOperation.clipLayer',
+      message: `Clip layer "${operation.clipLayer}" is not loaded`,
+    });
+    return;
+  }
+
+  for (let i = 0; i < (operation.clipFilter ?? []).length; i++) {
+    const clipFilter = operation.clipFilter?.[i];
+    if (!clipFilter) continue;
+    const path = `geometryOperation.clipFilter.${i}.${clipFilter.field}`;
+    ensureFieldExists(registry, operation.clipLayer, clipFilter.field, path, issues);
+    validateAttributeFilterTypes(clipLayer.schemaFields, clipFilter, path, issues);
+  }
+}
+
 function getLayerGeometryType(registry: LayerRegistry, layerName: string): string {
   return registry.layers[layerName]?.geometryType ?? 'Polygon';
 }
@@ -395,7 +1126,12 @@ export function applyQueryLimits(
   registry: LayerRegistry
 ): LimitApplication {
   const limited = cloneQuery(query);
-  const geometryType = getLayerGeometryType(registry, limited.selectLayer);
+  // Spatial aggregates return the group layer's polygons, density returns
+  // grid cells or zone polygons
+  const outputLayer = limited.aggregate?.spatialGroupBy?.layer ?? limited.selectLayer;
+  const geometryType = limited.density
+    ? 'Polygon'
+    : getLayerGeometryType(registry, outputLayer);
   const hardCap = getHardCap(geometryType);
   const defaultLimit = getDefaultLimit(geometryType);
 
@@ -444,14 +1180,83 @@ export function applyQueryLimits(
   };
 }
 
+/**
+ * Queries for the target layers a query filters against, so a chat answer
+ * can show them under the results. Each distinct layer + targetFilter
+ * pair becomes one query; targets equal to the unfiltered select layer,
+ * inline geometry and result sets are skipped.
+ */
+export function getContextLayerQueries(query: StructuredQuery): StructuredQuery[] {
+  const targets: { layer: string; filter?: AttributeFilter[] }[] = getSpatialFilters(query).map(
+    (filter) => ({ layer: filter.targetLayer, filter: filter.targetFilter })
+  );
+  if (query.overlap) {
+    targets.push({ layer: query.overlap.targetLayer, filter: query.overlap.targetFilter });
+  }
+
+  const queries = new Map<string, StructuredQuery>();
+  for (const { layer, filter } of targets) {
+    const hasFilter = filter !== undefined && filter.length > 0;
+    if (layer === INLINE_GEOMETRY_TARGET || isResultSetTarget(layer)) continue;
+    if (layer === query.selectLayer && !hasFilter) continue;
+
+    const contextQuery: StructuredQuery = hasFilter
+      ? { selectLayer: layer, attributeFilters: filter }
+      : { selectLayer: layer };
+    const key = structuredQueryKey(contextQuery);
+    if (!queries.has(key) && queries.size < MAX_CONTEXT_LAYERS) {
+      queries.set(key, contextQuery);
+    }
+  }
+  return Array.from(queries.values());
+}
+
 export function getQuerySourceLayers(query: StructuredQuery): string[] {
   const layers = new Set<string>([query.selectLayer]);
   for (const spatialFilter of query.spatialFilters ?? []) {
     layers.add(spatialFilter.targetLayer);
   }
+  if (query.where) {
+    forEachFilterPredicate(query.where, 'where', (predicate) => {
+      if ('spatial' in predicate) {
+        layers.add(predicate.spatial.targetLayer);
+      }
+    });
+  }
+  for (const layer of layers) {
+    if (layer === INLINE_GEOMETRY_TARGET || isResultSetTarget(layer)) {
+      layers.delete(layer);
+    }
+  }
+  if (query.aggregate?.spatialGroupBy) {
+    layers.add(query.aggregate.spatialGroupBy.layer);
+  }
+  if (query.geometryOperation?.clipLayer) {
+    layers.add(query.geometryOperation.clipLayer);
+  }
+  for (const enrichment of query.enrich ?? []) {
+    layers.add(enrichment.layer);
+  }
+  if (query.overlap) {
+    layers.add(query.overlap.targetLayer);
+  }
+  if (query.density?.method === 'hotspot') {
+    layers.add(query.density.zoneLayer ?? DENSITY_DEFAULT_ZONE_LAYER);
+  }
   return Array.from(layers).sort();
 }
 
-export function getQueryHash(query: StructuredQuery): string {
-  return structuredQueryKey(query);
+/**
+ * Cache key for a query. Result set targets are only names, so the saved
+ * queries they reference are part of the key.
+ */
+export function getQueryHash(
+  query: StructuredQuery,
+  resultSets: Record<string, StructuredQuery> = {}
+): string {
+  const referenced = getReferencedResultSets(query, resultSets);
+  if (Object.keys(referenced).length === 0) {
+    return structuredQueryKey(query);
+  }
+  return stableJsonKey({ query, resultSets: referenced });
 }
@@ -0,0 +1,507 @@
+/**
+ * Rule-Based Intent Parser
+ *
+ * Deterministic fallback for IntentParser when no LLM is reachable or the
+ * model answers with something that isn't JSON. It understands only
+ * simply patterned queries: a layer, optional field comparisons
+ * ("parks larger than 10 acres") and spatial phrases ("within 500 m of
+ * transit stops", "near parks", "inside historic districts", "not in flood
+ * zones"), in English and the Spanish vocabulary of the LLM prompt.
+ *
+ * Words it can't account for lower its confidence, or make it give up when
+ * it found no filter at all, since they probably were the filter. A number,
+ * negation or "or" outside a known phrase also makes it give up rather than
+ * drop a condition or answer the opposite question.
+ */
+
+import type { AttributeFilter, SpatialFilter, SpatialOp, StructuredQuery } from '../../../../shared/types/query';
+import { LAYER_SCHEMAS, getMeasureFields } from '../../../../shared/types/geo';
+import { type Gazetteer, getPlaceTarget, normalizePlaceName } from '../geocoding/gazetteer';
+import { safeValidateQuery } from './validator';
+
+/** Rule parses are always less certain than a validated LLM parse */
+const BASE_CONFIDENCE = 0.5;
+const MIN_CONFIDENCE = 0.2;
+const UNKNOWN_WORD_PENALTY = 0.05;
+const UNUSED_LAYER_PENALTY = 0.1;
+
+/** Distance for "near" without a number, as in the LLM prompt examples */
+const NEAR_DISTANCE_M = 500;
+
+export interface RuleParserOptions {
+  availableLayers: Set<string>; // Empty means every layer in LAYER_SCHEMAS
+  availableLayerFields: Map<string, Set<string>>;
+  gazetteer?: Gazetteer | null;
+}
+
+export interface RuleParseResult {
+  query: StructuredQuery;
+  confidence: number; // 0.0-1.0, at most BASE_CONFIDENCE
+}
+
+// ── Vocabulary ─────────────────────────────────────────────────────────────────
+
+interface LayerTerm {
+  layer: string;
+  pattern: string; // Matched against normalized text (lowercase, no accents)
+  filter?: AttributeFilter[];
+}
+
+const LAYER_TERMS: LayerTerm[] = [
+  { layer: 'parcels', pattern: 'parcels?|lots?|propert(?:y|ies)|parcelas?|lotes?|propiedad(?:es)?' },
+  { layer: 'census_tracts', pattern: '(?:census )?tracts?|sector(?:es)? censal(?:es)?' },
+  { layer: 'hydrology', pattern: 'hydrology|streams?|waterways?|hidrologia' },
+  { layer: 'hydrology', pattern: 'acequias?', filter: [{ field: 'type', op: 'eq', value: 'ACEQUIA' }] },
+  { layer: 'hydrology', pattern: 'arroyos?', filter: [{ field: 'type', op: 'eq', value: 'ARROYO' }] },
+  { layer: 'hydrology', pattern: 'creeks?', filter: [{ field: 'type', op: 'eq', value: 'CREEK' }] },
+  { layer: 'zoning_districts', pattern: 'zoning(?: districts?| zones?)?|zonificacion' },
+  { layer: 'building_footprints', pattern: '(?:building )?footprints?|buildings?|edificios?' },
+  { layer: 'short_term_rentals', pattern: 'short term rentals?|vacation rentals?|airbnbs?|alquiler(?:es)? de corto plazo' },
+  { layer: 'vacancy_status', pattern: 'vacanc(?:y|ies)|viviendas? vacias?' },
+  { layer: 'affordable_housing_units', pattern: 'affordable housing(?: units?| developments?)?|viviendas? asequibles?' },
+  { layer: 'eviction_filings', pattern: 'eviction(?: filing)?s?|desalojos?' },
+  { layer: 'transit_access', pattern: 'transit(?: stops?| stations?)?|stops|paradas?(?: de transporte publico)?' },
+  { layer: 'transit_access', pattern: 'bus stops?|paradas? de autobus', filter: [{ field: 'stop_type', op: 'eq', value: 'bus' }] },
+  { layer: 'transit_access', pattern: '(?:rail|train) stations?|estaciones? de tren', filter: [{ field: 'stop_type', op: 'eq', value: 'rail' }] },
+  { layer: 'school_zones', pattern: 'school(?: attendance)? zones?|attendance zones?|schools?|zonas? escolares|escuelas?' },
+  { layer: 'historic_districts', pattern: 'historic districts?|distritos? historicos?' },
+  { layer: 'flood_zones', pattern: 'flood(?: hazard)? zones?|flood ?plains?|zonas? inundables?|zonas? de inundacion' },
+  { layer: 'wildfire_risk', pattern: '(?:wild)?fire risk(?: zones?| areas?)?|wildfire zones?|(?:zonas? de )?riesgo de incendios?' },
+  { layer: 'neighborhoods', pattern: 'neighbou?rhoods?|barrios?|vecindarios?' },
+  { layer: 'city_limits', pattern: 'city limits|city boundary|limites? de la ciudad|limite municipal' },
+  { layer: 'parks', pattern: 'parks?|parques?' },
+  { layer: 'bikeways', pattern: 'bikeways?|bike (?:lanes?|paths?|routes?)|bicycle routes?|ciclovias?' },
+];
+
+/** Spoken names for numeric fields that aren't just the field name */
+const FIELD_SYNONYMS: Record<string, string[]> = {
+  assessed_value: ['value', 'valor tasado', 'valor'],
+  median_income: ['income', 'ingresos? medianos?', 'ingresos?'],
+  total_population: ['population', 'poblacion'],
+  median_age: ['edad mediana'],
+  height: ['altura'],
+  total_units: ['units', 'unidades'],
+};
+
+const UNIT_METERS: Record<string, number> = {
+  m: 1, meter: 1, meters: 1, metre: 1, metres: 1, metro: 1, metros: 1,
+  km: 1000, kilometer: 1000, kilometers: 1000, kilometre: 1000, kilometres: 1000,
+  kilometro: 1000, kilometros: 1000,
+  ft: 0.3048, foot: 0.3048, feet: 0.3048, pie: 0.3048, pies: 0.3048,
+  mi: 1609.344, mile: 1609.344, miles: 1609.344, milla: 1609.344, millas: 1609.344,
+  yd: 0.9144, yard: 0.9144, yards: 0.9144, yarda: 0.9144, yardas: 0.9144,
+};
+
+const DISTANCE = `(\\d+(?:\\.\\d+)?) ?(${Object.keys(UNIT_METERS)
+  .sort((a, b) => b.length - a.length)
+  .join('|')})`;
+
+interface SpatialPhrase {
+  op: SpatialOp;
+  pattern: string;
+  distance?: number; // Fixed distance for phrases without a number
+}
+
+// Overlapping matches are resolved longest first, so "not in" beats "in"
+// and "within 500 m of" beats "within"
+const SPATIAL_PHRASES: SpatialPhrase[] = [
+  { op: 'beyond_distance', pattern: `(?:(?:more|farther|further) than|over|at least|beyond|not within|a mas de|mas de) ${DISTANCE} (?:away )?(?:from|of|de|desde)` },
+  { op: 'beyond_distance', pattern: 'not (?:near|close to)|far from|away from|lejos de|no cerca de', distance: NEAR_DISTANCE_M },
+  { op: 'within_distance', pattern: `(?:(?:within|less than|under|up to|a menos de|menos de|dentro de|en un radio de|a) )?${DISTANCE} (?:of|from|de|desde)` },
+  { op: 'within_distance', pattern: 'near(?:by)?|close to|next to|cerca de|junto a|(?:cercan|proxim)[oa]s? a', distance: NEAR_DISTANCE_M },
+  { op: 'not_intersects', pattern: 'not (?:in|inside|within|intersecting|touching)|outside(?: of)?|fuera de|que no (?:estan en|intersectan)|no estan en' },
+  { op: 'within', pattern: 'inside(?: of)?|within|contained in|dentro de' },
+  { op: 'intersects', pattern: 'in|en|intersecting|intersects?|overlapping|overlaps?|crossing|cross(?:es)?|touching|que (?:intersectan|cruzan)' },
+];
+
+type Comparison = 'gt' | 'gte' | 'lt' | 'lte';
+
+const COMPARATORS: Array<{ op: Comparison; pattern: string }> = [
+  { op: 'gte', pattern: 'at least|no less than|al menos|como minimo' },
+  { op: 'lte', pattern: 'at most|no more than|como maximo' },
+  { op: 'gt', pattern: 'over|above|exceeding|(?:greater|more|higher|larger|bigger|taller|longer) than|mayor(?:es)? (?:a|de|que)|mas (?:de|que)|mas (?:grandes?|altos?|altas?|largos?|largas?) que|superior(?:es)? a' },
+  { op: 'lt', pattern: 'under|below|(?:less|fewer|lower|smaller|shorter) than|menor(?:es)? (?:a|de|que)|menos (?:de|que)|mas (?:pequen[oa]s?|cortos?|cortas?) que|inferior(?:es)? a' },
+];
+
+/** Comparisons whose wording names the field ("taller than 30 feet") */
+const IMPLIED_FIELDS: Array<{ pattern: RegExp; field: string }> = [
+  { pattern: /\b(?:taller|higher|alt[oa]s?)\b/, field: 'height' },
+  { pattern: /\b(?:longer|shorter|larg[oa]s?|cort[oa]s?)\b/, field: 'length_m' },
+];
+
+const AREA_UNITS: Record<string, string> = {
+  acre: 'acres', acres: 'acres',
+  'square meters': 'area_m2', 'sq m': 'area_m2', m2: 'area_m2', 'metros cuadrados': 'area_m2',
+};
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)(?: ?(k|thousand|mil|million|millones|millon)\\b)?';
+const COMPARISON_UNIT = `(?: (${[...Object.keys(AREA_UNITS), ...Object.keys(UNIT_METERS)]
+  .sort((a, b) => b.length - a.length)
+  .join('|')}))?`;
+
+const NUMBER_MULTIPLIERS: Record<string, number> = {
+  k: 1_000, thousand: 1_000, mil: 1_000, million: 1_000_000, millones: 1_000_000, millon: 1_000_000,
+};
+
+/** Words that carry no meaning for the rules */
+const IGNORED_WORDS = new Set([
+  'show', 'me', 'find', 'list', 'get', 'display', 'give', 'map', 'all', 'every', 'any',
+  'the', 'a', 'an', 'of', 'with', 'that', 'which', 'what', 'where', 'are', 'is', 'there',
+  'have', 'has', 'having', 'for', 'please', 'and', 'located', 'those', 'these',
+  'muestra', 'muestrame', 'mostrar', 'busca', 'buscar', 'encuentra', 'todas', 'todos',
+  'las', 'los', 'el', 'la', 'de', 'del', 'con', 'que', 'cuales', 'donde', 'hay', 'y',
+  'por', 'favor', 'un', 'una', 'ubicadas', 'ubicados', 'estan',
+]);
+
+/** Words allowed between a spatial phrase and its target */
+const TARGET_FILLER = new Set([
+  'the', 'a', 'an', 'any', 'some', 'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'de', 'del',
+]);
+
+/** Words that change the meaning of a query the rules don't model */
+const BLOCKING_WORDS = new Set([
+  'not', 'no', 'without', 'except', 'excluding', 'never', 'or', 'sin', 'excepto', 'nunca', 'o',
+]);
+
+// ── Parsing ────────────────────────────────────────────────────────────────────
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface Mention extends Span {
+  layer: string;
+  filter?: AttributeFilter[];
+  isPlace: boolean;
+}
+
+interface SpatialMatch extends Span {
+  op: SpatialOp;
+  distance?: number;
+}
+
+/**
+ * Parse a query with the rules, or return null when they don't cover it
+ */
+export function parseWithRules(
+  userQuery: string,
+  options: RuleParserOptions
+): RuleParseResult | null {
+  const text = normalizeQuery(userQuery);
+  const isAvailable = (layer: string) =>
+    layer in LAYER_SCHEMAS &&
+    (options.availableLayers.size === 0 || options.availableLayers.has(layer));
+
+  const mentions = findMentions(text, userQuery, options.gazetteer ?? null);
+  const phrases = findSpatialPhrases(text).filter(
+    (phrase) => !mentions.some((mention) => overlaps(phrase, mention))
+  );
+
+  // Each spatial phrase takes the layer or place right after it as its target
+  const targets = new Map<SpatialMatch, Mention>();
+  for (const phrase of phrases) {
+    const target = mentions.find(
+      (mention) =>
+        mention.start >= phrase.end &&
+        words(text.slice(phrase.end, mention.start)).every((word) => TARGET_FILLER.has(word))
+    );
+    if (target && ![...targets.values()].includes(target)) {
+      targets.set(phrase, target);
+    }
+  }
+
+  const targetMentions = new Set(targets.values());
+  const select = mentions.find((mention) => !mention.isPlace && !targetMentions.has(mention));
+  if (!select || !isAvailable(select.layer)) {
+    return null;
+  }
+
+  const consumed: Span[] = [select];
+  const attributeFilters: AttributeFilter[] = [...(select.filter ?? [])];
+  const spatialFilters = new Map<Mention, SpatialFilter>();
+
+  for (const [phrase, target] of targets) {
+    if (!isAvailable(target.layer)) {
+      return null;
+    }
+    consumed.push(phrase, target);
+    spatialFilters.set(target, {
+      op: phrase.op,
+      targetLayer: target.layer,
+      ...(target.filter ? { targetFilter: target.filter } : {}),
+      ...(phrase.distance !== undefined ? { distance: phrase.distance } : {}),
+    });
+  }
+
+  // Comparisons belong to the layer mentioned just before them
+  const boundaries = [select, ...targetMentions, ...targets.keys()].sort((a, b) => a.start - b.start);
+  for (const owner of [select, ...targetMentions]) {
+    const next = boundaries.find((boundary) => boundary.start >= owner.end);
+    const region = { start: owner.end, end: next?.start ?? text.length };
+    for (const comparison of findComparisons(text, region, owner.layer, options)) {
+      consumed.push(comparison);
+      const spatial = spatialFilters.get(owner);
+      if (spatial) {
+        spatial.targetFilter = [...(spatial.targetFilter ?? []), comparison.filter];
+      } else {
+        attributeFilters.push(comparison.filter);
+      }
+    }
+  }
+
+  const hasFilters = attributeFilters.length > 0 || spatialFilters.size > 0;
+  let confidence = BASE_CONFIDENCE;
+  for (const mention of mentions) {
+    if (mention !== select && !targetMentions.has(mention)) {
+      consumed.push(mention);
+      confidence -= UNUSED_LAYER_PENALTY;
+    }
+  }
+  for (const word of unconsumedWords(text, consumed)) {
+    if (BLOCKING_WORDS.has(word) || /\d/.test(word)) {
+      return null;
+    }
+    if (!IGNORED_WORDS.has(word)) {
+      if (!hasFilters) {
+        return null;
+      }
+      confidence -= UNKNOWN_WORD_PENALTY;
+    }
+  }
+  if (confidence < MIN_CONFIDENCE) {
+    return null;
+  }
+
+  const query: StructuredQuery = { selectLayer: select.layer };
+  if (attributeFilters.length > 0) {
+    query.attributeFilters = attributeFilters;
+  }
+  if (spatialFilters.size > 0) {
+    query.spatialFilters = [...spatialFilters.values()];
+  }
+
+  const validation = safeValidateQuery(query);
+  if (!validation.success) {
+    return null;
+  }
+  return { query: validation.data, confidence: Math.round(confidence * 100) / 100 };
+}
+
+/**
+ * Layers a query names, in order of first mention
+ */
+export function findMentionedLayers(userQuery: string): string[] {
+  const mentions = findMentions(normalizeQuery(userQuery), userQuery, null);
+  return [...new Set(mentions.map((mention) => mention.layer))];
+}
+
+/**
+ * Lowercase, strip accents and punctuation, and drop thousands separators
+ * so "Parcelas con valor > $500,000" reads "parcelas con valor 500000"
+ */
+function normalizeQuery(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .replace(/[^a-z0-9.]+/g, ' ')
+    .replace(/\.(?!\d)|(?<!\d)\./g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function words(text: string): string[] {
+  return text.split(' ').filter((word) => word.length > 0);
+}
+
+function overlaps(a: Span, b: Span): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Keep the longest of any overlapping matches, then order by position
+ */
+function withoutOverlaps<T extends Span>(matches: T[]): T[] {
+  const kept: T[] = [];
+  for (const match of [...matches].sort((a, b) => (b.end - b.start) - (a.end - a.start))) {
+    if (!kept.some((other) => overlaps(match, other))) {
+      kept.push(match);
+    }
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+function matchAll(text: string, pattern: string): RegExpExecArray[] {
+  return [...text.matchAll(new RegExp(`\\b(?:${pattern})\\b`, 'g'))];
+}
+
+function findMentions(text: string, userQuery: string, gazetteer: Gazetteer | null): Mention[] {
+  const mentions: Mention[] = [];
+  for (const term of LAYER_TERMS) {
+    for (const match of matchAll(text, term.pattern)) {
+      mentions.push({
+        start: match.index,
+        end: match.index + match[0].length,
+        layer: term.layer,
+        filter: term.filter,
+        isPlace: false,
+      });
+    }
+  }
+
+  for (const place of gazetteer?.findInText(userQuery).matches ?? []) {
+    const span = findPlaceSpan(text, place.text);
+    if (span) {
+      const target = getPlaceTarget(place.entry);
+      mentions.push({ ...span, layer: target.targetLayer, filter: target.targetFilter, isPlace: true });
+    }
+  }
+
+  return withoutOverlaps(mentions);
+}
+
+/**
+ * Locate a gazetteer match in the normalized text. Match keys are
+ * normalizePlaceName output, which expands abbreviations and drops a
+ * leading "the", so compare word windows through the same function.
+ */
+function findPlaceSpan(text: string, key: string): Span | null {
+  const tokens = [...text.matchAll(/\S+/g)];
+  const size = key.split(' ').length;
+  for (let i = 0; i < tokens.length; i++) {
+    for (const length of [size, size + 1]) {
+      const window = tokens.slice(i, i + length);
+      const first = window[0];
+      const last = window[window.length - 1];
+      if (window.length < length || !first || !last) continue;
+      if (normalizePlaceName(window.map((token) => token[0]).join(' ')) === key) {
+        return { start: first.index, end: last.index + last[0].length };
+      }
+    }
+  }
+  return null;
+}
+
+function findSpatialPhrases(text: string): SpatialMatch[] {
+  const phrases: SpatialMatch[] = [];
+  for (const phrase of SPATIAL_PHRASES) {
+    for (const match of matchAll(text, phrase.pattern)) {
+      const [, amount, unit] = match;
+      const distance = amount && unit
+        ? Math.round(Number(amount) * (UNIT_METERS[unit] ?? 1))
+        : phrase.distance;
+      phrases.push({
+        start: match.index,
+        end: match.index + match[0].length,
+        op: phrase.op,
+        ...(distance !== undefined ? { distance } : {}),
+      });
+    }
+  }
+  return withoutOverlaps(phrases);
+}
+
+/**
+ * Numeric fields of a layer with the phrases that name them, longest first
+ */
+function getFieldPhrases(layer: string, options: RuleParserOptions): Array<{ field: string; phrase: string }> {
+  const schema = LAYER_SCHEMAS[layer];
+  if (!schema) return [];
+  const fields = [
+    ...Object.entries(schema.fields)
+      .filter(([, type]) => type.startsWith('number'))
+      .map(([field]) => field),
+    ...getMeasureFields(layer),
+  ].filter((field) => isQueryable(layer, field, options));
+
+  return fields
+    .flatMap((field) => [field.replace(/_/g, ' '), ...(FIELD_SYNONYMS[field] ?? [])].map((phrase) => ({ field, phrase })))
+    .sort((a, b) => b.phrase.length - a.phrase.length);
+}
+
+function isQueryable(layer: string, field: string, options: RuleParserOptions): boolean {
+  const runtimeFields = options.availableLayerFields.get(layer);
+  return runtimeFields ? runtimeFields.has(field) : true;
+}
+
+/**
+ * Field comparisons in a region of the text, such as "assessed value over
+ * 500k", "larger than 10 acres" or "con ingresos medianos menores a 40000"
+ */
+function findComparisons(
+  text: string,
+  region: Span,
+  layer: string,
+  options: RuleParserOptions
+): Array<Span & { filter: AttributeFilter }> {
+  const fieldPhrases = getFieldPhrases(layer, options);
+  const fieldPattern = fieldPhrases.length > 0
+    ? `(?:(${fieldPhrases.map(({ phrase }) => phrase).join('|')}) (?:(?:is|are|of|es|son|de) )?)?`
+    : '()';
+  const comparisons: Array<Span & { filter: AttributeFilter }> = [];
+
+  for (const comparator of COMPARATORS) {
+    const pattern = new RegExp(
+      `\\b${fieldPattern}(${comparator.pattern}) \\$?${NUMBER}${COMPARISON_UNIT}\\b`,
+      'g'
+    );
+    const slice = text.slice(region.start, region.end);
+    for (const match of slice.matchAll(pattern)) {
+      const [, fieldPhrase, wording = '', amount, multiplier, unit] = match;
+      const field = fieldPhrase
+        ? fieldPhrases.find(({ phrase }) => new RegExp(`^(?:${phrase})$`).test(fieldPhrase))?.field
+        : impliedField(wording, unit, layer, options);
+      if (!field) continue;
+
+      let value = Number(amount) * (multiplier ? NUMBER_MULTIPLIERS[multiplier] ?? 1 : 1);
+      if (field === 'length_m' && unit) {
+        value = Math.round(value * (UNIT_METERS[unit] ?? 1));
+      }
+      comparisons.push({
+        start: region.start + match.index,
+        end: region.start + match.index + match[0].length,
+        filter: { field, op: comparator.op, value },
+      });
+    }
+  }
+  return withoutOverlaps(comparisons);
+}
+
+/**
+ * Field for a comparison that doesn't name one: the unit decides
+ * ("over 5 acres"), otherwise the comparative ("taller than 30 feet")
+ */
+function impliedField(
+  wording: string,
+  unit: string | undefined,
+  layer: string,
+  options: RuleParserOptions
+): string | undefined {
+  const schema = LAYER_SCHEMAS[layer];
+  const areaField = unit ? AREA_UNITS[unit] : undefined;
+  // A stored acres field (parcels, parks) is preferred over the measure
+  if (areaField === 'acres') {
+    return ['acres', 'area_acres'].find(
+      (field) => (schema?.fields[field] !== undefined || getMeasureFields(layer).includes(field)) &&
+        isQueryable(layer, field, options)
+    );
+  }
+  if (areaField) {
+    return getMeasureFields(layer).includes(areaField) && isQueryable(layer, areaField, options)
+      ? areaField
+      : undefined;
+  }
+
+  const implied = IMPLIED_FIELDS.find(({ pattern }) => pattern.test(wording))?.field;
+  if (!implied) return undefined;
+  const exists = schema?.fields[implied] !== undefined || getMeasureFields(layer).includes(implied);
+  return exists && isQueryable(layer, implied, options) ? implied : undefined;
+}
+
+function unconsumedWords(text: string, consumed: Span[]): string[] {
+  return [...text.matchAll(/\S+/g)]
+    .filter((token) => !consumed.some((span) => token.index >= span.start && token.index < span.end))
+    .map((token) => token[0]);
+}
@@ -9,12 +9,28 @@ import type {
   StructuredQuery,
   AttributeFilter,
   SpatialFilter,
+  FilterExpression,
   AggregateMetric,
   AggregateSpec,
+  SpatialGroupBy,
+  SpatialEnrichment,
+  OverlapSpec,
+  GeometryOperation,
+  DensitySpec,
   TemporalQuery,
+  InlineGeometry,
+  BoundingBox,
 } from '../../../../shared/types/query';
+import type { DrawnShape, MapViewState, ShareStyle } from '../../../../shared/types/api';
+import { INLINE_GEOMETRY_TARGET } from '../../../../shared/types/query';
 
 export const MAX_DISTANCE_METERS = 50_000;
+export const MIN_DENSITY_CELL_METERS = 50;
+export const MAX_DENSITY_CELL_METERS = 5_000;
+export const MAX_INLINE_GEOMETRY_VERTICES = 1_000;
+
+// Reserved: "previous" and "turn<N>" are result set aliases, "geometry" is the inline target
+const RESERVED_RESULT_SET_NAME = /^(previous|geometry|turn\d+)$/;
 
 // ============================================================================
 // Attribute Filter Schema
@@ -31,6 +47,118 @@ export const attributeFilterSchema: z.ZodType<AttributeFilter> = z.object({
   ]),
 });
 
+// ============================================================================
+// Inline Geometry Schemas
+// ============================================================================
+
+const positionSchema = z.tuple([
+  z.number().min(-180).max(180),
+  z.number().min(-90).max(90),
+]);
+
+const linearRingSchema = z
+  .array(positionSchema)
+  .min(4, 'polygon rings need at least 4 positions')
+  .refine(
+    (ring) => ring[0]![0] === ring[ring.length - 1]![0] && ring[0]![1] === ring[ring.length - 1]![1],
+    'polygon rings must be closed (first and last positions equal)'
+  );
+
+const polygonCoordinatesSchema = z.array(linearRingSchema).min(1);
+
+export const pointGeometrySchema = z.object({
+  type: z.literal('Point'),
+  coordinates: positionSchema,
+});
+
+export const polygonGeometrySchema = z.object({
+  type: z.literal('Polygon'),
+  coordinates: polygonCoordinatesSchema,
+});
+
+export const inlineGeometrySchema: z.ZodType<InlineGeometry> = z.discriminatedUnion('type', [
+  pointGeometrySchema,
+  polygonGeometrySchema,
+  z.object({
+    type: z.literal('MultiPolygon'),
+    coordinates: z.array(polygonCoordinatesSchema).min(1),
+  }),
+]).superRefine((geometry, ctx) => {
+  if (countVertices(geometry) > MAX_INLINE_GEOMETRY_VERTICES) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['coordinates'],
+      message: `inline geometries must have at most ${MAX_INLINE_GEOMETRY_VERTICES} vertices`,
+    });
+  }
+});
+
+export const boundingBoxSchema: z.ZodType<BoundingBox> = z.tuple([
+  z.number().min(-180).max(180),
+  z.number().min(-90).max(90),
+  z.number().min(-180).max(180),
+  z.number().min(-90).max(90),
+]).superRefine((bbox, ctx) => {
+  if (bbox[0] >= bbox[2] || bbox[1] >= bbox[3]) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'bbox must be [minLon, minLat, maxLon, maxLat] with min < max',
+    });
+  }
+});
+
+/**
+ * Shape drawn on the map, sent with a chat message (see DrawnShape)
+ */
+export const drawnShapeSchema: z.ZodType<DrawnShape> = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('polygon'), geometry: polygonGeometrySchema }),
+  z.object({ type: z.literal('rectangle'), bbox: boundingBoxSchema }),
+  z.object({
+    type: z.literal('point'),
+    geometry: pointGeometrySchema,
+    radiusMeters: z
+      .number()
+      .positive()
+      .max(MAX_DISTANCE_METERS, `radiusMeters must be <= ${MAX_DISTANCE_METERS} meters`),
+  }),
+]).superRefine((shape, ctx) => {
+  if (shape.type === 'polygon' && countVertices(shape.geometry) > MAX_INLINE_GEOMETRY_VERTICES) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['geometry', 'coordinates'],
+      message: `drawn polygons must have at most ${MAX_INLINE_GEOMETRY_VERTICES} vertices`,
+    });
+  }
+});
+
+/**
+ * Map camera saved with a shared view (see MapViewState)
+ */
+export const mapViewSchema: z.ZodType<MapViewState> = z.object({
+  center: z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]),
+  zoom: z.number().min(0).max(24),
+  bearing: z.number().min(-180).max(180).optional(),
+  pitch: z.number().min(0).max(85).optional(),
+});
+
+export const shareStyleSchema: z.ZodType<ShareStyle> = z.object({
+  choroplethField: z.string().regex(/^[a-z][a-z0-9_]{0,63}$/).nullable().optional(),
+});
+
+function countVertices(geometry: InlineGeometry): number {
+  switch (geometry.type) {
+    case 'Point':
+      return 1;
+    case 'Polygon':
+      return geometry.coordinates.reduce((sum, ring) => sum + ring.length, 0);
+    case 'MultiPolygon':
+      return geometry.coordinates.reduce(
+        (sum, polygon) => sum + polygon.reduce((ringSum, ring) => ringSum + ring.length, 0),
+        0
+      );
+  }
+}
+
 // ============================================================================
 // Spatial Filter Schema
 // ============================================================================
@@ -42,8 +170,13 @@ export const spatialFilterSchema: z.ZodType<SpatialFilter> = z.object({
     'contains',
     'within',
     'nearest',
+    'not_intersects',
+    'not_contains',
+    'not_within',
+    'beyond_distance',
   ]),
   targetLayer: z.string().min(1),
+  targetGeometry: inlineGeometrySchema.optional(),
   targetFilter: z.array(attributeFilterSchema).optional(),
   distance: z
     .number()
@@ -51,16 +184,101 @@ export const spatialFilterSchema: z.ZodType<SpatialFilter> = z.object({
     .max(MAX_DISTANCE_METERS, `distance must be <= ${MAX_DISTANCE_METERS} meters`)
     .optional(),
   limit: z.number().int().positive().optional(),
+  includeNearestTarget: z.boolean().optional(),
+  targetFields: z.array(z.string().min(1)).optional(),
 }).superRefine((filter, ctx) => {
-  if (filter.op === 'within_distance' && filter.distance === undefined) {
+  if (filter.targetGeometry && filter.targetLayer !== INLINE_GEOMETRY_TARGET) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['targetGeometry'],
+      message: `targetGeometry requires targetLayer "${INLINE_GEOMETRY_TARGET}"`,
+    });
+  }
+  if (filter.targetLayer === INLINE_GEOMETRY_TARGET && !filter.targetGeometry) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['targetGeometry'],
+      message: `targetLayer "${INLINE_GEOMETRY_TARGET}" requires targetGeometry`,
+    });
+  }
+  if (
+    (filter.op === 'within_distance' || filter.op === 'beyond_distance') &&
+    filter.distance === undefined
+  ) {
     ctx.addIssue({
       code: 'custom',
       path: ['distance'],
-      message: 'within_distance spatial filters require distance',
+      message: `${filter.op} spatial filters require distance`,
+    });
+  }
+  if (
+    (filter.includeNearestTarget || filter.targetFields) &&
+    filter.op !== 'within_distance' &&
+    filter.op !== 'nearest'
+  ) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['includeNearestTarget'],
+      message: 'nearest-target columns are only available for within_distance and nearest',
     });
   }
 });
 
+// ============================================================================
+// Filter Expression Schema
+// ============================================================================
+
+export const MAX_FILTER_DEPTH = 6;
+
+export const filterExpressionSchema: z.ZodType<FilterExpression> = z.lazy(() =>
+  z.union([
+    z.strictObject({ and: z.array(filterExpressionSchema).min(1) }),
+    z.strictObject({ or: z.array(filterExpressionSchema).min(1) }),
+    z.strictObject({ not: filterExpressionSchema }),
+    z.strictObject({ attribute: attributeFilterSchema }),
+    z.strictObject({ spatial: spatialFilterSchema }),
+  ])
+);
+
+/**
+ * Depth of a filter tree (a single predicate has depth 1)
+ */
+function filterExpressionDepth(expression: FilterExpression): number {
+  if ('and' in expression) {
+    return 1 + Math.max(0, ...expression.and.map(filterExpressionDepth));
+  }
+  if ('or' in expression) {
+    return 1 + Math.max(0, ...expression.or.map(filterExpressionDepth));
+  }
+  if ('not' in expression) {
+    return 1 + filterExpressionDepth(expression.not);
+  }
+  return 1;
+}
+
+function hasNearestPredicate(expression: FilterExpression): boolean {
+  if ('and' in expression) return expression.and.some(hasNearestPredicate);
+  if ('or' in expression) return expression.or.some(hasNearestPredicate);
+  if ('not' in expression) return hasNearestPredicate(expression.not);
+  if ('spatial' in expression) return expression.spatial.op === 'nearest';
+  return false;
+}
+
+// ============================================================================
+// Enrichment Schema
+// ============================================================================
+
+export const spatialEnrichmentSchema: z.ZodType<SpatialEnrichment> = z.object({
+  layer: z.string().min(1),
+  fields: z.array(z.string().min(1)).min(1),
+  targetFilter: z.array(attributeFilterSchema).optional(),
+});
+
+export const overlapSpecSchema: z.ZodType<OverlapSpec> = z.object({
+  targetLayer: z.string().min(1),
+  targetFilter: z.array(attributeFilterSchema).optional(),
+});
+
 // ============================================================================
 // Aggregate Schema
 // ============================================================================
@@ -71,9 +289,93 @@ export const aggregateMetricSchema: z.ZodType<AggregateMetric> = z.object({
   alias: z.string().optional(),
 });
 
+export const spatialGroupBySchema: z.ZodType<SpatialGroupBy> = z.object({
+  layer: z.string().min(1),
+  fields: z.array(z.string().min(1)).optional(),
+  targetFilter: z.array(attributeFilterSchema).optional(),
+});
+
 export const aggregateSpecSchema: z.ZodType<AggregateSpec> = z.object({
-  groupBy: z.array(z.string().min(1)).min(1),
+  groupBy: z.array(z.string().min(1)),
   metrics: z.array(aggregateMetricSchema).min(1),
+  spatialGroupBy: spatialGroupBySchema.optional(),
+}).superRefine((aggregate, ctx) => {
+  if (!aggregate.spatialGroupBy && aggregate.groupBy.length === 0) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['groupBy'],
+      message: 'aggregate requires groupBy fields or spatialGroupBy',
+    });
+  }
+  if (aggregate.spatialGroupBy && aggregate.groupBy.length > 0) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['groupBy'],
+      message: 'groupBy must be empty when spatialGroupBy is set',
+    });
+  }
+});
+
+// ============================================================================
+// Geometry Operation Schema
+// ============================================================================
+
+export const geometryOperationSchema: z.ZodType<GeometryOperation> = z.object({
+  op: z.enum(['buffer', 'dissolve', 'clip']),
+  distance: z
+    .number()
+    .positive()
+    .max(MAX_DISTANCE_METERS, `distance must be <= ${MAX_DISTANCE_METERS} meters`)
+    .optional(),
+  dissolve: z.boolean().optional(),
+  groupBy: z.string().min(1).optional(),
+  clipLayer: z.string().min(1).optional(),
+  clipFilter: z.array(attributeFilterSchema).optional(),
+}).superRefine((operation, ctx) => {
+  if (operation.op === 'buffer' && operation.distance === undefined) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['distance'],
+      message: 'buffer geometry operations require distance',
+    });
+  }
+  if (operation.op === 'clip' && operation.clipLayer === undefined) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['clipLayer'],
+      message: 'clip geometry operations require clipLayer',
+    });
+  }
+});
+
+// ============================================================================
+// Density Schema
+// ============================================================================
+
+export const densitySpecSchema: z.ZodType<DensitySpec> = z.object({
+  method: z.enum(['grid', 'hotspot']),
+  cellSize: z
+    .number()
+    .min(MIN_DENSITY_CELL_METERS, `cellSize must be >= ${MIN_DENSITY_CELL_METERS} meters`)
+    .max(MAX_DENSITY_CELL_METERS, `cellSize must be <= ${MAX_DENSITY_CELL_METERS} meters`)
+    .optional(),
+  zoneLayer: z.string().min(1).optional(),
+  zoneFields: z.array(z.string().min(1)).optional(),
+}).superRefine((density, ctx) => {
+  if (density.method !== 'grid' && density.cellSize !== undefined) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['cellSize'],
+      message: 'cellSize only applies to grid density',
+    });
+  }
+  if (density.method !== 'hotspot' && (density.zoneLayer || density.zoneFields)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['zoneLayer'],
+      message: 'zoneLayer and zoneFields only apply to hotspot density',
+    });
+  }
 });
 
 // ============================================================================
@@ -90,6 +392,7 @@ export const temporalQuerySchema: z.ZodType<TemporalQuery> = z.object({
     z.object({ date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/) }),
   ]),
   metric: z.string().min(1),
+  dateField: z.string().min(1).optional(),
 });
 
 // ============================================================================
@@ -103,7 +406,13 @@ export const structuredQuerySchema: z.ZodType<StructuredQuery> = z.object({
   attributeLogic: z.enum(['and', 'or']).optional(),
   spatialFilters: z.array(spatialFilterSchema).optional(),
   spatialLogic: z.enum(['and', 'or']).optional(),
+  where: filterExpressionSchema.optional(),
+  bbox: boundingBoxSchema.optional(),
+  enrich: z.array(spatialEnrichmentSchema).min(1).optional(),
+  overlap: overlapSpecSchema.optional(),
   aggregate: aggregateSpecSchema.optional(),
+  geometryOperation: geometryOperationSchema.optional(),
+  density: densitySpecSchema.optional(),
   temporal: temporalQuerySchema.optional(),
   limit: z.number().int().positive().max(1000).optional(),
   orderBy: z
@@ -112,8 +421,97 @@ export const structuredQuerySchema: z.ZodType<StructuredQuery> = z.object({
       direction: z.enum(['asc', 'desc']),
     })
     .optional(),
+  saveAs: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]{0,39}$/, 'saveAs must be lowercase letters, digits and underscores (max 40)')
+    .refine((name) => !RESERVED_RESULT_SET_NAME.test(name), 'saveAs name is reserved')
+    .optional(),
+}).superRefine((query, ctx) => {
+  if (query.where) {
+    if (filterExpressionDepth(query.where) > MAX_FILTER_DEPTH) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['where'],
+        message: `where filter trees must be at most ${MAX_FILTER_DEPTH} levels deep`,
+      });
+    }
+    if (hasNearestPredicate(query.where)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['where'],
+        message: 'nearest spatial filters are not allowed inside where; use spatialFilters',
+      });
+    }
+  }
+
+  if (query.enrich && (query.aggregate || query.temporal || query.geometryOperation)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['enrich'],
+      message: 'enrich cannot be combined with aggregate, temporal, or geometryOperation',
+    });
+  }
+
+  if (query.overlap && (query.aggregate || query.temporal || query.geometryOperation)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['overlap'],
+      message: 'overlap cannot be combined with aggregate, temporal, or geometryOperation',
+    });
+  }
+
+  const hasNearest = query.spatialFilters?.some((filter) => filter.op === 'nearest') ?? false;
+  if (
+    query.density &&
+    (query.aggregate || query.temporal || query.geometryOperation || query.enrich || query.overlap || hasNearest)
+  ) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['density'],
+      message: 'density cannot be combined with aggregate, temporal, geometryOperation, enrich, overlap, or nearest spatial filters',
+    });
+  }
+
+  if (query.temporal && hasNearest) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['temporal'],
+      message: 'temporal cannot be combined with nearest spatial filters',
+    });
+  }
+  if (!query.geometryOperation) {
+    return;
+  }
+  if (query.temporal) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['geometryOperation'],
+      message: 'geometryOperation cannot be combined with temporal',
+    });
+  }
+  if (query.aggregate) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['geometryOperation'],
+      message: 'geometryOperation cannot be combined with aggregate',
+    });
+  }
+  if (hasNearest) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['geometryOperation'],
+      message: 'geometryOperation cannot be combined with nearest spatial filters',
+    });
+  }
 });
 
+/**
+ * JSON Schema of a StructuredQuery, for providers that constrain their
+ * output to a schema. Refinements (cross-field rules, depth limits) are not
+ * representable, so responses are still checked with safeValidateQuery.
+ */
+export const structuredQueryJsonSchema: Record<string, unknown> = z.toJSONSchema(structuredQuerySchema);
+
 // ============================================================================
 // Validation Functions
 // ============================================================================
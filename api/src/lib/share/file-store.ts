@@ -0,0 +1,124 @@
+/**
+ * File-backed share store
+ *
+ * One JSON file per share in a directory, so permalinks survive restarts
+ * and deploys when the directory is on a persistent volume. Shares are
+ * never rewritten, so files are read on demand; an in-memory list of ids
+ * in creation order (rebuilt from the files at startup) only drives
+ * dropping the oldest share when the store is full.
+ *
+ * Configure with SHARE_STORE=file and SHARE_STORE_DIR.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { log } from '../logger';
+import { SHARE_ID_RE, createShareId } from './ids';
+import { MAX_SHARES } from './memory-store';
+import type { SharedView, ShareStore } from './types';
+
+const SHARE_FILE_RE = /^([A-Za-z0-9_-]{12})\.json$/;
+
+export class FileShareStore implements ShareStore {
+  readonly backend = 'file';
+  // Share ids, oldest first
+  private ids = new Set<string>();
+  private ready: Promise<void>;
+
+  constructor(private dir: string, private maxShares: number = MAX_SHARES) {
+    this.ready = this.loadIds();
+    // Report a directory that can't be created or listed once here; every
+    // operation then rejects with the same error
+    this.ready.catch((error: unknown) => {
+      log({
+        level: 'error',
+        event: 'share.store_unavailable',
+        backend: this.backend,
+        dir: this.dir,
+        error: error instanceof Error ? error.message : 'unknown',
+      });
+    });
+  }
+
+  async get(id: string): Promise<SharedView | null> {
+    // Only well-formed ids reach the filesystem, so ids never build paths
+    if (!SHARE_ID_RE.test(id)) {
+      return null;
+    }
+    await this.ready;
+    return this.read(id);
+  }
+
+  /** Write via a temp file and rename so a crash never leaves half a share */
+  async create(view: Omit<SharedView, 'id' | 'createdAt'>): Promise<SharedView> {
+    await this.ready;
+    while (this.ids.size >= this.maxShares) {
+      const oldest = this.ids.values().next().value as string;
+      this.ids.delete(oldest);
+      await rm(this.sharePath(oldest), { force: true });
+      log({
+        level: 'warn',
+        event: 'share.evicted',
+        backend: this.backend,
+        maxShares: this.maxShares,
+      });
+    }
+
+    const shared: SharedView = {
+      ...view,
+      id: createShareId(),
+      createdAt: new Date().toISOString(),
+    };
+    // Counted before the write so concurrent creates can't overfill the store
+    this.ids.add(shared.id);
+    const target = this.sharePath(shared.id);
+    const temp = `${target}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(temp, JSON.stringify(shared), 'utf8');
+      await rename(temp, target);
+    } catch (error) {
+      this.ids.delete(shared.id);
+      throw error;
+    }
+    return shared;
+  }
+
+  private async loadIds(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const entries: [string, string][] = [];
+    for (const file of await readdir(this.dir)) {
+      const id = SHARE_FILE_RE.exec(file)?.[1];
+      if (!id) continue;
+      const shared = await this.read(id);
+      if (shared) {
+        entries.push([id, shared.createdAt]);
+      }
+    }
+    entries.sort((a, b) => a[1].localeCompare(b[1]));
+    for (const [id] of entries) {
+      this.ids.add(id);
+    }
+  }
+
+  private async read(id: string): Promise<SharedView | null> {
+    try {
+      const raw = await readFile(this.sharePath(id), 'utf8');
+      return JSON.parse(raw) as SharedView;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log({
+          level: 'warn',
+          event: 'share.unreadable',
+          backend: this.backend,
+          error: error instanceof Error ? error.message : 'unknown',
+        });
+      }
+      return null;
+    }
+  }
+
+  private sharePath(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Short share ids: 9 random bytes as 12 URL-safe base64 characters
+ */
+
+import { randomBytes } from 'node:crypto';
+
+export const SHARE_ID_RE = /^[A-Za-z0-9_-]{12}$/;
+
+export function createShareId(): string {
+  return randomBytes(9).toString('base64url');
+}
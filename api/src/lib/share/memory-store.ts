@@ -0,0 +1,45 @@
+/**
+ * In-memory share store
+ *
+ * Shares live in a Map in insertion order; when full the oldest share is
+ * dropped. Nothing survives a restart; use FileShareStore when permalinks
+ * must outlive the process.
+ */
+
+import { log } from '../logger';
+import { createShareId } from './ids';
+import type { SharedView, ShareStore } from './types';
+
+export const MAX_SHARES = 10_000;
+
+export class MemoryShareStore implements ShareStore {
+  readonly backend = 'memory';
+  private shares = new Map<string, SharedView>();
+
+  constructor(private maxShares: number = MAX_SHARES) {}
+
+  async get(id: string): Promise<SharedView | null> {
+    return this.shares.get(id) ?? null;
+  }
+
+  async create(view: Omit<SharedView, 'id' | 'createdAt'>): Promise<SharedView> {
+    while (this.shares.size >= this.maxShares) {
+      const oldest = this.shares.keys().next().value as string;
+      this.shares.delete(oldest);
+      log({
+        level: 'warn',
+        event: 'share.evicted',
+        backend: this.backend,
+        maxShares: this.maxShares,
+      });
+    }
+
+    const shared: SharedView = {
+      ...view,
+      id: createShareId(),
+      createdAt: new Date().toISOString(),
+    };
+    this.shares.set(shared.id, shared);
+    return shared;
+  }
+}
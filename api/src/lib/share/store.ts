@@ -0,0 +1,49 @@
+/**
+ * Share Store Module
+ *
+ * Holds the active ShareStore used by the share route.
+ */
+
+import { join } from 'node:path';
+import { FileShareStore } from './file-store';
+import { MemoryShareStore } from './memory-store';
+import type { ShareStore } from './types';
+
+export type { SharedView, ShareStore } from './types';
+export { MemoryShareStore } from './memory-store';
+export { FileShareStore } from './file-store';
+
+/**
+ * Create the share store configured by environment.
+ *
+ * - SHARE_STORE=file → FileShareStore in SHARE_STORE_DIR (default: data/shares)
+ * - SHARE_STORE=memory → MemoryShareStore
+ * - Unset → file in production, memory otherwise
+ */
+export function createShareStore(): ShareStore {
+  const configured = process.env.SHARE_STORE
+    ?? (process.env.NODE_ENV === 'production' ? 'file' : 'memory');
+  if (configured === 'file') {
+    const dir = process.env.SHARE_STORE_DIR ?? join(process.cwd(), 'data', 'shares');
+    return new FileShareStore(dir);
+  }
+  if (configured !== 'memory') {
+    throw new Error(`Unknown SHARE_STORE "${configured}" (expected "memory" or "file")`);
+  }
+  return new MemoryShareStore();
+}
+
+let activeStore: ShareStore | null = null;
+
+export function getShareStore(): ShareStore {
+  activeStore ??= createShareStore();
+  return activeStore;
+}
+
+export function setShareStore(store: ShareStore): void {
+  activeStore = store;
+}
+
+export function __clearSharesForTests(): void {
+  activeStore = new MemoryShareStore();
+}
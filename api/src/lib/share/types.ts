@@ -0,0 +1,29 @@
+/**
+ * Share Store Interface
+ *
+ * Permalinks for shared query views behind a swappable backend
+ * (in-memory, file-backed), like the conversation store.
+ */
+
+import type { SharedView } from '../../../../shared/types/api';
+
+export type { SharedView };
+
+/**
+ * Share store interface
+ *
+ * Implementations: MemoryShareStore, FileShareStore
+ */
+export interface ShareStore {
+  readonly backend: string;
+
+  /**
+   * Shared view by id; null when unknown
+   */
+  get(id: string): Promise<SharedView | null>;
+
+  /**
+   * Store a view under a new short id
+   */
+  create(view: Omit<SharedView, 'id' | 'createdAt'>): Promise<SharedView>;
+}
@@ -46,6 +46,41 @@ export const EQUITY_TEMPLATES: QueryTemplate[] = [
     dataRequirements: ['short_term_rentals'],
   },
 
+  {
+    id: 'str-permits-by-neighborhood',
+    name: 'Short-Term Rental Permits per Neighborhood',
+    description:
+      'Counts short-term rental permits inside each neighborhood polygon for a choropleth comparison.',
+    category: 'displacement',
+    query: {
+      selectLayer: 'short_term_rentals',
+      aggregate: {
+        groupBy: [],
+        metrics: [{ field: '*', op: 'count', alias: 'str_count' }],
+        spatialGroupBy: { layer: 'neighborhoods', fields: ['name'] },
+      },
+      orderBy: { field: 'str_count', direction: 'desc' },
+    },
+    explanation:
+      'Neighborhoods with many STR permits relative to their size are where conversion of long-term housing is most concentrated.',
+    dataRequirements: ['short_term_rentals', 'neighborhoods'],
+  },
+
+  {
+    id: 'str-hotspots-by-tract',
+    name: 'Short-Term Rental Hot Spots',
+    description:
+      'Finds census tracts where short-term rental permits cluster more than chance would explain (Getis-Ord Gi*).',
+    category: 'displacement',
+    query: {
+      selectLayer: 'short_term_rentals',
+      density: { method: 'hotspot', zoneLayer: 'census_tracts' },
+    },
+    explanation:
+      'A hot spot means a tract and its neighbors together hold significantly more STR permits than the city average, separating real concentration from a single busy tract.',
+    dataRequirements: ['short_term_rentals', 'census_tracts'],
+  },
+
   {
     id: 'evictions-low-income',
     name: 'Eviction Filings in Low-Income Areas',
@@ -209,6 +244,25 @@ export const EQUITY_TEMPLATES: QueryTemplate[] = [
     dataRequirements: ['parcels', 'flood_zones', 'census_tracts'],
   },
 
+  {
+    id: 'flood-coverage-by-tract',
+    name: 'Flood Zone Coverage per Census Tract',
+    description:
+      'Shows the share of each census tract covered by FEMA high-risk flood zones.',
+    category: 'risk',
+    query: {
+      selectLayer: 'census_tracts',
+      overlap: {
+        targetLayer: 'flood_zones',
+        targetFilter: [{ field: 'flood_risk_level', op: 'eq', value: 'high' }],
+      },
+      orderBy: { field: 'overlap_pct', direction: 'desc' },
+    },
+    explanation:
+      'Tracts where a large share of land sits in high-risk flood zones face higher insurance costs and recovery burdens, which fall hardest on low-income households.',
+    dataRequirements: ['census_tracts', 'flood_zones'],
+  },
+
   {
     id: 'arroyo-proximity',
     name: 'Parcels Near Arroyos (Flash Flood Risk)',
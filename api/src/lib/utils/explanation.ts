@@ -9,8 +9,23 @@
  * to enrich the response when the LLM is available.
  */
 
-import type { StructuredQuery } from '../../../../shared/types/query';
-import type { LLMClient } from '../llm/types';
+import type {
+  AttributeFilter,
+  FilterExpression,
+  SpatialFilter,
+  StructuredQuery,
+  TemporalPeriod,
+} from '../../../../shared/types/query';
+import {
+  DENSITY_DEFAULT_CELL_SIZE,
+  DENSITY_DEFAULT_ZONE_LAYER,
+  INLINE_GEOMETRY_TARGET,
+  PREVIOUS_RESULT_SET,
+  getResultSetTarget,
+  isResultSetTarget,
+} from '../../../../shared/types/query';
+import type { LLMClient, ProviderIdentity } from '../llm/types';
+import { streamCompletion } from '../llm/stream';
 
 const LAYER_DISPLAY_NAMES: Record<string, { en: string; es: string }> = {
   parcels:            { en: 'parcels',           es: 'parcelas' },
@@ -40,7 +55,16 @@ const OP_DISPLAY_NAMES: Record<string, { en: string; es: string }> = {
   in:  { en: 'in',           es: 'en' },
 };
 
-function layerName(layer: string, lang: 'en' | 'es'): string {
+const SPATIAL_OP_DISPLAY_NAMES: Record<string, { en: string; es: string }> = {
+  intersects:     { en: 'intersects',         es: 'que intersectan' },
+  contains:       { en: 'contains',           es: 'que contienen' },
+  within:         { en: 'within',             es: 'dentro de' },
+  not_intersects: { en: 'not intersecting',   es: 'que no intersectan' },
+  not_contains:   { en: 'not containing',     es: 'que no contienen' },
+  not_within:     { en: 'outside',            es: 'fuera de' },
+};
+
+export function layerName(layer: string, lang: 'en' | 'es'): string {
   return LAYER_DISPLAY_NAMES[layer]?.[lang] ?? layer;
 }
 
@@ -48,6 +72,252 @@ function opName(op: string, lang: 'en' | 'es'): string {
   return OP_DISPLAY_NAMES[op]?.[lang] ?? op;
 }
 
+function logicWord(logic: string, lang: 'en' | 'es'): string {
+  return lang === 'es' ? (logic === 'or' ? 'O' : 'Y') : logic.toUpperCase();
+}
+
+function describeAttributeFilter(filter: AttributeFilter, lang: 'en' | 'es'): string {
+  return `${filter.field.replace(/_/g, ' ')} ${opName(filter.op, lang)} ${filter.value}`;
+}
+
+/**
+ * Drawn shapes are a single feature, so they take "the" instead of "any"
+ */
+function describeDrawnTarget(
+  filter: SpatialFilter,
+  lang: 'en' | 'es'
+): { name: string; of: string; to: string } {
+  if (filter.targetGeometry?.type === 'Point') {
+    return lang === 'es'
+      ? { name: 'el punto dibujado', of: 'del punto dibujado', to: 'al punto dibujado' }
+      : { name: 'the drawn point', of: 'of the drawn point', to: 'to the drawn point' };
+  }
+  return lang === 'es'
+    ? { name: 'el área dibujada', of: 'del área dibujada', to: 'al área dibujada' }
+    : { name: 'the drawn area', of: 'of the drawn area', to: 'to the drawn area' };
+}
+
+/**
+ * Result sets read as earlier results rather than a layer name
+ */
+function describeResultSetTarget(
+  targetLayer: string,
+  lang: 'en' | 'es'
+): { name: string; of: string; to: string } {
+  if (targetLayer === PREVIOUS_RESULT_SET) {
+    return lang === 'es'
+      ? { name: 'los resultados anteriores', of: 'de los resultados anteriores', to: 'a los resultados anteriores' }
+      : { name: 'the previous results', of: 'of the previous results', to: 'to the previous results' };
+  }
+  const turn = /^\$turn(\d+)$/.exec(targetLayer)?.[1];
+  if (turn) {
+    return lang === 'es'
+      ? { name: `los resultados del turno ${turn}`, of: `de los resultados del turno ${turn}`, to: `a los resultados del turno ${turn}` }
+      : { name: `the results of turn ${turn}`, of: `of the results of turn ${turn}`, to: `to the results of turn ${turn}` };
+  }
+  const name = `"${targetLayer.slice(1)}"`;
+  return lang === 'es'
+    ? { name: `el conjunto ${name}`, of: `del conjunto ${name}`, to: `al conjunto ${name}` }
+    : { name: `the ${name} results`, of: `of the ${name} results`, to: `to the ${name} results` };
+}
+
+function describeSpatialFilter(filter: SpatialFilter, lang: 'en' | 'es'): string {
+  if (filter.targetLayer === INLINE_GEOMETRY_TARGET || isResultSetTarget(filter.targetLayer)) {
+    const named = filter.targetLayer === INLINE_GEOMETRY_TARGET
+      ? describeDrawnTarget(filter, lang)
+      : describeResultSetTarget(filter.targetLayer, lang);
+    if (filter.op === 'within_distance') {
+      return lang === 'es'
+        ? `dentro de ${filter.distance}m ${named.of}`
+        : `within ${filter.distance}m ${named.of}`;
+    }
+    if (filter.op === 'beyond_distance') {
+      return lang === 'es'
+        ? `a más de ${filter.distance}m ${named.of}`
+        : `farther than ${filter.distance}m from ${named.name}`;
+    }
+    if (filter.op === 'nearest') {
+      return lang === 'es'
+        ? `los ${filter.limit} más cercanos ${named.to}`
+        : `nearest ${filter.limit} ${named.to}`;
+    }
+    const op = SPATIAL_OP_DISPLAY_NAMES[filter.op]?.[lang] ?? filter.op;
+    return `${op} ${named.name}`;
+  }
+
+  const target = layerName(filter.targetLayer, lang);
+  if (filter.op === 'within_distance') {
+    return lang === 'es'
+      ? `dentro de ${filter.distance}m de ${target}`
+      : `within ${filter.distance}m of ${target}`;
+  }
+  if (filter.op === 'beyond_distance') {
+    return lang === 'es'
+      ? `a más de ${filter.distance}m de cualquier ${target}`
+      : `farther than ${filter.distance}m from any ${target}`;
+  }
+  if (filter.op === 'nearest') {
+    return lang === 'es'
+      ? `los ${filter.limit} más cercanos a ${target}`
+      : `nearest ${filter.limit} to ${target}`;
+  }
+  const op = SPATIAL_OP_DISPLAY_NAMES[filter.op]?.[lang] ?? filter.op;
+  return `${op} ${target}`;
+}
+
+/**
+ * Describe a nested filter tree, parenthesizing nested groups
+ */
+function describeFilterExpression(
+  expression: FilterExpression,
+  lang: 'en' | 'es',
+  isRoot = false
+): string {
+  if ('and' in expression || 'or' in expression) {
+    const logic = 'and' in expression ? 'and' : 'or';
+    const children = 'and' in expression ? expression.and : expression.or;
+    const joined = children
+      .map((child) => describeFilterExpression(child, lang))
+      .join(` ${logicWord(logic, lang)} `);
+    return isRoot || children.length === 1 ? joined : `(${joined})`;
+  }
+  if ('not' in expression) {
+    const notWord = lang === 'es' ? 'NO' : 'NOT';
+    return `${notWord} ${describeFilterExpression(expression.not, lang)}`;
+  }
+  if ('attribute' in expression) {
+    return describeAttributeFilter(expression.attribute, lang);
+  }
+  return describeSpatialFilter(expression.spatial, lang);
+}
+
+function describeSpatialGroupBy(
+  query: StructuredQuery,
+  lang: 'en' | 'es'
+): string | null {
+  const spatialGroupBy = query.aggregate?.spatialGroupBy;
+  if (!spatialGroupBy) return null;
+
+  const groupLayer = layerName(spatialGroupBy.layer, lang);
+  return lang === 'es'
+    ? `Resumidos por polígono de ${groupLayer}.`
+    : `Summarized per ${groupLayer} polygon.`;
+}
+
+function describeEnrichment(
+  query: StructuredQuery,
+  lang: 'en' | 'es'
+): string | null {
+  if (!query.enrich || query.enrich.length === 0) return null;
+
+  const parts = query.enrich.map((enrichment) => {
+    const fields = enrichment.fields.map((field) => field.replace(/_/g, ' ')).join(', ');
+    const layer = layerName(enrichment.layer, lang);
+    return lang === 'es' ? `${fields} de ${layer}` : `${layer} ${fields}`;
+  });
+  return lang === 'es'
+    ? `Cada resultado incluye ${parts.join(' y ')}.`
+    : `Each result includes ${parts.join(' and ')}.`;
+}
+
+function describeOverlap(
+  query: StructuredQuery,
+  lang: 'en' | 'es'
+): string | null {
+  if (!query.overlap) return null;
+
+  const target = layerName(query.overlap.targetLayer, lang);
+  return lang === 'es'
+    ? `Incluye cuánto de cada resultado cubren ${target} (área y porcentaje).`
+    : `Includes how much of each result is covered by ${target} (area and percent).`;
+}
+
+function describeDensity(
+  query: StructuredQuery,
+  lang: 'en' | 'es'
+): string | null {
+  const density = query.density;
+  if (!density) return null;
+
+  if (density.method === 'grid') {
+    const size = density.cellSize ?? DENSITY_DEFAULT_CELL_SIZE;
+    return lang === 'es'
+      ? `Contados en celdas de ${size}m; solo se muestran celdas con resultados.`
+      : `Counted in ${size}m grid cells; only cells with results are shown.`;
+  }
+  const zones = layerName(density.zoneLayer ?? DENSITY_DEFAULT_ZONE_LAYER, lang);
+  return lang === 'es'
+    ? `Puntos calientes y fríos (Getis-Ord Gi*) por polígono de ${zones}, comparando cada uno con sus vecinos.`
+    : `Hot and cold spots (Getis-Ord Gi*) per ${zones} polygon, comparing each with its neighbors.`;
+}
+
+function describeTemporalPeriod(period: TemporalPeriod, lang: 'en' | 'es'): string {
+  if ('year' in period) return String(period.year);
+  return lang === 'es' ? `hasta ${period.date}` : `through ${period.date}`;
+}
+
+function describeTemporal(
+  query: StructuredQuery,
+  lang: 'en' | 'es'
+): string | null {
+  const temporal = query.temporal;
+  if (!temporal) return null;
+
+  const baseline = describeTemporalPeriod(temporal.baseline, lang);
+  const comparison = describeTemporalPeriod(temporal.comparison, lang);
+  return lang === 'es'
+    ? `Comparando ${baseline} con ${comparison}.`
+    : `Comparing ${baseline} with ${comparison}.`;
+}
+
+function describeSaveAs(query: StructuredQuery, lang: 'en' | 'es'): string | null {
+  if (!query.saveAs) {
+    return null;
+  }
+  const target = getResultSetTarget(query.saveAs);
+  return lang === 'es'
+    ? `Guardado como ${target} para las siguientes preguntas.`
+    : `Saved as ${target} for follow-up questions.`;
+}
+
+function describeGeometryOperation(
+  query: StructuredQuery,
+  lang: 'en' | 'es'
+): string | null {
+  const operation = query.geometryOperation;
+  if (!operation) return null;
+
+  switch (operation.op) {
+    case 'buffer':
+      if (operation.dissolve) {
+        return lang === 'es'
+          ? `Con un búfer de ${operation.distance}m, unido en una sola área.`
+          : `Buffered by ${operation.distance}m and merged into one area.`;
+      }
+      return lang === 'es'
+        ? `Con un búfer de ${operation.distance}m.`
+        : `Buffered by ${operation.distance}m.`;
+    case 'dissolve':
+      if (operation.groupBy) {
+        const field = operation.groupBy.replace(/_/g, ' ');
+        return lang === 'es'
+          ? `Unidos por ${field}.`
+          : `Dissolved by ${field}.`;
+      }
+      return lang === 'es'
+        ? 'Unidos en una sola geometría.'
+        : 'Dissolved into a single geometry.';
+    case 'clip': {
+      const clipLayer = layerName(operation.clipLayer ?? '', lang);
+      return lang === 'es'
+        ? `Recortados a ${clipLayer}.`
+        : `Clipped to ${clipLayer}.`;
+    }
+    default:
+      return null;
+  }
+}
+
 // ── Equity context hints keyed by layer ────────────────────────────
 const EQUITY_CONTEXT: Record<string, string> = {
   parcels:
@@ -87,59 +357,53 @@ export function generateExplanation(
 
   if (query.attributeFilters && query.attributeFilters.length > 0) {
     for (const filter of query.attributeFilters) {
-      attributeParts.push(
-        `${filter.field.replace(/_/g, ' ')} ${opName(filter.op, lang)} ${filter.value}`
-      );
+      attributeParts.push(describeAttributeFilter(filter, lang));
     }
   }
 
   if (query.spatialFilters && query.spatialFilters.length > 0) {
     for (const filter of query.spatialFilters) {
-      const target = layerName(filter.targetLayer, lang);
-      if (filter.op === 'within_distance') {
-        spatialParts.push(
-          lang === 'es'
-            ? `dentro de ${filter.distance}m de ${target}`
-            : `within ${filter.distance}m of ${target}`
-        );
-      } else if (filter.op === 'nearest') {
-        spatialParts.push(
-          lang === 'es'
-            ? `los ${filter.limit} más cercanos a ${target}`
-            : `nearest ${filter.limit} to ${target}`
-        );
-      } else {
-        spatialParts.push(
-          lang === 'es'
-            ? `que ${filter.op} ${target}`
-            : `${filter.op} ${target}`
-        );
-      }
+      spatialParts.push(describeSpatialFilter(filter, lang));
     }
   }
 
-  const logicWord = (logic: string) =>
-    lang === 'es' ? (logic === 'or' ? 'O' : 'Y') : logic.toUpperCase();
-
   const segments: string[] = [];
   if (attributeParts.length > 0) {
-    const w = logicWord(query.attributeLogic ?? 'and');
+    const w = logicWord(query.attributeLogic ?? 'and', lang);
     segments.push(attributeParts.join(` ${w} `));
   }
   if (spatialParts.length > 0) {
-    const w = logicWord(query.spatialLogic ?? 'and');
+    const w = logicWord(query.spatialLogic ?? 'and', lang);
     segments.push(spatialParts.join(` ${w} `));
   }
+  if (query.where) {
+    segments.push(describeFilterExpression(query.where, lang, true));
+  }
+  if (query.bbox) {
+    segments.push(lang === 'es' ? 'dentro del recuadro dibujado' : 'within the drawn box');
+  }
 
+  let explanation: string;
   if (segments.length === 0) {
-    return lang === 'es'
+    explanation = lang === 'es'
       ? `Se encontraron ${count} ${layer}.`
       : `Found ${count} ${layer}.`;
+  } else {
+    explanation = lang === 'es'
+      ? `Se encontraron ${count} ${layer} donde ${segments.join(' Y ')}.`
+      : `Found ${count} ${layer} where ${segments.join(' AND ')}.`;
   }
 
-  return lang === 'es'
-    ? `Se encontraron ${count} ${layer} donde ${segments.join(' Y ')}.`
-    : `Found ${count} ${layer} where ${segments.join(' AND ')}.`;
+  const details = [
+    describeSpatialGroupBy(query, lang),
+    describeEnrichment(query, lang),
+    describeOverlap(query, lang),
+    describeDensity(query, lang),
+    describeTemporal(query, lang),
+    describeGeometryOperation(query, lang),
+    describeSaveAs(query, lang),
+  ].filter((detail): detail is string => detail !== null);
+  return details.length > 0 ? `${explanation} ${details.join(' ')}` : explanation;
 }
 
 /**
@@ -228,19 +492,56 @@ Write 2-3 sentences that:
 Keep it concise, factual, and specific to Santa Fe. Do not use bullet points.`;
 }
 
+/**
+ * Stream the narrative, passing each chunk to onDelta with leading
+ * whitespace dropped, and return the full text
+ */
+async function collectNarrative(
+  llm: LLMClient,
+  prompt: string,
+  signal: AbortSignal,
+  onDelta: (delta: string) => void | Promise<void>,
+  onServedBy: (servedBy: ProviderIdentity) => void
+): Promise<string> {
+  let narrative = '';
+  for await (const chunk of streamCompletion(llm, prompt, {
+    temperature: 0.3,
+    maxTokens: 300,
+    signal,
+    onServedBy,
+  })) {
+    const delta = narrative === '' ? chunk.trimStart() : chunk;
+    // Nothing more goes out once the timeout has fired
+    if (delta === '' || signal.aborted) continue;
+    narrative += delta;
+    await onDelta(delta);
+  }
+  return narrative;
+}
+
 /**
  * Generate an LLM-enriched explanation with housing equity context.
  *
  * Falls back to the deterministic explanation on any failure or timeout,
- * so callers can always use the result directly.
+ * so callers can always use the result directly. With `onDelta` the
+ * narrative is streamed and each chunk is passed on as it arrives; chunks
+ * already sent are not retracted when the narrative later fails.
  */
 export async function generateEquityExplanation(
   llm: LLMClient,
   query: StructuredQuery,
   count: number,
   features: Array<{ properties: Record<string, unknown> | null }> = [],
-  options?: { timeoutMs?: number; lang?: 'en' | 'es' }
-): Promise<{ explanation: string; equityNarrative: string | null }> {
+  options?: {
+    timeoutMs?: number;
+    lang?: 'en' | 'es';
+    onDelta?: (delta: string) => void | Promise<void>;
+  }
+): Promise<{
+  explanation: string;
+  equityNarrative: string | null;
+  servedBy: ProviderIdentity | null; // Provider that wrote the narrative
+}> {
   const lang = options?.lang ?? 'en';
   const deterministicExplanation = generateExplanation(query, count, lang);
 
@@ -249,14 +550,22 @@ export async function generateEquityExplanation(
     const timeoutMs = options?.timeoutMs ?? 5000;
     const controller = new AbortController();
     let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    let servedBy: ProviderIdentity = {
+      provider: llm.providerName ?? 'unknown',
+      model: llm.modelName ?? 'unknown',
+    };
+    const onServedBy = (served: ProviderIdentity) => { servedBy = served; };
 
     try {
       const narrative = await Promise.race([
-        llm.complete(prompt, {
-          temperature: 0.3,
-          maxTokens: 300,
-          signal: controller.signal,
-        }),
+        options?.onDelta
+          ? collectNarrative(llm, prompt, controller.signal, options.onDelta, onServedBy)
+          : llm.complete(prompt, {
+              temperature: 0.3,
+              maxTokens: 300,
+              signal: controller.signal,
+              onServedBy,
+            }),
         new Promise<never>((_, reject) => {
           timeoutId = setTimeout(() => {
             controller.abort();
@@ -268,6 +577,7 @@ export async function generateEquityExplanation(
       return {
         explanation: deterministicExplanation,
         equityNarrative: narrative.trim(),
+        servedBy,
       };
     } finally {
       if (timeoutId) {
@@ -279,6 +589,7 @@ export async function generateEquityExplanation(
     return {
       explanation: deterministicExplanation,
       equityNarrative: null,
+      servedBy: null,
     };
   }
 }
@@ -13,8 +13,10 @@ import { getConnection, query } from '../db/init';
 import { queryCache } from '../cache';
 import {
   applyQueryLimits,
+  getContextLayerQueries,
   getQueryHash,
   getQuerySourceLayers,
+  getReferencedResultSets,
   normalizeStructuredQuery,
   validateQueryAgainstRegistry,
   type QueryValidationIssue,
@@ -23,7 +25,9 @@ import type { LayerRegistry } from '../layers/registry';
 import type { Database } from 'duckdb';
 import type { FeatureCollection } from 'geojson';
 import type { StructuredQuery } from '../../../../shared/types/query';
+import type { ContextLayer } from '../../../../shared/types/api';
 import { convertBigInts, rowToFeature } from './geojson';
+import { log } from '../logger';
 
 /**
  * Result of the normalization + validation step.
@@ -47,6 +51,8 @@ export interface PreparedQuery {
   simplifyToleranceDeg?: number;
   /** Notes from the normalization step (e.g. field rewrites) */
   normalizationNotes: string[];
+  /** Saved result sets the query targets, keyed by target name */
+  resultSets: Record<string, StructuredQuery>;
 }
 
 /**
@@ -59,18 +65,45 @@ export interface ExecutionResult {
   prepared: PreparedQuery;
 }
 
+/**
+ * Whether the built SQL returns a geometry column. Spatial aggregates
+ * return the group polygons; attribute aggregates and temporal summaries
+ * return bare rows.
+ */
+function returnsGeometry(query: StructuredQuery): boolean {
+  if (query.aggregate || query.temporal) {
+    return Boolean(query.aggregate?.spatialGroupBy);
+  }
+  return true;
+}
+
+/**
+ * Registry issues prepareQuery would reject a query with, without throwing
+ *
+ * @param resultSets - Saved result sets available as spatial targets
+ */
+export function findQueryIssues(
+  rawQuery: StructuredQuery,
+  registry: LayerRegistry,
+  resultSets: Record<string, StructuredQuery> = {}
+): QueryValidationIssue[] {
+  return validateQueryAgainstRegistry(normalizeStructuredQuery(rawQuery).query, registry, resultSets);
+}
+
 /**
  * Normalize, validate, and prepare a StructuredQuery for execution.
  *
+ * @param resultSets - Saved result sets available as spatial targets
  * @returns PreparedQuery on success
  * @throws Error with `validationIssues` property if registry validation fails
  */
 export function prepareQuery(
   rawQuery: StructuredQuery,
-  registry: LayerRegistry
+  registry: LayerRegistry,
+  resultSets: Record<string, StructuredQuery> = {}
 ): PreparedQuery {
   const normalized = normalizeStructuredQuery(rawQuery);
-  const issues = validateQueryAgainstRegistry(normalized.query, registry);
+  const issues = validateQueryAgainstRegistry(normalized.query, registry, resultSets);
 
   if (issues.length > 0) {
     const err = new Error('Query validation failed against loaded data');
@@ -84,7 +117,7 @@ export function prepareQuery(
 
   return {
     executableQuery,
-    queryHash: getQueryHash(executableQuery),
+    queryHash: getQueryHash(executableQuery, resultSets),
     sourceLayers: getQuerySourceLayers(executableQuery),
     truncated: limitApplication.truncated,
     maxFeaturesApplied: limitApplication.maxFeaturesApplied,
@@ -92,6 +125,7 @@ export function prepareQuery(
     defaultLimitApplied: limitApplication.defaultLimitApplied,
     simplifyToleranceDeg: limitApplication.simplifyToleranceDeg,
     normalizationNotes: normalized.notes,
+    resultSets: getReferencedResultSets(executableQuery, resultSets),
   };
 }
 
@@ -120,6 +154,7 @@ export async function executeQuery(
   // Build SQL
   const builder = new QueryBuilder(prepared.executableQuery, {
     simplifyToleranceDeg: prepared.simplifyToleranceDeg,
+    resultSets: prepared.resultSets,
   });
   const { sql, params } = builder.build();
 
@@ -129,15 +164,14 @@ export async function executeQuery(
   const rows = await query<Record<string, unknown>>(conn, sql, ...params);
   const executionTimeMs = performance.now() - start;
 
-  // Format — aggregate queries have no geometry column
-  const isAggregate = Boolean(prepared.executableQuery.aggregate);
-  const features = isAggregate
-    ? rows.map((row) => ({
+  // Format — summary rows without geometry get a null geometry
+  const features = returnsGeometry(prepared.executableQuery)
+    ? rows.map(rowToFeature)
+    : rows.map((row) => ({
         type: 'Feature' as const,
         geometry: null as unknown as GeoJSON.Geometry,
         properties: convertBigInts(row),
-      }))
-    : rows.map(rowToFeature);
+      }));
   const result: FeatureCollection = {
     type: 'FeatureCollection',
     features,
@@ -153,3 +187,44 @@ export async function executeQuery(
     prepared,
   };
 }
+
+/**
+ * Run the context layer queries for an executed query. Context layers are
+ * supplementary: a layer that fails to prepare or execute is logged and
+ * left out instead of failing the response.
+ */
+export async function executeContextLayers(
+  query: StructuredQuery,
+  registry: LayerRegistry,
+  db: Database
+): Promise<ContextLayer[]> {
+  const contextLayers: ContextLayer[] = [];
+  for (const contextQuery of getContextLayerQueries(query)) {
+    try {
+      const prepared = prepareQuery(contextQuery, registry);
+      const { result, executionTimeMs } = await executeQuery(prepared, db);
+      contextLayers.push({
+        layer: contextQuery.selectLayer,
+        result: {
+          type: 'FeatureCollection',
+          features: result.features as ContextLayer['result']['features'],
+          metadata: {
+            count: result.features.length,
+            executionTimeMs: Math.round(executionTimeMs * 100) / 100,
+            queryHash: prepared.queryHash,
+            truncated: result.features.length >= prepared.maxFeaturesApplied,
+            maxFeaturesApplied: prepared.maxFeaturesApplied,
+          },
+        },
+      });
+    } catch (error) {
+      log({
+        level: 'warn',
+        event: 'query.context_layer_failed',
+        layer: contextQuery.selectLayer,
+        error: error instanceof Error ? error.message : 'unknown',
+      });
+    }
+  }
+  return contextLayers;
+}
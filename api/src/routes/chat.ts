@@ -2,13 +2,17 @@
  * Chat endpoint
  *
  * Natural language -> grounding -> StructuredQuery -> SQL -> GeoJSON
+ *
+ * POST /       → one JSON ChatResponse when the turn is complete
+ * POST /stream → the same turn as Server-Sent Events, stage by stage
  */
 
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import { z } from 'zod';
 import { createLLMClient } from '../lib/llm';
 import { LLMProviderError } from '../lib/llm/types';
-import { IntentParser } from '../lib/orchestrator/parser';
+import { IntentParser, QueryParseError } from '../lib/orchestrator/parser';
 import {
   parseCache,
   stableJsonKey,
@@ -16,22 +20,47 @@ import {
 import type { LayerRegistry } from '../lib/layers/registry';
 import type { Database } from 'duckdb';
 import type { ParseResult, ConversationContext } from '../lib/orchestrator/parser';
-import type { ChatRequest, ChatResponse } from '../../../shared/types/api';
+import type {
+  ChatClarificationResponse,
+  ChatErrorResponse,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  ClarificationChoice,
+  LLMServedBy,
+  ParseAttempt,
+  QueryMetadata,
+} from '../../../shared/types/api';
+import { getResultSetTarget, type StructuredQuery } from '../../../shared/types/query';
 import {
+  applyDrawnShape,
   getQuerySourceLayers,
 } from '../lib/orchestrator/query-grounding';
+import { drawnShapeSchema } from '../lib/orchestrator/validator';
 import {
   assessGroundingRequest,
   type GroundingAssessment,
 } from '../lib/orchestrator/intent-router';
-import { prepareQuery, executeQuery } from '../lib/utils/query-executor';
+import {
+  type ClarificationRequest,
+  clarifyFailedQuery,
+  clarifyPlace,
+  resolveClarification,
+} from '../lib/orchestrator/clarification';
+import { Gazetteer } from '../lib/geocoding/gazetteer';
+import {
+  prepareQuery,
+  executeQuery,
+  executeContextLayers,
+  findQueryIssues,
+} from '../lib/utils/query-executor';
 import { generateExplanation, generateEquityExplanation } from '../lib/utils/explanation';
 import { log } from '../lib/logger';
 import { getRequestId } from '../lib/request-id';
 import {
-  createSession,
-  getSession,
-  updateSession,
+  type ConversationStore,
+  getConversationStore,
+  getSessionResultSets,
 } from '../lib/conversation/store';
 
 // ── Request validation schema ─────────────────────────────────────────────────
@@ -39,20 +68,26 @@ const chatBodySchema = z.object({
   message: z.string().min(1, 'message must be a non-empty string'),
   lang: z.enum(['en', 'es']).optional(),
   conversationId: z.string().optional(),
+  drawnShape: drawnShapeSchema.optional(),
 }) satisfies z.ZodType<ChatRequest>;
 
 let dbInstance: Database | null = null;
 let layerRegistry: LayerRegistry | null = null;
+let gazetteer = new Gazetteer();
 
 const chatRoute = new Hono();
 
 let llmClient = createLLMClient();
 let parser = new IntentParser(llmClient);
 
-function getLLMMetadata(): { llmProvider: string; llmModel: string } {
+/**
+ * Provider/model log fields: the one that served the call when known,
+ * otherwise the configured client
+ */
+function getLLMMetadata(servedBy?: LLMServedBy | null): { llmProvider: string; llmModel: string } {
   return {
-    llmProvider: llmClient.providerName ?? 'unknown',
-    llmModel: llmClient.modelName ?? 'unknown',
+    llmProvider: servedBy?.provider ?? llmClient.providerName ?? 'unknown',
+    llmModel: servedBy?.model ?? llmClient.modelName ?? 'unknown',
   };
 }
 
@@ -129,9 +164,16 @@ export function setLayerRegistry(registry: LayerRegistry): void {
   log({ level: 'info', event: 'chat.config', layers: registry.loadedLayerNames });
 }
 
+export function setGazetteer(value: Gazetteer): void {
+  gazetteer = value;
+  parser.setGazetteer(value);
+  log({ level: 'info', event: 'chat.gazetteer', names: value.size });
+}
+
 export function setLLMClientForTests(client: typeof llmClient): void {
   llmClient = client;
   parser = new IntentParser(llmClient);
+  parser.setGazetteer(gazetteer);
   if (layerRegistry) {
     setLayerRegistry(layerRegistry);
   }
@@ -198,81 +240,170 @@ function unsupportedResponse(
   };
 }
 
-chatRoute.post('/', async (c) => {
-  const requestId = getRequestId(c.req.raw);
+const FEATURE_CHUNK_SIZE = 500;
+
+type ChatBody = z.infer<typeof chatBodySchema>;
+
+type ChatTurnOutcome =
+  | { ok: true; response: ChatResponse | ChatClarificationResponse }
+  | {
+    ok: false;
+    status: 400 | 500 | 502 | 503;
+    body: ChatErrorResponse;
+    retryAfter?: string;
+  };
+
+/**
+ * Receives each stage of a chat turn as it completes. The JSON route
+ * ignores them; the stream route forwards them as Server-Sent Events.
+ */
+type ChatStageEmitter = (event: ChatStreamEvent) => Promise<void>;
+
+const ignoreStages: ChatStageEmitter = async () => {};
+
+function chunkFeatures<T>(features: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < features.length; i += FEATURE_CHUNK_SIZE) {
+    chunks.push(features.slice(i, i + FEATURE_CHUNK_SIZE));
+  }
+  return chunks.length > 0 ? chunks : [[]];
+}
+
+/**
+ * Answer with a clarifying question instead of results. The question is
+ * kept in the session when it has choices for the reply to pick.
+ */
+async function askClarification(
+  conversationStore: ConversationStore,
+  conversationId: string,
+  conversationTurn: number,
+  request: ClarificationRequest,
+  grounding: GroundingAssessment,
+  requestId: string | undefined,
+  parseAttempts?: ParseAttempt[]
+): Promise<ChatTurnOutcome> {
+  if (request.pending.choices.length > 0) {
+    await conversationStore.setPendingClarification(conversationId, request.pending);
+  }
+  log({
+    level: 'info',
+    event: 'chat.clarification',
+    requestId,
+    reason: request.clarification.reason,
+    choices: request.clarification.choices.length,
+  });
+  return {
+    ok: true,
+    response: {
+      conversationId,
+      conversationTurn,
+      clarification: request.clarification,
+      grounding,
+      ...(parseAttempts ? { parseAttempts } : {}),
+    },
+  };
+}
+
+/**
+ * Run one chat turn: grounding → parse → prepare + execute → explanation →
+ * equity narrative → record the turn. Each stage is passed to `emit` as
+ * soon as it is ready. An ambiguous place, an unreadable message or a
+ * query that doesn't match the loaded data ends the turn early with a
+ * clarifying question (see clarifyFailedQuery for when it stops asking).
+ */
+async function runChatTurn(
+  body: ChatBody,
+  lang: 'en' | 'es',
+  requestId: string | undefined,
+  emit: ChatStageEmitter
+): Promise<ChatTurnOutcome> {
   const llmMetadata = getLLMMetadata();
   if (!dbInstance) {
-    return c.json({ error: 'Database not initialized' }, 503);
+    return { ok: false, status: 503, body: { error: 'Database not initialized' } };
   }
   if (!layerRegistry) {
-    return c.json({ error: 'Layer registry not initialized' }, 503);
+    return { ok: false, status: 503, body: { error: 'Layer registry not initialized' } };
   }
 
   try {
-    const rawBody: unknown = await c.req.json();
-    const bodyValidation = chatBodySchema.safeParse(rawBody);
-    if (!bodyValidation.success) {
-      return c.json(
-        {
-          error: 'Invalid request body',
-          details: bodyValidation.error.issues.map((i) => i.message).join('; '),
-        },
-        400
-      );
-    }
-    const body = bodyValidation.data;
-
-    // Resolve language: explicit body field → Accept-Language header → 'en'
-    const acceptLang = c.req.header('Accept-Language') ?? '';
-    const lang: 'en' | 'es' = body.lang
-      ?? (acceptLang.toLowerCase().startsWith('es') ? 'es' : 'en');
-
-    let conversationId: string | undefined;
+    const conversationStore = getConversationStore();
+    let conversationId: string;
     let conversationTurn = 0;
     let conversationContext: ConversationContext | null = null;
-    let statelessConversation = false;
-    const requestedSession = body.conversationId ? getSession(body.conversationId) : null;
+    let resultSets: Record<string, StructuredQuery> = {};
+    const requestedSession = body.conversationId
+      ? await conversationStore.get(body.conversationId)
+      : null;
 
     if (requestedSession) {
-      conversationId = body.conversationId;
+      conversationId = requestedSession.id;
       conversationTurn = requestedSession.turnCount;
       if (requestedSession.previousQuery) {
         conversationContext = {
           previousQuery: requestedSession.previousQuery,
           previousLayer: requestedSession.previousQuery.selectLayer,
+          resultSets: requestedSession.resultSets.map((saved) => ({
+            target: getResultSetTarget(saved.name ?? `turn${saved.turn}`),
+            layer: saved.layer,
+            featureCount: saved.featureCount,
+            turn: saved.turn,
+          })),
         };
       }
+      resultSets = getSessionResultSets(requestedSession);
     } else {
-      const createdConversationId = createSession();
-      if (createdConversationId) {
-        conversationId = createdConversationId;
-      } else {
-        statelessConversation = true;
+      conversationId = await conversationStore.create();
+    }
+
+    // A reply that picks a choice of the pending question runs the
+    // original request with that choice; any other reply is a new request
+    let message = body.message;
+    let picked: ClarificationChoice | null = null;
+    const pendingClarification = requestedSession?.pendingClarification;
+    if (pendingClarification) {
+      await conversationStore.setPendingClarification(conversationId, null);
+      const resolved = resolveClarification(pendingClarification, body.message);
+      if (resolved) {
+        message = resolved.message;
+        picked = resolved;
         log({
-          level: 'warn',
-          event: 'chat.conversation_stateless',
+          level: 'info',
+          event: 'chat.clarification_resolved',
           requestId,
-          conversationStoreFull: true,
+          reason: pendingClarification.reason,
         });
       }
     }
 
     const availableLayers = layerRegistry.loadedLayerNames;
-    const grounding = assessGroundingRequest(body.message, availableLayers);
-    if (grounding.disambiguationPrompt) {
-      return c.json(
-        {
-          error: 'Clarification required',
-          message: grounding.disambiguationPrompt,
+    const places = gazetteer.findInText(message);
+    const grounding = assessGroundingRequest(message, availableLayers, places);
+    // Each question replaces the mention it asks about, so a reply that
+    // picked a place can only be asked about another one
+    if (grounding.missingConcepts.length === 0) {
+      const clarification = clarifyPlace(message, places, grounding, {
+        availableLayers,
+        gazetteer,
+        lang,
+      });
+      if (clarification) {
+        return askClarification(
+          conversationStore,
+          conversationId,
+          conversationTurn,
+          clarification,
           grounding,
-          suggestions: grounding.suggestions,
-        },
-        400
-      );
+          requestId
+        );
+      }
     }
+    // Any disambiguation prompt left comes with data that isn't loaded,
+    // which no choice can fix: report the missing layers (the prompt stays
+    // in the grounding)
     if (grounding.status !== 'exact_match') {
-      return c.json(unsupportedResponse(grounding, availableLayers), 400);
+      return { ok: false, status: 400, body: unsupportedResponse(grounding, availableLayers) };
     }
+    await emit({ event: 'grounding', data: grounding });
 
     // --- LLM parsing (with cache) ---
     let parseResult: ParseResult;
@@ -280,23 +411,42 @@ chatRoute.post('/', async (c) => {
     let parseCacheHit = false;
 
     const parseCacheKey = stableJsonKey({
-      message: body.message,
+      message,
       lang,
       previousQuery: conversationContext?.previousQuery ?? null,
+      resultSets: conversationContext?.resultSets ?? [],
+      drawnShapeType: body.drawnShape?.type ?? null,
     });
     const cachedParse = parseCache.get(parseCacheKey);
     if (cachedParse) {
       parseResult = cachedParse;
       parseCacheHit = true;
     } else {
+      // Fields or layers the loaded data lacks are sent back to the model
+      // for repair, checked the way prepareQuery will check them below
+      const registry = layerRegistry;
+      const checkQuery = (query: StructuredQuery) => findQueryIssues(
+        body.drawnShape ? applyDrawnShape(query, body.drawnShape) : query,
+        registry,
+        resultSets
+      );
       try {
         const parseStart = performance.now();
         // Trust boundary: parser.parse builds the only LLM prompt for NL parsing.
         // It receives raw user text as delimited data plus validated structured
         // context; client-supplied explanation text is never forwarded.
-        parseResult = await parser.parse(body.message, conversationContext, lang);
+        parseResult = await parser.parse(
+          message,
+          conversationContext,
+          lang,
+          body.drawnShape?.type,
+          checkQuery
+        );
         parseTimeMs = performance.now() - parseStart;
-        parseCache.set(parseCacheKey, parseResult);
+        // Rule parses aren't cached so the LLM is asked again once it's back
+        if (parseResult.parser === 'llm') {
+          parseCache.set(parseCacheKey, parseResult);
+        }
       } catch (error) {
         const failure = classifyLLMFailure(error);
         if (failure) {
@@ -310,31 +460,62 @@ chatRoute.post('/', async (c) => {
             httpStatus: failure.status,
             error: error instanceof Error ? error.message : 'unknown',
           });
-          if (failure.retryAfter) {
-            c.header('Retry-After', failure.retryAfter);
-          }
-          return c.json(
-            {
+        }
+
+        const parseAttempts = error instanceof QueryParseError ? error.attempts : undefined;
+
+        // The model answered but no valid query came of it: ask for the
+        // distance, layer or field it needs. Provider outages stay errors.
+        const clarification = error instanceof LLMProviderError
+          ? null
+          : clarifyFailedQuery(message, {
+            reason: 'unparsed_query',
+            layer: picked?.kind === 'layer' ? picked.layer : undefined,
+            picked,
+            issues: parseAttempts?.at(-1)?.issues ?? [],
+            registry,
+            lang,
+          });
+        if (clarification) {
+          return askClarification(
+            conversationStore,
+            conversationId,
+            conversationTurn,
+            clarification,
+            grounding,
+            requestId,
+            parseAttempts
+          );
+        }
+
+        if (failure) {
+          return {
+            ok: false,
+            status: failure.status,
+            retryAfter: failure.retryAfter,
+            body: {
               error: failure.error,
               message: failure.message,
               grounding,
               suggestions: generateDynamicSuggestions(availableLayers),
+              ...(parseAttempts ? { parseAttempts } : {}),
             },
-            failure.status
-          );
+          };
         }
 
         const errorMessage =
           error instanceof Error ? error.message : 'Unknown parsing error';
-        return c.json(
-          {
+        return {
+          ok: false,
+          status: 400,
+          body: {
             error: 'Could not understand query',
             message: errorMessage,
             grounding,
             suggestions: generateDynamicSuggestions(availableLayers),
+            ...(parseAttempts ? { parseAttempts } : {}),
           },
-          400
-        );
+        };
       }
     }
 
@@ -344,7 +525,9 @@ chatRoute.post('/', async (c) => {
       requestId,
       parseTimeMs: Math.round(parseTimeMs * 100) / 100,
       llmLatencyMs: Math.round(parseTimeMs * 100) / 100,
-      ...llmMetadata,
+      ...getLLMMetadata(parseResult.servedBy),
+      parser: parseResult.parser,
+      parseAttempts: parseResult.attempts?.length ?? 0,
       parseCacheHit,
       confidence: parseResult.confidence,
     });
@@ -352,25 +535,77 @@ chatRoute.post('/', async (c) => {
     // --- Shared prepare + execute pipeline ---
     let prepared;
     try {
-      prepared = prepareQuery(parseResult.query, layerRegistry);
+      // The drawn shape is applied after parsing (and after the parse
+      // cache) so cached parses never carry another request's geometry
+      const parsedQuery = body.drawnShape
+        ? applyDrawnShape(parseResult.query, body.drawnShape)
+        : parseResult.query;
+      prepared = prepareQuery(parsedQuery, layerRegistry, resultSets);
     } catch (err) {
       const prepErr = err as Error & { validationIssues?: string[]; normalizationNotes?: string[] };
       if (prepErr.validationIssues) {
-        return c.json(
-          {
+        // Fields or layers the loaded data lacks: ask which ones to use
+        const clarification = clarifyFailedQuery(message, {
+          reason: 'unmatched_query',
+          layer: parseResult.query.selectLayer,
+          picked,
+          issues: [],
+          registry: layerRegistry,
+          lang,
+        });
+        if (clarification) {
+          return askClarification(
+            conversationStore,
+            conversationId,
+            conversationTurn,
+            clarification,
+            grounding,
+            requestId,
+            parseResult.attempts
+          );
+        }
+        return {
+          ok: false,
+          status: 400,
+          body: {
             error: 'Parsed query does not match loaded data',
             details: prepErr.validationIssues,
             grounding,
             normalizationNotes: prepErr.normalizationNotes ?? [],
             suggestions: generateDynamicSuggestions(availableLayers),
+            ...(parseResult.attempts ? { parseAttempts: parseResult.attempts } : {}),
           },
-          400
-        );
+        };
       }
       throw err;
     }
+    await emit({
+      event: 'query',
+      data: {
+        conversationId,
+        query: prepared.executableQuery,
+        confidence: parseResult.confidence,
+      },
+    });
 
     const { result, executionTimeMs, queryCacheHit } = await executeQuery(prepared, dbInstance);
+    const features = result.features as ChatResponse['result']['features'];
+    const chunks = chunkFeatures(features);
+    for (const [index, chunk] of chunks.entries()) {
+      await emit({
+        event: 'features',
+        data: { features: chunk, chunk: index + 1, chunks: chunks.length },
+      });
+    }
+
+    const contextLayers = await executeContextLayers(
+      prepared.executableQuery,
+      layerRegistry,
+      dbInstance
+    );
+    if (contextLayers.length > 0) {
+      await emit({ event: 'context_layers', data: { contextLayers } });
+    }
 
     log({
       level: 'info',
@@ -388,9 +623,30 @@ chatRoute.post('/', async (c) => {
       result.features.length,
       lang
     );
+    const metadata: QueryMetadata = {
+      count: result.features.length,
+      executionTimeMs: Math.round(executionTimeMs * 100) / 100,
+      parseTimeMs: Math.round(parseTimeMs * 100) / 100,
+      queryHash: prepared.queryHash,
+      sourceLayers: getQuerySourceLayers(prepared.executableQuery),
+      truncated: prepared.truncated,
+      maxFeaturesApplied: prepared.maxFeaturesApplied,
+      hardCap: prepared.hardCap,
+      defaultLimitApplied: prepared.defaultLimitApplied,
+      normalizationNotes: prepared.normalizationNotes,
+      cache: {
+        parseHit: parseCacheHit,
+        queryHit: queryCacheHit,
+      },
+      parser: parseResult.parser,
+      ...(parseResult.attempts ? { parseAttempts: parseResult.attempts } : {}),
+      ...(parseResult.servedBy ? { llm: { parse: parseResult.servedBy } } : {}),
+    };
+    await emit({ event: 'summary', data: { summary: deterministicExplanation, metadata } });
 
-    // Attempt LLM equity explanation (5s timeout); fall back to deterministic on failure
+    // Attempt LLM equity explanation (12s timeout); fall back to deterministic on failure
     let equityNarrative: string | null = null;
+    let equityServedBy: LLMServedBy | null = null;
     let equityLatencyMs = 0;
     try {
       const equityStart = performance.now();
@@ -399,10 +655,15 @@ chatRoute.post('/', async (c) => {
         prepared.executableQuery,
         result.features.length,
         result.features as Array<{ properties: Record<string, unknown> | null }>,
-        { timeoutMs: 12_000, lang }
+        {
+          timeoutMs: 12_000,
+          lang,
+          onDelta: (delta) => emit({ event: 'narrative', data: { delta } }),
+        }
       );
       equityLatencyMs = performance.now() - equityStart;
       equityNarrative = equity.equityNarrative;
+      equityServedBy = equity.servedBy;
     } catch (error) {
       log({
         level: 'warn',
@@ -420,51 +681,43 @@ chatRoute.post('/', async (c) => {
       event: 'chat.equity',
       requestId,
       llmLatencyMs: Math.round(equityLatencyMs * 100) / 100,
-      ...llmMetadata,
+      ...getLLMMetadata(equityServedBy),
       equityNarrativeReturned: equityNarrative !== null,
     });
+    if (equityServedBy) {
+      metadata.llm = { ...metadata.llm, narrative: equityServedBy };
+    }
 
     const explanation = equityNarrative ?? deterministicExplanation;
-    if (conversationId) {
-      const updatedSession = updateSession(
-        conversationId,
-        prepared.executableQuery,
-        explanation
-      );
-      conversationTurn = updatedSession?.turnCount ?? conversationTurn;
-    } else if (statelessConversation) {
-      conversationTurn = 0;
+    let resultSet: string | undefined;
+    const updatedSession = await conversationStore.recordTurn(conversationId, {
+      message,
+      query: prepared.executableQuery,
+      queryHash: prepared.queryHash,
+      explanation,
+      featureCount: result.features.length,
+    });
+    if (updatedSession) {
+      conversationTurn = updatedSession.turnCount;
+      resultSet = getResultSetTarget(prepared.executableQuery.saveAs ?? `turn${conversationTurn}`);
     }
 
     const response: ChatResponse = {
-      ...(conversationId ? { conversationId } : {}),
+      conversationId,
       conversationTurn,
+      ...(resultSet ? { resultSet } : {}),
       query: prepared.executableQuery,
-      result: result as ChatResponse['result'],
+      result: { type: 'FeatureCollection', features },
+      ...(contextLayers.length > 0 ? { contextLayers } : {}),
       summary: deterministicExplanation,
       explanation,
       equityNarrative,
       confidence: parseResult.confidence,
       grounding,
-      metadata: {
-        count: result.features.length,
-        executionTimeMs: Math.round(executionTimeMs * 100) / 100,
-        parseTimeMs: Math.round(parseTimeMs * 100) / 100,
-        queryHash: prepared.queryHash,
-        sourceLayers: getQuerySourceLayers(prepared.executableQuery),
-        truncated: prepared.truncated,
-        maxFeaturesApplied: prepared.maxFeaturesApplied,
-        hardCap: prepared.hardCap,
-        defaultLimitApplied: prepared.defaultLimitApplied,
-        normalizationNotes: prepared.normalizationNotes,
-        cache: {
-          parseHit: parseCacheHit,
-          queryHit: queryCacheHit,
-        },
-      },
+      metadata,
     };
 
-    return c.json(response);
+    return { ok: true, response };
   } catch (error) {
     if (error instanceof Error) {
       log({
@@ -474,18 +727,106 @@ chatRoute.post('/', async (c) => {
         errorType: error.name,
         errorMessage: error.message,
       });
-      return c.json(
-        {
+      return {
+        ok: false,
+        status: 500,
+        body: {
           error: 'Query execution failed',
           message: error.message,
         },
-        500
-      );
+      };
     }
 
     log({ level: 'error', event: 'chat.error', requestId, errorType: 'unknown', errorMessage: 'Unknown error' });
-    return c.json({ error: 'Unknown error' }, 500);
+    return { ok: false, status: 500, body: { error: 'Unknown error' } };
   }
+}
+
+/**
+ * Validated body and resolved language, or the 400 body for an invalid one
+ */
+async function readChatRequest(
+  c: Context
+): Promise<{ body: ChatBody; lang: 'en' | 'es' } | { error: ChatErrorResponse }> {
+  let rawBody: unknown;
+  try {
+    rawBody = await c.req.json();
+  } catch (error) {
+    return {
+      error: {
+        error: 'Invalid request body',
+        details: error instanceof Error ? error.message : 'Body must be JSON',
+      },
+    };
+  }
+  const bodyValidation = chatBodySchema.safeParse(rawBody);
+  if (!bodyValidation.success) {
+    return {
+      error: {
+        error: 'Invalid request body',
+        details: bodyValidation.error.issues.map((i) => i.message).join('; '),
+      },
+    };
+  }
+  const body = bodyValidation.data;
+
+  // Resolve language: explicit body field → Accept-Language header → 'en'
+  const acceptLang = c.req.header('Accept-Language') ?? '';
+  const lang: 'en' | 'es' = body.lang
+    ?? (acceptLang.toLowerCase().startsWith('es') ? 'es' : 'en');
+  return { body, lang };
+}
+
+chatRoute.post('/', async (c) => {
+  const request = await readChatRequest(c);
+  if ('error' in request) {
+    return c.json(request.error, 400);
+  }
+
+  const outcome = await runChatTurn(
+    request.body,
+    request.lang,
+    getRequestId(c.req.raw),
+    ignoreStages
+  );
+  if (!outcome.ok) {
+    if (outcome.retryAfter) {
+      c.header('Retry-After', outcome.retryAfter);
+    }
+    return c.json(outcome.body, outcome.status);
+  }
+  return c.json(outcome.response);
+});
+
+/**
+ * Same turn as POST /, sent as Server-Sent Events so clients can draw the
+ * features before the equity narrative is ready (see ChatStreamEvent)
+ */
+chatRoute.post('/stream', async (c) => {
+  const request = await readChatRequest(c);
+  if ('error' in request) {
+    return c.json(request.error, 400);
+  }
+  const requestId = getRequestId(c.req.raw);
+
+  return streamSSE(c, async (stream) => {
+    const send: ChatStageEmitter = async ({ event, data }) => {
+      // Keep running after a disconnect so the turn is still recorded
+      if (stream.aborted) return;
+      await stream.writeSSE({ event, data: JSON.stringify(data) });
+    };
+
+    const outcome = await runChatTurn(request.body, request.lang, requestId, send);
+    if (!outcome.ok) {
+      await send({ event: 'error', data: { ...outcome.body, status: outcome.status } });
+    } else if ('clarification' in outcome.response) {
+      await send({ event: 'clarification', data: outcome.response });
+    } else {
+      // Features were sent in chunks
+      const { result: _result, ...done } = outcome.response;
+      await send({ event: 'done', data: done });
+    }
+  });
 });
 
 export default chatRoute;
@@ -0,0 +1,85 @@
+/**
+ * Conversation history endpoints
+ *
+ * GET  /:id        → every recorded turn of a chat session
+ * POST /:id/replay → re-execute the session's turns against current data
+ */
+
+import { Hono } from 'hono';
+import type { Database } from 'duckdb';
+import type { LayerRegistry } from '../lib/layers/registry';
+import type { ConversationHistory } from '../../../shared/types/api';
+import { getConversationStore } from '../lib/conversation/store';
+import { replayConversation } from '../lib/conversation/replay';
+import { log } from '../lib/logger';
+
+// Store database instance (initialized on startup)
+let dbInstance: Database | null = null;
+let layerRegistry: LayerRegistry | null = null;
+
+export function setDatabase(db: Database): void {
+  dbInstance = db;
+}
+
+export function setLayerRegistry(registry: LayerRegistry): void {
+  layerRegistry = registry;
+}
+
+const conversationsRoute = new Hono();
+
+conversationsRoute.get('/:id', async (c) => {
+  const session = await getConversationStore().get(c.req.param('id'));
+  if (!session) {
+    return c.json({ error: 'Conversation not found' }, 404);
+  }
+
+  const history: ConversationHistory = {
+    conversationId: session.id,
+    createdAt: session.createdAt.toISOString(),
+    lastAccessedAt: session.lastAccessedAt.toISOString(),
+    turns: session.turns.map((turn) => ({
+      turn: turn.turn,
+      message: turn.message,
+      query: turn.query,
+      queryHash: turn.queryHash,
+      featureCount: turn.featureCount,
+      explanation: turn.explanation,
+      createdAt: turn.createdAt.toISOString(),
+    })),
+  };
+  return c.json(history);
+});
+
+conversationsRoute.post('/:id/replay', async (c) => {
+  if (!dbInstance) {
+    return c.json({ error: 'Database not initialized' }, 503);
+  }
+  if (!layerRegistry) {
+    return c.json({ error: 'Layer registry not initialized' }, 503);
+  }
+
+  const session = await getConversationStore().get(c.req.param('id'));
+  if (!session) {
+    return c.json({ error: 'Conversation not found' }, 404);
+  }
+
+  try {
+    const replay = await replayConversation(session, layerRegistry, dbInstance);
+    log({
+      level: 'info',
+      event: 'conversation.replay',
+      turns: replay.turns.length,
+      failedTurns: replay.turns.filter((turn) => turn.error).length,
+    });
+    return c.json(replay);
+  } catch (error) {
+    log({
+      level: 'error',
+      event: 'conversation.replay_error',
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return c.json({ error: 'Conversation replay failed' }, 500);
+  }
+});
+
+export default conversationsRoute;
@@ -49,7 +49,7 @@ function buildValidationSuggestions(layerRegistryValue: LayerRegistry): string[]
   return [
     `Use only loaded layers: ${loaded.join(', ')}`,
     'Check field names from GET /api/layers',
-    'Temporal queries are not supported yet',
+    'Temporal queries need a layer with a date field (e.g. short_term_rentals, eviction_filings)',
   ];
 }
 
@@ -0,0 +1,126 @@
+/**
+ * Share endpoints
+ *
+ * POST /    → store a validated StructuredQuery with the map view and styling
+ *             under a short id
+ * GET  /:id → the stored view
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { LayerRegistry } from '../lib/layers/registry';
+import type { ShareRequest } from '../../../shared/types/api';
+import { targetsResultSet } from '../../../shared/types/query';
+import {
+  mapViewSchema,
+  shareStyleSchema,
+  structuredQuerySchema,
+} from '../lib/orchestrator/validator';
+import { prepareQuery } from '../lib/utils/query-executor';
+import { getShareStore } from '../lib/share/store';
+import { log } from '../lib/logger';
+
+// Store layer registry (initialized on startup)
+let layerRegistry: LayerRegistry | null = null;
+
+export function setLayerRegistry(registry: LayerRegistry): void {
+  layerRegistry = registry;
+}
+
+const shareBodySchema = z.object({
+  query: structuredQuerySchema,
+  mapView: mapViewSchema.optional(),
+  style: shareStyleSchema.optional(),
+}) satisfies z.ZodType<ShareRequest>;
+
+const shareRoute = new Hono();
+
+shareRoute.post('/', async (c) => {
+  if (!layerRegistry) {
+    return c.json({ error: 'Layer registry not initialized' }, 503);
+  }
+
+  try {
+    const rawBody: unknown = await c.req.json();
+    const bodyValidation = shareBodySchema.safeParse(rawBody);
+    if (!bodyValidation.success) {
+      return c.json(
+        {
+          error: 'Invalid request body',
+          details: bodyValidation.error.issues.map((issue) => {
+            const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+            return `${path}${issue.message}`;
+          }),
+        },
+        400
+      );
+    }
+    const body = bodyValidation.data;
+
+    // Shares must run on their own: result set targets from a
+    // conversation are not available here
+    if (targetsResultSet(body.query)) {
+      return c.json(
+        {
+          error: 'Query builds on earlier chat results',
+          details: 'Queries that target $previous, $turn<N> or a saved name cannot be shared',
+        },
+        400
+      );
+    }
+
+    let prepared;
+    try {
+      prepared = prepareQuery(body.query, layerRegistry);
+    } catch (err) {
+      const prepErr = err as Error & { validationIssues?: string[] };
+      if (prepErr.validationIssues) {
+        return c.json(
+          {
+            error: 'Query validation failed against loaded data',
+            details: prepErr.validationIssues,
+          },
+          400
+        );
+      }
+      throw err;
+    }
+
+    const shared = await getShareStore().create({
+      query: prepared.executableQuery,
+      queryHash: prepared.queryHash,
+      registryGeneratedAt: layerRegistry.generatedAt,
+      mapView: body.mapView,
+      style: body.style,
+    });
+
+    log({
+      level: 'info',
+      event: 'share.create',
+      shareId: shared.id,
+      layer: shared.query.selectLayer,
+      queryHash: shared.queryHash,
+    });
+    return c.json(shared, 201);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return c.json({ error: 'Invalid request body', details: error.message }, 400);
+    }
+    log({
+      level: 'error',
+      event: 'share.error',
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return c.json({ error: 'Failed to create share' }, 500);
+  }
+});
+
+shareRoute.get('/:id', async (c) => {
+  const shared = await getShareStore().get(c.req.param('id'));
+  if (!shared) {
+    return c.json({ error: 'Share not found' }, 404);
+  }
+  return c.json(shared);
+});
+
+export default shareRoute;
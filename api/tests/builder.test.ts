@@ -155,6 +155,96 @@ describe('QueryBuilder', () => {
       expect(params).toContain('ARROYO');
     });
 
+    it('adds closest-target columns to within_distance results', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        spatialFilters: [
+          {
+            op: 'within_distance',
+            targetLayer: 'transit_access',
+            distance: 400,
+            includeNearestTarget: true,
+          },
+        ],
+        orderBy: { field: 'transit_access_distance_m', direction: 'asc' },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql, params } = builder.build();
+
+      expect(sql).toContain('"transit_access_distance_m"');
+      expect(sql).toMatch(/LEFT JOIN LATERAL \([\s\S]*ST_DWithin\(source\.geom_utm13, target\.geom_utm13, \$1\)[\s\S]*LIMIT 1\s*\) nearest_target_0 ON TRUE/);
+      expect(sql).toContain('ORDER BY "transit_access_distance_m" ASC');
+      expect(params).toEqual([400, 400]);
+    });
+
+    it('attaches containing-polygon fields with enrichment joins', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'short_term_rentals',
+        enrich: [
+          { layer: 'neighborhoods', fields: ['name'] },
+          {
+            layer: 'zoning_districts',
+            fields: ['zone_code'],
+            targetFilter: [{ field: 'zone_code', op: 'like', value: 'R%' }],
+          },
+        ],
+        orderBy: { field: 'neighborhoods_name', direction: 'asc' },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql, params } = builder.build();
+
+      expect(sql).toContain('enrich_0."neighborhoods_name"');
+      expect(sql).toContain('enrich_1."zoning_districts_zone_code"');
+      expect(sql).toContain('ST_Intersects(target.geom_4326, ST_PointOnSurface(source.geom_4326))');
+      expect(sql).toMatch(/\) enrich_1 ON TRUE/);
+      expect(sql).toContain('FROM (SELECT geom_4326, geom_utm13, "name" FROM "neighborhoods") target');
+      expect(sql).not.toContain('EXISTS');
+      expect(params).toEqual(['R%']);
+    });
+
+    it('builds negated topology ops as NOT EXISTS', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        spatialFilters: [{ op: 'not_intersects', targetLayer: 'flood_zones' }],
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql } = builder.build();
+
+      expect(sql).toContain('NOT EXISTS');
+      expect(sql).toContain('ST_Intersects(source.geom_4326, target.geom_4326)');
+    });
+
+    it('builds beyond_distance as NOT EXISTS over projected ST_DWithin', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'census_tracts',
+        spatialFilters: [{ op: 'beyond_distance', targetLayer: 'transit_access', distance: 800 }],
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql, params } = builder.build();
+
+      expect(sql).toContain('NOT EXISTS');
+      expect(sql).toContain('ST_DWithin(source.geom_utm13, target.geom_utm13, $1)');
+      expect(params).toEqual([800]);
+    });
+
+    it('does not cap the target of negated ops', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        spatialFilters: [{ op: 'beyond_distance', targetLayer: 'building_footprints', distance: 200 }],
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql } = builder.build();
+
+      expect(sql).toContain('NOT EXISTS');
+      expect(sql).toContain('FROM "building_footprints"');
+      expect(sql).not.toContain('LIMIT');
+    });
+
     it('builds query with multiple spatial filters', () => {
       const query: StructuredQuery = {
         selectLayer: 'parcels',
@@ -205,6 +295,188 @@ describe('QueryBuilder', () => {
     });
   });
 
+  describe('Spatial aggregate queries', () => {
+    it('groups source features by polygons of another layer', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'short_term_rentals',
+        aggregate: {
+          groupBy: [],
+          metrics: [{ field: '*', op: 'count', alias: 'str_count' }],
+          spatialGroupBy: { layer: 'neighborhoods', fields: ['name'] },
+        },
+        orderBy: { field: 'str_count', direction: 'desc' },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql } = builder.build();
+
+      expect(sql).toContain('FROM (SELECT rowid AS __group_id, "name", geom_4326 FROM "neighborhoods") grp');
+      expect(sql).toContain('FROM (SELECT *, rowid AS __source_id FROM "short_term_rentals" source) source');
+      expect(sql).toContain('ST_Intersects(grp.geom_4326, ST_PointOnSurface(source.geom_4326))');
+      expect(sql).toContain(
+        'QUALIFY ROW_NUMBER() OVER (PARTITION BY source.__source_id ORDER BY grp.__group_id) = 1'
+      );
+      expect(sql).toContain('ON source.__assigned_group_id = grp.__group_id');
+      expect(sql).toContain('COALESCE(COUNT(source.geom_4326), 0) AS "str_count"');
+      expect(sql).toContain('ST_AsGeoJSON(ANY_VALUE(grp.geom_4326)) AS geometry');
+      expect(sql).toContain('GROUP BY grp.__group_id');
+      expect(sql).toContain('ORDER BY "str_count" DESC');
+    });
+
+    it('applies source and group filters with shared parameters', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'affordable_housing_units',
+        attributeFilters: [{ field: 'affordable_units', op: 'gt', value: 0 }],
+        aggregate: {
+          groupBy: [],
+          metrics: [{ field: 'affordable_units', op: 'sum', alias: 'total_units' }],
+          spatialGroupBy: {
+            layer: 'census_tracts',
+            fields: ['geoid'],
+            targetFilter: [{ field: 'median_income', op: 'lt', value: 50000 }],
+          },
+        },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql, params } = builder.build();
+
+      expect(sql).toContain('FROM "census_tracts" WHERE "median_income" < $1');
+      expect(sql).toContain('WHERE "affordable_units" > $2');
+      expect(sql).toContain('COALESCE(SUM(source."affordable_units"), 0) AS "total_units"');
+      expect(params).toEqual([50000, 0]);
+    });
+  });
+
+  describe('Temporal queries', () => {
+    it('counts records per period and derives change columns', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'short_term_rentals',
+        temporal: {
+          baseline: { year: 2024 },
+          comparison: { year: 2025 },
+          metric: '*',
+          dateField: 'permit_issued_date',
+        },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql, params } = builder.build();
+
+      expect(sql).toContain(
+        'COALESCE(COUNT(*) FILTER (WHERE YEAR(TRY_CAST("permit_issued_date" AS DATE)) = $1), 0) AS baseline_value'
+      );
+      expect(sql).toContain('AS comparison_value');
+      expect(sql).toContain('comparison_value - baseline_value AS absolute_change');
+      expect(sql).toContain('CASE WHEN baseline_value = 0 THEN NULL');
+      expect(sql).not.toContain('GROUP BY');
+      expect(params).toEqual([2024, 2025]);
+    });
+
+    it('treats date periods as cumulative and groups by aggregate fields', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'eviction_filings',
+        aggregate: {
+          groupBy: ['eviction_type'],
+          metrics: [{ field: '*', op: 'count', alias: 'filings' }],
+        },
+        temporal: {
+          baseline: { date: '2023-12-31' },
+          comparison: { date: '2024-12-31' },
+          metric: '*',
+          dateField: 'filing_date',
+        },
+        orderBy: { field: 'absolute_change', direction: 'desc' },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql, params } = builder.build();
+
+      expect(sql).toContain('TRY_CAST("filing_date" AS DATE) <= CAST($1 AS DATE)');
+      expect(sql).toContain('GROUP BY "eviction_type"');
+      expect(sql).toContain('COUNT(*) AS "filings"');
+      expect(sql).toContain('ORDER BY "absolute_change" DESC');
+      expect(params).toEqual(['2023-12-31', '2024-12-31']);
+    });
+
+    it('computes per-polygon comparisons for spatial groups', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'short_term_rentals',
+        aggregate: {
+          groupBy: [],
+          metrics: [{ field: '*', op: 'count', alias: 'str_count' }],
+          spatialGroupBy: { layer: 'neighborhoods', fields: ['name'] },
+        },
+        temporal: {
+          baseline: { year: 2024 },
+          comparison: { year: 2025 },
+          metric: '*',
+          dateField: 'permit_issued_date',
+        },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql } = builder.build();
+
+      expect(sql).toContain('COUNT(source.geom_4326) FILTER (WHERE YEAR(TRY_CAST(source."permit_issued_date" AS DATE)) = $1)');
+      expect(sql).toContain('ST_AsGeoJSON(ANY_VALUE(grp.geom_4326)) AS geometry');
+      expect(sql).toContain(') temporal');
+    });
+  });
+
+  describe('Nested filter expressions', () => {
+    it('builds and/or/not trees mixing attribute and spatial predicates', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        where: {
+          and: [
+            {
+              or: [
+                { attribute: { field: 'assessed_value', op: 'gt', value: 1000000 } },
+                { attribute: { field: 'acres', op: 'gt', value: 5 } },
+              ],
+            },
+            { not: { spatial: { op: 'intersects', targetLayer: 'flood_zones' } } },
+          ],
+        },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql, params } = builder.build();
+
+      expect(sql).toContain('(("assessed_value" > $1 OR "acres" > $2) AND NOT (EXISTS');
+      expect(sql).toContain('ST_Intersects(source.geom_4326, target.geom_4326)');
+      expect(params).toEqual([1000000, 5]);
+    });
+
+    it('ANDs the tree with flat filters', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        attributeFilters: [{ field: 'address', op: 'like', value: '%Canyon%' }],
+        where: { not: { attribute: { field: 'assessed_value', op: 'lt', value: 100000 } } },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql } = builder.build();
+
+      expect(sql).toContain('WHERE "address" ILIKE $1 AND NOT ("assessed_value" < $2)');
+    });
+
+    it('applies the tree alongside nearest filters', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        spatialFilters: [{ op: 'nearest', targetLayer: 'parks', limit: 5 }],
+        where: { or: [{ attribute: { field: 'acres', op: 'gt', value: 1 } }] },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql } = builder.build();
+
+      expect(sql).toContain('WHERE ("acres" > $1)');
+      expect(sql).toContain('ORDER BY distance ASC');
+    });
+  });
+
   describe('Combined queries', () => {
     it('builds query with both attribute and spatial filters', () => {
       const query: StructuredQuery = {
@@ -244,6 +516,87 @@ describe('QueryBuilder', () => {
     });
   });
 
+  describe('Geometry operations', () => {
+    it('buffers in projected meters and transforms output back to WGS84', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'transit_access',
+        geometryOperation: { op: 'buffer', distance: 400 },
+        limit: 100,
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql, params } = builder.build();
+
+      expect(sql).toContain('ST_Buffer(geom_utm13, $1)');
+      expect(sql).toContain("ST_Transform(result_geom, 'EPSG:32613', 'EPSG:4326', true)");
+      expect(sql).toContain('ST_Area(result_geom) AS area_m2');
+      expect(sql).toContain('LIMIT 100');
+      expect(params).toEqual([400]);
+    });
+
+    it('unions buffers when dissolve is requested', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'transit_access',
+        geometryOperation: { op: 'buffer', distance: 400, dissolve: true },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql } = builder.build();
+
+      expect(sql).toContain('ST_Union_Agg(ST_Buffer(geom_utm13, $1))');
+      expect(sql).toContain('COUNT(*) AS feature_count');
+    });
+
+    it('dissolves by a field and applies the limit to output groups', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'zoning_districts',
+        attributeFilters: [{ field: 'zone_code', op: 'like', value: 'R%' }],
+        geometryOperation: { op: 'dissolve', groupBy: 'zone_code' },
+        limit: 25,
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql } = builder.build();
+
+      expect(sql).toContain('ST_Union_Agg(geom_utm13)');
+      expect(sql).toContain('GROUP BY "zone_code"');
+      expect(sql).toContain('"zone_code" ILIKE $1');
+      expect(sql.trim().endsWith('LIMIT 25')).toBe(true);
+    });
+
+    it('clips to the filtered clip layer', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'neighborhoods',
+        geometryOperation: {
+          op: 'clip',
+          clipLayer: 'flood_zones',
+          clipFilter: [{ field: 'flood_risk_level', op: 'eq', value: 'high' }],
+        },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql, params } = builder.build();
+
+      expect(sql).toContain('ST_Intersection(selected.geom_utm13, clip.geom)');
+      expect(sql).toContain('FROM "flood_zones" WHERE "flood_risk_level" = $1) clip_rows');
+      expect(sql).not.toContain('LIMIT');
+      expect(params).toEqual(['high']);
+    });
+
+    it('reports length for dissolved line layers', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'hydrology',
+        geometryOperation: { op: 'dissolve' },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql } = builder.build();
+
+      expect(sql).toContain('ST_Length(result_geom) AS length_m');
+      expect(sql).not.toContain('GROUP BY');
+    });
+  });
+
   describe('Error handling', () => {
     it('throws error for unknown layer', () => {
       const query: StructuredQuery = {
@@ -253,6 +606,16 @@ describe('QueryBuilder', () => {
       expect(() => new QueryBuilder(query)).toThrow('Unknown layer');
     });
 
+    it('throws error for beyond_distance without distance', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        spatialFilters: [{ op: 'beyond_distance', targetLayer: 'hydrology' }],
+      };
+
+      const builder = new QueryBuilder(query);
+      expect(() => builder.build()).toThrow('beyond_distance requires distance');
+    });
+
     it('throws error for within_distance without distance', () => {
       const query: StructuredQuery = {
         selectLayer: 'parcels',
@@ -264,6 +627,260 @@ describe('QueryBuilder', () => {
     });
   });
 
+  describe('Measure fields', () => {
+    it('computes polygon measures from projected geometry in filters and ordering', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'neighborhoods',
+        selectFields: ['name', 'area_acres'],
+        attributeFilters: [{ field: 'area_m2', op: 'gt', value: 100000 }],
+        orderBy: { field: 'perimeter_m', direction: 'desc' },
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql, params } = builder.build();
+
+      expect(sql).toContain('(ST_Area(geom_utm13) / 4046.8564224) AS "area_acres"');
+      expect(sql).toContain('ST_Area(geom_utm13) > $1');
+      expect(sql).toContain('ORDER BY ST_Perimeter(geom_utm13) DESC');
+      expect(params).toEqual([100000]);
+    });
+
+    it('aggregates line length and keeps stored fields of the same name', () => {
+      const lengthQuery: StructuredQuery = {
+        selectLayer: 'hydrology',
+        aggregate: {
+          groupBy: ['type'],
+          metrics: [{ field: 'length_m', op: 'sum', alias: 'total_length_m' }],
+        },
+      };
+      expect(new QueryBuilder(lengthQuery).build().sql).toContain(
+        'SUM(ST_Length(geom_utm13)) AS "total_length_m"'
+      );
+
+      const storedQuery: StructuredQuery = {
+        selectLayer: 'city_limits',
+        attributeFilters: [{ field: 'area_acres', op: 'gt', value: 1 }],
+      };
+      expect(new QueryBuilder(storedQuery).build().sql).toContain('"area_acres" > $1');
+    });
+
+    it('resolves target filter measures against the target layer', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        spatialFilters: [
+          {
+            op: 'intersects',
+            targetLayer: 'parks',
+            targetFilter: [{ field: 'area_m2', op: 'gte', value: 5000 }],
+          },
+        ],
+      };
+
+      const { sql } = new QueryBuilder(query).build();
+      expect(sql).toContain('FROM "parks" WHERE ST_Area(geom_utm13) >= $1');
+    });
+  });
+
+  describe('Overlap share', () => {
+    it('measures unioned target coverage and filters on the percent', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'census_tracts',
+        overlap: {
+          targetLayer: 'flood_zones',
+          targetFilter: [{ field: 'flood_risk_level', op: 'eq', value: 'high' }],
+        },
+        attributeFilters: [{ field: 'overlap_pct', op: 'gt', value: 20 }],
+        orderBy: { field: 'overlap_pct', direction: 'desc' },
+      };
+
+      const { sql, params } = new QueryBuilder(query).build();
+
+      expect(sql).toContain('ST_Intersection(source.geom_utm13, ST_Union_Agg(target.geom_utm13))');
+      expect(sql).toMatch(/\) overlap ON TRUE/);
+      expect(sql).toContain('AS "overlap_area_m2"');
+      expect(sql).toContain(
+        'ROUND(COALESCE(overlap.overlap_area_m2, 0) * 100.0 / NULLIF(ST_Area(source.geom_utm13), 0), 1) > $'
+      );
+      expect(sql).toMatch(/ORDER BY ROUND\(COALESCE\(overlap\.overlap_area_m2, 0\) \* 100\.0/);
+      expect(params).toEqual(expect.arrayContaining(['high', 20]));
+    });
+
+    it('does not cap the overlap target', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'census_tracts',
+        overlap: { targetLayer: 'flood_zones' },
+      };
+
+      const { sql } = new QueryBuilder(query).build();
+
+      expect(sql).toContain('FROM (SELECT geom_4326, geom_utm13 FROM "flood_zones") target');
+      expect(sql).not.toContain('LIMIT');
+    });
+  });
+
+  describe('Density analysis', () => {
+    it('counts points in projected grid cells, densest first', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'short_term_rentals',
+        density: { method: 'grid', cellSize: 250 },
+        limit: 100,
+      };
+
+      const { sql, params } = new QueryBuilder(query).build();
+
+      expect(sql).toContain('ST_PointOnSurface(source.geom_utm13) AS pt');
+      expect(sql).toContain('CAST(FLOOR(ST_X(pt) / $1) AS BIGINT) AS cell_x');
+      expect(sql).toContain('COUNT(*) AS point_count FROM points GROUP BY cell_x, cell_y');
+      expect(sql).toContain("ST_Transform(ST_MakeEnvelope(cell_x * $1, cell_y * $1, (cell_x + 1) * $1, (cell_y + 1) * $1), 'EPSG:32613', 'EPSG:4326', true)");
+      expect(sql).toMatch(/ORDER BY "point_count" DESC\nLIMIT 100$/);
+      expect(params).toEqual([250]);
+    });
+
+    it('scores zone counts with Gi* over contiguous neighbors', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'eviction_filings',
+        attributeFilters: [{ field: 'eviction_type', op: 'eq', value: 'non_payment' }],
+        density: { method: 'hotspot', zoneFields: ['geoid'] },
+      };
+
+      const { sql, params } = new QueryBuilder(query).build();
+
+      expect(sql).toContain('WITH zones AS (SELECT rowid AS __zone_id, "geoid", geom_4326 FROM "census_tracts")');
+      expect(sql).toContain('LEFT JOIN (SELECT * FROM "eviction_filings" source WHERE "eviction_type" = $1) source');
+      expect(sql).toContain('JOIN zones b ON ST_Intersects(a.geom_4326, b.geom_4326)');
+      expect(sql).toContain('STDDEV_POP(point_count) AS sd');
+      expect(sql).toContain("WHEN gi >= 1.96 THEN 'hot_95'");
+      expect(sql).toContain("WHEN gi <= -1.645 THEN 'cold_90'");
+      expect(sql).toMatch(/ORDER BY "gi_zscore" DESC$/);
+      expect(params).toEqual(['non_payment']);
+    });
+  });
+
+  describe('Inline geometry filters', () => {
+    const drawnPolygon = {
+      type: 'Polygon' as const,
+      coordinates: [[
+        [-105.95, 35.68],
+        [-105.93, 35.68],
+        [-105.93, 35.7],
+        [-105.95, 35.68],
+      ]] as [number, number][][],
+    };
+
+    it('binds a drawn polygon as a single-row target', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        spatialFilters: [
+          { op: 'intersects', targetLayer: '$geometry', targetGeometry: drawnPolygon },
+        ],
+      };
+
+      const { sql, params } = new QueryBuilder(query).build();
+
+      expect(sql).toContain('FROM (SELECT ST_GeomFromGeoJSON($1) AS geom)');
+      expect(sql).toContain("ST_Transform(geom, 'EPSG:4326', 'EPSG:32613', true) AS geom_utm13");
+      expect(sql).toContain('ST_Intersects(source.geom_4326, target.geom_4326)');
+      expect(params).toEqual([JSON.stringify(drawnPolygon)]);
+    });
+
+    it('measures distance to a drawn point in meters', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'short_term_rentals',
+        where: {
+          spatial: {
+            op: 'within_distance',
+            targetLayer: '$geometry',
+            targetGeometry: { type: 'Point', coordinates: [-105.94, 35.687] },
+            distance: 400,
+          },
+        },
+      };
+
+      const { sql, params } = new QueryBuilder(query).build();
+
+      expect(sql).toContain('ST_DWithin(source.geom_utm13, target.geom_utm13, $2)');
+      expect(params).toEqual(['{"type":"Point","coordinates":[-105.94,35.687]}', 400]);
+    });
+
+    it('limits features to a bounding box', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parks',
+        attributeFilters: [{ field: 'acres', op: 'gt', value: 5 }],
+        bbox: [-105.97, 35.66, -105.92, 35.7],
+      };
+
+      const { sql, params } = new QueryBuilder(query).build();
+
+      expect(sql).toContain(
+        'WHERE "acres" > $1 AND ST_Intersects(source.geom_4326, ST_MakeEnvelope($2, $3, $4, $5))'
+      );
+      expect(params).toEqual([5, -105.97, 35.66, -105.92, 35.7]);
+    });
+
+    it('rejects an inline target without geometry', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        spatialFilters: [{ op: 'intersects', targetLayer: '$geometry' }],
+      };
+
+      expect(() => new QueryBuilder(query).build()).toThrow(
+        '$geometry spatial filters require targetGeometry'
+      );
+    });
+  });
+
+  describe('Result set targets', () => {
+    const parksNearWater: StructuredQuery = {
+      selectLayer: 'parks',
+      attributeFilters: [{ field: 'acres', op: 'gt', value: 5 }],
+      limit: 100,
+    };
+
+    it('inlines the saved query as the target rows', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'building_footprints',
+        spatialFilters: [{ op: 'within_distance', targetLayer: '$previous', distance: 100 }],
+      };
+
+      const { sql, params } = new QueryBuilder(query, {
+        resultSets: { $previous: parksNearWater },
+      }).build();
+
+      expect(sql).toContain('SELECT ST_GeomFromGeoJSON(result_set.geometry) AS geom FROM (');
+      expect(sql).toContain('FROM "parks" source');
+      expect(sql).toContain('WHERE "acres" > $1');
+      expect(sql).toContain('ST_DWithin(source.geom_utm13, target.geom_utm13, $2)');
+      expect(params).toEqual([5, 100]);
+    });
+
+    it('resolves chained sets with one shared parameter list', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        attributeFilters: [{ field: 'zoning', op: 'eq', value: 'R-1' }],
+        spatialFilters: [{ op: 'intersects', targetLayer: '$turn2' }],
+      };
+      const turn2: StructuredQuery = {
+        selectLayer: 'building_footprints',
+        spatialFilters: [{ op: 'within_distance', targetLayer: '$turn1', distance: 50 }],
+      };
+
+      const { params } = new QueryBuilder(query, {
+        resultSets: { $turn1: parksNearWater, $turn2: turn2 },
+      }).build();
+
+      expect(params).toEqual(['R-1', 5, 50]);
+    });
+
+    it('rejects an unknown result set', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        spatialFilters: [{ op: 'intersects', targetLayer: '$previous' }],
+      };
+
+      expect(() => new QueryBuilder(query).build()).toThrow('Unknown result set: $previous');
+    });
+  });
+
   describe('Nearest neighbor queries', () => {
     it('builds proper k-NN query with ORDER BY distance LIMIT', () => {
       const query: StructuredQuery = {
@@ -319,6 +936,29 @@ describe('QueryBuilder', () => {
       expect(sql).toContain('LIMIT');
     });
 
+    it('adds closest-target distance and fields when requested', () => {
+      const query: StructuredQuery = {
+        selectLayer: 'parcels',
+        spatialFilters: [
+          {
+            op: 'nearest',
+            targetLayer: 'transit_access',
+            limit: 5,
+            targetFields: ['stop_id', 'stop_type'],
+          },
+        ],
+      };
+
+      const builder = new QueryBuilder(query);
+      const { sql } = builder.build();
+
+      expect(sql).toContain('LEFT JOIN LATERAL');
+      expect(sql).toContain('SELECT geom_4326, geom_utm13, "stop_id", "stop_type" FROM "transit_access"');
+      expect(sql).toContain('ROUND(nearest_target_0."transit_access_distance_m", 1) AS "transit_access_distance_m"');
+      expect(sql).toContain('nearest_target_0."transit_access_stop_id"');
+      expect(sql).toContain('ORDER BY distance ASC');
+    });
+
     it('throws error for nearest without limit', () => {
       const query: StructuredQuery = {
         selectLayer: 'parcels',
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  clarifyFailedQuery,
+  clarifyPlace,
+  clarifyUnparsedQuery,
+  resolveClarification,
+} from '../src/lib/orchestrator/clarification';
+import { assessGroundingRequest } from '../src/lib/orchestrator/intent-router';
+import { Gazetteer } from '../src/lib/geocoding/gazetteer';
+import type { LayerRegistry } from '../src/lib/layers/registry';
+
+const gazetteer = new Gazetteer([
+  { name: '101 CANYON RD', layer: 'parcels', field: 'address', kind: 'address' },
+  { name: '140 CANYON RD', layer: 'parcels', field: 'address', kind: 'address' },
+  { name: '98 CANYON RD', layer: 'parcels', field: 'address', kind: 'address' },
+  { name: '100 CERRILLOS RD', layer: 'parcels', field: 'address', kind: 'address' },
+  { name: 'Downtown Plaza', layer: 'neighborhoods', field: 'name', kind: 'place' },
+  { name: 'Downtown and Eastside Historic District', layer: 'historic_districts', field: 'district_name', kind: 'place' },
+  { name: 'Downtown Skate Park', layer: 'parks', field: 'name', kind: 'place' },
+]);
+
+function clarify(message: string, availableLayers: string[], lang: 'en' | 'es' = 'en') {
+  const places = gazetteer.findInText(message);
+  return clarifyPlace(message, places, assessGroundingRequest(message, availableLayers, places), {
+    availableLayers,
+    gazetteer,
+    lang,
+  });
+}
+
+describe('clarifyPlace', () => {
+  it('offers loaded neighborhoods and districts for an area term', () => {
+    const request = clarify('Parcels near downtown', ['parcels', 'neighborhoods', 'historic_districts']);
+
+    expect(request?.clarification).toEqual({
+      reason: 'ambiguous_place',
+      question: 'Which area do you mean by "downtown"?',
+      choices: [
+        { label: 'Downtown Plaza', kind: 'place', layer: 'neighborhoods' },
+        { label: 'Downtown and Eastside Historic District', kind: 'place', layer: 'historic_districts' },
+      ],
+    });
+    expect(request?.pending.choices[0]?.message).toBe('Parcels near Downtown Plaza');
+  });
+
+  it('leaves an area term to the parser when nothing loaded matches it', () => {
+    expect(clarify('Parcels near midtown', ['parcels', 'neighborhoods'])).toBeNull();
+    expect(clarify('Show parks', ['parks'])).toBeNull();
+  });
+
+  it('still asks, without choices, when no boundary layer is loaded', () => {
+    const request = clarify('Parcels near downtown', ['parcels'], 'es');
+
+    expect(request?.clarification.choices).toEqual([]);
+    expect(request?.clarification.question).toContain('"downtown"');
+    expect(request?.clarification.question).toContain('barrio');
+  });
+
+  it('offers addresses on the same street, closest number first', () => {
+    const request = clarify('Parcels within 200 m of 99 Canyon Rd', ['parcels']);
+
+    expect(request?.clarification.reason).toBe('unknown_address');
+    expect(request?.clarification.choices.map((choice) => choice.label)).toEqual([
+      '98 CANYON RD',
+      '101 CANYON RD',
+      '140 CANYON RD',
+    ]);
+    expect(request?.pending.choices[1]?.message).toBe('Parcels within 200 m of 101 CANYON RD');
+  });
+});
+
+describe('clarifyUnparsedQuery', () => {
+  it('offers the loaded layers the message names, else every loaded layer', () => {
+    expect(clarifyUnparsedQuery('which parks and parcels are nicest', ['parcels', 'parks', 'zoning_districts'], 'en')
+      ?.clarification.choices).toEqual([
+      { label: 'parks', kind: 'layer', layer: 'parks' },
+      { label: 'parcels', kind: 'layer', layer: 'parcels' },
+    ]);
+
+    const request = clarifyUnparsedQuery('what is nicest', ['parks', 'parcels'], 'es');
+    expect(request?.clarification.choices.map((choice) => choice.label)).toEqual(['parcelas', 'parques']);
+    expect(request?.pending.choices[0]?.message).toBe('what is nicest (parcelas)');
+    expect(clarifyUnparsedQuery('what is nicest', [], 'en')).toBeNull();
+  });
+});
+
+describe('clarifyFailedQuery', () => {
+  const registry = {
+    loadedLayerNames: ['parcels', 'parks'],
+    layers: {
+      parcels: { queryableFields: ['parcel_id', 'address', 'assessed_value'] },
+      parks: { queryableFields: ['name', 'acres'] },
+    },
+  } as unknown as LayerRegistry;
+  const options = { reason: 'unmatched_query' as const, picked: null, issues: [], registry, lang: 'en' as const };
+
+  it('offers the fields of the query layer, without ids', () => {
+    const request = clarifyFailedQuery('Most valuable parcel', { ...options, layer: 'parcels' });
+
+    expect(request?.clarification.reason).toBe('unmatched_query');
+    expect(request?.clarification.choices).toEqual([
+      { label: 'address', kind: 'field', layer: 'parcels' },
+      { label: 'assessed value', kind: 'field', layer: 'parcels' },
+    ]);
+    expect(request?.pending.choices[1]?.message).toBe('Most valuable parcel (assessed_value)');
+  });
+
+  it('offers the loaded layers when the query layer is not loaded', () => {
+    const request = clarifyFailedQuery('Most valuable thing', { ...options, layer: 'zoning_districts' });
+
+    expect(request?.clarification.choices.map((choice) => choice.kind)).toEqual(['layer', 'layer']);
+  });
+
+  it('asks for a distance the model left out', () => {
+    const request = clarifyFailedQuery('Parcels close by parks', {
+      ...options,
+      reason: 'unparsed_query',
+      issues: ['spatialFilters.0.distance: within_distance spatial filters require distance'],
+      lang: 'es',
+    });
+
+    expect(request?.clarification.reason).toBe('missing_distance');
+    expect(request?.clarification.choices.map((choice) => choice.label)).toEqual(['100 m', '250 m', '500 m', '1 km']);
+    expect(request?.clarification.choices[0]).not.toHaveProperty('layer');
+    expect(request?.pending.choices[3]?.message).toBe('Parcels close by parks (distancia: 1 km)');
+  });
+
+  it('stops asking once a field or distance was picked', () => {
+    const picked = { label: 'address', kind: 'field' as const, layer: 'parcels' };
+
+    expect(clarifyFailedQuery('Most valuable parcel (address)', { ...options, layer: 'parcels', picked })).toBeNull();
+  });
+});
+
+describe('resolveClarification', () => {
+  const pending = clarify('Parcels near downtown', ['parcels', 'neighborhoods', 'historic_districts'])!.pending;
+
+  it('picks a choice by label or number', () => {
+    expect(resolveClarification(pending, 'downtown plaza')?.message).toBe('Parcels near Downtown Plaza');
+    expect(resolveClarification(pending, ' 2 ')).toMatchObject({
+      kind: 'place',
+      message: 'Parcels near Downtown and Eastside Historic District',
+    });
+  });
+
+  it('treats any other reply as a new request', () => {
+    expect(resolveClarification(pending, 'show parks instead')).toBeNull();
+    expect(resolveClarification(pending, '3')).toBeNull();
+  });
+});
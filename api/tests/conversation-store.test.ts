@@ -1,19 +1,27 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { Hono } from 'hono';
 import { Database, DuckDbError } from 'duckdb';
 import chatRoute, {
   setDatabase,
+  setGazetteer,
   setLayerRegistry,
   setLLMClientForTests,
 } from '../src/routes/chat';
+import { Gazetteer } from '../src/lib/geocoding/gazetteer';
 import type { LayerRegistry } from '../src/lib/layers/registry';
 import type { LLMClient } from '../src/lib/llm/types';
 import {
+  FileConversationStore,
+  MemoryConversationStore,
   __clearConversationSessionsForTests,
-  createSession,
-  getSession,
-  pruneOldSessions,
+  getConversationStore,
+  getSessionResultSets,
+  setConversationStore,
 } from '../src/lib/conversation/store';
+import { replayConversation } from '../src/lib/conversation/replay';
 import { clearAllCaches } from '../src/lib/cache';
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -67,7 +75,7 @@ async function makeDatabase(): Promise<Database> {
   return db;
 }
 
-async function makeChatApp(): Promise<{ app: Hono; db: Database }> {
+async function makeChatApp(): Promise<{ app: Hono; db: Database; client: LLMClient }> {
   const db = await makeDatabase();
   const client: LLMClient = {
     providerName: 'test-provider',
@@ -82,7 +90,7 @@ async function makeChatApp(): Promise<{ app: Hono; db: Database }> {
   setLLMClientForTests(client);
   const app = new Hono();
   app.route('/api/chat', chatRoute);
-  return { app, db };
+  return { app, db, client };
 }
 
 describe('conversation store', () => {
@@ -95,25 +103,73 @@ describe('conversation store', () => {
     __clearConversationSessionsForTests();
   });
 
-  it('creates sessions with UUID identifiers', () => {
-    const id = createSession();
-    expect(id).not.toBeNull();
+  it('creates sessions with UUID identifiers', async () => {
+    const id = await getConversationStore().create();
     expect(id).toMatch(UUID_RE);
   });
 
-  it('retrieves stored context on a second turn', () => {
-    const id = createSession();
-    expect(id).not.toBeNull();
-    const session = getSession(id!);
-    expect(session).not.toBeNull();
-    session!.previousQuery = { selectLayer: 'parcels', limit: 1 };
-    session!.previousExplanation = 'Found one parcel.';
-    session!.turnCount = 1;
+  it('retrieves stored context and turn history on a second turn', async () => {
+    const store = getConversationStore();
+    const id = await store.create();
+    await store.recordTurn(id, {
+      message: 'show one parcel',
+      query: { selectLayer: 'parcels', limit: 1 },
+      queryHash: 'hash-1',
+      explanation: 'Found one parcel.',
+      featureCount: 1,
+    });
 
-    const secondTurn = getSession(id!);
+    const secondTurn = await store.get(id);
     expect(secondTurn?.previousQuery?.selectLayer).toBe('parcels');
     expect(secondTurn?.previousExplanation).toBe('Found one parcel.');
     expect(secondTurn?.turnCount).toBe(1);
+    expect(secondTurn?.turns).toEqual([
+      {
+        turn: 1,
+        message: 'show one parcel',
+        query: { selectLayer: 'parcels', limit: 1 },
+        queryHash: 'hash-1',
+        explanation: 'Found one parcel.',
+        featureCount: 1,
+        createdAt: expect.any(Date),
+      },
+    ]);
+  });
+
+  it('keeps each turn as a result set with $previous pinned to its turn', async () => {
+    const store = getConversationStore();
+    const id = await store.create();
+    await store.recordTurn(id, {
+      message: 'big lots',
+      query: { selectLayer: 'parcels', saveAs: 'big_lots' },
+      queryHash: 'hash-big',
+      explanation: 'Found parcels.',
+      featureCount: 4,
+    });
+    await store.recordTurn(id, {
+      message: 'parcels near those',
+      query: {
+        selectLayer: 'parcels',
+        spatialFilters: [{ op: 'within_distance', targetLayer: '$previous', distance: 50 }],
+      },
+      queryHash: 'hash-near',
+      explanation: 'Found nearby parcels.',
+      featureCount: 9,
+    });
+
+    const session = (await store.get(id))!;
+    expect(session.resultSets.map((saved) => [saved.turn, saved.name, saved.featureCount])).toEqual([
+      [1, 'big_lots', 4],
+      [2, undefined, 9],
+    ]);
+    expect(session.resultSets[1]!.query.spatialFilters?.[0]?.targetLayer).toBe('$turn1');
+    expect(session.resultSets[1]!.dependencies).toEqual({
+      $turn1: { selectLayer: 'parcels', saveAs: 'big_lots' },
+    });
+
+    const resultSets = getSessionResultSets(session);
+    expect(Object.keys(resultSets).sort()).toEqual(['$big_lots', '$previous', '$turn1', '$turn2']);
+    expect(resultSets.$previous).toBe(session.resultSets[1]!.query);
   });
 
   it('creates a new session for an unknown conversationId', async () => {
@@ -135,40 +191,261 @@ describe('conversation store', () => {
     db.close();
   });
 
-  it('prunes sessions older than 2 hours', () => {
-    const id = createSession();
-    expect(id).not.toBeNull();
-    const session = getSession(id!);
-    session!.lastAccessedAt = new Date(Date.now() - (2 * 60 * 60 * 1000) - 1);
+  it('asks about an unknown address and runs the request with the chosen one', async () => {
+    setGazetteer(new Gazetteer([
+      { name: '101 CANYON RD', layer: 'parcels', field: 'address', kind: 'address' },
+      { name: '140 CANYON RD', layer: 'parcels', field: 'address', kind: 'address' },
+    ]));
+    const { app, db, client } = await makeChatApp();
+    const send = async (message: string, conversationId?: string) => {
+      const response = await app.request('/api/chat', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ message, conversationId }),
+      });
+      expect(response.status).toBe(200);
+      return (await response.json()) as {
+        conversationId: string;
+        conversationTurn: number;
+        clarification?: { reason: string; choices: { label: string }[] };
+      };
+    };
+
+    const question = await send('Parcels within 100 m of 99 Canyon Rd');
+    expect(question.clarification?.reason).toBe('unknown_address');
+    expect(question.clarification?.choices.map((choice) => choice.label))
+      .toEqual(['101 CANYON RD', '140 CANYON RD']);
+    expect(question.conversationTurn).toBe(0);
+    expect(client.complete).not.toHaveBeenCalled();
 
-    const pruned = pruneOldSessions();
+    const answer = await send('101 canyon rd', question.conversationId);
+    expect(answer.clarification).toBeUndefined();
+    expect(answer.conversationTurn).toBe(1);
+    expect(vi.mocked(client.complete).mock.calls[0]?.[0]).toContain('Parcels within 100 m of 101 CANYON RD');
+
+    const session = await getConversationStore().get(question.conversationId);
+    expect(session?.pendingClarification).toBeNull();
+    expect(session?.turns[0]?.message).toBe('Parcels within 100 m of 101 CANYON RD');
+    setGazetteer(new Gazetteer());
+    db.close();
+  });
+
+  it('prunes in-memory sessions older than 2 hours', async () => {
+    const store = getConversationStore();
+    const id = await store.create();
+
+    const pruned = await store.prune(new Date(Date.now() + (2 * 60 * 60 * 1000) + 1));
 
     expect(pruned).toBe(1);
-    expect(getSession(id!)).toBeNull();
+    expect(await store.get(id)).toBeNull();
+  });
+
+  it('evicts the least recently used session when full', async () => {
+    const store = new MemoryConversationStore(3);
+    const first = await store.create();
+    const second = await store.create();
+    await store.create();
+    await store.get(first);
+
+    await store.create();
+
+    expect(await store.get(first)).not.toBeNull();
+    expect(await store.get(second)).toBeNull();
   });
 
-  it('rejects the 1001st session and lets chat continue statelessly', async () => {
-    for (let i = 0; i < 1000; i++) {
-      expect(createSession()).not.toBeNull();
+  it('keeps every turn in the history', async () => {
+    const store = new MemoryConversationStore();
+    const id = await store.create();
+    for (let i = 1; i <= 51; i++) {
+      await store.recordTurn(id, {
+        message: `turn ${i}`,
+        query: { selectLayer: 'parcels' },
+        queryHash: `hash-${i}`,
+        explanation: 'Found parcels.',
+        featureCount: i,
+      });
     }
-    expect(createSession()).toBeNull();
 
+    const session = await store.get(id);
+    expect(session?.turnCount).toBe(51);
+    expect(session?.turns).toHaveLength(51);
+    expect(session?.turns[0]?.turn).toBe(1);
+  });
+
+  it('keeps chat stateful when the store is full', async () => {
+    setConversationStore(new MemoryConversationStore(1));
     const { app, db } = await makeChatApp();
-    const response = await app.request('/api/chat', {
-      method: 'POST',
-      headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ message: 'show parcels' }),
-    });
-    const body = (await response.json()) as {
-      conversationId?: string;
-      conversationTurn: number;
-      result: { features: unknown[] };
+    const send = async () => {
+      const response = await app.request('/api/chat', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ message: 'show parcels' }),
+      });
+      return (await response.json()) as { conversationId?: string; conversationTurn: number };
     };
 
-    expect(response.status).toBe(200);
-    expect(body.conversationId).toBeUndefined();
-    expect(body.conversationTurn).toBe(0);
-    expect(body.result.features).toHaveLength(1);
+    const first = await send();
+    const second = await send();
+
+    expect(second.conversationId).toMatch(UUID_RE);
+    expect(second.conversationId).not.toBe(first.conversationId);
+    expect(second.conversationTurn).toBe(1);
+    expect(await getConversationStore().get(first.conversationId!)).toBeNull();
     db.close();
   });
 });
+
+describe('file conversation store', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'parcela-conversations-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reloads sessions and turn history from disk', async () => {
+    const store = new FileConversationStore(dir);
+    const id = await store.create();
+    await store.recordTurn(id, {
+      message: 'show parcels',
+      query: { selectLayer: 'parcels', limit: 1 },
+      queryHash: 'hash-1',
+      explanation: 'Found one parcel.',
+      featureCount: 1,
+    });
+
+    const reopened = new FileConversationStore(dir);
+    const session = await reopened.get(id);
+
+    expect(session?.turnCount).toBe(1);
+    expect(session?.turns[0]?.message).toBe('show parcels');
+    expect(session?.turns[0]?.createdAt).toBeInstanceOf(Date);
+    expect(session?.resultSets[0]?.layer).toBe('parcels');
+    expect(session?.lastAccessedAt).toBeInstanceOf(Date);
+  });
+
+  it('keeps a pending clarification until the next turn is recorded', async () => {
+    const store = new FileConversationStore(dir);
+    const id = await store.create();
+    await store.setPendingClarification(id, {
+      message: 'parcels near downtown',
+      reason: 'ambiguous_place',
+      choices: [{
+        label: 'Downtown Plaza',
+        kind: 'place',
+        layer: 'neighborhoods',
+        message: 'parcels near Downtown Plaza',
+      }],
+    });
+
+    const reopened = new FileConversationStore(dir);
+    expect((await reopened.get(id))?.pendingClarification?.choices[0]?.message)
+      .toBe('parcels near Downtown Plaza');
+
+    await reopened.recordTurn(id, {
+      message: 'parcels near Downtown Plaza',
+      query: { selectLayer: 'parcels' },
+      queryHash: 'hash-1',
+      explanation: 'Found one parcel.',
+      featureCount: 1,
+    });
+    expect((await reopened.get(id))?.pendingClarification).toBeNull();
+  });
+
+  it('records concurrent turns on one session without losing any', async () => {
+    const store = new FileConversationStore(dir);
+    const id = await store.create();
+    await Promise.all([1, 2, 3].map((i) => store.recordTurn(id, {
+      message: `turn ${i}`,
+      query: { selectLayer: 'parcels' },
+      queryHash: `hash-${i}`,
+      explanation: 'Found parcels.',
+      featureCount: i,
+    })));
+
+    const session = await new FileConversationStore(dir).get(id);
+    expect(session?.turnCount).toBe(3);
+    expect(session?.turns.map((turn) => turn.turn)).toEqual([1, 2, 3]);
+    expect(session?.resultSets).toHaveLength(3);
+  });
+
+  it('does not rewrite the session file on reads', async () => {
+    const store = new FileConversationStore(dir);
+    const id = await store.create();
+    const before = await readFile(join(dir, `${id}.json`), 'utf8');
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(await store.get(id)).not.toBeNull();
+
+    expect(await readFile(join(dir, `${id}.json`), 'utf8')).toBe(before);
+  });
+
+  it('rejects operations when the directory cannot be created', async () => {
+    const blocker = join(dir, 'not-a-directory');
+    await writeFile(blocker, '');
+    const store = new FileConversationStore(join(blocker, 'sessions'));
+
+    await expect(store.create()).rejects.toThrow();
+    await expect(store.get('11111111-1111-4111-8111-111111111111')).rejects.toThrow();
+  });
+
+  it('evicts session files only when full', async () => {
+    const store = new FileConversationStore(dir, 2);
+    const first = await store.create();
+    const second = await store.create();
+    await store.create();
+
+    expect(await store.get(first)).toBeNull();
+    expect(await readdir(dir)).toHaveLength(2);
+
+    expect(await store.prune(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000))).toBe(0);
+    expect(await store.get(second)).not.toBeNull();
+  });
+
+  it('prunes session files past the configured retention', async () => {
+    const store = new FileConversationStore(dir, 10, 24 * 60 * 60 * 1000);
+    const id = await store.create();
+
+    expect(await store.prune(new Date(Date.now() + 3 * 60 * 60 * 1000))).toBe(0);
+    expect(await store.prune(new Date(Date.now() + 24 * 60 * 60 * 1000 + 1))).toBe(1);
+    expect(await store.get(id)).toBeNull();
+    expect(await readdir(dir)).toHaveLength(0);
+  });
+
+  it('reads and replays a session idle for longer than the in-memory TTL', async () => {
+    const store = new FileConversationStore(dir);
+    const id = await store.create();
+    await store.recordTurn(id, {
+      message: 'show parcels',
+      query: { selectLayer: 'parcels', limit: 1 },
+      queryHash: 'hash-1',
+      explanation: 'Found one parcel.',
+      featureCount: 1,
+    });
+    await store.prune(new Date(Date.now() + 3 * 60 * 60 * 1000));
+
+    const session = await new FileConversationStore(dir).get(id);
+    expect(session?.turns).toHaveLength(1);
+
+    const db = await makeDatabase();
+    const replay = await replayConversation(session!, registry, db);
+    expect(replay.turns.map((turn) => [turn.turn, turn.error])).toEqual([[1, undefined]]);
+    expect(replay.result?.features).toHaveLength(1);
+    db.close();
+  });
+
+  it('ignores ids that are not stored sessions', async () => {
+    const store = new FileConversationStore(dir);
+    expect(await store.get('../../etc/passwd')).toBeNull();
+    expect(await store.recordTurn('../outside', {
+      message: 'x',
+      query: { selectLayer: 'parcels' },
+      queryHash: 'x',
+      explanation: 'x',
+      featureCount: 0,
+    })).toBeNull();
+  });
+});
@@ -121,6 +121,49 @@ describe('generateEquityExplanation', () => {
     expect(capturedPrompt).toContain('35,000'); // min value from SAMPLE_FEATURES
   });
 
+  it('passes streamed narrative chunks to onDelta as they arrive', async () => {
+    const mockLLM: LLMClient = {
+      complete: vi.fn(),
+      async *stream() {
+        yield '  ';
+        yield ' 12 tracts';
+        yield ' are low income. ';
+      },
+    };
+    const deltas: string[] = [];
+    const result = await generateEquityExplanation(
+      mockLLM,
+      CENSUS_QUERY,
+      3,
+      SAMPLE_FEATURES,
+      { onDelta: (delta) => { deltas.push(delta); } }
+    );
+    expect(deltas).toEqual(['12 tracts', ' are low income. ']);
+    expect(result.equityNarrative).toBe('12 tracts are low income.');
+    expect(mockLLM.complete).not.toHaveBeenCalled();
+  });
+
+  it('falls back to null when a streamed narrative fails partway', async () => {
+    const mockLLM: LLMClient = {
+      complete: vi.fn(),
+      async *stream() {
+        yield 'Partial';
+        throw new Error('stream dropped');
+      },
+    };
+    const deltas: string[] = [];
+    const result = await generateEquityExplanation(
+      mockLLM,
+      CENSUS_QUERY,
+      3,
+      SAMPLE_FEATURES,
+      { onDelta: (delta) => { deltas.push(delta); } }
+    );
+    expect(deltas).toEqual(['Partial']);
+    expect(result.equityNarrative).toBeNull();
+    expect(result.explanation).toBe(generateExplanation(CENSUS_QUERY, 3));
+  });
+
   it('works with no features (zero-result query)', async () => {
     const mockLLM: LLMClient = {
       complete: vi.fn().mockResolvedValue('No results found.'),
@@ -129,3 +172,151 @@ describe('generateEquityExplanation', () => {
     expect(result.equityNarrative).toBe('No results found.');
   });
 });
+
+// ── generateExplanation ──────────────────────────────────────────────────────
+
+describe('generateExplanation', () => {
+  it('describes nested filter trees with grouping and negation', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'parcels',
+      where: {
+        and: [
+          {
+            or: [
+              { attribute: { field: 'assessed_value', op: 'gt', value: 1000000 } },
+              { attribute: { field: 'acres', op: 'gt', value: 5 } },
+            ],
+          },
+          { not: { spatial: { op: 'intersects', targetLayer: 'flood_zones' } } },
+        ],
+      },
+    };
+
+    expect(generateExplanation(query, 4)).toBe(
+      'Found 4 parcels where (assessed value greater than 1000000 OR acres greater than 5) AND NOT intersects flood zones.'
+    );
+    expect(generateExplanation(query, 4, 'es')).toContain('NO que intersectan zonas inundables');
+  });
+});
+
+describe('generateExplanation negated spatial filters', () => {
+  it('describes negated topology ops in English and Spanish', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'parcels',
+      spatialFilters: [{ op: 'not_within', targetLayer: 'flood_zones' }],
+    };
+
+    expect(generateExplanation(query, 12)).toBe('Found 12 parcels where outside flood zones.');
+    expect(generateExplanation(query, 12, 'es')).toBe(
+      'Se encontraron 12 parcelas donde fuera de zonas inundables.'
+    );
+  });
+
+  it('describes beyond_distance as farther than any target', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'census_tracts',
+      spatialFilters: [{ op: 'beyond_distance', targetLayer: 'transit_access', distance: 800 }],
+    };
+
+    expect(generateExplanation(query, 3)).toContain('farther than 800m from any transit stops');
+    expect(generateExplanation(query, 3, 'es')).toContain('a más de 800m de cualquier paradas de tránsito');
+  });
+});
+
+describe('generateExplanation enrichment', () => {
+  it('lists the attached polygon fields', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'short_term_rentals',
+      enrich: [
+        { layer: 'neighborhoods', fields: ['name'] },
+        { layer: 'census_tracts', fields: ['median_income'] },
+      ],
+    };
+
+    expect(generateExplanation(query, 40)).toContain(
+      'Each result includes neighborhoods name and census tracts median income.'
+    );
+    expect(generateExplanation(query, 40, 'es')).toContain('Cada resultado incluye name de');
+  });
+});
+
+describe('generateExplanation overlap share', () => {
+  it('describes the coverage columns', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'census_tracts',
+      overlap: { targetLayer: 'flood_zones' },
+      attributeFilters: [{ field: 'overlap_pct', op: 'gt', value: 20 }],
+    };
+
+    expect(generateExplanation(query, 6)).toBe(
+      'Found 6 census tracts where overlap pct greater than 20. Includes how much of each result is covered by flood zones (area and percent).'
+    );
+    expect(generateExplanation(query, 6, 'es')).toContain(
+      'Incluye cuánto de cada resultado cubren zonas inundables (área y porcentaje).'
+    );
+  });
+});
+
+describe('generateExplanation density', () => {
+  it('describes grid cells and hot spots', () => {
+    const grid: StructuredQuery = {
+      selectLayer: 'short_term_rentals',
+      density: { method: 'grid' },
+    };
+    expect(generateExplanation(grid, 42)).toContain(
+      'Counted in 500m grid cells; only cells with results are shown.'
+    );
+
+    const hotspot: StructuredQuery = {
+      selectLayer: 'short_term_rentals',
+      density: { method: 'hotspot' },
+    };
+    expect(generateExplanation(hotspot, 48, 'es')).toContain(
+      'Puntos calientes y fríos (Getis-Ord Gi*) por polígono de'
+    );
+  });
+});
+
+describe('generateExplanation drawn shapes', () => {
+  it('names drawn targets and boxes instead of layers', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'parcels',
+      spatialFilters: [
+        {
+          op: 'within_distance',
+          targetLayer: '$geometry',
+          targetGeometry: { type: 'Point', coordinates: [-105.94, 35.687] },
+          distance: 300,
+        },
+      ],
+      bbox: [-105.97, 35.66, -105.92, 35.7],
+    };
+
+    expect(generateExplanation(query, 9)).toBe(
+      'Found 9 parcels where within 300m of the drawn point AND within the drawn box.'
+    );
+    expect(generateExplanation(query, 9, 'es')).toBe(
+      'Se encontraron 9 parcelas donde dentro de 300m del punto dibujado Y dentro del recuadro dibujado.'
+    );
+  });
+});
+
+describe('generateExplanation result sets', () => {
+  it('names earlier results as targets and notes saved names', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'building_footprints',
+      spatialFilters: [
+        { op: 'within_distance', targetLayer: '$previous', distance: 100 },
+        { op: 'not_intersects', targetLayer: '$turn1' },
+      ],
+      saveAs: 'near_parks',
+    };
+
+    expect(generateExplanation(query, 12)).toBe(
+      'Found 12 buildings where within 100m of the previous results AND not intersecting the results of turn 1. Saved as $near_parks for follow-up questions.'
+    );
+    expect(generateExplanation(query, 12, 'es')).toBe(
+      'Se encontraron 12 edificios donde dentro de 100m de los resultados anteriores Y que no intersectan los resultados del turno 1. Guardado como $near_parks para las siguientes preguntas.'
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Gazetteer,
+  getPlaceTarget,
+  normalizePlaceName,
+} from '../src/lib/geocoding/gazetteer';
+
+const gazetteer = new Gazetteer([
+  { name: '123 CANYON RD', layer: 'parcels', field: 'address', kind: 'address' },
+  { name: '123 Canyon Road', layer: 'building_footprints', field: 'address', kind: 'address' },
+  { name: '450 ST MICHAELS DR UNIT 4', layer: 'parcels', field: 'address', kind: 'address' },
+  { name: 'Acequia Madre', layer: 'neighborhoods', field: 'name', kind: 'place' },
+  { name: 'Railyard Park', layer: 'parks', field: 'name', kind: 'place' },
+  { name: 'Don Gaspar Historic District', layer: 'historic_districts', field: 'district_name', kind: 'place' },
+]);
+
+describe('normalizePlaceName', () => {
+  it('ignores case, punctuation, accents and street abbreviations', () => {
+    expect(normalizePlaceName('123 Canyon Rd.')).toBe('123 canyon road');
+    expect(normalizePlaceName('The Plaza de Santa Fé')).toBe('plaza de santa fe');
+  });
+});
+
+describe('Gazetteer', () => {
+  it('prefers the earlier source when names collide', () => {
+    expect(gazetteer.lookup('123 canyon rd')?.layer).toBe('parcels');
+  });
+
+  it('resolves aliases without unit numbers or generic suffixes', () => {
+    expect(gazetteer.lookup('450 St. Michaels Drive')?.name).toBe('450 ST MICHAELS DR UNIT 4');
+    expect(gazetteer.lookup('the Railyard')?.name).toBe('Railyard Park');
+    expect(gazetteer.lookup('Don Gaspar')?.layer).toBe('historic_districts');
+  });
+
+  it('finds addresses and places in a message, longest match first', () => {
+    const { matches, unresolvedAddresses } = gazetteer.findInText(
+      'Parcels within 500 m of 123 Canyon Rd in Acequia Madre, not near the Railyard'
+    );
+
+    expect(matches.map((match) => match.entry.name)).toEqual([
+      '123 CANYON RD',
+      'Acequia Madre',
+      'Railyard Park',
+    ]);
+    expect(unresolvedAddresses).toEqual([]);
+  });
+
+  it('reports address-like mentions that match nothing, but not distances', () => {
+    const { unresolvedAddresses } = gazetteer.findInText(
+      'Parks within 800 meters of Cerrillos Rd or near 77 Old Pecos Trail'
+    );
+    expect(unresolvedAddresses).toEqual(['77 Old Pecos Trail']);
+  });
+
+  it('finds places containing a term on the given layers', () => {
+    expect(gazetteer.findPlacesContaining('madre', ['neighborhoods'], 5).map((entry) => entry.name))
+      .toEqual(['Acequia Madre']);
+    expect(gazetteer.findPlacesContaining('madre', ['parks'], 5)).toEqual([]);
+  });
+
+  it('finds addresses on the same street, closest number first, without duplicates', () => {
+    expect(gazetteer.findAddressesOnStreet('200 Canyon Road', 5).map((entry) => entry.name))
+      .toEqual(['123 CANYON RD']);
+    expect(gazetteer.findAddressesOnStreet('9 St Michaels Dr', 5).map((entry) => entry.name))
+      .toEqual(['450 ST MICHAELS DR UNIT 4']);
+    expect(gazetteer.findAddressesOnStreet('Canyon Road', 5)).toEqual([]);
+  });
+
+  it('targets the resolved feature by its stored value', () => {
+    const entry = gazetteer.lookup('Railyard Park');
+    expect(entry && getPlaceTarget(entry)).toEqual({
+      targetLayer: 'parks',
+      targetFilter: [{ field: 'name', op: 'eq', value: 'Railyard Park' }],
+    });
+  });
+});
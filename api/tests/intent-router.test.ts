@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { assessGroundingRequest } from '../src/lib/orchestrator/intent-router';
+import { Gazetteer } from '../src/lib/geocoding/gazetteer';
 
 describe('assessGroundingRequest', () => {
   it('marks affordable housing requests unsupported when layer is missing', () => {
@@ -33,4 +34,32 @@ describe('assessGroundingRequest', () => {
     expect(assessment.status).toBe('partial_match');
     expect(assessment.disambiguationPrompt).toBeDefined();
   });
+
+  it('accepts area terms the gazetteer resolved', () => {
+    const railyard = new Gazetteer([
+      { name: 'Railyard Park', layer: 'parks', field: 'name', kind: 'place' },
+    ]);
+    const message = 'Show parcels near the Railyard';
+    const assessment = assessGroundingRequest(
+      message,
+      ['parcels', 'parks'],
+      railyard.findInText(message)
+    );
+
+    expect(assessment.status).toBe('exact_match');
+    expect(assessment.disambiguationPrompt).toBeUndefined();
+    expect(assessment.resolvedPlaces).toEqual([{ name: 'Railyard Park', layer: 'parks' }]);
+  });
+
+  it('asks for clarification when an address does not resolve', () => {
+    const message = 'Parcels within 500 m of 999 Nowhere Rd';
+    const assessment = assessGroundingRequest(
+      message,
+      ['parcels'],
+      new Gazetteer().findInText(message)
+    );
+
+    expect(assessment.status).toBe('partial_match');
+    expect(assessment.disambiguationPrompt).toContain('"999 Nowhere Rd"');
+  });
 });
@@ -0,0 +1,286 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { errorFromStatus } from '../src/lib/llm/errors';
+import { CircuitBreaker, FailoverClient } from '../src/lib/llm/failover';
+import { LLMProviderError, type CompletionOptions, type LLMClient, type LLMFailureKind } from '../src/lib/llm/types';
+
+function providerError(provider: string, kind: LLMFailureKind): LLMProviderError {
+  return new LLMProviderError(`${provider} ${kind}`, { provider, model: `${provider}-model`, kind });
+}
+
+function fakeClient(provider: string, complete: LLMClient['complete']): LLMClient {
+  return { providerName: provider, modelName: `${provider}-model`, complete: vi.fn(complete) };
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after repeated transient failures and lets one trial through after the cooldown', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1_000 });
+
+    expect(breaker.recordFailure(providerError('together', 'rate_limit'))).toBe(false);
+    expect(breaker.recordFailure(providerError('together', 'timeout'))).toBe(true);
+    expect(breaker.state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    vi.advanceTimersByTime(1_000);
+    expect(breaker.state).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('reopens when the half-open trial fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1_000 });
+    breaker.recordFailure(providerError('together', 'network'));
+    vi.advanceTimersByTime(1_000);
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.recordFailure(providerError('together', 'network'))).toBe(true);
+    expect(breaker.state).toBe('open');
+  });
+
+  it('opens on repeated server errors, including overloaded responses', () => {
+    const identity = { provider: 'together', model: 'together-model' };
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    expect(breaker.recordFailure(errorFromStatus(identity, new Response(null, { status: 529 }), 'overloaded'))).toBe(false);
+    expect(breaker.recordFailure(errorFromStatus(identity, new Response(null, { status: 503 }), 'unavailable'))).toBe(true);
+    expect(breaker.state).toBe('open');
+  });
+
+  it('ignores failures that are not about provider health', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    expect(breaker.recordFailure(providerError('together', 'auth'))).toBe(false);
+    expect(breaker.recordFailure(providerError('together', 'provider'))).toBe(false);
+    expect(breaker.recordFailure(new Error('Together.ai returned empty response'))).toBe(false);
+    expect(breaker.state).toBe('closed');
+  });
+});
+
+describe('FailoverClient', () => {
+  it('falls back to the next provider and reports which one answered', async () => {
+    const together = fakeClient('together', async () => {
+      throw providerError('together', 'rate_limit');
+    });
+    const ollama = fakeClient('ollama', async () => 'from ollama');
+    const client = new FailoverClient([together, ollama]);
+    const onServedBy = vi.fn();
+
+    expect(await client.complete('hi', { onServedBy })).toBe('from ollama');
+    expect(onServedBy).toHaveBeenCalledWith({ provider: 'ollama', model: 'ollama-model' });
+    expect(client.modelName).toBe('together/together-model,ollama/ollama-model');
+  });
+
+  it('skips a provider while its circuit is open and retries it after the cooldown', async () => {
+    let togetherDown = true;
+    const together = fakeClient('together', async () => {
+      if (togetherDown) throw providerError('together', 'timeout');
+      return 'from together';
+    });
+    const ollama = fakeClient('ollama', async () => 'from ollama');
+    const client = new FailoverClient([together, ollama], { failureThreshold: 2, cooldownMs: 30_000 });
+
+    await client.complete('hi');
+    await client.complete('hi');
+    expect(client.getCircuitStates()[0]?.state).toBe('open');
+
+    await client.complete('hi');
+    expect(together.complete).toHaveBeenCalledTimes(2);
+
+    togetherDown = false;
+    vi.advanceTimersByTime(30_000);
+    expect(await client.complete('hi')).toBe('from together');
+    expect(client.getCircuitStates()[0]?.state).toBe('closed');
+  });
+
+  it('stops calling a provider that keeps returning 503', async () => {
+    const together = fakeClient('together', async () => {
+      throw errorFromStatus(
+        { provider: 'together', model: 'together-model' },
+        new Response(null, { status: 503 }),
+        'Together.ai request failed: 503'
+      );
+    });
+    const ollama = fakeClient('ollama', async () => 'from ollama');
+    const client = new FailoverClient([together, ollama], { failureThreshold: 3 });
+
+    for (let i = 0; i < 5; i++) {
+      expect(await client.complete('hi')).toBe('from ollama');
+    }
+    expect(together.complete).toHaveBeenCalledTimes(3);
+    expect(client.getCircuitStates()[0]?.state).toBe('open');
+  });
+
+  it('throws the last provider error when every provider fails', async () => {
+    const client = new FailoverClient([
+      fakeClient('together', async () => { throw providerError('together', 'rate_limit'); }),
+      fakeClient('ollama', async () => { throw providerError('ollama', 'network'); }),
+    ]);
+
+    await expect(client.complete('hi')).rejects.toMatchObject({ provider: 'ollama', kind: 'network' });
+  });
+
+  it('fails fast once every circuit is open', async () => {
+    const client = new FailoverClient(
+      [fakeClient('together', async () => { throw providerError('together', 'network'); })],
+      { failureThreshold: 1 }
+    );
+    await expect(client.complete('hi')).rejects.toThrow('together network');
+
+    const error = await client.complete('hi').catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error).toMatchObject({ provider: 'failover', kind: 'network' });
+  });
+
+  it('does not fall back after the caller aborts', async () => {
+    const controller = new AbortController();
+    const together = fakeClient('together', async () => {
+      controller.abort();
+      throw providerError('together', 'timeout');
+    });
+    const ollama = fakeClient('ollama', async () => 'from ollama');
+
+    await expect(
+      new FailoverClient([together, ollama]).complete('hi', { signal: controller.signal })
+    ).rejects.toThrow('together timeout');
+    expect(ollama.complete).not.toHaveBeenCalled();
+  });
+
+  it('does not count caller aborts against the provider', async () => {
+    const together = fakeClient('together', async (_prompt, options) => {
+      if (options?.signal?.aborted) throw providerError('together', 'timeout');
+      return 'from together';
+    });
+    const client = new FailoverClient([together], { failureThreshold: 1 });
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(client.complete('hi', { signal: controller.signal })).rejects.toThrow('together timeout');
+
+    expect(client.getCircuitStates()[0]?.state).toBe('closed');
+    await expect(client.complete('hi')).resolves.toBe('from together');
+  });
+
+  it('does not count an aborted stream against the provider', async () => {
+    const together: LLMClient = {
+      providerName: 'together',
+      modelName: 'together-model',
+      complete: vi.fn(),
+      async *stream() {
+        throw providerError('together', 'timeout');
+      },
+    };
+    const client = new FailoverClient([together], { failureThreshold: 1 });
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(collect(client.stream('hi', { signal: controller.signal }))).rejects.toThrow('together timeout');
+
+    expect(client.getCircuitStates()[0]?.state).toBe('closed');
+  });
+
+  it('streams from the next provider when the first fails before any text', async () => {
+    const together: LLMClient = {
+      providerName: 'together',
+      modelName: 'together-model',
+      complete: vi.fn(),
+      async *stream() {
+        throw providerError('together', 'rate_limit');
+      },
+    };
+    const ollama: LLMClient = {
+      providerName: 'ollama',
+      modelName: 'ollama-model',
+      complete: vi.fn(),
+      async *stream() {
+        yield 'Hel';
+        yield 'lo';
+      },
+    };
+    const onServedBy = vi.fn();
+
+    expect(await collect(new FailoverClient([together, ollama]).stream('hi', { onServedBy }))).toEqual(['Hel', 'lo']);
+    expect(onServedBy).toHaveBeenCalledWith({ provider: 'ollama', model: 'ollama-model' });
+  });
+
+  it('does not splice providers once text has been streamed', async () => {
+    const together: LLMClient = {
+      providerName: 'together',
+      modelName: 'together-model',
+      complete: vi.fn(),
+      async *stream() {
+        yield 'Partial';
+        throw providerError('together', 'network');
+      },
+    };
+    const ollama = fakeClient('ollama', async () => 'from ollama');
+
+    const chunks: string[] = [];
+    await expect((async () => {
+      for await (const chunk of new FailoverClient([together, ollama]).stream('hi')) {
+        chunks.push(chunk);
+      }
+    })()).rejects.toThrow('together network');
+    expect(chunks).toEqual(['Partial']);
+    expect(ollama.complete).not.toHaveBeenCalled();
+  });
+
+  it('asks a provider that rejects the schema again without it, and keeps leaving it out', async () => {
+    const responseSchema = { name: 'structured_query', schema: { type: 'object' } };
+    const together = fakeClient('together', async (_prompt: string, options?: CompletionOptions) => {
+      if (options?.responseSchema) {
+        throw new LLMProviderError('Together API error: response_format json_schema is not supported', {
+          provider: 'together',
+          model: 'together-model',
+          kind: 'provider',
+          statusCode: 400,
+        });
+      }
+      return 'from together';
+    });
+    const ollama = fakeClient('ollama', async () => 'from ollama');
+    const client = new FailoverClient([together, ollama]);
+
+    expect(await client.complete('hi', { responseSchema })).toBe('from together');
+    expect(await client.complete('hi', { responseSchema })).toBe('from together');
+
+    const calls = vi.mocked(together.complete).mock.calls;
+    expect(calls.map(([, options]) => Boolean(options?.responseSchema))).toEqual([true, false, false]);
+    expect(ollama.complete).not.toHaveBeenCalled();
+    expect(client.getCircuitStates()[0]?.state).toBe('closed');
+  });
+
+  it('falls back on a bad request that is not about the schema', async () => {
+    const together = fakeClient('together', async () => {
+      throw new LLMProviderError('Together API error: prompt is too long', {
+        provider: 'together',
+        model: 'together-model',
+        kind: 'provider',
+        statusCode: 400,
+      });
+    });
+    const ollama = fakeClient('ollama', async () => 'from ollama');
+    const responseSchema = { name: 'structured_query', schema: { type: 'object' } };
+
+    expect(await new FailoverClient([together, ollama]).complete('hi', { responseSchema })).toBe('from ollama');
+    expect(together.complete).toHaveBeenCalledTimes(1);
+  });
+});
@@ -68,7 +68,7 @@ describe('/api/chat LLM provider failures', () => {
     const response = await app.request('/api/chat', {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ message: 'show parcels' }),
+      body: JSON.stringify({ message: 'which parcels sold most recently' }),
     });
     const body = (await response.json()) as { error: string };
 
@@ -97,7 +97,7 @@ describe('/api/chat LLM provider failures', () => {
     const response = await app.request('/api/chat', {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ message: 'show parcels' }),
+      body: JSON.stringify({ message: 'which parcels sold most recently' }),
     });
 
     expect(response.status).toBe(503);
@@ -116,9 +116,34 @@ describe('/api/chat LLM provider failures', () => {
     const response = await app.request('/api/chat', {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ message: 'show parcels' }),
+      body: JSON.stringify({ message: 'which parcels sold most recently' }),
     });
 
     expect(response.status).toBe(503);
   });
+
+  it('ends the stream with an error event carrying the mapped status', async () => {
+    const app = makeApp(
+      new LLMProviderError('network down', {
+        provider: 'test-provider',
+        model: 'test-model',
+        kind: 'network',
+      })
+    );
+
+    const response = await app.request('/api/chat/stream', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ message: 'which parcels sold most recently' }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    const text = await response.text();
+    expect(text).toContain('event: grounding');
+    expect(text).toContain('event: error');
+    expect(text).toContain('"error":"LLM service unavailable"');
+    expect(text).toContain('"status":503');
+    expect(text).not.toContain('event: done');
+  });
 });
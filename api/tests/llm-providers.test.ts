@@ -0,0 +1,257 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  AnthropicClient,
+  FailoverClient,
+  OllamaClient,
+  OpenAICompatibleClient,
+  TogetherClient,
+  createLLMClient,
+} from '../src/lib/llm';
+import { LLMProviderError } from '../src/lib/llm/types';
+
+function streamingResponse(pieces: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const piece of pieces) {
+        controller.enqueue(encoder.encode(piece));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+function jsonResponse(body: unknown, init?: ResponseInit): Response {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+async function failure(promise: Promise<unknown>): Promise<LLMProviderError> {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(LLMProviderError);
+    return error as LLMProviderError;
+  }
+  throw new Error('Expected the request to fail');
+}
+
+function requestOf(fetchMock: ReturnType<typeof vi.fn>): { url: string; init: RequestInit; body: Record<string, unknown> } {
+  const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+  return { url, init, body: JSON.parse(init.body as string) as Record<string, unknown> };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('createLLMClient', () => {
+  it('keeps choosing Together or Ollama when LLM_PROVIDER is unset', () => {
+    vi.stubEnv('LLM_PROVIDER', '');
+    vi.stubEnv('TOGETHER_API_KEY', '');
+    expect(createLLMClient()).toBeInstanceOf(OllamaClient);
+
+    vi.stubEnv('TOGETHER_API_KEY', 'together-key');
+    expect(createLLMClient()).toBeInstanceOf(TogetherClient);
+  });
+
+  it('uses the provider named by LLM_PROVIDER', () => {
+    vi.stubEnv('TOGETHER_API_KEY', 'together-key');
+    vi.stubEnv('LLM_PROVIDER', 'ollama');
+    expect(createLLMClient()).toBeInstanceOf(OllamaClient);
+
+    vi.stubEnv('LLM_PROVIDER', 'openai');
+    vi.stubEnv('OPENAI_BASE_URL', 'http://llama.local:8080/v1');
+    const openai = createLLMClient();
+    expect(openai).toBeInstanceOf(OpenAICompatibleClient);
+    expect(openai.providerName).toBe('openai');
+
+    vi.stubEnv('LLM_PROVIDER', 'anthropic');
+    vi.stubEnv('ANTHROPIC_API_KEY', 'anthropic-key');
+    expect(createLLMClient()).toBeInstanceOf(AnthropicClient);
+  });
+
+  it('chains comma-separated providers into a failover client', () => {
+    vi.stubEnv('LLM_PROVIDER', 'together, ollama');
+    vi.stubEnv('TOGETHER_API_KEY', 'together-key');
+    const client = createLLMClient();
+
+    expect(client).toBeInstanceOf(FailoverClient);
+    expect((client as FailoverClient).getCircuitStates().map((entry) => entry.provider))
+      .toEqual(['together', 'ollama']);
+  });
+
+  it('rejects unknown providers and missing required settings', () => {
+    vi.stubEnv('LLM_PROVIDER', 'bard');
+    expect(() => createLLMClient()).toThrow('Unknown LLM_PROVIDER "bard"');
+
+    vi.stubEnv('LLM_PROVIDER', 'openai');
+    vi.stubEnv('OPENAI_BASE_URL', '');
+    expect(() => createLLMClient()).toThrow('OPENAI_BASE_URL');
+
+    vi.stubEnv('LLM_PROVIDER', 'anthropic');
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    expect(() => createLLMClient()).toThrow('ANTHROPIC_API_KEY');
+  });
+});
+
+describe('OpenAICompatibleClient', () => {
+  it('posts chat completions without an Authorization header when no key is set', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({
+      choices: [{ message: { role: 'assistant', content: '{"selectLayer":"parcels"}' }, finish_reason: 'stop' }],
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new OpenAICompatibleClient({ baseUrl: 'http://llama.local:8080/v1/', apiKey: '', model: 'qwen' });
+    expect(await client.complete('hi')).toBe('{"selectLayer":"parcels"}');
+
+    const { url, init, body } = requestOf(fetchMock);
+    expect(url).toBe('http://llama.local:8080/v1/chat/completions');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(body.model).toBe('qwen');
+  });
+
+  it('classifies HTTP failures like the other providers', async () => {
+    const client = new OpenAICompatibleClient({ baseUrl: 'http://llama.local:8080/v1', apiKey: 'key' });
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({ error: { message: 'bad key' } }, { status: 401 })));
+    expect((await failure(client.complete('hi'))).kind).toBe('auth');
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({ error: { message: 'model not loaded' } }, { status: 500 })));
+    const error = await failure(client.complete('hi'));
+    expect(error.kind).toBe('provider');
+    expect(error.statusCode).toBe(500);
+    expect(error.message).toContain('model not loaded');
+
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+    expect((await failure(client.complete('hi'))).kind).toBe('network');
+  });
+});
+
+describe('AnthropicClient', () => {
+  const client = () => new AnthropicClient({ apiKey: 'anthropic-key', baseUrl: 'http://anthropic.test/v1', model: 'test-model' });
+
+  it('sends a Messages request and joins the text blocks', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({
+      content: [{ type: 'text', text: 'Twelve ' }, { type: 'text', text: 'tracts.' }],
+      stop_reason: 'end_turn',
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await client().complete('hi', { maxTokens: 50 })).toBe('Twelve tracts.');
+
+    const { url, init, body } = requestOf(fetchMock);
+    expect(url).toBe('http://anthropic.test/v1/messages');
+    expect(init.headers).toMatchObject({ 'x-api-key': 'anthropic-key', 'anthropic-version': '2023-06-01' });
+    expect(body).toMatchObject({
+      model: 'test-model',
+      max_tokens: 50,
+      messages: [{ role: 'user', content: 'hi' }],
+    });
+  });
+
+  it('streams text deltas until message_stop', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamingResponse([
+      'event: message_start\ndata: {"type":"message_start","message":{}}\n\n',
+      'event: ping\ndata: {"type":"ping"}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Twelve"}}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":" tracts."}}\n\n',
+      'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+    ])));
+
+    expect(await collect(client().stream('hi'))).toEqual(['Twelve', ' tracts.']);
+  });
+
+  it('maps rate limits and stream error events to failure kinds', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(
+      { type: 'error', error: { type: 'rate_limit_error', message: 'slow down' } },
+      { status: 429, headers: { 'retry-after': '12' } }
+    )));
+    const rateLimited = await failure(client().complete('hi'));
+    expect(rateLimited.kind).toBe('rate_limit');
+    expect(rateLimited.retryAfter).toBe('12');
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamingResponse([
+      'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n',
+    ])));
+    const overloaded = await failure(collect(client().stream('hi')));
+    expect(overloaded.kind).toBe('provider');
+    expect(overloaded.message).toContain('Overloaded');
+  });
+});
+
+describe('response schemas', () => {
+  const responseSchema = {
+    name: 'structured_query',
+    schema: { type: 'object', properties: { selectLayer: { type: 'string' } }, required: ['selectLayer'] },
+  };
+  const chatCompletion = () => jsonResponse({
+    choices: [{ message: { role: 'assistant', content: '{"selectLayer":"parcels"}' }, finish_reason: 'stop' }],
+  });
+
+  it('sends the schema as Ollama format', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ response: '{"selectLayer":"parcels"}', done: true }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new OllamaClient('http://ollama.test', 'test-model');
+    await client.complete('hi', { responseSchema });
+
+    expect(client.supportsResponseSchema).toBe(true);
+    expect(requestOf(fetchMock).body.format).toEqual(responseSchema.schema);
+  });
+
+  it('sends the schema as response_format in each provider shape', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(chatCompletion());
+    vi.stubGlobal('fetch', fetchMock);
+
+    await new OpenAICompatibleClient({ baseUrl: 'http://llama.local:8080/v1', apiKey: '' })
+      .complete('hi', { responseSchema });
+    expect(requestOf(fetchMock).body.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: responseSchema,
+    });
+
+    fetchMock.mockClear().mockResolvedValue(chatCompletion());
+    await new TogetherClient({ apiKey: 'test-key', baseUrl: 'http://together.test' })
+      .complete('hi', { responseSchema });
+    expect(requestOf(fetchMock).body.response_format).toEqual({
+      type: 'json_schema',
+      schema: responseSchema.schema,
+    });
+  });
+
+  it('leaves the request unconstrained when the schema is unsupported', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(chatCompletion());
+    vi.stubGlobal('fetch', fetchMock);
+
+    vi.stubEnv('OPENAI_RESPONSE_SCHEMA', 'false');
+    const client = new OpenAICompatibleClient({ baseUrl: 'http://llama.local:8080/v1', apiKey: '' });
+    await client.complete('hi', { responseSchema });
+
+    expect(client.supportsResponseSchema).toBe(false);
+    expect(requestOf(fetchMock).body).not.toHaveProperty('response_format');
+
+    fetchMock.mockClear().mockResolvedValue(chatCompletion());
+    await client.complete('hi');
+    expect(requestOf(fetchMock).body).not.toHaveProperty('response_format');
+  });
+
+  it('supports the schema in a failover chain when any member does', () => {
+    const anthropic = new AnthropicClient({ apiKey: 'anthropic-key' });
+
+    expect(new FailoverClient([anthropic, new OllamaClient()]).supportsResponseSchema).toBe(true);
+    expect(new FailoverClient([anthropic]).supportsResponseSchema).toBe(false);
+  });
+});
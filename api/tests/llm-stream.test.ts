@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OllamaClient } from '../src/lib/llm/ollama';
+import { TogetherClient } from '../src/lib/llm/together';
+import { streamCompletion } from '../src/lib/llm/stream';
+import { LLMProviderError, type LLMClient } from '../src/lib/llm/types';
+
+/**
+ * Response whose body arrives in the given pieces, split at arbitrary
+ * points so line buffering is exercised
+ */
+function streamingResponse(pieces: string[], init?: ResponseInit): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const piece of pieces) {
+        controller.enqueue(encoder.encode(piece));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, init);
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+async function streamError(stream: AsyncIterable<string>): Promise<LLMProviderError> {
+  try {
+    await collect(stream);
+  } catch (error) {
+    expect(error).toBeInstanceOf(LLMProviderError);
+    return error as LLMProviderError;
+  }
+  throw new Error('Expected the stream to fail');
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OllamaClient.stream', () => {
+  it('yields the response field of each NDJSON line until done', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(streamingResponse([
+      '{"response":"Hel","done":false}\n{"respo',
+      'nse":"lo","done":false}\n',
+      '{"response":"","done":true}\n',
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new OllamaClient('http://ollama.test', 'test-model');
+    expect(await collect(client.stream('hi'))).toEqual(['Hel', 'lo']);
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body as string) as { stream: boolean };
+    expect(body.stream).toBe(true);
+  });
+
+  it('maps an error line to a provider failure', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamingResponse([
+      '{"response":"partial","done":false}\n',
+      '{"error":"model crashed"}\n',
+    ])));
+
+    const error = await streamError(new OllamaClient('http://ollama.test').stream('hi'));
+    expect(error.kind).toBe('provider');
+    expect(error.message).toContain('model crashed');
+  });
+
+  it('treats a stream that ends without done as a provider failure', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamingResponse([
+      '{"response":"partial","done":false}\n',
+    ])));
+
+    const error = await streamError(new OllamaClient('http://ollama.test').stream('hi'));
+    expect(error.kind).toBe('provider');
+  });
+
+  it('maps connection failures to network', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+
+    const error = await streamError(new OllamaClient('http://ollama.test').stream('hi'));
+    expect(error.kind).toBe('network');
+  });
+});
+
+describe('TogetherClient.stream', () => {
+  const client = () => new TogetherClient({ apiKey: 'test-key', baseUrl: 'http://together.test' });
+
+  it('yields delta content from SSE data lines until [DONE]', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(streamingResponse([
+      ': keep-alive\n\n',
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\r\n\r\n',
+      'data: {"choices":[{"delta":{"con',
+      'tent":"lo"},"finish_reason":"stop"}]}\n\n',
+      'data: [DONE]\n\n',
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await collect(client().stream('hi'))).toEqual(['Hel', 'lo']);
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body as string) as { stream: boolean };
+    expect(body.stream).toBe(true);
+  });
+
+  it('maps HTTP statuses to failure kinds before streaming starts', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response('{}', { status: 429, headers: { 'retry-after': '7' } })
+    ));
+
+    const error = await streamError(client().stream('hi'));
+    expect(error.kind).toBe('rate_limit');
+    expect(error.retryAfter).toBe('7');
+  });
+
+  it('maps an error payload mid-stream to a provider failure', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamingResponse([
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+      'data: {"error":{"message":"overloaded"}}\n\n',
+    ])));
+
+    const error = await streamError(client().stream('hi'));
+    expect(error.kind).toBe('provider');
+    expect(error.message).toContain('overloaded');
+  });
+
+  it('maps an aborted request to timeout', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockImplementation(
+      (_url: string, init: RequestInit) => new Promise((_, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          reject(new DOMException('The operation was aborted.', 'AbortError'));
+        });
+      })
+    ));
+
+    const controller = new AbortController();
+    const pending = streamError(client().stream('hi', { signal: controller.signal }));
+    controller.abort();
+
+    expect((await pending).kind).toBe('timeout');
+  });
+
+  it('cancels the request when the consumer stops early', async () => {
+    let signal: AbortSignal | undefined;
+    vi.stubGlobal('fetch', vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+      signal = init.signal ?? undefined;
+      return Promise.resolve(streamingResponse([
+        'data: {"choices":[{"delta":{"content":"not json"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":" at all"}}]}\n\n',
+      ]));
+    }));
+
+    for await (const chunk of client().stream('hi')) {
+      expect(chunk).toBe('not json');
+      break;
+    }
+    expect(signal?.aborted).toBe(true);
+  });
+});
+
+describe('streamCompletion', () => {
+  it('falls back to a single chunk for clients without stream()', async () => {
+    const llm: LLMClient = { complete: vi.fn().mockResolvedValue('whole answer') };
+    expect(await collect(streamCompletion(llm, 'hi'))).toEqual(['whole answer']);
+  });
+});
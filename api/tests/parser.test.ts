@@ -4,9 +4,11 @@
  * Tests for natural language → StructuredQuery parsing
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { IntentParser } from '../src/lib/orchestrator/parser';
-import type { LLMClient } from '../src/lib/llm/types';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IntentParser, QueryParseError, type ConversationContext } from '../src/lib/orchestrator/parser';
+import { Gazetteer } from '../src/lib/geocoding/gazetteer';
+import { LLMProviderError, type CompletionOptions, type LLMClient } from '../src/lib/llm/types';
+import type { StructuredQuery } from '../../shared/types/query';
 
 // Mock LLM client
 class MockLLMClient implements LLMClient {
@@ -40,6 +42,10 @@ describe('IntentParser', () => {
     parser = new IntentParser(mockLLM);
   });
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   it('parses simple attribute filter query', async () => {
     mockLLM.setResponse(`
       {
@@ -143,23 +149,235 @@ describe('IntentParser', () => {
     expect(result.query.attributeFilters?.[0]?.field).toBe('median_income');
   });
 
+  it('constrains providers that support it to the query JSON schema', async () => {
+    const complete = vi.fn(async (_prompt: string, _options?: CompletionOptions) => '{"selectLayer": "parcels"}');
+    const schemaLLM: LLMClient = { supportsResponseSchema: true, complete };
+
+    await new IntentParser(schemaLLM).parse('Show parcels');
+
+    const responseSchema = complete.mock.calls[0]?.[1]?.responseSchema;
+    expect(responseSchema?.name).toBe('structured_query');
+    expect(responseSchema?.schema).toMatchObject({
+      type: 'object',
+      properties: { selectLayer: { type: 'string' } },
+    });
+  });
+
+  it('asks again without the schema when the provider rejects it', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const complete = vi.fn(async (_prompt: string, options?: CompletionOptions) => {
+      if (options?.responseSchema) {
+        throw new LLMProviderError('Together API error: response_format is not supported for this model', {
+          provider: 'together',
+          model: 'test-model',
+          kind: 'provider',
+          statusCode: 400,
+        });
+      }
+      return 'Sure! {"selectLayer": "parcels"}';
+    });
+    const strictParser = new IntentParser({
+      providerName: 'together',
+      modelName: 'test-model',
+      supportsResponseSchema: true,
+      complete,
+    });
+
+    expect((await strictParser.parse('Show parcels')).query).toEqual({ selectLayer: 'parcels' });
+    await strictParser.parse('Show parcels');
+
+    // Rejected once, then sent without the schema for the rest of the parser's life
+    expect(complete.mock.calls.map(([, options]) => Boolean(options?.responseSchema)))
+      .toEqual([true, false, false]);
+  });
+
+  it('keeps the schema when a bad request is about something else', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const complete = vi.fn(async (_prompt: string, _options?: CompletionOptions) => {
+      throw new LLMProviderError('Together API error: prompt is too long', {
+        provider: 'together',
+        model: 'test-model',
+        kind: 'provider',
+        statusCode: 400,
+      });
+    });
+    const strictParser = new IntentParser({
+      providerName: 'together',
+      modelName: 'test-model',
+      supportsResponseSchema: true,
+      complete,
+    });
+
+    await expect(strictParser.parse('Which parcels feel charming')).rejects.toThrow('prompt is too long');
+    expect(complete.mock.calls.map(([, options]) => Boolean(options?.responseSchema))).toEqual([true]);
+  });
+
+  it('reports the provider that answered', async () => {
+    const failoverLLM: LLMClient = {
+      providerName: 'failover',
+      complete: vi.fn(async (_prompt: string, options?: CompletionOptions) => {
+        options?.onServedBy?.({ provider: 'ollama', model: 'qwen2.5:7b' });
+        return '{"selectLayer": "parcels"}';
+      }),
+    };
+
+    const result = await new IntentParser(failoverLLM).parse('Show parcels');
+
+    expect(result.servedBy).toEqual({ provider: 'ollama', model: 'qwen2.5:7b' });
+    expect(result.parser).toBe('llm');
+  });
+
   it('throws error when LLM returns invalid JSON', async () => {
     mockLLM.setResponse('This is not JSON at all');
 
     await expect(parser.parse('Some query')).rejects.toThrow('LLM did not return valid JSON');
   });
 
-  it('throws error when query validation fails', async () => {
-    mockLLM.setResponse(`
+  it('stops a streamed response that starts with prose instead of JSON', async () => {
+    let chunksRead = 0;
+    const streamingLLM: LLMClient = {
+      complete: vi.fn(),
+      async *stream() {
+        while (true) {
+          chunksRead++;
+          yield 'I am sorry, but I cannot help with that request. ';
+        }
+      },
+    };
+    const streamingParser = new IntentParser(streamingLLM);
+
+    await expect(streamingParser.parse('Some query')).rejects.toThrow('LLM did not return valid JSON');
+    expect(chunksRead).toBeLessThan(20);
+    expect(streamingLLM.complete).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the rule parser when the LLM is unreachable', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const offlineLLM: LLMClient = {
+      complete: vi.fn(async () => {
+        throw new LLMProviderError('Cannot connect to Ollama', { provider: 'ollama', model: 'qwen2.5:7b', kind: 'network' });
+      }),
+    };
+
+    const result = await new IntentParser(offlineLLM).parse('parks larger than 10 acres');
+
+    expect(result.parser).toBe('rules');
+    expect(result.servedBy).toBeUndefined();
+    expect(result.confidence).toBeLessThan(0.8);
+    expect(result.query).toEqual({
+      selectLayer: 'parks',
+      attributeFilters: [{ field: 'acres', op: 'gt', value: 10 }],
+    });
+  });
+
+  it('falls back to the rule parser when the LLM answers without JSON', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    mockLLM.setResponse('Sure! Here are the parcels near transit.');
+
+    const result = await parser.parse('parcels within 500 m of transit stops');
+
+    expect(result.parser).toBe('rules');
+    expect(result.query.spatialFilters).toEqual([
+      { op: 'within_distance', targetLayer: 'transit_access', distance: 500 },
+    ]);
+  });
+
+  it('keeps the LLM error when the rules cannot parse the query either', async () => {
+    const offlineLLM: LLMClient = {
+      complete: vi.fn(async () => {
+        throw new LLMProviderError('Cannot connect to Ollama', { provider: 'ollama', model: 'qwen2.5:7b', kind: 'network' });
+      }),
+    };
+
+    await expect(new IntentParser(offlineLLM).parse('Which tracts gentrified fastest?'))
+      .rejects.toThrow('Cannot connect to Ollama');
+  });
+
+  it('throws error when query validation fails after every repair', async () => {
+    const invalid = `
       {
         "selectLayer": "nonexistent_layer",
         "attributeFilters": [
           {"field": "invalid_field", "op": "invalid_op", "value": "test"}
         ]
       }
-    `);
+    `;
+    mockLLM.setResponse(invalid);
+    mockLLM.setResponse(invalid);
+    mockLLM.setResponse(invalid);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const error = await parser.parse('Invalid query').catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(QueryParseError);
+    expect((error as QueryParseError).message).toContain('Query validation failed');
+    expect((error as QueryParseError).attempts.map((attempt) => attempt.outcome))
+      .toEqual(['schema_invalid', 'schema_invalid', 'schema_invalid']);
+    expect(mockLLM.getCallCount()).toBe(3);
+  });
+
+  it('records an answer without JSON as an attempt', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const complete = vi.fn()
+      .mockResolvedValueOnce('{"selectLayer": "parcels", "attributeFilters": [{"field": "acres", "op": "bigger", "value": 5}]}')
+      .mockResolvedValueOnce('Sorry, I cannot help with that.');
+
+    const error = await new IntentParser({ complete }).parse('Which parcels are charming')
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(QueryParseError);
+    expect((error as QueryParseError).attempts).toEqual([
+      { attempt: 1, outcome: 'schema_invalid', issues: [expect.stringContaining('attributeFilters.0.op')] },
+      { attempt: 2, outcome: 'invalid_json' },
+    ]);
+  });
+
+  it('sends schema issues back to the model and records each attempt', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const complete = vi.fn()
+      .mockResolvedValueOnce('{"selectLayer": "parcels", "attributeFilters": [{"field": "acres", "op": "bigger", "value": 5}]}')
+      .mockResolvedValueOnce('{"selectLayer": "parcels", "attributeFilters": [{"field": "acres", "op": "gt", "value": 5}]}');
+
+    const result = await new IntentParser({ complete }).parse('Parcels over 5 acres');
+
+    const repairPrompt = complete.mock.calls[1]?.[0] as string;
+    expect(repairPrompt).toContain('{"selectLayer":"parcels","attributeFilters":[{"field":"acres","op":"bigger","value":5}]}');
+    expect(repairPrompt).toContain('That query is invalid:\n- attributeFilters.0.op:');
+    expect(result.query.attributeFilters).toEqual([{ field: 'acres', op: 'gt', value: 5 }]);
+    expect(result.attempts).toEqual([
+      { attempt: 1, outcome: 'schema_invalid', issues: [expect.stringContaining('attributeFilters.0.op')] },
+      { attempt: 2, outcome: 'valid' },
+    ]);
+  });
 
-    await expect(parser.parse('Invalid query')).rejects.toThrow('Query validation failed');
+  it('repairs queries that reference fields the loaded data lacks', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const complete = vi.fn()
+      .mockResolvedValueOnce('{"selectLayer": "parcels", "orderBy": {"field": "value", "direction": "desc"}}')
+      .mockResolvedValueOnce('{"selectLayer": "parcels", "orderBy": {"field": "assessed_value", "direction": "desc"}}');
+    const checkQuery = vi.fn((query: StructuredQuery) =>
+      query.orderBy?.field === 'value'
+        ? [{ path: 'orderBy.field', message: "Field 'value' does not exist on layer 'parcels'" }]
+        : []
+    );
+
+    const result = await new IntentParser({ complete }).parse('Priciest parcels', null, 'en', null, checkQuery);
+
+    expect(complete.mock.calls[1]?.[0]).toContain("- orderBy.field: Field 'value' does not exist on layer 'parcels'");
+    expect(result.query.orderBy?.field).toBe('assessed_value');
+    expect(result.attempts?.map((attempt) => attempt.outcome)).toEqual(['registry_invalid', 'valid']);
+  });
+
+  it('returns a query that still fails the data check once repairs run out', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const complete = vi.fn().mockResolvedValue('{"selectLayer": "parcels", "orderBy": {"field": "value", "direction": "desc"}}');
+    const checkQuery = () => [{ path: 'orderBy.field', message: 'Unknown field' }];
+
+    const result = await new IntentParser({ complete }, { maxRepairs: 1 })
+      .parse('Priciest parcels', null, 'en', null, checkQuery);
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(result.query.orderBy?.field).toBe('value');
+    expect(result.attempts?.map((attempt) => attempt.outcome)).toEqual(['registry_invalid', 'registry_invalid']);
   });
 
   it('calculates confidence score', async () => {
@@ -209,4 +427,75 @@ describe('IntentParser', () => {
     expect(prompt).not.toContain('land_use');
     expect(prompt).not.toContain('year_built');
   });
+
+  it('lists registered measure fields in the prompt', () => {
+    parser.setAvailableLayers(['parcels']);
+    parser.setAvailableLayerFields({
+      parcels: ['parcel_id', 'acres', 'area_m2', 'perimeter_m'],
+    });
+
+    const prompt = (parser as unknown as {
+      buildPrompt: (userQuery: string, context: null) => string;
+    }).buildPrompt('Largest parcels', null);
+
+    expect(prompt).toContain('- area_m2: number (computed from geometry)');
+    expect(prompt).toContain('- perimeter_m: number (computed from geometry)');
+    expect(prompt).not.toContain('- area_acres: number (computed from geometry)');
+  });
+
+  it('lists gazetteer matches as ready-made filter targets', () => {
+    parser.setGazetteer(
+      new Gazetteer([
+        { name: '123 CANYON RD', layer: 'parcels', field: 'address', kind: 'address' },
+        { name: 'Railyard Park', layer: 'parks', field: 'name', kind: 'place' },
+      ])
+    );
+
+    const prompt = (parser as unknown as {
+      buildPrompt: (userQuery: string, context: null) => string;
+    }).buildPrompt('Parcels within 500 m of 123 Canyon Rd or near the Railyard', null);
+
+    expect(prompt).toContain(
+      '- "123 canyon road": {"targetLayer":"parcels","targetFilter":[{"field":"address","op":"eq","value":"123 CANYON RD"}]}'
+    );
+    expect(prompt).toContain(
+      '- "railyard": {"targetLayer":"parks","targetFilter":[{"field":"name","op":"eq","value":"Railyard Park"}]}'
+    );
+  });
+
+  it('tells the model a drawn shape already limits the results', () => {
+    const buildPrompt = (parser as unknown as {
+      buildPrompt: (
+        userQuery: string,
+        context: null,
+        lang: 'en' | 'es',
+        drawnShapeType: 'polygon' | 'rectangle' | 'point' | null
+      ) => string;
+    }).buildPrompt.bind(parser);
+
+    expect(buildPrompt('Parcels around here', null, 'en', 'point')).toContain(
+      'Drawn shape: the user drew a point with a radius on the map. Results are automatically limited to the drawn area'
+    );
+    expect(buildPrompt('Parcels', null, 'en', null)).not.toContain('Drawn shape:');
+  });
+
+  it('lists saved result sets as spatial targets', () => {
+    const buildPrompt = (parser as unknown as {
+      buildPrompt: (userQuery: string, context: ConversationContext) => string;
+    }).buildPrompt.bind(parser);
+
+    const prompt = buildPrompt('Buildings within 100 m of those', {
+      previousQuery: { selectLayer: 'parks' },
+      previousLayer: 'parks',
+      resultSets: [
+        { target: '$big_parks', layer: 'parks', featureCount: 14, turn: 1 },
+        { target: '$turn2', layer: 'parcels', featureCount: 230, turn: 2 },
+      ],
+    });
+
+    expect(prompt).toContain('- $big_parks: turn 1, 14 parks features');
+    expect(prompt).toContain('- $turn2: turn 2, 230 parcels features');
+    expect(buildPrompt('Buildings', { previousQuery: { selectLayer: 'parks' }, previousLayer: 'parks' }))
+      .not.toContain('Saved result sets');
+  });
 });
@@ -2,7 +2,11 @@ import { describe, expect, it } from 'vitest';
 import type { LayerRegistry } from '../src/lib/layers/registry';
 import type { StructuredQuery } from '../../shared/types/query';
 import {
+  applyDrawnShape,
   applyQueryLimits,
+  getContextLayerQueries,
+  getQueryHash,
+  getQuerySourceLayers,
   normalizeStructuredQuery,
   validateQueryAgainstRegistry,
 } from '../src/lib/orchestrator/query-grounding';
@@ -50,9 +54,10 @@ const registry: LayerRegistry = {
       geometryType: 'LineString',
       schemaFields: {
         name: 'string',
+        length_m: 'number',
       },
       loadedFields: ['name'],
-      queryableFields: ['name'],
+      queryableFields: ['length_m', 'name'],
       featureCount: 10,
       isLoaded: true,
       description: 'Hydrology',
@@ -79,10 +84,43 @@ describe('normalizeStructuredQuery', () => {
       'Mapped allows_residential=true to a case-insensitive zone_code match on R%'
     );
   });
+
+  it('fills the default temporal date field for the layer', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'short_term_rentals',
+      temporal: {
+        baseline: { year: 2024 },
+        comparison: { year: 2025 },
+        metric: '*',
+      },
+    };
+
+    const normalized = normalizeStructuredQuery(input);
+    expect(normalized.query.temporal?.dateField).toBe('permit_issued_date');
+    expect(normalized.notes).toContain('Using permit_issued_date as the temporal date field');
+  });
+
+  it('normalizes clip layer filters', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'parcels',
+      geometryOperation: {
+        op: 'clip',
+        clipLayer: 'zoning_districts',
+        clipFilter: [{ field: 'allows_commercial', op: 'eq', value: true }],
+      },
+    };
+
+    const normalized = normalizeStructuredQuery(input);
+    expect(normalized.query.geometryOperation?.clipFilter?.[0]).toEqual({
+      field: 'zone_code',
+      op: 'like',
+      value: 'C%',
+    });
+  });
 });
 
 describe('validateQueryAgainstRegistry', () => {
-  it('flags temporal queries as unsupported', () => {
+  it('flags temporal queries on layers without a date field', () => {
     const input: StructuredQuery = {
       selectLayer: 'parcels',
       temporal: {
@@ -95,6 +133,411 @@ describe('validateQueryAgainstRegistry', () => {
     const issues = validateQueryAgainstRegistry(input, registry);
     expect(issues.some((issue) => issue.path === 'temporal')).toBe(true);
   });
+
+  it('accepts temporal comparisons on a layer date field', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'parcels',
+      temporal: {
+        baseline: { year: 2024 },
+        comparison: { year: 2025 },
+        metric: '*',
+        dateField: 'address',
+      },
+      orderBy: { field: 'percent_change', direction: 'desc' },
+    };
+
+    expect(validateQueryAgainstRegistry(input, registry)).toEqual([]);
+  });
+
+  it('requires a numeric temporal metric', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'parcels',
+      temporal: {
+        baseline: { year: 2024 },
+        comparison: { year: 2025 },
+        metric: 'parcel_id',
+        dateField: 'address',
+      },
+    };
+
+    const issues = validateQueryAgainstRegistry(input, registry);
+    expect(issues.some((issue) => issue.path === 'temporal.metric.parcel_id')).toBe(true);
+  });
+
+  it('validates predicates inside nested where trees', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'parcels',
+      where: {
+        and: [
+          { attribute: { field: 'address', op: 'gt', value: 5 } },
+          { not: { spatial: { op: 'intersects', targetLayer: 'flood_zones' } } },
+        ],
+      },
+    };
+
+    const issues = validateQueryAgainstRegistry(input, registry);
+    expect(issues).toContainEqual({
+      path: 'where.and.0.attribute.address',
+      message: 'Operator "gt" requires a numeric field',
+    });
+    expect(issues).toContainEqual({
+      path: 'where.and.1.not.spatial.targetLayer',
+      message: 'Target layer "flood_zones" is not loaded',
+    });
+  });
+
+  it('requires a polygon layer for spatialGroupBy', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'parcels',
+      aggregate: {
+        groupBy: [],
+        metrics: [{ field: '*', op: 'count', alias: 'parcel_count' }],
+        spatialGroupBy: { layer: 'hydrology' },
+      },
+    };
+
+    const issues = validateQueryAgainstRegistry(input, registry);
+    expect(issues).toContainEqual({
+      path: 'aggregate.spatialGroupBy.layer',
+      message: 'Group layer "hydrology" must be a polygon layer',
+    });
+  });
+
+  it('allows ordering aggregates by metric alias', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'parcels',
+      aggregate: {
+        groupBy: [],
+        metrics: [{ field: '*', op: 'count', alias: 'parcel_count' }],
+        spatialGroupBy: { layer: 'zoning_districts', fields: ['zone_code'] },
+      },
+      orderBy: { field: 'parcel_count', direction: 'desc' },
+    };
+
+    expect(validateQueryAgainstRegistry(input, registry)).toEqual([]);
+  });
+
+  it('flags clip layers that are not loaded', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'parcels',
+      geometryOperation: { op: 'clip', clipLayer: 'flood_zones' },
+    };
+
+    const issues = validateQueryAgainstRegistry(input, registry);
+    expect(issues).toContainEqual({
+      path: 'geometryOperation.clipLayer',
+      message: 'Clip layer "flood_zones" is not loaded',
+    });
+  });
+
+  it('checks nearest-target fields and allows ordering by distance', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'parcels',
+      spatialFilters: [
+        { op: 'within_distance', targetLayer: 'hydrology', distance: 500, targetFields: ['name', 'flow'] },
+      ],
+      orderBy: { field: 'hydrology_distance_m', direction: 'asc' },
+    };
+
+    const issues = validateQueryAgainstRegistry(input, registry);
+    expect(issues).toEqual([
+      {
+        path: 'spatialFilters.0.targetFields.flow',
+        message: 'Field "flow" is not queryable on "hydrology"',
+      },
+    ]);
+  });
+
+  it('rejects nearest-target columns inside where trees', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'parcels',
+      where: {
+        spatial: { op: 'within_distance', targetLayer: 'hydrology', distance: 500, includeNearestTarget: true },
+      },
+    };
+
+    const issues = validateQueryAgainstRegistry(input, registry);
+    expect(issues.some((issue) => issue.path === 'where.spatial.includeNearestTarget')).toBe(true);
+  });
+
+  it('requires polygon enrichment layers with known fields', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'parcels',
+      enrich: [
+        { layer: 'zoning_districts', fields: ['zone_code', 'height_limit'] },
+        { layer: 'hydrology', fields: ['name'] },
+      ],
+      orderBy: { field: 'zoning_districts_zone_code', direction: 'asc' },
+    };
+
+    const issues = validateQueryAgainstRegistry(input, registry);
+    expect(issues).toEqual([
+      {
+        path: 'enrich.0.fields.height_limit',
+        message: 'Field "height_limit" is not queryable on "zoning_districts"',
+      },
+      {
+        path: 'enrich.1.layer',
+        message: 'Enrichment layer "hydrology" must be a polygon layer',
+      },
+    ]);
+  });
+
+  it('accepts numeric measure fields in filters, ordering and metrics', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'hydrology',
+      attributeFilters: [{ field: 'length_m', op: 'gt', value: 1000 }],
+      orderBy: { field: 'length_m', direction: 'desc' },
+    };
+    expect(validateQueryAgainstRegistry(input, registry)).toEqual([]);
+
+    const aggregate: StructuredQuery = {
+      selectLayer: 'hydrology',
+      aggregate: { groupBy: ['name'], metrics: [{ field: 'length_m', op: 'sum' }] },
+    };
+    expect(validateQueryAgainstRegistry(aggregate, registry)).toEqual([]);
+  });
+
+  it('accepts overlap columns as numeric filters and requires polygon layers', () => {
+    const valid: StructuredQuery = {
+      selectLayer: 'parcels',
+      overlap: { targetLayer: 'zoning_districts' },
+      attributeFilters: [{ field: 'overlap_pct', op: 'gte', value: 50 }],
+      orderBy: { field: 'overlap_area_m2', direction: 'desc' },
+    };
+    expect(validateQueryAgainstRegistry(valid, registry)).toEqual([]);
+
+    const lineTarget: StructuredQuery = {
+      selectLayer: 'parcels',
+      overlap: { targetLayer: 'hydrology' },
+    };
+    expect(validateQueryAgainstRegistry(lineTarget, registry)).toEqual([
+      {
+        path: 'overlap.targetLayer',
+        message: 'Overlap layer "hydrology" must be a polygon layer',
+      },
+    ]);
+  });
+
+  it('requires point layers and density output columns for density', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'parcels',
+      density: { method: 'hotspot', zoneLayer: 'zoning_districts' },
+      orderBy: { field: 'zone_code', direction: 'asc' },
+    };
+    expect(validateQueryAgainstRegistry(input, registry)).toEqual([
+      { path: 'density', message: 'Density analysis requires a point select layer' },
+    ]);
+
+    const grid: StructuredQuery = {
+      selectLayer: 'parcels',
+      density: { method: 'grid' },
+      orderBy: { field: 'assessed_value', direction: 'desc' },
+    };
+    const issues = validateQueryAgainstRegistry(grid, registry);
+    expect(issues).toContainEqual({
+      path: 'orderBy.assessed_value',
+      message: 'Density results can only be ordered by cell_id, point_count',
+    });
+  });
+
+  it('checks inline geometry targets without a layer lookup', () => {
+    const valid: StructuredQuery = {
+      selectLayer: 'parcels',
+      spatialFilters: [
+        {
+          op: 'within_distance',
+          targetLayer: '$geometry',
+          targetGeometry: { type: 'Point', coordinates: [-105.94, 35.687] },
+          distance: 300,
+        },
+      ],
+    };
+    expect(validateQueryAgainstRegistry(valid, registry)).toEqual([]);
+    expect(getQuerySourceLayers(valid)).toEqual(['parcels']);
+
+    const withTargetOptions: StructuredQuery = {
+      selectLayer: 'parcels',
+      spatialFilters: [
+        {
+          op: 'within_distance',
+          targetLayer: '$geometry',
+          targetFilter: [{ field: 'address', op: 'eq', value: '100 Canyon Rd' }],
+          distance: 300,
+          includeNearestTarget: true,
+        },
+      ],
+    };
+    expect(validateQueryAgainstRegistry(withTargetOptions, registry)).toEqual(
+      expect.arrayContaining([
+        { path: 'spatialFilters.0.targetGeometry', message: 'Target "$geometry" requires targetGeometry' },
+        {
+          path: 'spatialFilters.0.targetFilter',
+          message: 'targetFilter is not available for inline geometry targets',
+        },
+        {
+          path: 'spatialFilters.0.includeNearestTarget',
+          message: 'Nearest-target columns are not available for inline geometry targets',
+        },
+      ])
+    );
+  });
+
+  it('checks result set targets against the conversation', () => {
+    const previous: StructuredQuery = { selectLayer: 'hydrology', limit: 50 };
+    const query: StructuredQuery = {
+      selectLayer: 'parcels',
+      spatialFilters: [{ op: 'within_distance', targetLayer: '$previous', distance: 100 }],
+    };
+    expect(validateQueryAgainstRegistry(query, registry, { $previous: previous })).toEqual([]);
+    expect(getQuerySourceLayers(query)).toEqual(['parcels']);
+
+    expect(validateQueryAgainstRegistry(query, registry)).toEqual([
+      {
+        path: 'spatialFilters.0.targetLayer',
+        message: 'Result set "$previous" is not available in this conversation',
+      },
+    ]);
+
+    const summary: StructuredQuery = {
+      selectLayer: 'parcels',
+      aggregate: { groupBy: ['address'], metrics: [{ field: 'parcel_id', op: 'count' }] },
+    };
+    expect(validateQueryAgainstRegistry(query, registry, { $previous: summary })).toEqual([
+      {
+        path: 'spatialFilters.0.targetLayer',
+        message: 'Result set "$previous" is a summary without geometry and cannot be a spatial target',
+      },
+    ]);
+  });
+
+  it('keys cached results on the saved queries a target references', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'parcels',
+      spatialFilters: [{ op: 'intersects', targetLayer: '$previous' }],
+    };
+    const first = getQueryHash(query, { $previous: { selectLayer: 'hydrology' } });
+    const second = getQueryHash(query, { $previous: { selectLayer: 'zoning_districts' } });
+    expect(first).not.toBe(second);
+    expect(getQueryHash({ selectLayer: 'parcels' }, { $previous: { selectLayer: 'hydrology' } })).toBe(
+      getQueryHash({ selectLayer: 'parcels' })
+    );
+  });
+
+  it('flags dissolve ordering by fields other than groupBy', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'zoning_districts',
+      geometryOperation: { op: 'dissolve', groupBy: 'zone_code' },
+      orderBy: { field: 'zone_name', direction: 'asc' },
+    };
+
+    const issues = validateQueryAgainstRegistry(input, registry);
+    expect(issues.some((issue) => issue.path === 'orderBy.zone_name')).toBe(true);
+  });
+});
+
+describe('applyDrawnShape', () => {
+  const parsed: StructuredQuery = {
+    selectLayer: 'parcels',
+    spatialFilters: [
+      { op: 'intersects', targetLayer: 'zoning_districts' },
+      { op: 'intersects', targetLayer: 'hydrology' },
+    ],
+    spatialLogic: 'or',
+    where: { attribute: { field: 'assessed_value', op: 'gt', value: 500000 } },
+  };
+
+  it('ANDs a drawn polygon or point into the filter tree', () => {
+    const polygon = {
+      type: 'Polygon' as const,
+      coordinates: [[
+        [-105.95, 35.68],
+        [-105.93, 35.68],
+        [-105.93, 35.7],
+        [-105.95, 35.68],
+      ]] as [number, number][][],
+    };
+    const limited = applyDrawnShape(parsed, { type: 'polygon', geometry: polygon });
+
+    expect(limited.spatialFilters).toEqual(parsed.spatialFilters);
+    expect(limited.where).toEqual({
+      and: [
+        parsed.where,
+        { spatial: { op: 'intersects', targetLayer: '$geometry', targetGeometry: polygon } },
+      ],
+    });
+
+    const aroundPoint = applyDrawnShape(
+      { selectLayer: 'parcels' },
+      {
+        type: 'point',
+        geometry: { type: 'Point', coordinates: [-105.94, 35.687] },
+        radiusMeters: 250,
+      }
+    );
+    expect(aroundPoint.where).toEqual({
+      spatial: {
+        op: 'within_distance',
+        targetLayer: '$geometry',
+        targetGeometry: { type: 'Point', coordinates: [-105.94, 35.687] },
+        distance: 250,
+      },
+    });
+  });
+
+  it('turns a drawn rectangle into the query bbox', () => {
+    const limited = applyDrawnShape(parsed, {
+      type: 'rectangle',
+      bbox: [-105.97, 35.66, -105.92, 35.7],
+    });
+
+    expect(limited.bbox).toEqual([-105.97, 35.66, -105.92, 35.7]);
+    expect(limited.where).toEqual(parsed.where);
+    expect(parsed.bbox).toBeUndefined();
+  });
+});
+
+describe('getContextLayerQueries', () => {
+  it('returns one query per distinct filtered target layer', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'parcels',
+      spatialFilters: [
+        { op: 'intersects', targetLayer: 'zoning_districts', targetFilter: [{ field: 'zone_code', op: 'eq', value: 'C-2' }] },
+        { op: 'within_distance', targetLayer: 'hydrology', distance: 100 },
+        { op: 'within_distance', targetLayer: 'parcels', distance: 50 },
+        { op: 'intersects', targetLayer: '$previous' },
+      ],
+      where: {
+        or: [
+          { spatial: { op: 'not_intersects', targetLayer: 'hydrology' } },
+          { spatial: { op: 'intersects', targetLayer: '$geometry', targetGeometry: { type: 'Point', coordinates: [-105.94, 35.687] } } },
+        ],
+      },
+    };
+
+    expect(getContextLayerQueries(query)).toEqual([
+      { selectLayer: 'zoning_districts', attributeFilters: [{ field: 'zone_code', op: 'eq', value: 'C-2' }] },
+      { selectLayer: 'hydrology' },
+    ]);
+  });
+
+  it('includes the overlap target and caps the number of layers', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'census_tracts',
+      spatialFilters: [
+        { op: 'intersects', targetLayer: 'parks' },
+        { op: 'intersects', targetLayer: 'neighborhoods' },
+        { op: 'intersects', targetLayer: 'hydrology' },
+      ],
+      overlap: { targetLayer: 'flood_zones' },
+    };
+
+    expect(getContextLayerQueries(query).map((contextQuery) => contextQuery.selectLayer)).toEqual([
+      'parks',
+      'neighborhoods',
+      'hydrology',
+    ]);
+  });
 });
 
 describe('applyQueryLimits', () => {
@@ -106,6 +549,20 @@ describe('applyQueryLimits', () => {
     expect(result.query.limit).toBeGreaterThan(0);
   });
 
+  it('uses the group layer geometry for spatial aggregate limits', () => {
+    const input: StructuredQuery = {
+      selectLayer: 'hydrology',
+      aggregate: {
+        groupBy: [],
+        metrics: [{ field: '*', op: 'count' }],
+        spatialGroupBy: { layer: 'zoning_districts' },
+      },
+    };
+    const result = applyQueryLimits(input, registry);
+
+    expect(result.hardCap).toBe(applyQueryLimits({ selectLayer: 'parcels' }, registry).hardCap);
+  });
+
   it('caps limits over hard cap and marks truncated', () => {
     const input: StructuredQuery = {
       selectLayer: 'parcels',
@@ -12,6 +12,11 @@ import chatRoute, {
   setLayerRegistry as setChatLayerRegistry,
   setLLMClientForTests,
 } from '../src/routes/chat';
+import conversationsRoute, {
+  setDatabase as setConversationsDatabase,
+  setLayerRegistry as setConversationsLayerRegistry,
+} from '../src/routes/conversations';
+import shareRoute, { setLayerRegistry as setShareLayerRegistry } from '../src/routes/share';
 import templatesRoute, {
   setAvailableLayers as setTemplateAvailableLayers,
 } from '../src/routes/templates';
@@ -20,7 +25,7 @@ import {
   buildLayerRegistry,
   type LayerRegistry,
 } from '../src/lib/layers/registry';
-import type { LLMClient } from '../src/lib/llm/types';
+import { LLMProviderError, type LLMClient } from '../src/lib/llm/types';
 import { __clearConversationSessionsForTests } from '../src/lib/conversation/store';
 import { clearAllCaches } from '../src/lib/cache';
 
@@ -38,12 +43,17 @@ beforeAll(async () => {
   setQueryLayerRegistry(layerRegistry);
   setChatDatabase(db);
   setChatLayerRegistry(layerRegistry);
+  setConversationsDatabase(db);
+  setConversationsLayerRegistry(layerRegistry);
+  setShareLayerRegistry(layerRegistry);
   setTemplateAvailableLayers(layerRegistry.loadedLayerNames);
 
   app = new Hono();
   app.route('/api/layers', layersRoute);
   app.route('/api/query', queryRoute);
   app.route('/api/chat', chatRoute);
+  app.route('/api/conversations', conversationsRoute);
+  app.route('/api/share', shareRoute);
   app.route('/api/templates', templatesRoute);
 }, 120000);
 
@@ -224,10 +234,15 @@ describe('/api/chat', () => {
     const firstBody = (await first.json()) as {
       conversationId?: string;
       conversationTurn: number;
+      metadata: { llm?: { parse?: unknown; narrative?: unknown } };
     };
 
     expect(first.status).toBe(200);
     expect(firstBody.conversationId).toBeDefined();
+    expect(firstBody.metadata.llm).toEqual({
+      parse: { provider: 'test-provider', model: 'test-model' },
+      narrative: { provider: 'test-provider', model: 'test-model' },
+    });
     expect(firstBody.conversationTurn).toBe(1);
 
     const second = await app.request('/api/chat', {
@@ -289,6 +304,475 @@ describe('/api/chat', () => {
     const body = (await response.json()) as { conversationId?: string };
     expect(body.conversationId).toBeDefined();
   });
+
+  it('answers patterned queries with the rule parser when the LLM is down', async () => {
+    __clearConversationSessionsForTests();
+    clearAllCaches();
+    setLLMClientForTests({
+      providerName: 'test-provider',
+      modelName: 'test-model',
+      complete: async () => {
+        throw new LLMProviderError('Cannot connect', { provider: 'test-provider', model: 'test-model', kind: 'network' });
+      },
+    });
+
+    const response = await app.request('/api/chat', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ message: 'Parcels larger than 1 acre' }),
+    });
+
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as {
+      query: { selectLayer: string };
+      confidence: number;
+      metadata: { parser?: string; llm?: unknown };
+    };
+    expect(body.query.selectLayer).toBe('parcels');
+    expect(body.confidence).toBeLessThan(0.8);
+    expect(body.metadata.parser).toBe('rules');
+    expect(body.metadata.llm).toBeUndefined();
+  });
+
+  it('asks the model to repair a query that does not match the loaded data', async () => {
+    __clearConversationSessionsForTests();
+    clearAllCaches();
+    const parsePrompts: string[] = [];
+    setLLMClientForTests({
+      providerName: 'test-provider',
+      modelName: 'test-model',
+      complete: async (prompt: string) => {
+        if (!prompt.includes('<user_query>')) {
+          return 'Server-generated explanation.';
+        }
+        parsePrompts.push(prompt);
+        return parsePrompts.length === 1
+          ? JSON.stringify({ selectLayer: 'parcels', orderBy: { field: 'market_value', direction: 'desc' }, limit: 1 })
+          : JSON.stringify({ selectLayer: 'parcels', orderBy: { field: 'assessed_value', direction: 'desc' }, limit: 1 });
+      },
+    });
+
+    const response = await app.request('/api/chat', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ message: 'Most valuable parcel' }),
+    });
+
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as {
+      query: { orderBy?: { field: string } };
+      metadata: { parseAttempts?: Array<{ attempt: number; outcome: string; issues?: string[] }> };
+    };
+    expect(parsePrompts).toHaveLength(2);
+    expect(parsePrompts[1]).toContain('market_value');
+    expect(body.query.orderBy?.field).toBe('assessed_value');
+    expect(body.metadata.parseAttempts).toHaveLength(2);
+    expect(body.metadata.parseAttempts?.[1]).toEqual({ attempt: 2, outcome: 'valid' });
+  });
+
+  it('asks which data a message is about when no query comes of it', async () => {
+    __clearConversationSessionsForTests();
+    clearAllCaches();
+    const parsePrompts: string[] = [];
+    setLLMClientForTests({
+      providerName: 'test-provider',
+      modelName: 'test-model',
+      complete: async (prompt: string) => {
+        if (!prompt.includes('<user_query>')) {
+          return 'Server-generated explanation.';
+        }
+        parsePrompts.push(prompt);
+        return parsePrompts.length === 1
+          ? 'I am not sure which records you mean.'
+          : JSON.stringify({ selectLayer: 'parcels', limit: 1 });
+      },
+    });
+    const send = (message: string, conversationId?: string) => app.request('/api/chat', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ message, conversationId }),
+    });
+
+    const question = await send('Which parcels feel the most charming');
+    expect(question.status).toBe(200);
+    const questionBody = (await question.json()) as {
+      conversationId: string;
+      clarification: { reason: string; choices: Array<{ label: string; kind: string; layer: string }> };
+      parseAttempts?: Array<{ attempt: number; outcome: string }>;
+    };
+    expect(questionBody.clarification.reason).toBe('unparsed_query');
+    expect(questionBody.parseAttempts).toEqual([{ attempt: 1, outcome: 'invalid_json' }]);
+    expect(questionBody.clarification.choices).toEqual([{ label: 'parcels', kind: 'layer', layer: 'parcels' }]);
+
+    const answer = await send('Parcels', questionBody.conversationId);
+    expect(answer.status).toBe(200);
+    const answerBody = (await answer.json()) as { query: { selectLayer: string }; conversationTurn: number };
+    expect(parsePrompts[1]).toContain('Which parcels feel the most charming (parcels)');
+    expect(answerBody.query.selectLayer).toBe('parcels');
+    expect(answerBody.conversationTurn).toBe(1);
+  });
+
+  it('asks for a field once a picked layer still does not parse, then stops asking', async () => {
+    __clearConversationSessionsForTests();
+    clearAllCaches();
+    setLLMClientForTests({
+      providerName: 'test-provider',
+      modelName: 'test-model',
+      complete: async () => 'I am not sure which records you mean.',
+    });
+    const send = (message: string, conversationId?: string) => app.request('/api/chat', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ message, conversationId }),
+    });
+
+    const layerQuestion = (await (await send('Which parcels feel the most charming')).json()) as {
+      conversationId: string;
+      clarification: { choices: Array<{ kind: string }> };
+    };
+    expect(layerQuestion.clarification.choices.map((choice) => choice.kind)).toEqual(['layer']);
+
+    const fieldQuestion = await send('parcels', layerQuestion.conversationId);
+    expect(fieldQuestion.status).toBe(200);
+    const fieldBody = (await fieldQuestion.json()) as {
+      clarification: { reason: string; choices: Array<{ label: string; kind: string; layer?: string }> };
+    };
+    expect(fieldBody.clarification.reason).toBe('unparsed_query');
+    expect(fieldBody.clarification.choices.length).toBeGreaterThan(0);
+    for (const choice of fieldBody.clarification.choices) {
+      expect(choice).toMatchObject({ kind: 'field', layer: 'parcels' });
+    }
+
+    const failure = await send('1', layerQuestion.conversationId);
+    expect(failure.status).toBe(500);
+    const failureBody = (await failure.json()) as { error: string; parseAttempts?: Array<{ outcome: string }> };
+    expect(failureBody.error).toBe('LLM model error');
+    expect(failureBody.parseAttempts).toEqual([{ attempt: 1, outcome: 'invalid_json' }]);
+  });
+
+  it('asks which field to use when the query does not match the loaded data', async () => {
+    __clearConversationSessionsForTests();
+    clearAllCaches();
+    const parsePrompts: string[] = [];
+    setLLMClientForTests({
+      providerName: 'test-provider',
+      modelName: 'test-model',
+      complete: async (prompt: string) => {
+        if (!prompt.includes('<user_query>')) {
+          return 'Server-generated explanation.';
+        }
+        parsePrompts.push(prompt);
+        return prompt.includes('(assessed_value)')
+          ? JSON.stringify({ selectLayer: 'parcels', orderBy: { field: 'assessed_value', direction: 'desc' }, limit: 1 })
+          : JSON.stringify({ selectLayer: 'parcels', orderBy: { field: 'market_value', direction: 'desc' }, limit: 1 });
+      },
+    });
+    const send = (message: string, conversationId?: string) => app.request('/api/chat', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ message, conversationId }),
+    });
+
+    const question = await send('Most valuable parcel');
+    expect(question.status).toBe(200);
+    const questionBody = (await question.json()) as {
+      conversationId: string;
+      clarification: { reason: string; choices: Array<{ label: string; kind: string }> };
+      parseAttempts?: Array<{ outcome: string }>;
+    };
+    expect(questionBody.clarification.reason).toBe('unmatched_query');
+    expect(questionBody.clarification.choices.map((choice) => choice.label)).toContain('assessed value');
+    expect(questionBody.parseAttempts?.at(-1)?.outcome).toBe('registry_invalid');
+
+    const answer = await send('assessed value', questionBody.conversationId);
+    expect(answer.status).toBe(200);
+    const answerBody = (await answer.json()) as { query: { orderBy?: { field: string } } };
+    expect(answerBody.query.orderBy?.field).toBe('assessed_value');
+  });
+
+  it('streams grounding, query, features and summary before done', async () => {
+    __clearConversationSessionsForTests();
+    clearAllCaches();
+    const client: LLMClient = {
+      providerName: 'test-provider',
+      modelName: 'test-model',
+      complete: async (prompt: string) => {
+        if (prompt.includes('<user_query>')) {
+          return JSON.stringify({ selectLayer: 'parcels', limit: 3 });
+        }
+        return 'Streamed narrative.';
+      },
+    };
+    setLLMClientForTests(client);
+
+    const response = await app.request('/api/chat/stream', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ message: 'Show parcels' }),
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    const events = (await response.text())
+      .split('\n\n')
+      .filter((block) => block.trim() !== '')
+      .map((block) => {
+        const lines = block.split('\n');
+        const event = lines.find((line) => line.startsWith('event: '))?.slice(7);
+        const data = lines
+          .filter((line) => line.startsWith('data: '))
+          .map((line) => line.slice(6))
+          .join('\n');
+        return { event, data: JSON.parse(data) as Record<string, unknown> };
+      });
+
+    expect(events.map((e) => e.event)).toEqual([
+      'grounding',
+      'query',
+      'features',
+      'summary',
+      'narrative',
+      'done',
+    ]);
+    const features = events[2]!.data as { features: unknown[]; chunk: number; chunks: number };
+    expect(features.features).toHaveLength(3);
+    expect(features).toMatchObject({ chunk: 1, chunks: 1 });
+    expect(events[4]!.data).toEqual({ delta: 'Streamed narrative.' });
+    const done = events[5]!.data as { conversationTurn: number; explanation: string; result?: unknown };
+    expect(done.conversationTurn).toBe(1);
+    expect(done.explanation).toBe('Streamed narrative.');
+    expect(done.result).toBeUndefined();
+  });
+
+  it('limits the parsed query to a drawn rectangle', async () => {
+    __clearConversationSessionsForTests();
+    clearAllCaches();
+    const client: LLMClient = {
+      providerName: 'test-provider',
+      modelName: 'test-model',
+      complete: async (prompt: string) => {
+        if (prompt.includes('<user_query>')) {
+          expect(prompt).toContain('Results are automatically limited to the drawn area');
+          return JSON.stringify({ selectLayer: 'parks', limit: 50 });
+        }
+        return 'Server-generated explanation.';
+      },
+    };
+    setLLMClientForTests(client);
+
+    const response = await app.request('/api/chat', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        message: 'Show parks in this area',
+        drawnShape: { type: 'rectangle', bbox: [-105.97, 35.66, -105.92, 35.7] },
+      }),
+    });
+
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as { query: { bbox?: number[] } };
+    expect(body.query.bbox).toEqual([-105.97, 35.66, -105.92, 35.7]);
+  });
+
+  it('returns the filtered target layer as a context layer', async () => {
+    __clearConversationSessionsForTests();
+    clearAllCaches();
+    const client: LLMClient = {
+      providerName: 'test-provider',
+      modelName: 'test-model',
+      complete: async (prompt: string) => {
+        if (prompt.includes('<user_query>')) {
+          return JSON.stringify({
+            selectLayer: 'parcels',
+            spatialFilters: [{ op: 'within_distance', targetLayer: 'parks', distance: 200 }],
+            limit: 5,
+          });
+        }
+        return 'Server-generated explanation.';
+      },
+    };
+    setLLMClientForTests(client);
+
+    const response = await app.request('/api/chat', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ message: 'Parcels near parks' }),
+    });
+
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as {
+      contextLayers?: { layer: string; result: { features: unknown[]; metadata: { count: number } } }[];
+    };
+    expect(body.contextLayers?.map((context) => context.layer)).toEqual(['parks']);
+    expect(body.contextLayers?.[0]?.result.metadata.count).toBe(
+      body.contextLayers?.[0]?.result.features.length
+    );
+  });
+
+  it('returns 400 for an open drawn polygon ring', async () => {
+    const response = await app.request('/api/chat', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        message: 'Show parcels here',
+        drawnShape: {
+          type: 'polygon',
+          geometry: {
+            type: 'Polygon',
+            coordinates: [[[-105.95, 35.68], [-105.93, 35.68], [-105.93, 35.7], [-105.94, 35.7]]],
+          },
+        },
+      }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('/api/conversations', () => {
+  it('returns turn history and replays it against current data', async () => {
+    __clearConversationSessionsForTests();
+    clearAllCaches();
+    const client: LLMClient = {
+      providerName: 'test-provider',
+      modelName: 'test-model',
+      complete: async (prompt: string) => {
+        if (prompt.includes('<user_query>')) {
+          return prompt.includes('Saved result sets')
+            ? JSON.stringify({
+              selectLayer: 'parcels',
+              limit: 5,
+              spatialFilters: [{ op: 'within_distance', targetLayer: '$previous', distance: 100 }],
+            })
+            : JSON.stringify({ selectLayer: 'parcels', limit: 1 });
+        }
+        return 'Server-generated explanation.';
+      },
+    };
+    setLLMClientForTests(client);
+
+    const first = await app.request('/api/chat', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ message: 'Show a parcel' }),
+    });
+    const { conversationId } = (await first.json()) as { conversationId: string };
+    await app.request('/api/chat', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ message: 'Parcels near that one', conversationId }),
+    });
+
+    const history = await app.request(`/api/conversations/${conversationId}`);
+    expect(history.status).toBe(200);
+    const historyBody = (await history.json()) as {
+      conversationId: string;
+      turns: Array<{ turn: number; message: string; queryHash: string; featureCount: number }>;
+    };
+    expect(historyBody.conversationId).toBe(conversationId);
+    expect(historyBody.turns.map((turn) => turn.message)).toEqual([
+      'Show a parcel',
+      'Parcels near that one',
+    ]);
+    expect(historyBody.turns[0]?.queryHash).toMatch(/\S+/);
+
+    const replay = await app.request(`/api/conversations/${conversationId}/replay`, {
+      method: 'POST',
+    });
+    expect(replay.status).toBe(200);
+    const replayBody = (await replay.json()) as {
+      turns: Array<{ featureCount: number; previousFeatureCount: number; error?: string }>;
+      result: { features: unknown[] } | null;
+    };
+    expect(replayBody.turns).toHaveLength(historyBody.turns.length);
+    expect(replayBody.turns.map((turn) => turn.error)).toEqual([undefined, undefined]);
+    expect(replayBody.turns[0]?.featureCount).toBe(replayBody.turns[0]?.previousFeatureCount);
+    expect(replayBody.result?.features).toHaveLength(replayBody.turns[1]!.featureCount);
+  });
+
+  it('returns 404 for unknown conversations', async () => {
+    const history = await app.request('/api/conversations/00000000-0000-0000-0000-000000000000');
+    expect(history.status).toBe(404);
+
+    const replay = await app.request('/api/conversations/missing/replay', { method: 'POST' });
+    expect(replay.status).toBe(404);
+  });
+});
+
+describe('/api/share', () => {
+  it('stores a query with its hash and data vintage and returns it by id', async () => {
+    const response = await app.request('/api/share', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        query: { selectLayer: 'parcels', limit: 5 },
+        mapView: { center: [-105.94, 35.69], zoom: 14 },
+        style: { choroplethField: null },
+      }),
+    });
+    expect(response.status).toBe(201);
+    const shared = (await response.json()) as {
+      id: string;
+      query: { selectLayer: string; limit?: number };
+      queryHash: string;
+      registryGeneratedAt: string;
+      mapView?: { zoom: number };
+    };
+    expect(shared.id).toMatch(/^[A-Za-z0-9_-]{12}$/);
+    expect(shared.query.selectLayer).toBe('parcels');
+    expect(shared.registryGeneratedAt).toBe(layerRegistry.generatedAt);
+    expect(shared.mapView?.zoom).toBe(14);
+
+    const query = await app.request('/api/query', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ query: shared.query }),
+    });
+    const queryBody = (await query.json()) as { metadata: { queryHash: string } };
+    expect(queryBody.metadata.queryHash).toBe(shared.queryHash);
+
+    const fetched = await app.request(`/api/share/${shared.id}`);
+    expect(fetched.status).toBe(200);
+    expect(await fetched.json()).toEqual(shared);
+  });
+
+  it('rejects invalid queries and result set targets', async () => {
+    const unknownLayer = await app.request('/api/share', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ query: { selectLayer: 'not_a_layer' } }),
+    });
+    expect(unknownLayer.status).toBe(400);
+
+    const resultSet = await app.request('/api/share', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        query: {
+          selectLayer: 'parcels',
+          spatialFilters: [{ op: 'intersects', targetLayer: '$previous' }],
+        },
+      }),
+    });
+    expect(resultSet.status).toBe(400);
+    expect(((await resultSet.json()) as { error: string }).error)
+      .toBe('Query builds on earlier chat results');
+
+    const badView = await app.request('/api/share', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        query: { selectLayer: 'parcels' },
+        mapView: { center: [-200, 35.69], zoom: 12 },
+      }),
+    });
+    expect(badView.status).toBe(400);
+  });
+
+  it('returns 404 for unknown shares', async () => {
+    const response = await app.request('/api/share/aaaaaaaaaaaa');
+    expect(response.status).toBe(404);
+  });
 });
 
 describe('/api/templates', () => {
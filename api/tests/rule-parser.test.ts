@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { parseWithRules, type RuleParserOptions } from '../src/lib/orchestrator/rule-parser';
+import { Gazetteer } from '../src/lib/geocoding/gazetteer';
+
+const options: RuleParserOptions = {
+  availableLayers: new Set(),
+  availableLayerFields: new Map(),
+};
+
+function parse(query: string, overrides?: Partial<RuleParserOptions>) {
+  return parseWithRules(query, { ...options, ...overrides });
+}
+
+describe('parseWithRules', () => {
+  it('parses a layer with a measure comparison', () => {
+    expect(parse('parks larger than 10 acres')?.query).toEqual({
+      selectLayer: 'parks',
+      attributeFilters: [{ field: 'acres', op: 'gt', value: 10 }],
+    });
+    expect(parse('neighborhoods smaller than 50 acres')?.query.attributeFilters).toEqual([
+      { field: 'area_acres', op: 'lt', value: 50 },
+    ]);
+  });
+
+  it('parses distance phrases into meters', () => {
+    expect(parse('parcels within 500 m of transit stops')?.query).toEqual({
+      selectLayer: 'parcels',
+      spatialFilters: [{ op: 'within_distance', targetLayer: 'transit_access', distance: 500 }],
+    });
+    expect(parse('Buildings within 0.5 miles of bus stops')?.query.spatialFilters).toEqual([
+      {
+        op: 'within_distance',
+        targetLayer: 'transit_access',
+        targetFilter: [{ field: 'stop_type', op: 'eq', value: 'bus' }],
+        distance: 805,
+      },
+    ]);
+    expect(parse('parcels more than 1 km from parks')?.query.spatialFilters).toEqual([
+      { op: 'beyond_distance', targetLayer: 'parks', distance: 1000 },
+    ]);
+  });
+
+  it('maps near, inside, in and intersecting to spatial ops', () => {
+    const ops = (query: string) => parse(query)?.query.spatialFilters?.map((filter) => filter.op);
+
+    expect(parse('parcels near parks')?.query.spatialFilters?.[0]).toMatchObject({
+      op: 'within_distance',
+      distance: 500,
+    });
+    expect(ops('parcels inside historic districts')).toEqual(['within']);
+    expect(ops('parcels in flood zones')).toEqual(['intersects']);
+    expect(ops('bike lanes intersecting flood zones')).toEqual(['intersects']);
+    expect(ops('parcels not in flood zones')).toEqual(['not_intersects']);
+    expect(ops('parcels far from transit')).toEqual(['beyond_distance']);
+  });
+
+  it('combines comparisons with spatial filters', () => {
+    expect(parse('Parcels with assessed value over $500,000 in flood zones')?.query).toEqual({
+      selectLayer: 'parcels',
+      attributeFilters: [{ field: 'assessed_value', op: 'gt', value: 500000 }],
+      spatialFilters: [{ op: 'intersects', targetLayer: 'flood_zones' }],
+    });
+    expect(parse('census tracts where median income is below 40k')?.query.attributeFilters).toEqual([
+      { field: 'median_income', op: 'lt', value: 40000 },
+    ]);
+  });
+
+  it('attaches comparisons after a target to the target filter', () => {
+    expect(parse('parcels near parks larger than 10 acres')?.query).toEqual({
+      selectLayer: 'parcels',
+      spatialFilters: [{
+        op: 'within_distance',
+        targetLayer: 'parks',
+        targetFilter: [{ field: 'acres', op: 'gt', value: 10 }],
+        distance: 500,
+      }],
+    });
+  });
+
+  it('understands the Spanish vocabulary', () => {
+    expect(parse('Parcelas a menos de 300 metros de paradas de autobús')?.query).toEqual({
+      selectLayer: 'parcels',
+      spatialFilters: [{
+        op: 'within_distance',
+        targetLayer: 'transit_access',
+        targetFilter: [{ field: 'stop_type', op: 'eq', value: 'bus' }],
+        distance: 300,
+      }],
+    });
+    expect(parse('parcelas con valor tasado mayor a 300000 en zonas inundables')?.query).toEqual({
+      selectLayer: 'parcels',
+      attributeFilters: [{ field: 'assessed_value', op: 'gt', value: 300000 }],
+      spatialFilters: [{ op: 'intersects', targetLayer: 'flood_zones' }],
+    });
+    expect(parse('acequias cerca de parques')?.query).toEqual({
+      selectLayer: 'hydrology',
+      attributeFilters: [{ field: 'type', op: 'eq', value: 'ACEQUIA' }],
+      spatialFilters: [{ op: 'within_distance', targetLayer: 'parks', distance: 500 }],
+    });
+  });
+
+  it('targets gazetteer places', () => {
+    const gazetteer = new Gazetteer([
+      { name: 'Railyard Park', layer: 'parks', field: 'name', kind: 'place' },
+    ]);
+
+    expect(parse('parcels within 200 m of Railyard Park', { gazetteer })?.query.spatialFilters).toEqual([
+      {
+        op: 'within_distance',
+        targetLayer: 'parks',
+        targetFilter: [{ field: 'name', op: 'eq', value: 'Railyard Park' }],
+        distance: 200,
+      },
+    ]);
+  });
+
+  it('lowers confidence for words it does not understand', () => {
+    const plain = parse('parks larger than 10 acres');
+    const vague = parse('parks larger than 10 acres with good shade trees');
+
+    expect(plain?.confidence).toBe(0.5);
+    expect(vague?.confidence).toBeLessThan(0.5);
+    expect(parse('show me all parcels')?.confidence).toBe(0.5);
+  });
+
+  it('gives up on queries it cannot account for', () => {
+    expect(parse('what is the weather like today')).toBeNull();
+    expect(parse('which tracts gentrified fastest')).toBeNull();
+    expect(parse('parcels that are not zoned residential')).toBeNull();
+    expect(parse('parcels in flood zones or near arroyos')).toBeNull();
+    expect(parse('rank neighborhoods by the change in median rent since 2019 per capita')).toBeNull();
+  });
+
+  it('only uses loaded layers and queryable fields', () => {
+    expect(parse('parcels near parks', { availableLayers: new Set(['parcels']) })).toBeNull();
+
+    // Dropping the comparison would answer a different question
+    expect(parse('parcels with assessed value over 500000', {
+      availableLayerFields: new Map([['parcels', new Set(['parcel_id', 'acres'])]]),
+    })).toBeNull();
+  });
+});
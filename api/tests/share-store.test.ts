@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileShareStore, MemoryShareStore } from '../src/lib/share/store';
+import type { SharedView } from '../src/lib/share/store';
+
+const SHARE_ID_RE = /^[A-Za-z0-9_-]{12}$/;
+
+const view: Omit<SharedView, 'id' | 'createdAt'> = {
+  query: { selectLayer: 'parcels', limit: 10 },
+  queryHash: 'abc123',
+  registryGeneratedAt: '2026-04-30T00:00:00.000Z',
+  mapView: { center: [-105.94, 35.69], zoom: 13 },
+  style: { choroplethField: null },
+};
+
+describe('memory share store', () => {
+  it('stores views under short URL-safe ids', async () => {
+    const store = new MemoryShareStore();
+    const shared = await store.create(view);
+
+    expect(shared.id).toMatch(SHARE_ID_RE);
+    expect(shared.createdAt).toEqual(expect.any(String));
+    expect(await store.get(shared.id)).toEqual(shared);
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('drops the oldest share when full', async () => {
+    const store = new MemoryShareStore(2);
+    const first = await store.create(view);
+    const second = await store.create(view);
+    const third = await store.create(view);
+
+    expect(await store.get(first.id)).toBeNull();
+    expect(await store.get(second.id)).not.toBeNull();
+    expect(await store.get(third.id)).not.toBeNull();
+  });
+});
+
+describe('file share store', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'parcela-shares-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reloads shares from disk', async () => {
+    const shared = await new FileShareStore(dir).create(view);
+
+    const reopened = new FileShareStore(dir);
+    expect(await reopened.get(shared.id)).toEqual(shared);
+    expect(await readdir(dir)).toEqual([`${shared.id}.json`]);
+  });
+
+  it('drops the oldest share when full', async () => {
+    const store = new FileShareStore(dir, 2);
+    const first = await store.create(view);
+    const second = await store.create(view);
+    const third = await store.create(view);
+
+    expect(await store.get(first.id)).toBeNull();
+    expect(await store.get(second.id)).not.toBeNull();
+    expect(await store.get(third.id)).not.toBeNull();
+    expect((await readdir(dir)).sort()).toEqual([`${second.id}.json`, `${third.id}.json`].sort());
+  });
+
+  it('counts shares already on disk toward the cap', async () => {
+    await new FileShareStore(dir).create(view);
+    await new FileShareStore(dir).create(view);
+
+    const shared = await new FileShareStore(dir, 2).create(view);
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(2);
+    expect(files).toContain(`${shared.id}.json`);
+  });
+
+  it('ignores ids that are not share ids', async () => {
+    const store = new FileShareStore(dir);
+    expect(await store.get('../../etc/passwd')).toBeNull();
+    expect(await store.get('aaaaaaaaaaaa')).toBeNull();
+  });
+});
@@ -96,6 +96,17 @@ describe('spatial relationship execution', () => {
         VALUES
           ('zone-small', 'R1', 'Small residential', ST_GeomFromText('POLYGON((-105.902 35.678, -105.898 35.678, -105.898 35.682, -105.902 35.682, -105.902 35.678))'))
       ) AS t(id, zone_code, zone_name, geom_4326);
+
+      CREATE TABLE neighborhoods AS
+      SELECT
+        name,
+        geom_4326,
+        ST_Transform(geom_4326, 'EPSG:4326', 'EPSG:32613', true) AS geom_utm13
+      FROM (
+        VALUES
+          ('West', ST_GeomFromText('POLYGON((-105.910 35.675, -105.900 35.675, -105.900 35.685, -105.910 35.685, -105.910 35.675))')),
+          ('East', ST_GeomFromText('POLYGON((-105.900 35.675, -105.890 35.675, -105.890 35.685, -105.900 35.685, -105.900 35.675))'))
+      ) AS t(name, geom_4326);
     `);
   });
 
@@ -139,4 +150,22 @@ describe('spatial relationship execution', () => {
     });
     expect(rows.map((row) => row.id)).toEqual(['zone-small']);
   });
+
+  it('counts a feature on a shared boundary in only one group', async () => {
+    const built = new QueryBuilder({
+      selectLayer: 'parcels',
+      aggregate: {
+        groupBy: [],
+        metrics: [{ field: '*', op: 'count', alias: 'parcel_count' }],
+        spatialGroupBy: { layer: 'neighborhoods', fields: ['name'] },
+      },
+      orderBy: { field: 'name', direction: 'desc' },
+    }).build();
+    const rows = await query<{ name: string; parcel_count: number }>(conn, built.sql, ...built.params);
+
+    expect(rows.map((row) => [row.name, Number(row.parcel_count)])).toEqual([
+      ['West', 1],
+      ['East', 0],
+    ]);
+  });
 });
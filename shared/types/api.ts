@@ -1,4 +1,4 @@
-import type { StructuredQuery } from './query';
+import type { BoundingBox, InlineGeometry, StructuredQuery } from './query';
 
 export interface GroundingInfo {
   status: 'exact_match' | 'partial_match' | 'unsupported';
@@ -8,6 +8,7 @@ export interface GroundingInfo {
   missingLayers: string[];
   disambiguationPrompt?: string;
   suggestions: string[];
+  resolvedPlaces?: { name: string; layer: string }[]; // Gazetteer matches in the message
 }
 
 export interface QueryMetadata {
@@ -25,6 +26,32 @@ export interface QueryMetadata {
     parseHit: boolean;
     queryHit: boolean;
   };
+  parser?: 'llm' | 'rules'; // 'rules' when no LLM could parse the query and the rule-based fallback did
+  parseAttempts?: ParseAttempt[]; // Every LLM parse attempt (absent when no LLM answered)
+  llm?: {
+    parse?: LLMServedBy; // Provider behind the parse (the original one on a cache hit)
+    narrative?: LLMServedBy; // Set once the equity narrative is written
+  };
+}
+
+/**
+ * One LLM answer to a parse request. An invalid answer is sent back to the
+ * model with its issues for another attempt.
+ */
+export interface ParseAttempt {
+  attempt: number; // 1 is the original request
+  // registry: fields or layers not loaded; invalid_json: no JSON object
+  outcome: 'valid' | 'schema_invalid' | 'registry_invalid' | 'invalid_json';
+  issues?: string[]; // "path: message", for invalid answers
+}
+
+/**
+ * LLM provider and model that answered a call, which differs from the
+ * configured primary when a failover chain fell back
+ */
+export interface LLMServedBy {
+  provider: string;
+  model: string;
 }
 
 export interface QueryResult {
@@ -33,17 +60,153 @@ export interface QueryResult {
   metadata?: QueryMetadata;
 }
 
+/**
+ * Features of a layer the query filtered against (e.g. the flood zones in
+ * "parcels in flood zones"), with the spatial filter's targetFilter applied.
+ * Drawn underneath the primary results.
+ */
+export interface ContextLayer {
+  layer: string;
+  result: QueryResult;
+}
+
+/**
+ * Error body returned by /api/chat, and by the stream's error event
+ */
+export interface ChatErrorResponse {
+  error: string;
+  message?: string;
+  details?: string | string[];
+  grounding?: GroundingInfo;
+  suggestions?: string[];
+  normalizationNotes?: string[];
+  availableLayers?: string[];
+  parseAttempts?: ParseAttempt[]; // LLM parse attempts behind a parse or data-match failure
+}
+
+/**
+ * Question asked instead of answering an ambiguous request. The session
+ * keeps the request, so a reply matching a choice's label (or its number)
+ * runs it with that choice; any other reply is a new request.
+ */
+export interface Clarification {
+  reason: 'ambiguous_place' | 'unknown_address' | 'unparsed_query' | 'unmatched_query' | 'missing_distance';
+  question: string;
+  choices: ClarificationChoice[]; // Empty when nothing loaded fits; the question still explains
+}
+
+export interface ClarificationChoice {
+  label: string; // Chip text, and the reply that picks it
+  kind: 'place' | 'address' | 'layer' | 'field' | 'distance';
+  layer?: string; // Layer the place, address or field belongs to, or the layer itself; none for a distance
+}
+
+/**
+ * /api/chat answer to an ambiguous request: a question with choices instead
+ * of results. Send the reply with the same conversationId.
+ */
+export interface ChatClarificationResponse {
+  conversationId: string;
+  conversationTurn: number; // Turns answered so far; a question is not one
+  clarification: Clarification;
+  grounding: GroundingInfo;
+  parseAttempts?: ParseAttempt[]; // When the question follows a failed LLM parse
+}
+
+/**
+ * Body of a successful /api/chat response
+ */
+export type ChatTurnResponse = ChatResponse | ChatClarificationResponse;
+
+/**
+ * Server-Sent Events from POST /api/chat/stream, in the order they are sent:
+ * grounding → query → features (one or more chunks) → context_layers (when
+ * any) → summary → narrative (zero or more deltas) → done. An error event
+ * ends the stream at any stage, and a clarification event ends it before
+ * the query when the request is ambiguous. Narrative deltas arrive as the
+ * model writes them; `done.explanation` is the final text, which falls back
+ * to the summary when the narrative fails partway.
+ */
+export type ChatStreamEvent =
+  | { event: 'grounding'; data: GroundingInfo }
+  | {
+    event: 'query';
+    data: { conversationId: string; query: StructuredQuery; confidence: number };
+  }
+  | { event: 'features'; data: { features: QueryResult['features']; chunk: number; chunks: number } }
+  | { event: 'context_layers'; data: { contextLayers: ContextLayer[] } }
+  | { event: 'summary'; data: { summary: string; metadata: QueryMetadata } }
+  | { event: 'narrative'; data: { delta: string } }
+  | { event: 'done'; data: Omit<ChatResponse, 'result'> } // Features were sent in chunks
+  | { event: 'clarification'; data: ChatClarificationResponse }
+  | { event: 'error'; data: ChatErrorResponse & { status: number } };
+
+/**
+ * One recorded chat turn, as returned by GET /api/conversations/:id
+ */
+export interface ConversationTurnRecord {
+  turn: number;
+  message: string;
+  query: StructuredQuery;
+  queryHash: string;
+  featureCount: number;
+  explanation: string;
+  createdAt: string; // ISO timestamp
+}
+
+export interface ConversationHistory {
+  conversationId: string;
+  createdAt: string;
+  lastAccessedAt: string;
+  turns: ConversationTurnRecord[];
+}
+
+/**
+ * A turn re-executed by POST /api/conversations/:id/replay. A turn that no
+ * longer validates or runs against the current data carries an error.
+ */
+export interface ReplayedTurn {
+  turn: number;
+  message: string;
+  query: StructuredQuery;
+  queryHash?: string;
+  featureCount: number;
+  previousFeatureCount: number;
+  executionTimeMs?: number;
+  error?: string;
+}
+
+export interface ConversationReplay {
+  conversationId: string;
+  turns: ReplayedTurn[];
+  result: QueryResult | null; // Features of the last turn, for the map
+}
+
+/**
+ * Shape drawn on the map that limits the next chat query:
+ * - polygon: features intersecting the polygon
+ * - rectangle: features intersecting the box
+ * - point: features within radiusMeters of the point
+ */
+export type DrawnShape =
+  | { type: 'polygon'; geometry: Extract<InlineGeometry, { type: 'Polygon' }> }
+  | { type: 'rectangle'; bbox: BoundingBox }
+  | { type: 'point'; geometry: Extract<InlineGeometry, { type: 'Point' }>; radiusMeters: number };
+
 export interface ChatRequest {
   message: string;
   lang?: 'en' | 'es';
   conversationId?: string;
+  drawnShape?: DrawnShape;
 }
 
 export interface ChatResponse {
   conversationId?: string;
   conversationTurn: number;
+  resultSet?: string; // Target for this result in later turns, e.g. "$turn2"
   query: StructuredQuery;
   result: QueryResult;
+  contextLayers?: ContextLayer[]; // Target layers behind the spatial filters
   summary: string;
   explanation: string;
   equityNarrative?: string | null;
@@ -52,3 +215,42 @@ export interface ChatResponse {
   metadata: QueryMetadata;
   suggestions?: string[];
 }
+
+/**
+ * Map camera: center [lon, lat], zoom, and optional rotation and tilt
+ */
+export interface MapViewState {
+  center: [number, number];
+  zoom: number;
+  bearing?: number;
+  pitch?: number;
+}
+
+/**
+ * Styling chosen when the view was shared. choroplethField is the field the
+ * results were colored by, or null for the plain result style.
+ */
+export interface ShareStyle {
+  choroplethField?: string | null;
+}
+
+export interface ShareRequest {
+  query: StructuredQuery;
+  mapView?: MapViewState;
+  style?: ShareStyle;
+}
+
+/**
+ * Permalink stored by POST /api/share and returned by GET /api/share/:id.
+ * queryHash and registryGeneratedAt identify the query and the data
+ * vintage it was shared against.
+ */
+export interface SharedView {
+  id: string;
+  query: StructuredQuery;
+  queryHash: string;
+  registryGeneratedAt: string;
+  mapView?: MapViewState;
+  style?: ShareStyle;
+  createdAt: string; // ISO timestamp
+}
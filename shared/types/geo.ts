@@ -575,6 +575,34 @@ export const LAYER_SCHEMAS: Record<string, LayerSchema> = {
   },
 } as const;
 
+// ============================================================================
+// Measure Fields
+// ============================================================================
+
+/**
+ * Virtual numeric fields computed from geom_utm13 (meters), by layer
+ * geometry type. They can be filtered, ordered, selected and aggregated
+ * like stored fields.
+ */
+export const MEASURE_FIELDS: Partial<Record<LayerSchema['geometryType'], string[]>> = {
+  Polygon: ['area_m2', 'area_acres', 'perimeter_m'],
+  LineString: ['length_m'],
+};
+
+/**
+ * Measure fields available on a layer. A stored field of the same name
+ * (e.g. city_limits.area_acres) takes precedence and is not shadowed.
+ */
+export function getMeasureFields(layerName: string): string[] {
+  const schema = LAYER_SCHEMAS[layerName];
+  if (!schema) {
+    return [];
+  }
+  return (MEASURE_FIELDS[schema.geometryType] ?? []).filter(
+    (field) => !(field in schema.fields)
+  );
+}
+
 // ============================================================================
 // Type Guards
 // ============================================================================
@@ -22,7 +22,11 @@ export type SpatialOp =
   | 'intersects' // Features that intersect Y
   | 'contains' // Features that contain Y
   | 'within' // Features within Y boundary
-  | 'nearest'; // N nearest features to point/feature
+  | 'nearest' // N nearest features to point/feature
+  | 'not_intersects' // Features that intersect no Y
+  | 'not_contains' // Features that contain no Y
+  | 'not_within' // Features within no Y boundary
+  | 'beyond_distance'; // Features with no Y within X meters
 
 /**
  * Supported attribute filter operations
@@ -55,17 +59,133 @@ export interface AttributeFilter {
   value: string | number | boolean | (string | number | boolean)[];
 }
 
+/**
+ * Inline GeoJSON geometry (WGS84 lon/lat) used as a spatial filter target,
+ * e.g. a polygon or point drawn on the map
+ */
+export type InlineGeometry =
+  | { type: 'Point'; coordinates: [number, number] }
+  | { type: 'Polygon'; coordinates: [number, number][][] }
+  | { type: 'MultiPolygon'; coordinates: [number, number][][][] };
+
+/**
+ * targetLayer value marking a spatial filter whose target is
+ * `targetGeometry` instead of a layer
+ */
+export const INLINE_GEOMETRY_TARGET = '$geometry';
+
+/**
+ * targetLayer value referencing the result of the previous chat turn.
+ * Every turn's result is also kept as `$turn<N>`, and as `$<saveAs>` when
+ * the query names it; see getResultSetTarget.
+ */
+export const PREVIOUS_RESULT_SET = '$previous';
+
+/**
+ * targetLayer value referencing a saved result set by turn alias or name
+ */
+export function getResultSetTarget(name: string): string {
+  return `$${name}`;
+}
+
+/**
+ * Whether a targetLayer references a saved result set rather than a layer
+ */
+export function isResultSetTarget(targetLayer: string): boolean {
+  return targetLayer.startsWith('$') && targetLayer !== INLINE_GEOMETRY_TARGET;
+}
+
+/**
+ * Whether a query targets a saved result set in a flat spatial filter or
+ * the where tree. Such a query only runs inside its conversation.
+ */
+export function targetsResultSet(query: StructuredQuery): boolean {
+  const inExpression = (expression: FilterExpression): boolean => {
+    if ('and' in expression) return expression.and.some(inExpression);
+    if ('or' in expression) return expression.or.some(inExpression);
+    if ('not' in expression) return inExpression(expression.not);
+    return 'spatial' in expression && isResultSetTarget(expression.spatial.targetLayer);
+  };
+  return (query.spatialFilters ?? []).some((filter) => isResultSetTarget(filter.targetLayer))
+    || (query.where !== undefined && inExpression(query.where));
+}
+
+/**
+ * Bounding box in WGS84: [minLon, minLat, maxLon, maxLat]
+ */
+export type BoundingBox = [number, number, number, number];
+
 /**
  * Spatial filter for spatial operations
  */
 export interface SpatialFilter {
   op: SpatialOp;
-  targetLayer: string;
+  targetLayer: string; // Layer name, INLINE_GEOMETRY_TARGET, or a result set ($previous, $turn2, $<saveAs>)
+  targetGeometry?: InlineGeometry; // Inline target when targetLayer is INLINE_GEOMETRY_TARGET
   targetFilter?: AttributeFilter[]; // Optional filter on target layer
-  distance?: number; // For within_distance (meters); API rejects values above 50,000
+  distance?: number; // For within_distance/beyond_distance (meters); API rejects values above 50,000
   limit?: number; // For nearest
+  includeNearestTarget?: boolean; // within_distance/nearest: add distance to the closest target
+  targetFields?: string[]; // Closest-target fields to return (implies includeNearestTarget)
+}
+
+/**
+ * Result column carrying a closest-target value for a proximity filter:
+ * `${targetLayer}_distance_m` for the distance in meters, or
+ * `${targetLayer}_${field}` for a target attribute.
+ */
+export function getNearestTargetColumn(targetLayer: string, field = 'distance_m'): string {
+  return `${targetLayer}_${field}`;
 }
 
+/**
+ * Recursive boolean filter tree mixing attribute and spatial predicates,
+ * e.g. (value > 1M OR acres > 5) AND NOT intersects flood_zones.
+ * nearest is not allowed inside a tree.
+ */
+export type FilterExpression =
+  | { and: FilterExpression[] }
+  | { or: FilterExpression[] }
+  | { not: FilterExpression }
+  | { attribute: AttributeFilter }
+  | { spatial: SpatialFilter };
+
+// ============================================================================
+// Enrichment Types
+// ============================================================================
+
+/**
+ * Enrichment join: annotate each selected feature with fields of the
+ * polygon that contains its point-on-surface. Does not filter — features
+ * outside every polygon keep null values.
+ */
+export interface SpatialEnrichment {
+  layer: string; // Polygon layer to take attributes from
+  fields: string[]; // Polygon fields to attach, returned as `${layer}_${field}`
+  targetFilter?: AttributeFilter[]; // Optional filter on the polygon layer
+}
+
+/**
+ * Result column carrying an enrichment field
+ */
+export function getEnrichmentColumn(layer: string, field: string): string {
+  return `${layer}_${field}`;
+}
+
+/**
+ * Overlap share: how much of each selected polygon is covered by a
+ * target polygon layer. Adds `overlap_area_m2` and `overlap_pct` (0-100)
+ * to each result; both can be filtered and ordered like numeric fields.
+ * Overlapping target polygons are unioned first, so coverage never
+ * exceeds 100%.
+ */
+export interface OverlapSpec {
+  targetLayer: string; // Polygon layer whose coverage is measured
+  targetFilter?: AttributeFilter[]; // Optional filter on the target layer
+}
+
+export const OVERLAP_OUTPUT_COLUMNS = ['overlap_area_m2', 'overlap_pct'] as const;
+
 // ============================================================================
 // Aggregation Types
 // ============================================================================
@@ -79,25 +199,114 @@ export interface AggregateMetric {
   alias?: string; // Optional alias for the result column
 }
 
+/**
+ * Spatial grouping: aggregate selectLayer features by the polygons of
+ * another layer. Each source feature is assigned to the polygon that
+ * contains its point-on-surface, so it is counted at most once.
+ */
+export interface SpatialGroupBy {
+  layer: string; // Polygon layer whose features form the groups
+  fields?: string[]; // Group layer fields to return (default: all)
+  targetFilter?: AttributeFilter[]; // Optional filter on the group layer
+}
+
 /**
  * Aggregation specification
  */
 export interface AggregateSpec {
-  groupBy: string[]; // Fields to group by
+  groupBy: string[]; // Fields to group by (empty when spatialGroupBy is set)
   metrics: AggregateMetric[]; // Metrics to calculate
+  spatialGroupBy?: SpatialGroupBy; // Group by polygons of another layer
+}
+
+// ============================================================================
+// Geometry Operation Types
+// ============================================================================
+
+/**
+ * Supported geometry-producing operations
+ */
+export type GeometryOp =
+  | 'buffer' // Buffer each selected feature by N meters
+  | 'dissolve' // Union selected features, optionally grouped by a field
+  | 'clip'; // Clip selected features to a target layer
+
+/**
+ * Geometry operation applied to the selected features.
+ * Computed on geom_utm13 (meters) and returned as WGS84 GeoJSON.
+ */
+export interface GeometryOperation {
+  op: GeometryOp;
+  distance?: number; // For buffer (meters); API rejects values above 50,000
+  dissolve?: boolean; // For buffer: union the buffers into one shape
+  groupBy?: string; // For dissolve: field to union by (default: union everything)
+  clipLayer?: string; // For clip: layer to clip against
+  clipFilter?: AttributeFilter[]; // Optional filter on the clip layer
 }
 
+// ============================================================================
+// Density Analysis Types
+// ============================================================================
+
+/**
+ * Supported density methods
+ */
+export type DensityMethod =
+  | 'grid' // Count features in square cells of cellSize meters
+  | 'hotspot'; // Getis-Ord Gi* z-scores of feature counts per zone polygon
+
+/**
+ * Density analysis of the selected (point) features. Returns polygons
+ * instead of the features themselves:
+ * - grid: one cell per non-empty square with `point_count`
+ * - hotspot: one row per zone with `point_count`, `gi_zscore` and
+ *   `hotspot_class`. Neighbors are zones sharing a boundary, and each
+ *   zone counts as its own neighbor (Gi*, not Gi).
+ */
+export interface DensitySpec {
+  method: DensityMethod;
+  cellSize?: number; // For grid: cell edge in meters (default 500)
+  zoneLayer?: string; // For hotspot: polygon layer of zones (default census_tracts)
+  zoneFields?: string[]; // For hotspot: zone fields to return (default: all)
+}
+
+export const DENSITY_DEFAULT_CELL_SIZE = 500;
+export const DENSITY_DEFAULT_ZONE_LAYER = 'census_tracts';
+
+/**
+ * Result columns added by each density method
+ */
+export const DENSITY_OUTPUT_COLUMNS: Record<DensityMethod, readonly string[]> = {
+  grid: ['cell_id', 'point_count'],
+  hotspot: ['point_count', 'gi_zscore', 'hotspot_class'],
+};
+
+/**
+ * Two-tailed Gi* z-score cutoffs behind hotspot_class: hot_95/hot_90 at
+ * or above, cold_95/cold_90 at or below the negated value, otherwise
+ * not_significant
+ */
+export const HOTSPOT_Z_THRESHOLDS = { p95: 1.96, p90: 1.645 } as const;
+
 // ============================================================================
 // Temporal Query Types
 // ============================================================================
 
 /**
- * Temporal query for comparing metrics over time
+ * Temporal period: a calendar year, or everything dated on/before a date
+ */
+export type TemporalPeriod = { year: number } | { date: string };
+
+/**
+ * Temporal query for comparing metrics over time.
+ * Results carry baseline_value, comparison_value, absolute_change and
+ * percent_change, per aggregate group when `aggregate` is set.
  */
 export interface TemporalQuery {
-  baseline: { year: number } | { date: string }; // Baseline time period
-  comparison: { year: number } | { date: string }; // Comparison time period
-  metric: string; // Field to compare (e.g., 'assessed_value', 'str_count')
+  baseline: TemporalPeriod; // Baseline time period
+  comparison: TemporalPeriod; // Comparison time period
+  metric: string; // '*' counts records; a numeric field is summed
+  dateField?: string; // Date field to bucket by (default: layer's primary date)
 }
 
 // ============================================================================
@@ -114,8 +323,15 @@ export interface StructuredQuery {
   attributeLogic?: LogicalOp; // How to combine attribute filters (default: 'and')
   spatialFilters?: SpatialFilter[]; // Spatial filters
   spatialLogic?: LogicalOp; // How to combine spatial filters (default: 'and')
+  where?: FilterExpression; // Nested filter tree, ANDed with the flat filters
+  bbox?: BoundingBox; // Keep only features intersecting this box
+  enrich?: SpatialEnrichment[]; // Attach fields of containing polygons
+  overlap?: OverlapSpec; // Area/percent of each polygon covered by a target layer
   aggregate?: AggregateSpec; // Optional aggregation (group + metrics)
+  geometryOperation?: GeometryOperation; // Optional buffer/dissolve/clip output
+  density?: DensitySpec; // Optional grid counts or hot-spot analysis
   temporal?: TemporalQuery; // Optional temporal comparison
   limit?: number; // Maximum number of results
   orderBy?: { field: string; direction: OrderDirection }; // Sort order
+  saveAs?: string; // Name this result so later turns can target `$<saveAs>`
 }
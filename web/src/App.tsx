@@ -5,6 +5,8 @@ import { MapView } from './components/MapView';
 import { ResultsPanel } from './components/ResultsPanel';
 import { useChatStore } from './store/chat-store';
 import { getChoroplethConfig } from './lib/choropleth';
+import { readConversationId, writeConversationId } from './lib/conversation-url';
+import { clearShareId, readShareId } from './lib/share-url';
 import './App.css';
 
 function App() {
@@ -14,10 +16,33 @@ function App() {
     document.documentElement.lang = i18n.language.startsWith('es') ? 'es' : 'en';
   }, [i18n.language]);
 
+  // Open the share permalink or restore the conversation named in the URL,
+  // then keep the URL in step with the active session so reloads and shared
+  // links come back to it
+  useEffect(() => {
+    const shareId = readShareId();
+    const conversationId = readConversationId();
+    if (shareId) {
+      void useChatStore.getState().loadShare(shareId);
+    } else if (conversationId) {
+      void useChatStore.getState().restoreConversation(conversationId);
+    }
+    return useChatStore.subscribe((state, previous) => {
+      if (state.conversationId !== previous.conversationId) {
+        writeConversationId(state.conversationId);
+      }
+      if (previous.sharedView && !state.sharedView) {
+        clearShareId();
+      }
+    });
+  }, []);
+
   const {
     messages,
     isLoading,
     features,
+    contextLayers,
+    hiddenContextLayers,
     selectedFeature,
     currentQuery,
     queryMetadata,
@@ -25,16 +50,25 @@ function App() {
     explanation,
     equityNarrative,
     showResults,
+    drawnShape,
+    restoredView,
+    sharedView,
     sendMessage,
     selectFeature,
     clickFeature,
+    setDrawnShape,
+    toggleContextLayer,
+    setMapView,
+    shareResults,
     closeResults,
     clearConversation,
   } = useChatStore();
 
+  // A shared view opens with the choropleth it was shared with
+  const sharedChoroplethField = sharedView?.style?.choroplethField;
   const choroplethConfig = useMemo(
-    () => getChoroplethConfig(currentQuery, features),
-    [currentQuery, features]
+    () => getChoroplethConfig(currentQuery, features, sharedChoroplethField),
+    [currentQuery, features, sharedChoroplethField]
   );
 
   return (
@@ -54,6 +88,13 @@ function App() {
           onFeatureClick={clickFeature}
           choroplethConfig={choroplethConfig}
           queryLayerName={currentQuery?.selectLayer ?? null}
+          drawnShape={drawnShape}
+          onDrawnShapeChange={setDrawnShape}
+          contextLayers={contextLayers}
+          hiddenContextLayers={hiddenContextLayers}
+          onToggleContextLayer={toggleContextLayer}
+          restoredView={restoredView}
+          onViewChange={setMapView}
         />
       </main>
       {showResults && (
@@ -68,6 +109,8 @@ function App() {
             equityNarrative={equityNarrative}
             onFeatureSelect={selectFeature}
             onClose={closeResults}
+            onShare={() => shareResults({ choroplethField: choroplethConfig?.field ?? null })}
+            dataGeneratedAt={sharedView?.registryGeneratedAt ?? null}
           />
         </aside>
       )}
@@ -133,7 +133,7 @@ export function ChatPanel({
           </div>
         )}
 
-        {messages.map((message) => (
+        {messages.map((message, index) => (
           <div
             key={message.id}
             className={`chat-message ${message.role}`}
@@ -148,6 +148,25 @@ export function ChatPanel({
               {message.error && (
                 <div className="message-error" role="alert">{message.error}</div>
               )}
+              {message.clarification && message.clarification.choices.length > 0 && (
+                <div
+                  className="clarification-choices"
+                  role="group"
+                  aria-label={t('chat.clarificationChoices')}
+                >
+                  {message.clarification.choices.map((choice) => (
+                    <button
+                      key={choice.label}
+                      type="button"
+                      className="clarification-chip"
+                      onClick={() => onSendMessage(choice.label)}
+                      disabled={isLoading || index !== messages.length - 1}
+                    >
+                      {choice.label}
+                    </button>
+                  ))}
+                </div>
+              )}
               {message.metadata && (
                 <div className="message-meta">
                   {t('chat.featuresFound', {
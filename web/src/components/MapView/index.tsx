@@ -1,9 +1,20 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import maplibregl from 'maplibre-gl';
 import type { Feature, Geometry } from 'geojson';
 import type { ChoroplethConfig } from '../../lib/choropleth';
 import { buildFillColorExpression } from '../../lib/choropleth';
+import type { ContextLayer, DrawnShape, MapViewState } from '../../types/api';
+import {
+  DEFAULT_POINT_RADIUS,
+  POINT_RADIUS_OPTIONS,
+  drawnShapeToFeature,
+  pointWithRadius,
+  polygonFromVertices,
+  rectangleFromCorners,
+  type DrawMode,
+  type LngLat,
+} from '../../lib/drawing';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import './MapView.css';
 
@@ -13,8 +24,20 @@ interface MapViewProps {
   onFeatureClick: (feature: Feature<Geometry, Record<string, unknown>>) => void;
   choroplethConfig?: ChoroplethConfig | null;
   queryLayerName?: string | null;
+  drawnShape?: DrawnShape | null;
+  onDrawnShapeChange?: (shape: DrawnShape | null) => void;
+  contextLayers?: ContextLayer[];
+  hiddenContextLayers?: number[];
+  onToggleContextLayer?: (index: number) => void;
+  restoredView?: MapViewState | null; // Shown instead of fitting the results
+  onViewChange?: (view: MapViewState) => void;
 }
 
+const CONTEXT_SOURCE = 'context-layers';
+const CONTEXT_FILL_LAYER = 'context-layers-fill';
+const CONTEXT_LINE_LAYER = 'context-layers-line';
+const CONTEXT_LINESTRING_LAYER = 'context-layers-linestring';
+const CONTEXT_POINT_LAYER = 'context-layers-point';
 const RESULTS_SOURCE = 'query-results';
 const RESULTS_FILL_LAYER = 'query-results-fill';
 const RESULTS_LINE_LAYER = 'query-results-line';
@@ -25,10 +48,29 @@ const SELECTED_POLYGON_FILL_LAYER = 'selected-feature-polygon-fill';
 const SELECTED_POLYGON_LINE_LAYER = 'selected-feature-polygon-line';
 const SELECTED_LINE_LAYER = 'selected-feature-line';
 const SELECTED_POINT_LAYER = 'selected-feature-point';
+const DRAWN_SOURCE = 'drawn-shape';
+const DRAWN_FILL_LAYER = 'drawn-shape-fill';
+const DRAWN_LINE_LAYER = 'drawn-shape-line';
+
+const DRAW_MODES: { mode: DrawMode; labelKey: string; icon: string }[] = [
+  { mode: 'polygon', labelKey: 'map.drawPolygon', icon: '⬠' },
+  { mode: 'rectangle', labelKey: 'map.drawRectangle', icon: '▭' },
+  { mode: 'point', labelKey: 'map.drawPoint', icon: '◎' },
+];
+
+const DRAW_HINT_KEYS: Record<DrawMode, string> = {
+  polygon: 'map.drawHintPolygon',
+  rectangle: 'map.drawHintRectangle',
+  point: 'map.drawHintPoint',
+};
 
 // Terracotta color for all features
 const FILL_COLOR = '#C2694A';
 const STROKE_COLOR = '#A0523C';
+// Teal accent for the user-drawn shape
+const DRAWN_COLOR = '#3D8B84';
+// Muted slate for context layers under the results
+const CONTEXT_COLOR = '#6F7F8F';
 
 /**
  * Escape HTML entities to prevent XSS attacks
@@ -98,6 +140,13 @@ export function MapView({
   onFeatureClick,
   choroplethConfig,
   queryLayerName,
+  drawnShape = null,
+  onDrawnShapeChange,
+  contextLayers = [],
+  hiddenContextLayers = [],
+  onToggleContextLayer,
+  restoredView = null,
+  onViewChange,
 }: MapViewProps) {
   const { t } = useTranslation();
   const tRef = useRef(t);
@@ -110,6 +159,16 @@ export function MapView({
   const popup = useRef<maplibregl.Popup | null>(null);
   const mountedRef = useRef(true);
   const choroplethTimeouts = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const [drawMode, setDrawMode] = useState<DrawMode | null>(null);
+  const [pointRadius, setPointRadius] = useState<number>(DEFAULT_POINT_RADIUS);
+  const drawModeRef = useRef<DrawMode | null>(null);
+  useEffect(() => { drawModeRef.current = drawMode; }, [drawMode]);
+  const drawnShapeRef = useRef(drawnShape);
+  useEffect(() => { drawnShapeRef.current = drawnShape; }, [drawnShape]);
+  const restoredViewRef = useRef(restoredView);
+  useEffect(() => { restoredViewRef.current = restoredView; }, [restoredView]);
+  const onViewChangeRef = useRef(onViewChange);
+  useEffect(() => { onViewChangeRef.current = onViewChange; }, [onViewChange]);
 
   useEffect(() => {
     mountedRef.current = true;
@@ -139,6 +198,59 @@ export function MapView({
       const m = map.current;
       if (!m) return;
 
+      // Context layers go first so the results draw on top of them
+      m.addSource(CONTEXT_SOURCE, {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] },
+      });
+
+      m.addLayer({
+        id: CONTEXT_FILL_LAYER,
+        type: 'fill',
+        source: CONTEXT_SOURCE,
+        filter: ['==', ['geometry-type'], 'Polygon'],
+        paint: {
+          'fill-color': CONTEXT_COLOR,
+          'fill-opacity': 0.15,
+        },
+      });
+
+      m.addLayer({
+        id: CONTEXT_LINE_LAYER,
+        type: 'line',
+        source: CONTEXT_SOURCE,
+        filter: ['==', ['geometry-type'], 'Polygon'],
+        paint: {
+          'line-color': CONTEXT_COLOR,
+          'line-width': 1,
+          'line-dasharray': [3, 2],
+        },
+      });
+
+      m.addLayer({
+        id: CONTEXT_LINESTRING_LAYER,
+        type: 'line',
+        source: CONTEXT_SOURCE,
+        filter: ['==', ['geometry-type'], 'LineString'],
+        paint: {
+          'line-color': CONTEXT_COLOR,
+          'line-width': 2,
+        },
+      });
+
+      m.addLayer({
+        id: CONTEXT_POINT_LAYER,
+        type: 'circle',
+        source: CONTEXT_SOURCE,
+        filter: ['==', ['geometry-type'], 'Point'],
+        paint: {
+          'circle-radius': 4,
+          'circle-color': CONTEXT_COLOR,
+          'circle-stroke-color': '#fff',
+          'circle-stroke-width': 1,
+        },
+      });
+
       // Add results source (empty initially)
       m.addSource(RESULTS_SOURCE, {
         type: 'geojson',
@@ -248,12 +360,40 @@ export function MapView({
           'circle-stroke-width': 3,
         },
       });
+
+      // Drawn shape (and in-progress drawing) on top of everything
+      m.addSource(DRAWN_SOURCE, {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] },
+      });
+
+      m.addLayer({
+        id: DRAWN_FILL_LAYER,
+        type: 'fill',
+        source: DRAWN_SOURCE,
+        filter: ['==', ['geometry-type'], 'Polygon'],
+        paint: {
+          'fill-color': DRAWN_COLOR,
+          'fill-opacity': 0.12,
+        },
+      });
+
+      m.addLayer({
+        id: DRAWN_LINE_LAYER,
+        type: 'line',
+        source: DRAWN_SOURCE,
+        paint: {
+          'line-color': DRAWN_COLOR,
+          'line-width': 2,
+          'line-dasharray': [2, 1],
+        },
+      });
     });
 
     // Click handler for features
     const handleClick = (e: maplibregl.MapMouseEvent) => {
       const m = map.current;
-      if (!m) return;
+      if (!m || drawModeRef.current) return;
 
       const clickedFeatures = m.queryRenderedFeatures(e.point, {
         layers: [
@@ -275,6 +415,19 @@ export function MapView({
 
     map.current.on('click', handleClick);
 
+    const handleMoveEnd = () => {
+      const m = map.current;
+      if (!m) return;
+      const center = m.getCenter();
+      onViewChangeRef.current?.({
+        center: [center.lng, center.lat],
+        zoom: m.getZoom(),
+        bearing: m.getBearing(),
+        pitch: m.getPitch(),
+      });
+    };
+    map.current.on('moveend', handleMoveEnd);
+
     // Create popup for hover tooltips
     popup.current = new maplibregl.Popup({
       closeButton: false,
@@ -285,7 +438,7 @@ export function MapView({
     // Hover handlers with tooltip
     const handleMouseMove = (e: maplibregl.MapMouseEvent & { features?: maplibregl.MapGeoJSONFeature[] }) => {
       const m = map.current;
-      if (!m || !e.features || e.features.length === 0) return;
+      if (!m || drawModeRef.current || !e.features || e.features.length === 0) return;
 
       m.getCanvas().style.cursor = 'pointer';
 
@@ -315,7 +468,7 @@ export function MapView({
     };
 
     const handleMouseLeave = () => {
-      if (map.current) {
+      if (map.current && !drawModeRef.current) {
         map.current.getCanvas().style.cursor = '';
       }
       popup.current?.remove();
@@ -335,6 +488,7 @@ export function MapView({
       const m = map.current;
       if (m) {
         m.off('click', handleClick);
+        m.off('moveend', handleMoveEnd);
         m.off('mousemove', RESULTS_FILL_LAYER, handleMouseMove);
         m.off('mousemove', RESULTS_LINE_LAYER, handleMouseMove);
         m.off('mousemove', RESULTS_LINESTRING_LAYER, handleMouseMove);
@@ -368,8 +522,9 @@ export function MapView({
 
       source.setData(featureCollection);
 
-      // Fit bounds to features if we have any
-      if (features.length > 0) {
+      // Fit bounds to features if we have any, unless a shared view
+      // asked for its own extent
+      if (features.length > 0 && !restoredViewRef.current) {
         const bounds = getBounds(features);
         if (bounds) {
           m.fitBounds(bounds, {
@@ -387,6 +542,40 @@ export function MapView({
     }
   }, [features]);
 
+  // Jump to a restored camera (e.g. from a share permalink)
+  useEffect(() => {
+    const m = map.current;
+    if (!m || !restoredView) return;
+    m.jumpTo({
+      center: restoredView.center,
+      zoom: restoredView.zoom,
+      bearing: restoredView.bearing ?? 0,
+      pitch: restoredView.pitch ?? 0,
+    });
+  }, [restoredView]);
+
+  // Update context layers; toggled-off layers are left out of the source
+  useEffect(() => {
+    const m = map.current;
+    if (!m) return;
+
+    const updateContext = () => {
+      const source = m.getSource(CONTEXT_SOURCE) as maplibregl.GeoJSONSource | undefined;
+      source?.setData({
+        type: 'FeatureCollection',
+        features: contextLayers
+          .filter((_, i) => !hiddenContextLayers.includes(i))
+          .flatMap((contextLayer) => contextLayer.result.features),
+      });
+    };
+
+    if (m.isStyleLoaded()) {
+      updateContext();
+    } else {
+      m.once('load', updateContext);
+    }
+  }, [contextLayers, hiddenContextLayers]);
+
   // Update selected feature highlight
   useEffect(() => {
     const m = map.current;
@@ -409,6 +598,124 @@ export function MapView({
     }
   }, [selectedFeature]);
 
+  // Show the drawn shape
+  useEffect(() => {
+    const m = map.current;
+    if (!m) return;
+
+    const updateDrawn = () => {
+      const source = m.getSource(DRAWN_SOURCE) as maplibregl.GeoJSONSource | undefined;
+      source?.setData({
+        type: 'FeatureCollection',
+        features: drawnShape ? [drawnShapeToFeature(drawnShape)] : [],
+      });
+    };
+
+    if (m.isStyleLoaded()) {
+      updateDrawn();
+    } else {
+      m.once('load', updateDrawn);
+    }
+  }, [drawnShape]);
+
+  // Draw tool: map interactions for the active mode
+  useEffect(() => {
+    const m = map.current;
+    if (!m || !drawMode) return;
+
+    const source = m.getSource(DRAWN_SOURCE) as maplibregl.GeoJSONSource | undefined;
+    const showPreview = (features: Feature<Geometry>[]) => {
+      source?.setData({ type: 'FeatureCollection', features });
+    };
+    const restoreCommitted = () => {
+      const committed = drawnShapeRef.current;
+      showPreview(committed ? [drawnShapeToFeature(committed)] : []);
+    };
+    const finish = (shape: DrawnShape | null) => {
+      if (shape) {
+        onDrawnShapeChange?.(shape);
+      } else {
+        restoreCommitted();
+      }
+      setDrawMode(null);
+    };
+    const toLngLat = (e: maplibregl.MapMouseEvent): LngLat => [e.lngLat.lng, e.lngLat.lat];
+
+    const vertices: LngLat[] = [];
+    let dragStart: LngLat | null = null;
+
+    const handleClick = (e: maplibregl.MapMouseEvent) => {
+      if (drawMode === 'point') {
+        finish(pointWithRadius(toLngLat(e), pointRadius));
+        return;
+      }
+      if (drawMode !== 'polygon') return;
+      vertices.push(toLngLat(e));
+      const polygon = polygonFromVertices(vertices);
+      showPreview([
+        polygon
+          ? drawnShapeToFeature(polygon)
+          : { type: 'Feature', geometry: { type: 'LineString', coordinates: vertices }, properties: {} },
+      ]);
+    };
+
+    const handleDoubleClick = (e: maplibregl.MapMouseEvent) => {
+      if (drawMode !== 'polygon') return;
+      e.preventDefault();
+      finish(polygonFromVertices(vertices));
+    };
+
+    const handleMouseDown = (e: maplibregl.MapMouseEvent) => {
+      if (drawMode !== 'rectangle') return;
+      dragStart = toLngLat(e);
+    };
+
+    const handleMouseMove = (e: maplibregl.MapMouseEvent) => {
+      if (!dragStart) return;
+      const rectangle = rectangleFromCorners(dragStart, toLngLat(e));
+      showPreview(rectangle ? [drawnShapeToFeature(rectangle)] : []);
+    };
+
+    const handleMouseUp = (e: maplibregl.MapMouseEvent) => {
+      if (!dragStart) return;
+      const rectangle = rectangleFromCorners(dragStart, toLngLat(e));
+      dragStart = null;
+      finish(rectangle);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        finish(null);
+      }
+    };
+
+    m.doubleClickZoom.disable();
+    if (drawMode === 'rectangle') {
+      m.dragPan.disable();
+    }
+    m.getCanvas().style.cursor = 'crosshair';
+    popup.current?.remove();
+
+    m.on('click', handleClick);
+    m.on('dblclick', handleDoubleClick);
+    m.on('mousedown', handleMouseDown);
+    m.on('mousemove', handleMouseMove);
+    m.on('mouseup', handleMouseUp);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      m.off('click', handleClick);
+      m.off('dblclick', handleDoubleClick);
+      m.off('mousedown', handleMouseDown);
+      m.off('mousemove', handleMouseMove);
+      m.off('mouseup', handleMouseUp);
+      window.removeEventListener('keydown', handleKeyDown);
+      m.doubleClickZoom.enable();
+      m.dragPan.enable();
+      m.getCanvas().style.cursor = '';
+    };
+  }, [drawMode, pointRadius, onDrawnShapeChange]);
+
   // Update choropleth styling when config or features change
   useEffect(() => {
     const m = map.current;
@@ -464,44 +771,119 @@ export function MapView({
   return (
     <div className="map-view">
       <div ref={mapContainer} className="map-container" />
-      {choroplethConfig && (
-        <div className="map-legend">
-          <div className="legend-title">
-            {choroplethConfig.label}
-            {choroplethConfig.unit ? ` (${choroplethConfig.unit})` : ''}
-          </div>
-          <div className="legend-scale">
-            {choroplethConfig.colorRamp.map((color, i) => {
-              const label = choroplethConfig.classLabels[i] || '';
-              return (
-                <div key={i} className="legend-item">
-                  <span className="legend-color" style={{ backgroundColor: color }} />
-                  <span className="legend-label">{label}</span>
-                </div>
-              );
-            })}
+      {onDrawnShapeChange && (
+        <div className="map-draw-toolbar" role="toolbar" aria-label={t('map.drawTools')}>
+          <div className="draw-buttons">
+            {DRAW_MODES.map(({ mode, labelKey, icon }) => (
+              <button
+                key={mode}
+                type="button"
+                className={`draw-button${drawMode === mode ? ' active' : ''}`}
+                aria-pressed={drawMode === mode}
+                title={t(labelKey)}
+                aria-label={t(labelKey)}
+                onClick={() => setDrawMode(drawMode === mode ? null : mode)}
+              >
+                {icon}
+              </button>
+            ))}
+            {drawnShape && (
+              <button
+                type="button"
+                className="draw-button"
+                title={t('map.clearShape')}
+                aria-label={t('map.clearShape')}
+                onClick={() => onDrawnShapeChange(null)}
+              >
+                ✕
+              </button>
+            )}
           </div>
+          {drawMode === 'point' && (
+            <label className="draw-radius">
+              {t('map.drawRadius')}
+              <select
+                value={pointRadius}
+                onChange={(e) => setPointRadius(Number(e.target.value))}
+              >
+                {POINT_RADIUS_OPTIONS.map((radius) => (
+                  <option key={radius} value={radius}>{radius} m</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {drawMode && <div className="draw-hint">{t(DRAW_HINT_KEYS[drawMode])}</div>}
+          {!drawMode && drawnShape && <div className="draw-hint">{t('map.shapeReady')}</div>}
         </div>
       )}
-      {!choroplethConfig && features.length > 0 && (
+      {(choroplethConfig || features.length > 0 || contextLayers.length > 0) && (
         <div className="map-legend">
-          <div className="legend-title">{t('map.legendTitle')}</div>
-          <div className="legend-scale">
-            <div className="legend-item">
-              <span className="legend-color" style={{ backgroundColor: FILL_COLOR }} />
-              <span className="legend-label">
-                {queryLayerName
-                  ? t(`layers.${queryLayerName}`, { defaultValue: humanize(queryLayerName) })
-                  : t('map.legendTitle')}{' '}
-                ({getDominantGeometry(features)})
-              </span>
-            </div>
-            <div className="legend-item">
-              <span className="legend-label">
-                {t('results.featureCount', { count: features.length })}
-              </span>
-            </div>
-          </div>
+          {choroplethConfig && (
+            <>
+              <div className="legend-title">
+                {choroplethConfig.label}
+                {choroplethConfig.unit ? ` (${choroplethConfig.unit})` : ''}
+              </div>
+              <div className="legend-scale">
+                {choroplethConfig.colorRamp.map((color, i) => {
+                  const label = choroplethConfig.classLabels[i] || '';
+                  return (
+                    <div key={i} className="legend-item">
+                      <span className="legend-color" style={{ backgroundColor: color }} />
+                      <span className="legend-label">{label}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+          {!choroplethConfig && features.length > 0 && (
+            <>
+              <div className="legend-title">{t('map.legendTitle')}</div>
+              <div className="legend-scale">
+                <div className="legend-item">
+                  <span className="legend-color" style={{ backgroundColor: FILL_COLOR }} />
+                  <span className="legend-label">
+                    {queryLayerName
+                      ? t(`layers.${queryLayerName}`, { defaultValue: humanize(queryLayerName) })
+                      : t('map.legendTitle')}{' '}
+                    ({getDominantGeometry(features)})
+                  </span>
+                </div>
+                <div className="legend-item">
+                  <span className="legend-label">
+                    {t('results.featureCount', { count: features.length })}
+                  </span>
+                </div>
+              </div>
+            </>
+          )}
+          {contextLayers.length > 0 && (
+            <>
+              <div className="legend-title">{t('map.contextLayers')}</div>
+              <div className="legend-scale">
+                {contextLayers.map((contextLayer, i) => {
+                  const name = t(`layers.${contextLayer.layer}`, {
+                    defaultValue: humanize(contextLayer.layer),
+                  });
+                  return (
+                    <label key={i} className="legend-item legend-context-item">
+                      <input
+                        type="checkbox"
+                        checked={!hiddenContextLayers.includes(i)}
+                        onChange={() => onToggleContextLayer?.(i)}
+                        aria-label={t('map.toggleContextLayer', { layer: name })}
+                      />
+                      <span className="legend-color" style={{ backgroundColor: CONTEXT_COLOR }} />
+                      <span className="legend-label">
+                        {name} ({contextLayer.result.features.length})
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            </>
+          )}
         </div>
       )}
     </div>
@@ -544,8 +926,9 @@ function getBounds(
   }
 
   for (const feature of features) {
-    const geom = feature.geometry;
-    if ('coordinates' in geom) {
+    // Summary rows (attribute aggregates, temporal totals) have no geometry
+    const geom = feature.geometry as Geometry | null;
+    if (geom && 'coordinates' in geom) {
       processCoords(geom.coordinates);
     }
   }
@@ -565,7 +948,9 @@ function getDominantGeometry(
 
   const counts = new Map<string, number>();
   for (const feature of features) {
-    const geometryType = feature.geometry.type;
+    const geometry = feature.geometry as Geometry | null;
+    if (!geometry) continue;
+    const geometryType = geometry.type;
     counts.set(geometryType, (counts.get(geometryType) ?? 0) + 1);
   }
 
@@ -1,4 +1,4 @@
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import type { Feature, FeatureCollection, Geometry } from 'geojson';
 import type {
@@ -6,6 +6,11 @@ import type {
   QueryMetadata,
   StructuredQuery,
 } from '../../types/api';
+import {
+  getEnrichmentColumn,
+  getNearestTargetColumn,
+  targetsResultSet,
+} from '../../../../shared/types/query';
 import fieldLabels from '../../../../shared/locales/field-labels.json';
 import './ResultsPanel.css';
 
@@ -19,6 +24,14 @@ interface ResultsPanelProps {
   equityNarrative?: string | null;
   onFeatureSelect: (feature: Feature<Geometry, Record<string, unknown>> | null) => void;
   onClose: () => void;
+  onShare?: () => Promise<string>; // Resolves to the permalink URL
+  dataGeneratedAt?: string | null; // Data vintage of a shared view
+}
+
+interface ShareState {
+  query: StructuredQuery;
+  url: string | null;
+  status: 'pending' | 'copied' | 'ready' | 'failed';
 }
 
 function downloadBlob(content: string, filename: string, mimeType: string): void {
@@ -89,10 +102,17 @@ export function ResultsPanel({
   equityNarrative,
   onFeatureSelect,
   onClose,
+  onShare,
+  dataGeneratedAt,
 }: ResultsPanelProps) {
   const { t, i18n } = useTranslation();
+  // Tied to the query it was created for, so a new query hides a stale link
+  const [share, setShare] = useState<ShareState | null>(null);
+  const currentShare = share && share.query === query ? share : null;
   const lang = i18n.language.startsWith('es') ? 'es' : 'en';
   const layerName = query?.selectLayer ?? 'results';
+  // A query built on earlier chat results only runs inside its conversation
+  const shareable = query !== null && !targetsResultSet(query);
 
   const handleExportGeoJSON = useCallback(() => {
     const content = featuresToGeoJSON(features, query, metadata);
@@ -104,6 +124,24 @@ export function ResultsPanel({
     downloadBlob(content, `${layerName}.csv`, 'text/csv');
   }, [features, layerName]);
 
+  const handleShare = useCallback(async () => {
+    if (!onShare || !query) return;
+    setShare({ query, url: null, status: 'pending' });
+    try {
+      const url = await onShare();
+      let copied = false;
+      try {
+        await navigator.clipboard.writeText(url);
+        copied = true;
+      } catch {
+        // Clipboard unavailable (permissions, insecure origin): show the link
+      }
+      setShare({ query, url, status: copied ? 'copied' : 'ready' });
+    } catch {
+      setShare({ query, url: null, status: 'failed' });
+    }
+  }, [onShare, query]);
+
   if (features.length === 0 && !query) {
     return null;
   }
@@ -115,8 +153,15 @@ export function ResultsPanel({
       )
     : [];
 
-  // Limit displayed columns to avoid horizontal overflow
-  const displayKeys = propertyKeys.slice(0, 5);
+  // Keep the identifying column first, then any closest-target and
+  // enrichment columns so they stay visible; limit columns to avoid overflow
+  const joinedKeys = getJoinedKeys(query).filter((key) => propertyKeys.includes(key));
+  const orderedKeys = [
+    ...propertyKeys.slice(0, 1),
+    ...joinedKeys,
+    ...propertyKeys.slice(1).filter((key) => !joinedKeys.includes(key)),
+  ];
+  const displayKeys = orderedKeys.slice(0, 5);
   const hasMoreColumns = propertyKeys.length > 5;
 
   return (
@@ -151,6 +196,18 @@ export function ResultsPanel({
               </button>
             </>
           )}
+          {onShare && query && (
+            <button
+              type="button"
+              className="export-btn"
+              onClick={() => void handleShare()}
+              disabled={!shareable || currentShare?.status === 'pending'}
+              aria-label={t('results.shareLabel')}
+              title={shareable ? t('results.shareTitle') : t('results.shareUnavailable')}
+            >
+              {t('results.share')}
+            </button>
+          )}
           <button
             type="button"
             className="results-close-btn"
@@ -173,7 +230,29 @@ export function ResultsPanel({
         </div>
       )}
 
-      {(metadata || grounding) && (
+      {currentShare && currentShare.status !== 'pending' && (
+        <div className="results-share" role="status">
+          {currentShare.status === 'failed' ? (
+            <span className="provenance-warning">{t('results.shareFailed')}</span>
+          ) : (
+            <>
+              <span className="provenance-label">
+                {currentShare.status === 'copied' ? t('results.shareCopied') : t('results.shareReady')}
+              </span>
+              <input
+                className="share-url"
+                type="text"
+                readOnly
+                value={currentShare.url ?? ''}
+                aria-label={t('results.shareUrl')}
+                onFocus={(event) => event.currentTarget.select()}
+              />
+            </>
+          )}
+        </div>
+      )}
+
+      {(metadata || grounding || dataGeneratedAt) && (
         <div className="results-provenance">
           {grounding && (
             <div className="provenance-row">
@@ -201,6 +280,14 @@ export function ResultsPanel({
               <span className="provenance-text">{metadata.queryHash}</span>
             </div>
           )}
+          {dataGeneratedAt && (
+            <div className="provenance-row">
+              <span className="provenance-label">{t('results.dataVintage')}</span>
+              <span className="provenance-text">
+                {new Date(dataGeneratedAt).toLocaleString(lang)}
+              </span>
+            </div>
+          )}
           {metadata?.truncated && (
             <div className="provenance-row">
               <span className="provenance-warning">
@@ -295,6 +382,27 @@ export function ResultsPanel({
   );
 }
 
+/**
+ * Columns joined from other layers: closest-target distance and fields
+ * from proximity filters, then enrichment fields of containing polygons
+ */
+function getJoinedKeys(query: StructuredQuery | null): string[] {
+  const keys: string[] = [];
+  for (const filter of query?.spatialFilters ?? []) {
+    if (!filter.includeNearestTarget && !filter.targetFields?.length) continue;
+    keys.push(getNearestTargetColumn(filter.targetLayer));
+    for (const field of filter.targetFields ?? []) {
+      keys.push(getNearestTargetColumn(filter.targetLayer, field));
+    }
+  }
+  for (const enrichment of query?.enrich ?? []) {
+    for (const field of enrichment.fields) {
+      keys.push(getEnrichmentColumn(enrichment.layer, field));
+    }
+  }
+  return keys;
+}
+
 /**
  * Compare two features for equality by ID or properties
  * Used to match selected features from map clicks with table rows
@@ -2,13 +2,22 @@
  * API client for Parcela
  */
 
+import { readServerSentEvents } from './sse';
 import type {
+  ChatErrorResponse,
   ChatRequest,
   ChatResponse,
+  ChatStreamEvent,
+  ChatTurnResponse,
+  ConversationHistory,
+  ConversationReplay,
+  DrawnShape,
   QueryRequest,
   LayersResponse,
   GroundingInfo,
   QueryResult,
+  ShareRequest,
+  SharedView,
   StructuredQuery,
 } from '../types/api';
 
@@ -77,6 +86,36 @@ export class ApiClientError extends Error {
   }
 }
 
+/**
+ * Build an ApiClientError from an error body: the 'error' field is the
+ * message, 'message' or 'details' explain it
+ */
+function errorFromBody(
+  errorBody: Partial<ChatErrorResponse>,
+  statusCode: number,
+  fallbackMessage: string
+): ApiClientError {
+  return new ApiClientError(
+    errorBody.error ?? fallbackMessage,
+    statusCode,
+    formatErrorDetails(errorBody.message) ?? formatErrorDetails(errorBody.details),
+    // API may return suggestions for how to fix the query
+    errorBody.suggestions,
+    errorBody.grounding
+  );
+}
+
+async function errorFromResponse(response: Response): Promise<ApiClientError> {
+  const fallbackMessage = `API error: ${response.status}`;
+  try {
+    const errorBody = (await response.json()) as Partial<ChatErrorResponse>;
+    return errorFromBody(errorBody, response.status, fallbackMessage);
+  } catch {
+    // Ignore JSON parse errors for error response
+    return new ApiClientError(fallbackMessage, response.status);
+  }
+}
+
 /**
  * Generic fetch wrapper with error handling
  */
@@ -96,30 +135,7 @@ async function apiFetch<T>(
     });
 
     if (!response.ok) {
-      let errorMessage = `API error: ${response.status}`;
-      let details: string | undefined;
-      let suggestions: string[] | undefined;
-      let grounding: GroundingInfo | undefined;
-
-      try {
-        const errorBody = (await response.json()) as Record<string, unknown>;
-        errorMessage = (errorBody.error as string) ?? errorMessage;
-        // API returns 'message' field with more details
-        details = formatErrorDetails(errorBody.message) ?? formatErrorDetails(errorBody.details);
-        // API may return suggestions for how to fix the query
-        suggestions = errorBody.suggestions as string[] | undefined;
-        grounding = errorBody.grounding as GroundingInfo | undefined;
-      } catch {
-        // Ignore JSON parse errors for error response
-      }
-
-      throw new ApiClientError(
-        errorMessage,
-        response.status,
-        details,
-        suggestions,
-        grounding
-      );
+      throw await errorFromResponse(response);
     }
 
     return (await response.json()) as T;
@@ -138,25 +154,115 @@ async function apiFetch<T>(
 
 /**
  * Send a natural language chat message, optionally with a server-owned
- * conversation id for multi-turn refinement.
+ * conversation id for multi-turn refinement and a shape drawn on the map
+ * that limits the results.
  */
 export async function sendChatMessage(
   message: string,
   conversationId?: string,
-  lang: 'en' | 'es' = 'en'
-): Promise<ChatResponse> {
+  lang: 'en' | 'es' = 'en',
+  drawnShape?: DrawnShape
+): Promise<ChatTurnResponse> {
   const request: ChatRequest = {
     message,
     conversationId,
     lang,
+    drawnShape,
   };
 
-  return apiFetch<ChatResponse>('/api/chat', {
+  return apiFetch<ChatTurnResponse>('/api/chat', {
     method: 'POST',
     body: JSON.stringify(request),
   });
 }
 
+/**
+ * Get the recorded turns of a conversation
+ */
+export async function getConversation(
+  conversationId: string
+): Promise<ConversationHistory> {
+  return apiFetch<ConversationHistory>(
+    `/api/conversations/${encodeURIComponent(conversationId)}`
+  );
+}
+
+/**
+ * Re-run every turn of a conversation against the current data
+ */
+export async function replayConversation(
+  conversationId: string
+): Promise<ConversationReplay> {
+  return apiFetch<ConversationReplay>(
+    `/api/conversations/${encodeURIComponent(conversationId)}/replay`,
+    { method: 'POST' }
+  );
+}
+
+/**
+ * Send a chat message over the streaming endpoint. onEvent receives each
+ * stage as it arrives (query, feature chunks, summary, narrative deltas);
+ * the promise resolves to the assembled ChatResponse once the turn is done,
+ * or to the clarifying question when the server needs more to go on.
+ */
+export async function streamChatMessage(
+  message: string,
+  conversationId: string | undefined,
+  lang: 'en' | 'es',
+  drawnShape: DrawnShape | undefined,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<ChatTurnResponse> {
+  const request: ChatRequest = {
+    message,
+    conversationId,
+    lang,
+    drawnShape,
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/api/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: JSON.stringify(request),
+    });
+  } catch (error) {
+    throw new ApiClientError(
+      error instanceof Error ? error.message : 'Unknown error',
+      0
+    );
+  }
+  if (!response.ok) {
+    throw await errorFromResponse(response);
+  }
+  if (!response.body) {
+    throw new ApiClientError('Streaming is not supported by this browser', 0);
+  }
+
+  const features: ChatResponse['result']['features'] = [];
+  for await (const sse of readServerSentEvents(response.body)) {
+    const event = { event: sse.event, data: JSON.parse(sse.data) } as ChatStreamEvent;
+    if (event.event === 'error') {
+      throw errorFromBody(event.data, event.data.status, 'Chat failed');
+    }
+    if (event.event === 'features') {
+      features.push(...event.data.features);
+    }
+    onEvent(event);
+    if (event.event === 'clarification') {
+      return event.data;
+    }
+    if (event.event === 'done') {
+      return { ...event.data, result: { type: 'FeatureCollection', features } };
+    }
+  }
+
+  throw new ApiClientError('Chat stream ended before the response was complete', 0);
+}
+
 /**
  * Execute a structured query directly
  */
@@ -171,6 +277,23 @@ export async function executeQuery(
   });
 }
 
+/**
+ * Store a query with its map view and styling as a permalink
+ */
+export async function createShare(request: ShareRequest): Promise<SharedView> {
+  return apiFetch<SharedView>('/api/share', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+/**
+ * Get a stored permalink
+ */
+export async function getShare(shareId: string): Promise<SharedView> {
+  return apiFetch<SharedView>(`/api/share/${encodeURIComponent(shareId)}`);
+}
+
 /**
  * Get available layers and their schemas
  */
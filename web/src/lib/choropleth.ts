@@ -5,13 +5,20 @@
  * of quantitative attribute data.
  *
  * Design principles:
- * - Colorblind-safe: single-hue sequential schemes only
- * - Meaningful breaks: based on policy thresholds (poverty line, AMI), not arbitrary quantiles
+ * - Colorblind-safe: single-hue sequential schemes, except the blue-red
+ *   diverging scheme for hot-spot z-scores (negative and positive both matter)
+ * - Meaningful breaks: based on policy thresholds (poverty line, AMI), not arbitrary quantiles.
+ *   Overlap share uses fixed percent-covered classes; hot-spot z-scores use
+ *   the Gi* significance cutoffs.
+ *   Spatial aggregates (counts/sums per polygon) have no policy thresholds, so
+ *   they fall back to quantile breaks computed from the result. Grid density
+ *   counts do the same.
  * - Clear interpretation: lighter = lower values, darker = higher values
  */
 
 import type { Feature, Geometry } from 'geojson';
 import type { StructuredQuery } from '../types/api';
+import { HOTSPOT_Z_THRESHOLDS } from '../../../shared/types/query';
 
 /**
  * Colorblind-safe sequential color ramps (single hue, light to dark)
@@ -26,6 +33,8 @@ export const COLOR_RAMPS = {
   oranges: ['#feedde', '#fdbe85', '#fd8d3c', '#e6550d', '#a63603'],
   // Greens: light to dark (5 classes)
   greens: ['#edf8e9', '#bae4b3', '#74c476', '#31a354', '#006d2c'],
+  // RdBu: cold (blue) through neutral to hot (red) (5 classes)
+  diverging: ['#0571b0', '#92c5de', '#f7f7f7', '#f4a582', '#ca0020'],
 } as const;
 
 /**
@@ -156,8 +165,13 @@ const CENSUS_TRACT_FIELDS: Record<string, FieldConfig> = {
  */
 function detectThematicField(
   query: StructuredQuery | null,
-  features: Feature<Geometry, Record<string, unknown>>[]
+  features: Feature<Geometry, Record<string, unknown>>[],
+  preferredField?: string
 ): string | null {
+  if (preferredField && preferredField in CENSUS_TRACT_FIELDS) {
+    return preferredField;
+  }
+
   // If query has attribute filters, use the filtered field
   if (query?.attributeFilters && query.attributeFilters.length > 0) {
     const filteredField = query.attributeFilters[0]?.field;
@@ -185,14 +199,169 @@ function detectThematicField(
   return null;
 }
 
+const QUANTILE_CLASSES = 5;
+
+function formatMetricValue(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString() : value.toFixed(1);
+}
+
+/**
+ * Quantile breaks from the data, deduplicated and strictly ascending so the
+ * MapLibre step expression stays valid when many values tie.
+ */
+export function computeQuantileBreaks(values: number[], classes = QUANTILE_CLASSES): number[] {
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const min = sorted[0]!;
+  const breaks: number[] = [];
+  for (let i = 1; i < classes; i++) {
+    const value = sorted[Math.floor((i * sorted.length) / classes)];
+    if (value !== undefined && value > min && !breaks.includes(value)) {
+      breaks.push(value);
+    }
+  }
+  return breaks;
+}
+
+/**
+ * Choropleth for a spatial aggregate: colors the group polygons by the
+ * first metric, using quantile breaks.
+ */
+function getSpatialAggregateConfig(
+  query: StructuredQuery,
+  features: Feature<Geometry, Record<string, unknown>>[]
+): ChoroplethConfig | null {
+  const metric = query.aggregate?.metrics[0];
+  if (!metric) return null;
+  return getQuantileConfig(metric.alias ?? `${metric.op}_${metric.field}`, features);
+}
+
+/**
+ * Quantile-classed choropleth for a numeric result field
+ */
+function getQuantileConfig(
+  field: string,
+  features: Feature<Geometry, Record<string, unknown>>[]
+): ChoroplethConfig | null {
+  const values: number[] = [];
+  for (const feature of features) {
+    const value = feature.properties?.[field];
+    if (typeof value === 'number' && !isNaN(value)) {
+      values.push(value);
+    }
+  }
+  if (values.length === 0) return null;
+
+  const breaks = computeQuantileBreaks(values);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const classLabels = breaks.length === 0
+    ? [`${formatMetricValue(min)}–${formatMetricValue(max)}`]
+    : [
+        `< ${formatMetricValue(breaks[0]!)}`,
+        ...breaks.slice(1).map((b, i) => `${formatMetricValue(breaks[i]!)}–${formatMetricValue(b)}`),
+        `≥ ${formatMetricValue(breaks[breaks.length - 1]!)}`,
+      ];
+
+  return {
+    field,
+    label: field.replace(/_/g, ' '),
+    colorRamp: COLOR_RAMPS.oranges.slice(0, breaks.length + 1),
+    breaks,
+    classLabels,
+    format: formatMetricValue,
+  };
+}
+
+/**
+ * Overlap share uses fixed percent-covered breaks so maps stay comparable
+ * across target layers and filters.
+ */
+const OVERLAP_PCT_CONFIG: FieldConfig = {
+  field: 'overlap_pct',
+  label: 'Percent Covered',
+  colorRamp: COLOR_RAMPS.blues,
+  format: (v) => `${v.toFixed(0)}%`,
+  unit: '%',
+  fixedBreaks: [10, 25, 50, 75],
+  classLabels: [
+    'Minimal (<10%)',
+    'Some (10-25%)',
+    'Substantial (25-50%)',
+    'Majority (50-75%)',
+    'Nearly all (>75%)',
+  ],
+};
+
+/**
+ * Hot-spot z-scores are classed at the two-tailed 90% and 95% Gi*
+ * cutoffs, matching the API's hotspot_class.
+ */
+const HOTSPOT_ZSCORE_CONFIG: FieldConfig = {
+  field: 'gi_zscore',
+  label: 'Hot Spot (Gi* z-score)',
+  colorRamp: COLOR_RAMPS.diverging,
+  format: (v) => v.toFixed(2),
+  fixedBreaks: [
+    -HOTSPOT_Z_THRESHOLDS.p95,
+    -HOTSPOT_Z_THRESHOLDS.p90,
+    HOTSPOT_Z_THRESHOLDS.p90,
+    HOTSPOT_Z_THRESHOLDS.p95,
+  ],
+  classLabels: [
+    'Cold spot (95%)',
+    'Cold spot (90%)',
+    'Not significant',
+    'Hot spot (90%)',
+    'Hot spot (95%)',
+  ],
+};
+
 /**
  * Determine if features should use choropleth mapping
- * Returns configuration if applicable, null otherwise
+ * Returns configuration if applicable, null otherwise. preferredField is
+ * the field a shared view was styled with; null means it had no choropleth.
  */
 export function getChoroplethConfig(
   query: StructuredQuery | null,
-  features: Feature<Geometry, Record<string, unknown>>[]
+  features: Feature<Geometry, Record<string, unknown>>[],
+  preferredField?: string | null
 ): ChoroplethConfig | null {
+  if (preferredField === null) {
+    return null;
+  }
+
+  if (query?.aggregate?.spatialGroupBy) {
+    if (features.length === 0 || !features[0]?.geometry?.type.includes('Polygon')) {
+      return null;
+    }
+    return getSpatialAggregateConfig(query, features);
+  }
+
+  if (query?.density) {
+    if (features.length === 0 || !features[0]?.geometry?.type.includes('Polygon')) {
+      return null;
+    }
+    if (query.density.method === 'grid') {
+      return getQuantileConfig('point_count', features);
+    }
+    const hasZScores = features.some((f) => typeof f.properties?.gi_zscore === 'number');
+    if (!hasZScores) {
+      return null;
+    }
+    const { fixedBreaks, ...config } = HOTSPOT_ZSCORE_CONFIG;
+    return { ...config, breaks: fixedBreaks };
+  }
+
+  if (query?.overlap) {
+    const hasOverlap = features.some((f) => typeof f.properties?.overlap_pct === 'number');
+    if (!hasOverlap || !features[0]?.geometry?.type.includes('Polygon')) {
+      return null;
+    }
+    const { fixedBreaks, ...config } = OVERLAP_PCT_CONFIG;
+    return { ...config, breaks: fixedBreaks };
+  }
+
   // Only support census_tracts for now
   if (query?.selectLayer !== 'census_tracts') {
     return null;
@@ -204,7 +373,7 @@ export function getChoroplethConfig(
   }
 
   // Detect which field to use
-  const thematicField = detectThematicField(query, features);
+  const thematicField = detectThematicField(query, features, preferredField);
   if (!thematicField) {
     return null;
   }
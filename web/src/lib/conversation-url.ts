@@ -0,0 +1,30 @@
+/**
+ * Conversation id in the page URL (`?conversation=<id>`), so a reload or a
+ * copied link restores the same chat session.
+ */
+
+const CONVERSATION_PARAM = 'conversation';
+
+/**
+ * Conversation id from the current URL, or null when absent
+ */
+export function readConversationId(location: Location = window.location): string | null {
+  const id = new URLSearchParams(location.search).get(CONVERSATION_PARAM);
+  return id && id.trim() !== '' ? id : null;
+}
+
+/**
+ * Put the conversation id in the URL, or remove it when null. Replaces the
+ * history entry so each chat turn doesn't add a back-button step.
+ */
+export function writeConversationId(id: string | null): void {
+  const url = new URL(window.location.href);
+  if (id) {
+    url.searchParams.set(CONVERSATION_PARAM, id);
+  } else {
+    url.searchParams.delete(CONVERSATION_PARAM);
+  }
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Map drawing helpers
+ *
+ * Turns clicks and drags from the MapView draw tool into the DrawnShape
+ * sent with the next chat message, and back into GeoJSON for display.
+ */
+
+import type { Feature, Polygon } from 'geojson';
+import type { DrawnShape } from '../types/api';
+
+export type DrawMode = DrawnShape['type'];
+
+export type LngLat = [number, number];
+
+/** Radius choices offered for point + radius shapes (meters) */
+export const POINT_RADIUS_OPTIONS = [250, 500, 1000, 2000] as const;
+
+export const DEFAULT_POINT_RADIUS = 500;
+
+const EARTH_RADIUS_METERS = 6_371_008.8;
+const CIRCLE_STEPS = 64;
+
+/**
+ * Polygon shape from clicked vertices, or null when fewer than three
+ * distinct vertices were placed. The ring is closed here.
+ */
+export function polygonFromVertices(vertices: LngLat[]): DrawnShape | null {
+  const distinct = vertices.filter(
+    (vertex, i) => i === 0 || vertex[0] !== vertices[i - 1]![0] || vertex[1] !== vertices[i - 1]![1]
+  );
+  if (distinct.length < 3) return null;
+  return {
+    type: 'polygon',
+    geometry: { type: 'Polygon', coordinates: [[...distinct, distinct[0]!]] },
+  };
+}
+
+/**
+ * Rectangle shape from two dragged corners, or null for a zero-area drag
+ */
+export function rectangleFromCorners(start: LngLat, end: LngLat): DrawnShape | null {
+  const bbox: [number, number, number, number] = [
+    Math.min(start[0], end[0]),
+    Math.min(start[1], end[1]),
+    Math.max(start[0], end[0]),
+    Math.max(start[1], end[1]),
+  ];
+  if (bbox[0] === bbox[2] || bbox[1] === bbox[3]) return null;
+  return { type: 'rectangle', bbox };
+}
+
+export function pointWithRadius(center: LngLat, radiusMeters: number): DrawnShape {
+  return {
+    type: 'point',
+    geometry: { type: 'Point', coordinates: center },
+    radiusMeters,
+  };
+}
+
+/**
+ * Approximate a circle of radiusMeters around a lon/lat center, for
+ * display only; the API measures the radius exactly in UTM.
+ */
+export function circlePolygon(center: LngLat, radiusMeters: number): Polygon {
+  const [lng, lat] = center;
+  const angular = radiusMeters / EARTH_RADIUS_METERS;
+  const latRad = (lat * Math.PI) / 180;
+  const lngRad = (lng * Math.PI) / 180;
+  const ring: LngLat[] = [];
+
+  for (let i = 0; i < CIRCLE_STEPS; i++) {
+    const bearing = (2 * Math.PI * i) / CIRCLE_STEPS;
+    const pointLat = Math.asin(
+      Math.sin(latRad) * Math.cos(angular) +
+        Math.cos(latRad) * Math.sin(angular) * Math.cos(bearing)
+    );
+    const pointLng =
+      lngRad +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angular) * Math.cos(latRad),
+        Math.cos(angular) - Math.sin(latRad) * Math.sin(pointLat)
+      );
+    ring.push([(pointLng * 180) / Math.PI, (pointLat * 180) / Math.PI]);
+  }
+  ring.push(ring[0]!);
+
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+/**
+ * Display polygon for a drawn shape
+ */
+export function drawnShapeToFeature(shape: DrawnShape): Feature<Polygon> {
+  let geometry: Polygon;
+  switch (shape.type) {
+    case 'polygon':
+      geometry = shape.geometry;
+      break;
+    case 'rectangle': {
+      const [minLng, minLat, maxLng, maxLat] = shape.bbox;
+      geometry = {
+        type: 'Polygon',
+        coordinates: [[
+          [minLng, minLat],
+          [maxLng, minLat],
+          [maxLng, maxLat],
+          [minLng, maxLat],
+          [minLng, minLat],
+        ]],
+      };
+      break;
+    }
+    case 'point':
+      geometry = circlePolygon(shape.geometry.coordinates, shape.radiusMeters);
+      break;
+  }
+  return { type: 'Feature', geometry, properties: { shapeType: shape.type } };
+}
@@ -0,0 +1,35 @@
+/**
+ * Share permalink in the page URL (`?q=<id>`)
+ */
+
+const SHARE_PARAM = 'q';
+
+/**
+ * Share id from the current URL, or null when absent
+ */
+export function readShareId(location: Location = window.location): string | null {
+  const id = new URLSearchParams(location.search).get(SHARE_PARAM);
+  return id && id.trim() !== '' ? id : null;
+}
+
+/**
+ * Absolute link that opens the app on a shared view
+ */
+export function buildShareUrl(id: string, location: Location = window.location): string {
+  const url = new URL(location.pathname, location.origin);
+  url.searchParams.set(SHARE_PARAM, id);
+  return url.href;
+}
+
+/**
+ * Drop the share id from the URL once the page has moved on from the shared
+ * view, so a reload doesn't bring it back
+ */
+export function clearShareId(): void {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has(SHARE_PARAM)) {
+    return;
+  }
+  url.searchParams.delete(SHARE_PARAM);
+  window.history.replaceState(window.history.state, '', url);
+}
@@ -0,0 +1,59 @@
+/**
+ * Server-Sent Events reader for fetch response bodies
+ *
+ * EventSource only supports GET, so POST streams like /api/chat/stream are
+ * read from the response body and split into events here.
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Parse one event block (the lines between blank lines). Multiple data
+ * lines are joined with newlines; comments and unknown fields are ignored.
+ */
+export function parseServerSentEvent(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (line === '' || line.startsWith(':')) continue;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Yield events from a stream as they complete. Network chunks can split an
+ * event anywhere, so text is buffered until a blank line ends the event.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : blocks.pop() ?? '';
+      for (const block of blocks) {
+        const event = parseServerSentEvent(block);
+        if (event) yield event;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -8,12 +8,27 @@
 import { create } from 'zustand';
 import type { Feature, Geometry } from 'geojson';
 import i18n from '../i18n';
-import { sendChatMessage, ApiClientError } from '../lib/api';
+import {
+  streamChatMessage,
+  getConversation,
+  replayConversation,
+  createShare,
+  getShare,
+  executeQuery,
+  ApiClientError,
+} from '../lib/api';
+import { buildShareUrl } from '../lib/share-url';
 import type {
   ChatMessage,
-  ChatResponse,
+  ChatStreamEvent,
+  ChatTurnResponse,
+  ContextLayer,
+  DrawnShape,
   GroundingInfo,
+  MapViewState,
   QueryMetadata,
+  ShareStyle,
+  SharedView,
   StructuredQuery,
 } from '../types/api';
 
@@ -24,6 +39,7 @@ interface ChatState {
 
   // ── Query results ──
   features: Feature<Geometry, Record<string, unknown>>[];
+  contextLayers: ContextLayer[]; // Target layers drawn under the results
   currentQuery: StructuredQuery | null;
   queryMetadata: QueryMetadata | null;
   grounding: GroundingInfo | null;
@@ -33,6 +49,11 @@ interface ChatState {
   // ── UI ──
   selectedFeature: Feature<Geometry, Record<string, unknown>> | null;
   showResults: boolean;
+  drawnShape: DrawnShape | null; // Sent with the next message, then cleared
+  hiddenContextLayers: number[]; // Indexes into contextLayers toggled off
+  mapView: MapViewState | null; // Current map camera, kept for sharing
+  restoredView: MapViewState | null; // Camera to show instead of fitting results
+  sharedView: SharedView | null; // Permalink the current results were opened from
 
   // ── Server-owned conversation session ──
   conversationId: string | null;
@@ -40,8 +61,14 @@ interface ChatState {
 
   // ── Actions ──
   sendMessage: (content: string) => Promise<void>;
+  restoreConversation: (conversationId: string) => Promise<void>;
+  shareResults: (style?: ShareStyle) => Promise<string>;
+  loadShare: (shareId: string) => Promise<void>;
+  setMapView: (view: MapViewState) => void;
   selectFeature: (feature: Feature<Geometry, Record<string, unknown>> | null) => void;
   clickFeature: (feature: Feature<Geometry, Record<string, unknown>>) => void;
+  setDrawnShape: (shape: DrawnShape | null) => void;
+  toggleContextLayer: (index: number) => void;
   closeResults: () => void;
   clearConversation: () => void;
 }
@@ -75,6 +102,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
   messages: [],
   isLoading: false,
   features: [],
+  contextLayers: [],
   currentQuery: null,
   queryMetadata: null,
   grounding: null,
@@ -82,6 +110,11 @@ export const useChatStore = create<ChatState>((set, get) => ({
   equityNarrative: null,
   selectedFeature: null,
   showResults: false,
+  drawnShape: null,
+  hiddenContextLayers: [],
+  mapView: null,
+  restoredView: null,
+  sharedView: null,
   conversationId: null,
   requestGeneration: 0,
 
@@ -96,26 +129,99 @@ export const useChatStore = create<ChatState>((set, get) => ({
       timestamp: new Date(),
     };
 
+    const { conversationId, drawnShape } = get();
+
     set((state) => ({
       messages: [...state.messages, userMessage],
       isLoading: true,
       requestGeneration: generation,
+      drawnShape: null,
     }));
 
-    const { conversationId } = get();
+    // Draw each stage as it streams in: the map gets the features as soon
+    // as they land, before the equity narrative has finished. The query is
+    // applied with the first feature chunk, so a turn that fails before
+    // returning features leaves the current query and its results together.
+    let narrative = '';
+    let streamedQuery: StructuredQuery | null = null;
+    const onEvent = (event: ChatStreamEvent) => {
+      if (get().requestGeneration !== generation) {
+        return;
+      }
+      switch (event.event) {
+        case 'query':
+          streamedQuery = event.data.query;
+          break;
+        case 'features':
+          set((state) => ({
+            features: event.data.chunk === 1
+              ? event.data.features
+              : [...state.features, ...event.data.features],
+            ...(event.data.chunk === 1
+              ? {
+                currentQuery: streamedQuery,
+                contextLayers: [],
+                hiddenContextLayers: [],
+                restoredView: null,
+                sharedView: null,
+                selectedFeature: null,
+                grounding: null,
+                equityNarrative: null,
+                explanation: null,
+                queryMetadata: null,
+              }
+              : {}),
+            showResults: true,
+          }));
+          break;
+        case 'context_layers':
+          set({ contextLayers: event.data.contextLayers });
+          break;
+        case 'summary':
+          set({ explanation: event.data.summary, queryMetadata: event.data.metadata });
+          break;
+        case 'narrative':
+          narrative += event.data.delta;
+          set({ equityNarrative: narrative, explanation: narrative });
+          break;
+        default:
+          break;
+      }
+    };
 
     try {
       const lang: 'en' | 'es' = i18n.language.startsWith('es') ? 'es' : 'en';
-      const response: ChatResponse = await sendChatMessage(
+      const response: ChatTurnResponse = await streamChatMessage(
         content,
         conversationId ?? undefined,
-        lang
+        lang,
+        drawnShape ?? undefined,
+        onEvent
       );
 
       if (get().requestGeneration !== generation) {
         return;
       }
 
+      // A clarifying question leaves the current results on the map; the
+      // reply (typed or a picked choice) resolves it on the server
+      if ('clarification' in response) {
+        const clarificationMessage: ChatMessage = {
+          id: crypto.randomUUID(),
+          role: 'assistant',
+          content: response.clarification.question,
+          timestamp: new Date(),
+          grounding: response.grounding,
+          clarification: response.clarification,
+        };
+        set({
+          messages: [...get().messages, clarificationMessage],
+          isLoading: false,
+          conversationId: response.conversationId,
+        });
+        return;
+      }
+
       const assistantMessage: ChatMessage = {
         id: crypto.randomUUID(),
         role: 'assistant',
@@ -131,6 +237,8 @@ export const useChatStore = create<ChatState>((set, get) => ({
       set({
         messages: [...get().messages, assistantMessage],
         features: response.result.features,
+        contextLayers: response.contextLayers ?? [],
+        hiddenContextLayers: [],
         currentQuery: response.query,
         queryMetadata: response.metadata,
         grounding: response.grounding,
@@ -139,6 +247,8 @@ export const useChatStore = create<ChatState>((set, get) => ({
         showResults: true,
         selectedFeature: null,
         isLoading: false,
+        restoredView: null,
+        sharedView: null,
         conversationId: response.conversationId ?? null,
       });
     } catch (error) {
@@ -179,6 +289,151 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }
   },
 
+  restoreConversation: async (conversationId: string) => {
+    const generation = get().requestGeneration + 1;
+    set({ isLoading: true, requestGeneration: generation });
+
+    try {
+      const history = await getConversation(conversationId);
+      const replay = await replayConversation(conversationId);
+
+      if (get().requestGeneration !== generation) {
+        return;
+      }
+
+      // Rebuild the transcript from the recorded turns; queries and counts
+      // come from the replay so they reflect the current data
+      const messages: ChatMessage[] = [];
+      history.turns.forEach((turn, index) => {
+        const replayed = replay.turns[index];
+        const isLast = index === history.turns.length - 1;
+        const timestamp = new Date(turn.createdAt);
+        let content = turn.explanation;
+        if (replayed && !replayed.error && replayed.featureCount !== turn.featureCount) {
+          content += `\n\n${i18n.t('chat.replayCountChanged', {
+            count: replayed.featureCount,
+            previous: turn.featureCount,
+          })}`;
+        }
+
+        messages.push(
+          { id: crypto.randomUUID(), role: 'user', content: turn.message, timestamp },
+          {
+            id: crypto.randomUUID(),
+            role: 'assistant',
+            content,
+            timestamp,
+            query: replayed?.query ?? turn.query,
+            result: isLast ? replay.result ?? undefined : undefined,
+            metadata: isLast ? replay.result?.metadata : undefined,
+            error: replayed?.error,
+          }
+        );
+      });
+
+      const lastTurn = replay.turns[replay.turns.length - 1];
+      set({
+        messages,
+        features: replay.result?.features ?? [],
+        contextLayers: [],
+        hiddenContextLayers: [],
+        currentQuery: lastTurn?.query ?? null,
+        queryMetadata: replay.result?.metadata ?? null,
+        grounding: null,
+        explanation: history.turns[history.turns.length - 1]?.explanation ?? null,
+        equityNarrative: null,
+        showResults: replay.result !== null,
+        selectedFeature: null,
+        isLoading: false,
+        restoredView: null,
+        sharedView: null,
+        conversationId: history.conversationId,
+      });
+    } catch (error) {
+      if (get().requestGeneration !== generation) {
+        return;
+      }
+
+      const assistantMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: i18n.t('chat.restoreFailed'),
+        timestamp: new Date(),
+        error: error instanceof Error ? error.message : undefined,
+      };
+      set({
+        messages: [assistantMessage],
+        isLoading: false,
+        conversationId: null,
+      });
+    }
+  },
+
+  shareResults: async (style?: ShareStyle) => {
+    const { currentQuery, mapView } = get();
+    if (!currentQuery) {
+      throw new Error('No query to share');
+    }
+    const shared = await createShare({
+      query: currentQuery,
+      mapView: mapView ?? undefined,
+      style,
+    });
+    return buildShareUrl(shared.id);
+  },
+
+  loadShare: async (shareId: string) => {
+    const generation = get().requestGeneration + 1;
+    set({ isLoading: true, requestGeneration: generation });
+
+    try {
+      const shared = await getShare(shareId);
+      const result = await executeQuery(shared.query);
+
+      if (get().requestGeneration !== generation) {
+        return;
+      }
+
+      set({
+        messages: [],
+        features: result.features,
+        contextLayers: [],
+        hiddenContextLayers: [],
+        currentQuery: shared.query,
+        queryMetadata: result.metadata ?? null,
+        grounding: null,
+        explanation: null,
+        equityNarrative: null,
+        showResults: true,
+        selectedFeature: null,
+        isLoading: false,
+        restoredView: shared.mapView ?? null,
+        sharedView: shared,
+        conversationId: null,
+      });
+    } catch (error) {
+      if (get().requestGeneration !== generation) {
+        return;
+      }
+
+      const assistantMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: i18n.t('chat.shareLoadFailed'),
+        timestamp: new Date(),
+        error: error instanceof Error ? error.message : undefined,
+      };
+      set({
+        messages: [assistantMessage],
+        isLoading: false,
+      });
+    }
+  },
+
+  setMapView: (view) => {
+    set({ mapView: view });
+  },
+
   selectFeature: (feature) => {
     set({ selectedFeature: feature });
   },
@@ -187,6 +442,19 @@ export const useChatStore = create<ChatState>((set, get) => ({
     set({ selectedFeature: feature, showResults: true });
   },
 
+  setDrawnShape: (shape) => {
+    set({ drawnShape: shape });
+  },
+
+  toggleContextLayer: (index) => {
+    const hidden = get().hiddenContextLayers;
+    set({
+      hiddenContextLayers: hidden.includes(index)
+        ? hidden.filter((i) => i !== index)
+        : [...hidden, index],
+    });
+  },
+
   closeResults: () => {
     set({ showResults: false, selectedFeature: null });
   },
@@ -195,6 +463,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
     set({
       messages: [],
       features: [],
+      contextLayers: [],
       currentQuery: null,
       queryMetadata: null,
       grounding: null,
@@ -202,6 +471,10 @@ export const useChatStore = create<ChatState>((set, get) => ({
       equityNarrative: null,
       selectedFeature: null,
       showResults: false,
+      drawnShape: null,
+      hiddenContextLayers: [],
+      restoredView: null,
+      sharedView: null,
       conversationId: null,
       requestGeneration: get().requestGeneration + 1,
     });
@@ -4,11 +4,24 @@
 
 import type { StructuredQuery } from '../../../shared/types/query';
 import type {
+  ChatClarificationResponse as SharedChatClarificationResponse,
+  ChatErrorResponse as SharedChatErrorResponse,
   ChatRequest as SharedChatRequest,
   ChatResponse as SharedChatResponse,
+  ChatStreamEvent as SharedChatStreamEvent,
+  ChatTurnResponse as SharedChatTurnResponse,
+  Clarification as SharedClarification,
+  ContextLayer as SharedContextLayer,
+  ConversationHistory as SharedConversationHistory,
+  ConversationReplay as SharedConversationReplay,
+  DrawnShape as SharedDrawnShape,
   GroundingInfo as SharedGroundingInfo,
+  MapViewState as SharedMapViewState,
   QueryMetadata as SharedQueryMetadata,
   QueryResult as SharedQueryResult,
+  ShareRequest as SharedShareRequest,
+  ShareStyle as SharedShareStyle,
+  SharedView as SharedSharedView,
 } from '../../../shared/types/api';
 
 export type {
@@ -31,6 +44,7 @@ export interface ChatMessage {
   metadata?: QueryMetadata;
   grounding?: GroundingInfo;
   equityNarrative?: string | null;
+  clarification?: Clarification; // Question whose choices the user can pick
   error?: string;
 }
 
@@ -42,6 +56,32 @@ export type ChatRequest = SharedChatRequest;
 
 export type ChatResponse = SharedChatResponse;
 
+export type ChatClarificationResponse = SharedChatClarificationResponse;
+
+export type ChatErrorResponse = SharedChatErrorResponse;
+
+export type ChatTurnResponse = SharedChatTurnResponse;
+
+export type Clarification = SharedClarification;
+
+export type ChatStreamEvent = SharedChatStreamEvent;
+
+export type DrawnShape = SharedDrawnShape;
+
+export type ContextLayer = SharedContextLayer;
+
+export type ConversationHistory = SharedConversationHistory;
+
+export type ConversationReplay = SharedConversationReplay;
+
+export type MapViewState = SharedMapViewState;
+
+export type ShareStyle = SharedShareStyle;
+
+export type ShareRequest = SharedShareRequest;
+
+export type SharedView = SharedSharedView;
+
 export interface QueryRequest {
   query: StructuredQuery;
 }
@@ -6,7 +6,7 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
 import { ChatPanel } from '../src/components/ChatPanel';
 
 const defaultProps = {
@@ -145,6 +145,39 @@ describe('ChatPanel', () => {
     expect(screen.getByRole('alert')).toHaveTextContent('Query failed');
   });
 
+  it('sends a clarification choice when its chip is clicked', () => {
+    const onSendMessage = vi.fn();
+    const question = {
+      id: '2',
+      role: 'assistant' as const,
+      content: 'Which area do you mean by "downtown"?',
+      timestamp: new Date(),
+      clarification: {
+        reason: 'ambiguous_place' as const,
+        question: 'Which area do you mean by "downtown"?',
+        choices: [
+          { label: 'Downtown', kind: 'place' as const, layer: 'neighborhoods' },
+          { label: 'Downtown and Eastside', kind: 'place' as const, layer: 'historic_districts' },
+        ],
+      },
+    };
+
+    const { rerender } = render(
+      <ChatPanel {...defaultProps} messages={[question]} onSendMessage={onSendMessage} />
+    );
+    const choices = screen.getByRole('group', { name: 'Suggested answers' });
+    fireEvent.click(within(choices).getByRole('button', { name: 'Downtown and Eastside' }));
+
+    expect(onSendMessage).toHaveBeenCalledWith('Downtown and Eastside');
+
+    // Once answered, the question's chips no longer send
+    const reply = { id: '3', role: 'user' as const, content: 'Downtown and Eastside', timestamp: new Date() };
+    rerender(
+      <ChatPanel {...defaultProps} messages={[question, reply]} onSendMessage={onSendMessage} />
+    );
+    expect(screen.getByRole('button', { name: 'Downtown' })).toBeDisabled();
+  });
+
   it('has proper accessibility: labeled textarea and log region', () => {
     render(<ChatPanel {...defaultProps} />);
 
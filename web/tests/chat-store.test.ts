@@ -11,7 +11,12 @@ import type { ChatResponse } from '../src/types/api';
 
 // Mock the API client
 vi.mock('../src/lib/api', () => ({
-  sendChatMessage: vi.fn(),
+  streamChatMessage: vi.fn(),
+  getConversation: vi.fn(),
+  replayConversation: vi.fn(),
+  createShare: vi.fn(),
+  getShare: vi.fn(),
+  executeQuery: vi.fn(),
   ApiClientError: class ApiClientError extends Error {
     statusCode: number;
     details?: unknown;
@@ -79,8 +84,8 @@ describe('Chat store', () => {
   });
 
   it('adds user message and sets loading on sendMessage', async () => {
-    const { sendChatMessage } = await import('../src/lib/api');
-    const mock = vi.mocked(sendChatMessage);
+    const { streamChatMessage } = await import('../src/lib/api');
+    const mock = vi.mocked(streamChatMessage);
     // Make the API call hang so we can check intermediate state
     mock.mockImplementation(() => new Promise(() => {}));
 
@@ -98,8 +103,8 @@ describe('Chat store', () => {
   });
 
   it('handles successful API response', async () => {
-    const { sendChatMessage } = await import('../src/lib/api');
-    vi.mocked(sendChatMessage).mockResolvedValue(mockResponse);
+    const { streamChatMessage } = await import('../src/lib/api');
+    vi.mocked(streamChatMessage).mockResolvedValue(mockResponse);
 
     await getState().sendMessage('Show high-value parcels');
 
@@ -118,7 +123,7 @@ describe('Chat store', () => {
   });
 
   it('keeps only the newest concurrent sendMessage response', async () => {
-    const { sendChatMessage } = await import('../src/lib/api');
+    const { streamChatMessage } = await import('../src/lib/api');
     const firstResponse: ChatResponse = {
       ...mockResponse,
       query: { selectLayer: 'parcels', limit: 1 },
@@ -142,7 +147,7 @@ describe('Chat store', () => {
     const secondPromise = new Promise<ChatResponse>((resolve) => {
       resolveSecond = resolve;
     });
-    vi.mocked(sendChatMessage)
+    vi.mocked(streamChatMessage)
       .mockReturnValueOnce(firstPromise)
       .mockReturnValueOnce(secondPromise);
 
@@ -164,22 +169,275 @@ describe('Chat store', () => {
     ]);
   });
 
+  it('adds a clarifying question without replacing the current results', async () => {
+    const { streamChatMessage } = await import('../src/lib/api');
+    vi.mocked(streamChatMessage)
+      .mockResolvedValueOnce(mockResponse)
+      .mockResolvedValueOnce({
+        conversationId: '11111111-1111-4111-8111-111111111111',
+        conversationTurn: 1,
+        clarification: {
+          reason: 'unknown_address',
+          question: 'Which address did you mean?',
+          choices: [{ label: '101 CANYON RD', kind: 'address', layer: 'parcels' }],
+        },
+        grounding: mockResponse.grounding,
+      });
+
+    await getState().sendMessage('Show high-value parcels');
+    await getState().sendMessage('Parcels near 99 Canyon Rd');
+
+    const state = getState();
+    expect(state.messages).toHaveLength(4);
+    expect(state.messages[3]!.content).toBe('Which address did you mean?');
+    expect(state.messages[3]!.clarification?.choices[0]?.label).toBe('101 CANYON RD');
+    expect(state.features).toHaveLength(1);
+    expect(state.currentQuery?.selectLayer).toBe('parcels');
+    expect(state.isLoading).toBe(false);
+    expect(state.conversationId).toBe('11111111-1111-4111-8111-111111111111');
+  });
+
   it('echoes returned conversation id on subsequent queries', async () => {
-    const { sendChatMessage } = await import('../src/lib/api');
-    vi.mocked(sendChatMessage).mockResolvedValue(mockResponse);
+    const { streamChatMessage } = await import('../src/lib/api');
+    vi.mocked(streamChatMessage).mockResolvedValue(mockResponse);
 
     await getState().sendMessage('Show high-value parcels');
     await getState().sendMessage('Filter those');
 
-    expect(vi.mocked(sendChatMessage).mock.calls[0]?.[1]).toBeUndefined();
-    expect(vi.mocked(sendChatMessage).mock.calls[1]?.[1]).toBe(
+    expect(vi.mocked(streamChatMessage).mock.calls[0]?.[1]).toBeUndefined();
+    expect(vi.mocked(streamChatMessage).mock.calls[1]?.[1]).toBe(
       '11111111-1111-4111-8111-111111111111'
     );
   });
 
+  it('sends a drawn shape with the next message only', async () => {
+    const { streamChatMessage } = await import('../src/lib/api');
+    vi.mocked(streamChatMessage).mockResolvedValue(mockResponse);
+    const shape = { type: 'rectangle' as const, bbox: [-105.97, 35.66, -105.92, 35.7] as [number, number, number, number] };
+
+    getState().setDrawnShape(shape);
+    await getState().sendMessage('Parcels in this box');
+    await getState().sendMessage('Only the vacant ones');
+
+    expect(vi.mocked(streamChatMessage).mock.calls[0]?.[3]).toEqual(shape);
+    expect(vi.mocked(streamChatMessage).mock.calls[1]?.[3]).toBeUndefined();
+    expect(getState().drawnShape).toBeNull();
+  });
+
+  it('stores context layers and resets toggles on each response', async () => {
+    const { streamChatMessage } = await import('../src/lib/api');
+    const contextLayers = [
+      { layer: 'flood_zones', result: { type: 'FeatureCollection' as const, features: [] } },
+      { layer: 'parks', result: { type: 'FeatureCollection' as const, features: [] } },
+    ];
+    vi.mocked(streamChatMessage).mockResolvedValue({ ...mockResponse, contextLayers });
+
+    await getState().sendMessage('Parcels in flood zones near parks');
+    expect(getState().contextLayers).toEqual(contextLayers);
+
+    getState().toggleContextLayer(1);
+    expect(getState().hiddenContextLayers).toEqual([1]);
+    getState().toggleContextLayer(1);
+    expect(getState().hiddenContextLayers).toEqual([]);
+
+    getState().toggleContextLayer(0);
+    vi.mocked(streamChatMessage).mockResolvedValue(mockResponse);
+    await getState().sendMessage('Show parcels');
+    expect(getState().contextLayers).toEqual([]);
+    expect(getState().hiddenContextLayers).toEqual([]);
+  });
+
+  it('restores a conversation from its history and replay', async () => {
+    const { getConversation, replayConversation } = await import('../src/lib/api');
+    const conversationId = '22222222-2222-4222-8222-222222222222';
+    vi.mocked(getConversation).mockResolvedValue({
+      conversationId,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      lastAccessedAt: '2026-01-01T00:05:00.000Z',
+      turns: [
+        {
+          turn: 1,
+          message: 'Show parcels',
+          query: { selectLayer: 'parcels' },
+          queryHash: 'a',
+          featureCount: 3,
+          explanation: 'Found 3 parcels.',
+          createdAt: '2026-01-01T00:00:00.000Z',
+        },
+        {
+          turn: 2,
+          message: 'Only the high-value ones',
+          query: mockResponse.query,
+          queryHash: 'b',
+          featureCount: 2,
+          explanation: 'Found 2 parcels.',
+          createdAt: '2026-01-01T00:05:00.000Z',
+        },
+      ],
+    });
+    vi.mocked(replayConversation).mockResolvedValue({
+      conversationId,
+      turns: [
+        { turn: 1, message: 'Show parcels', query: { selectLayer: 'parcels' }, featureCount: 3, previousFeatureCount: 3 },
+        { turn: 2, message: 'Only the high-value ones', query: mockResponse.query, featureCount: 1, previousFeatureCount: 2 },
+      ],
+      result: mockResponse.result,
+    });
+
+    await getState().restoreConversation(conversationId);
+
+    const state = getState();
+    expect(state.conversationId).toBe(conversationId);
+    expect(state.messages.map((message) => message.role)).toEqual([
+      'user',
+      'assistant',
+      'user',
+      'assistant',
+    ]);
+    expect(state.messages[2]!.content).toBe('Only the high-value ones');
+    expect(state.messages[1]!.content).toBe('Found 3 parcels.');
+    expect(state.messages[3]!.content).toBe(
+      'Found 2 parcels.\n\nWith current data this now returns 1 feature (was 2).'
+    );
+    expect(state.features).toHaveLength(1);
+    expect(state.currentQuery).toEqual(mockResponse.query);
+    expect(state.showResults).toBe(true);
+    expect(state.isLoading).toBe(false);
+  });
+
+  it('reports conversations that can no longer be restored', async () => {
+    const { getConversation, ApiClientError } = await import('../src/lib/api');
+    vi.mocked(getConversation).mockRejectedValue(
+      new ApiClientError('Conversation not found', 404)
+    );
+
+    await getState().restoreConversation('missing');
+
+    const state = getState();
+    expect(state.conversationId).toBeNull();
+    expect(state.messages).toHaveLength(1);
+    expect(state.messages[0]!.error).toBe('Conversation not found');
+    expect(state.isLoading).toBe(false);
+  });
+
+  it('shares the current query with the map view', async () => {
+    const { streamChatMessage, createShare } = await import('../src/lib/api');
+    vi.mocked(streamChatMessage).mockResolvedValue(mockResponse);
+    vi.mocked(createShare).mockResolvedValue({
+      id: 'abcdefghijkl',
+      query: mockResponse.query,
+      queryHash: 'hash',
+      registryGeneratedAt: '2026-04-30T00:00:00.000Z',
+      createdAt: '2026-05-01T00:00:00.000Z',
+    });
+
+    await getState().sendMessage('Show high-value parcels');
+    getState().setMapView({ center: [-105.94, 35.69], zoom: 14 });
+    const url = await getState().shareResults({ choroplethField: null });
+
+    expect(createShare).toHaveBeenCalledWith({
+      query: mockResponse.query,
+      mapView: { center: [-105.94, 35.69], zoom: 14 },
+      style: { choroplethField: null },
+    });
+    expect(url).toBe(`${window.location.origin}/?q=abcdefghijkl`);
+  });
+
+  it('loads a shared view by running its query', async () => {
+    const { getShare, executeQuery } = await import('../src/lib/api');
+    const shared = {
+      id: 'abcdefghijkl',
+      query: mockResponse.query,
+      queryHash: 'hash',
+      registryGeneratedAt: '2026-04-30T00:00:00.000Z',
+      mapView: { center: [-105.94, 35.69] as [number, number], zoom: 15 },
+      createdAt: '2026-05-01T00:00:00.000Z',
+    };
+    vi.mocked(getShare).mockResolvedValue(shared);
+    vi.mocked(executeQuery).mockResolvedValue(mockResponse.result);
+
+    await getState().loadShare('abcdefghijkl');
+
+    expect(executeQuery).toHaveBeenCalledWith(mockResponse.query);
+    const state = getState();
+    expect(state.features).toHaveLength(1);
+    expect(state.currentQuery).toEqual(mockResponse.query);
+    expect(state.restoredView).toEqual(shared.mapView);
+    expect(state.sharedView?.registryGeneratedAt).toBe('2026-04-30T00:00:00.000Z');
+    expect(state.showResults).toBe(true);
+
+    // A new question moves on from the shared view
+    const { streamChatMessage } = await import('../src/lib/api');
+    vi.mocked(streamChatMessage).mockResolvedValue(mockResponse);
+    await getState().sendMessage('Show parcels');
+    expect(getState().restoredView).toBeNull();
+    expect(getState().sharedView).toBeNull();
+  });
+
+  it('renders streamed features before the narrative finishes', async () => {
+    const { streamChatMessage } = await import('../src/lib/api');
+    let finish: () => void = () => {};
+    vi.mocked(streamChatMessage).mockImplementationOnce(
+      async (_message, _conversationId, _lang, _shape, onEvent) => {
+        onEvent({ event: 'grounding', data: mockResponse.grounding });
+        onEvent({
+          event: 'query',
+          data: { conversationId: mockResponse.conversationId!, query: mockResponse.query, confidence: 0.8 },
+        });
+        onEvent({ event: 'features', data: { features: mockResponse.result.features, chunk: 1, chunks: 1 } });
+        onEvent({ event: 'summary', data: { summary: mockResponse.summary, metadata: mockResponse.metadata } });
+        onEvent({ event: 'narrative', data: { delta: 'Equity ' } });
+        await new Promise<void>((resolve) => {
+          finish = resolve;
+        });
+        onEvent({ event: 'narrative', data: { delta: 'narrative.' } });
+        return { ...mockResponse, explanation: 'Equity narrative.', equityNarrative: 'Equity narrative.' };
+      }
+    );
+
+    const sending = getState().sendMessage('Show high-value parcels');
+
+    await vi.waitFor(() => {
+      expect(getState().features).toHaveLength(1);
+    });
+    expect(getState().isLoading).toBe(true);
+    expect(getState().showResults).toBe(true);
+    expect(getState().currentQuery).toEqual(mockResponse.query);
+    expect(getState().queryMetadata).toEqual(mockResponse.metadata);
+    expect(getState().equityNarrative).toBe('Equity ');
+    expect(getState().messages).toHaveLength(1);
+
+    finish();
+    await sending;
+
+    expect(getState().isLoading).toBe(false);
+    expect(getState().equityNarrative).toBe('Equity narrative.');
+    expect(getState().messages).toHaveLength(2);
+  });
+
+  it('keeps the current query when the stream fails before any features', async () => {
+    const { streamChatMessage, ApiClientError } = await import('../src/lib/api');
+    vi.mocked(streamChatMessage).mockResolvedValueOnce(mockResponse);
+    await getState().sendMessage('Show high-value parcels');
+    vi.mocked(streamChatMessage).mockImplementationOnce(
+      async (_message, _conversationId, _lang, _shape, onEvent) => {
+        onEvent({
+          event: 'query',
+          data: { conversationId: mockResponse.conversationId!, query: { selectLayer: 'parks' }, confidence: 0.8 },
+        });
+        throw new ApiClientError('Query execution failed', 500);
+      }
+    );
+
+    await getState().sendMessage('Show parks');
+
+    expect(getState().currentQuery).toEqual(mockResponse.query);
+    expect(getState().features).toEqual(mockResponse.result.features);
+  });
+
   it('handles API errors gracefully', async () => {
-    const { sendChatMessage, ApiClientError } = await import('../src/lib/api');
-    vi.mocked(sendChatMessage).mockRejectedValue(
+    const { streamChatMessage, ApiClientError } = await import('../src/lib/api');
+    vi.mocked(streamChatMessage).mockRejectedValue(
       new ApiClientError('Unsupported request', 400, 'Missing layer', ['Try parcels instead'])
     );
 
@@ -196,8 +454,8 @@ describe('Chat store', () => {
   });
 
   it('formats array error details into readable text', async () => {
-    const { sendChatMessage, ApiClientError } = await import('../src/lib/api');
-    vi.mocked(sendChatMessage).mockRejectedValue(
+    const { streamChatMessage, ApiClientError } = await import('../src/lib/api');
+    vi.mocked(streamChatMessage).mockRejectedValue(
       new ApiClientError('Could not understand query', 400, ['Missing layer', 'Unknown field'])
     );
 
@@ -209,8 +467,8 @@ describe('Chat store', () => {
   });
 
   it('formats object error details using message field', async () => {
-    const { sendChatMessage, ApiClientError } = await import('../src/lib/api');
-    vi.mocked(sendChatMessage).mockRejectedValue(
+    const { streamChatMessage, ApiClientError } = await import('../src/lib/api');
+    vi.mocked(streamChatMessage).mockRejectedValue(
       new ApiClientError('Could not understand query', 400, { message: 'Layer not loaded' })
     );
 
@@ -262,8 +520,8 @@ describe('Chat store', () => {
   });
 
   it('clearConversation resets all state', async () => {
-    const { sendChatMessage } = await import('../src/lib/api');
-    vi.mocked(sendChatMessage).mockResolvedValue(mockResponse);
+    const { streamChatMessage } = await import('../src/lib/api');
+    vi.mocked(streamChatMessage).mockResolvedValue(mockResponse);
 
     await getState().sendMessage('Show parcels');
     expect(getState().messages.length).toBeGreaterThan(0);
@@ -0,0 +1,127 @@
+/**
+ * Tests for choropleth configuration.
+ *
+ * Covers: spatial aggregate quantile breaks, overlap-share classes,
+ * density counts and hot-spot z-scores, and step expressions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Feature, Geometry } from 'geojson';
+import {
+  buildFillColorExpression,
+  computeQuantileBreaks,
+  getChoroplethConfig,
+} from '../src/lib/choropleth';
+import type { StructuredQuery } from '../src/types/api';
+
+function polygonWith(properties: Record<string, unknown>): Feature<Geometry, Record<string, unknown>> {
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'MultiPolygon',
+      coordinates: [[[[-105.94, 35.69], [-105.93, 35.69], [-105.93, 35.68], [-105.94, 35.69]]]],
+    },
+    properties,
+  };
+}
+
+const spatialAggregateQuery: StructuredQuery = {
+  selectLayer: 'short_term_rentals',
+  aggregate: {
+    groupBy: [],
+    metrics: [{ field: '*', op: 'count', alias: 'str_count' }],
+    spatialGroupBy: { layer: 'neighborhoods', fields: ['name'] },
+  },
+};
+
+describe('computeQuantileBreaks', () => {
+  it('returns strictly ascending breaks above the minimum', () => {
+    expect(computeQuantileBreaks([0, 0, 0, 1, 2, 3, 5, 8, 13, 21])).toEqual([2, 5, 13]);
+  });
+
+  it('collapses ties into fewer breaks', () => {
+    expect(computeQuantileBreaks([4, 4, 4, 4])).toEqual([]);
+  });
+});
+
+describe('getChoroplethConfig', () => {
+  it('colors spatial aggregate polygons by the first metric', () => {
+    const features = [0, 2, 5, 9, 14, 30].map((count, i) =>
+      polygonWith({ name: `N${i}`, str_count: count })
+    );
+
+    const config = getChoroplethConfig(spatialAggregateQuery, features);
+
+    expect(config?.field).toBe('str_count');
+    expect(config?.classLabels.length).toBe(config!.breaks.length + 1);
+    expect(config?.colorRamp.length).toBe(config!.breaks.length + 1);
+    expect(buildFillColorExpression(config!)[1]).toEqual(['get', 'str_count']);
+  });
+
+  it('returns null for spatial aggregates without polygon geometry', () => {
+    const features = [{ ...polygonWith({ str_count: 3 }), geometry: { type: 'Point' as const, coordinates: [-105.9, 35.6] } }];
+    expect(getChoroplethConfig(spatialAggregateQuery, features)).toBeNull();
+  });
+
+  it('colors overlap share results with fixed percent classes', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'census_tracts',
+      overlap: { targetLayer: 'flood_zones' },
+    };
+    const features = [0, 12.5, 40, 88].map((pct) =>
+      polygonWith({ geoid: '35049', median_income: 52000, overlap_pct: pct })
+    );
+
+    const config = getChoroplethConfig(query, features);
+
+    expect(config?.field).toBe('overlap_pct');
+    expect(config?.breaks).toEqual([10, 25, 50, 75]);
+    expect(config?.format(12.5)).toBe('13%');
+  });
+
+  it('uses the field a shared view was styled with', () => {
+    const query: StructuredQuery = { selectLayer: 'census_tracts' };
+    const features = [{
+      ...polygonWith({ geoid: '35049', median_income: 52000, pct_renter: 41 }),
+      geometry: {
+        type: 'Polygon' as const,
+        coordinates: [[[-105.94, 35.69], [-105.93, 35.69], [-105.93, 35.68], [-105.94, 35.69]]],
+      },
+    }];
+
+    expect(getChoroplethConfig(query, features)?.field).toBe('median_income');
+    expect(getChoroplethConfig(query, features, 'pct_renter')?.field).toBe('pct_renter');
+    expect(getChoroplethConfig(query, features, null)).toBeNull();
+  });
+
+  it('colors hot-spot z-scores with diverging significance classes', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'short_term_rentals',
+      density: { method: 'hotspot' },
+    };
+    const features = [-2.4, 0.3, 1.8, 3.1].map((z) =>
+      polygonWith({ geoid: '35049', point_count: 4, gi_zscore: z })
+    );
+
+    const config = getChoroplethConfig(query, features);
+
+    expect(config?.field).toBe('gi_zscore');
+    expect(config?.breaks).toEqual([-1.96, -1.645, 1.645, 1.96]);
+    expect(config?.colorRamp).toHaveLength(5);
+  });
+
+  it('classes grid density counts by quantile', () => {
+    const query: StructuredQuery = {
+      selectLayer: 'short_term_rentals',
+      density: { method: 'grid' },
+    };
+    const features = [1, 2, 3, 5, 8, 13, 21, 34, 55, 89].map((count) =>
+      polygonWith({ cell_id: `${count}_0`, point_count: count })
+    );
+
+    const config = getChoroplethConfig(query, features);
+
+    expect(config?.field).toBe('point_count');
+    expect(config?.breaks).toEqual([3, 8, 21, 55]);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Tests for the conversation id URL helpers.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readConversationId, writeConversationId } from '../src/lib/conversation-url';
+
+describe('conversation URL', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/?lang=es');
+  });
+
+  it('reads the conversation id from the query string', () => {
+    expect(readConversationId()).toBeNull();
+    window.history.replaceState(null, '', '/?conversation=abc-123');
+    expect(readConversationId()).toBe('abc-123');
+  });
+
+  it('writes and clears the id without touching other parameters', () => {
+    const length = window.history.length;
+
+    writeConversationId('abc-123');
+    expect(window.location.search).toBe('?lang=es&conversation=abc-123');
+
+    writeConversationId(null);
+    expect(window.location.search).toBe('?lang=es');
+    expect(window.history.length).toBe(length);
+  });
+});
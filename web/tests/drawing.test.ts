@@ -0,0 +1,78 @@
+/**
+ * Tests for map drawing helpers.
+ *
+ * Covers: polygon ring closing, rectangle corner ordering, and the
+ * display polygons for each drawn shape type.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  circlePolygon,
+  drawnShapeToFeature,
+  pointWithRadius,
+  polygonFromVertices,
+  rectangleFromCorners,
+} from '../src/lib/drawing';
+
+describe('polygonFromVertices', () => {
+  it('closes the ring and drops double-click duplicates', () => {
+    const shape = polygonFromVertices([
+      [-105.95, 35.68],
+      [-105.93, 35.68],
+      [-105.93, 35.7],
+      [-105.93, 35.7],
+    ]);
+
+    expect(shape).toEqual({
+      type: 'polygon',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[-105.95, 35.68], [-105.93, 35.68], [-105.93, 35.7], [-105.95, 35.68]]],
+      },
+    });
+  });
+
+  it('needs three distinct vertices', () => {
+    expect(polygonFromVertices([[-105.95, 35.68], [-105.93, 35.68], [-105.93, 35.68]])).toBeNull();
+  });
+});
+
+describe('rectangleFromCorners', () => {
+  it('orders corners into a min/max bbox', () => {
+    expect(rectangleFromCorners([-105.92, 35.7], [-105.97, 35.66])).toEqual({
+      type: 'rectangle',
+      bbox: [-105.97, 35.66, -105.92, 35.7],
+    });
+  });
+
+  it('ignores zero-area drags', () => {
+    expect(rectangleFromCorners([-105.92, 35.7], [-105.92, 35.66])).toBeNull();
+  });
+});
+
+describe('drawnShapeToFeature', () => {
+  it('draws a rectangle as a closed polygon', () => {
+    const feature = drawnShapeToFeature({ type: 'rectangle', bbox: [-105.97, 35.66, -105.92, 35.7] });
+
+    expect(feature.geometry.coordinates[0]).toHaveLength(5);
+    expect(feature.geometry.coordinates[0]![0]).toEqual(feature.geometry.coordinates[0]![4]);
+    expect(feature.properties).toEqual({ shapeType: 'rectangle' });
+  });
+
+  it('draws a point as a circle of the chosen radius', () => {
+    const feature = drawnShapeToFeature(pointWithRadius([-105.94, 35.687], 500));
+    const ring = feature.geometry.coordinates[0]!;
+
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+    // First vertex is due north: 500 m is about 0.0045 degrees of latitude
+    expect(ring[0]![0]).toBeCloseTo(-105.94, 6);
+    expect(ring[0]![1] - 35.687).toBeCloseTo(0.0045, 4);
+  });
+
+  it('scales the circle with the radius', () => {
+    const small = circlePolygon([-105.94, 35.687], 250).coordinates[0]![0]!;
+    const large = circlePolygon([-105.94, 35.687], 1000).coordinates[0]![0]!;
+
+    expect((large[1]! - 35.687) / (small[1]! - 35.687)).toBeCloseTo(4, 6);
+  });
+});
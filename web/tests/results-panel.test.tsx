@@ -1,12 +1,12 @@
 /**
  * Tests for the ResultsPanel component.
  *
- * Covers: rendering, export buttons, keyboard navigation,
+ * Covers: rendering, export and share buttons, keyboard navigation,
  * feature selection, and accessibility attributes.
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { ResultsPanel } from '../src/components/ResultsPanel';
 import type { Feature, Geometry } from 'geojson';
 
@@ -69,6 +69,42 @@ describe('ResultsPanel', () => {
     expect(screen.getByText('P002')).toBeInTheDocument();
   });
 
+  it('shows closest-target columns ahead of other layer fields', () => {
+    const feature: Feature<Geometry, Record<string, unknown>> = {
+      ...mockFeatures[0]!,
+      properties: {
+        parcel_id: 'P001',
+        address: '100 Main St',
+        zoning: 'R-1',
+        land_use: 'residential',
+        acres: 0.25,
+        assessed_value: 350000,
+        transit_access_distance_m: 182.4,
+        transit_access_stop_id: 'S-17',
+      },
+    };
+    render(
+      <ResultsPanel
+        {...defaultProps}
+        features={[feature]}
+        query={{
+          selectLayer: 'parcels',
+          spatialFilters: [
+            {
+              op: 'within_distance',
+              targetLayer: 'transit_access',
+              distance: 400,
+              targetFields: ['stop_id'],
+            },
+          ],
+        }}
+      />
+    );
+
+    expect(screen.getByText('S-17')).toBeInTheDocument();
+    expect(screen.getByText('182.4')).toBeInTheDocument();
+  });
+
   it('calls onFeatureSelect when row is clicked', () => {
     const onFeatureSelect = vi.fn();
     render(<ResultsPanel {...defaultProps} onFeatureSelect={onFeatureSelect} />);
@@ -145,4 +181,52 @@ describe('ResultsPanel', () => {
     expect(createObjectURL).toHaveBeenCalled();
     expect(revokeObjectURL).toHaveBeenCalled();
   });
+
+  it('creates and copies a permalink on share click', async () => {
+    const writeText = vi.fn(async () => {});
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    const onShare = vi.fn(async () => 'http://localhost/?q=abcdefghijkl');
+
+    render(<ResultsPanel {...defaultProps} onShare={onShare} />);
+    fireEvent.click(screen.getByRole('button', { name: /create a link/i }));
+
+    expect(await screen.findByText('Link copied')).toBeInTheDocument();
+    expect(writeText).toHaveBeenCalledWith('http://localhost/?q=abcdefghijkl');
+    expect(screen.getByRole('textbox', { name: 'Permalink' })).toHaveValue(
+      'http://localhost/?q=abcdefghijkl'
+    );
+  });
+
+  it('reports a failed share', async () => {
+    const onShare = vi.fn(async () => {
+      throw new Error('Query validation failed');
+    });
+
+    render(<ResultsPanel {...defaultProps} onShare={onShare} />);
+    fireEvent.click(screen.getByRole('button', { name: /create a link/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText("Couldn't create a link for this query.")).toBeInTheDocument();
+    });
+  });
+
+  it('disables share for results built on an earlier answer', () => {
+    const onShare = vi.fn(async () => 'http://localhost/?q=abcdefghijkl');
+    const query = {
+      selectLayer: 'parcels' as const,
+      spatialFilters: [{ op: 'within_distance' as const, targetLayer: '$previous', distance: 100 }],
+    };
+
+    render(<ResultsPanel {...defaultProps} query={query} onShare={onShare} />);
+    const button = screen.getByRole('button', { name: /create a link/i });
+
+    expect(button).toBeDisabled();
+    expect(button).toHaveAttribute('title', "Results built on an earlier answer can't be shared");
+  });
+
+  it('shows the data vintage of a shared view', () => {
+    render(<ResultsPanel {...defaultProps} dataGeneratedAt="2026-04-30T00:00:00.000Z" />);
+
+    expect(screen.getByText('Data as of')).toBeInTheDocument();
+  });
 });
@@ -0,0 +1,29 @@
+/**
+ * Tests for the share permalink URL helpers.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildShareUrl, clearShareId, readShareId } from '../src/lib/share-url';
+
+describe('share URL', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('reads the share id from the query string', () => {
+    expect(readShareId()).toBeNull();
+    window.history.replaceState(null, '', '/?q=abcdefghijkl');
+    expect(readShareId()).toBe('abcdefghijkl');
+  });
+
+  it('builds a link without the current query string', () => {
+    window.history.replaceState(null, '', '/?conversation=abc');
+    expect(buildShareUrl('abcdefghijkl')).toBe(`${window.location.origin}/?q=abcdefghijkl`);
+  });
+
+  it('clears only the share id', () => {
+    window.history.replaceState(null, '', '/?q=abcdefghijkl&lang=es');
+    clearShareId();
+    expect(window.location.search).toBe('?lang=es');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for the Server-Sent Events reader.
+ *
+ * Covers: event blocks split across network chunks, multi-line data,
+ * comments, and a final event without a trailing blank line.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseServerSentEvent, readServerSentEvents } from '../src/lib/sse';
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+describe('parseServerSentEvent', () => {
+  it('reads the event name and joins data lines', () => {
+    expect(parseServerSentEvent('event: features\ndata: {"a":\ndata: 1}')).toEqual({
+      event: 'features',
+      data: '{"a":\n1}',
+    });
+  });
+
+  it('defaults to message events and skips comments and empty blocks', () => {
+    expect(parseServerSentEvent(': keep-alive\ndata:hello')).toEqual({
+      event: 'message',
+      data: 'hello',
+    });
+    expect(parseServerSentEvent(': keep-alive')).toBeNull();
+  });
+});
+
+describe('readServerSentEvents', () => {
+  it('yields events split across chunks', async () => {
+    const events = [];
+    for await (const event of readServerSentEvents(
+      streamOf(['event: query\ndata: {"q"', ':1}\n\nevent: done\r\n', 'data: {}\r\n\r\nevent: tail\ndata: x'])
+    )) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { event: 'query', data: '{"q":1}' },
+      { event: 'done', data: '{}' },
+      { event: 'tail', data: 'x' },
+    ]);
+  });
+});